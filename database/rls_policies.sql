@@ -5,6 +5,24 @@
 ALTER TABLE profiles ENABLE ROW LEVEL SECURITY;
 ALTER TABLE transactions ENABLE ROW LEVEL SECURITY;
 ALTER TABLE quest_types ENABLE ROW LEVEL SECURITY;
+ALTER TABLE wallet_exceptions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE allowances ENABLE ROW LEVEL SECURITY;
+ALTER TABLE allowance_grants ENABLE ROW LEVEL SECURITY;
+ALTER TABLE app_pricing ENABLE ROW LEVEL SECURITY;
+ALTER TABLE apps ENABLE ROW LEVEL SECURITY;
+ALTER TABLE schedule_rules ENABLE ROW LEVEL SECURITY;
+ALTER TABLE spending_caps ENABLE ROW LEVEL SECURITY;
+ALTER TABLE rewards ENABLE ROW LEVEL SECURITY;
+ALTER TABLE savings_goals ENABLE ROW LEVEL SECURITY;
+ALTER TABLE reward_redemptions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE credit_lines ENABLE ROW LEVEL SECURITY;
+ALTER TABLE loans ENABLE ROW LEVEL SECURITY;
+ALTER TABLE transfer_settings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE token_transfers ENABLE ROW LEVEL SECURITY;
+ALTER TABLE app_sessions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE session_leases ENABLE ROW LEVEL SECURITY;
+ALTER TABLE clock_events ENABLE ROW LEVEL SECURITY;
+ALTER TABLE quest_completions ENABLE ROW LEVEL SECURITY;
 
 -- Profiles table policies
 -- Users can view and update their own profile
@@ -16,17 +34,22 @@ CREATE POLICY "Users can update own profile" ON profiles
 
 -- Parents can view child profiles (this would require additional logic to link parent-child relationships)
 -- For now, we'll implement basic self-access and extend later for family relationships
+-- New profiles always start with an empty wallet
 CREATE POLICY "Users can insert own profile" ON profiles
-  FOR INSERT WITH CHECK (auth.uid() = id);
+  FOR INSERT WITH CHECK (
+    auth.uid() = id AND
+    COALESCE(balance, 0) = 0 AND
+    COALESCE(total_earned, 0) = 0 AND
+    COALESCE(total_spent, 0) = 0
+  );
 
 -- Transactions table policies
 -- Users can view their own transactions
 CREATE POLICY "Users can view own transactions" ON transactions
   FOR SELECT USING (auth.uid() = user_id);
 
--- Users can insert their own transactions
-CREATE POLICY "Users can insert own transactions" ON transactions
-  FOR INSERT WITH CHECK (auth.uid() = user_id);
+-- Transactions are only created by the wallet_* RPCs (SECURITY DEFINER),
+-- so there is no INSERT policy for clients
 
 -- Prevent users from updating or deleting transactions (immutable audit trail)
 CREATE POLICY "Transactions are immutable" ON transactions
@@ -132,6 +155,301 @@ CREATE POLICY "Parents can view children transactions" ON transactions
     )
   );
 
+-- Wallet exceptions are visible to the child and their parents; only parents can resolve them
+CREATE POLICY "Users can view own wallet exceptions" ON wallet_exceptions
+  FOR SELECT USING (
+    auth.uid() = user_id OR
+    EXISTS (
+      SELECT 1 FROM family_relationships 
+      WHERE parent_id = auth.uid() 
+      AND child_id = wallet_exceptions.user_id
+    )
+  );
+
+CREATE POLICY "Parents can resolve children wallet exceptions" ON wallet_exceptions
+  FOR UPDATE USING (
+    EXISTS (
+      SELECT 1 FROM family_relationships 
+      WHERE parent_id = auth.uid() 
+      AND child_id = wallet_exceptions.user_id
+    )
+  );
+
+-- Children can view their allowance; parents manage allowances for their children
+CREATE POLICY "Users can view own allowance" ON allowances
+  FOR SELECT USING (
+    auth.uid() = child_id OR
+    EXISTS (
+      SELECT 1 FROM family_relationships 
+      WHERE parent_id = auth.uid() 
+      AND child_id = allowances.child_id
+    )
+  );
+
+CREATE POLICY "Parents can manage children allowances" ON allowances
+  FOR ALL USING (
+    EXISTS (
+      SELECT 1 FROM family_relationships 
+      WHERE parent_id = auth.uid() 
+      AND child_id = allowances.child_id
+    )
+  ) WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM family_relationships 
+      WHERE parent_id = auth.uid() 
+      AND child_id = allowances.child_id
+    )
+  );
+
+-- Children can view their credit line; parents set credit limits for their children
+CREATE POLICY "Users can view own credit line" ON credit_lines
+  FOR SELECT USING (
+    auth.uid() = child_id OR
+    EXISTS (
+      SELECT 1 FROM family_relationships 
+      WHERE parent_id = auth.uid() 
+      AND child_id = credit_lines.child_id
+    )
+  );
+
+CREATE POLICY "Parents can manage children credit lines" ON credit_lines
+  FOR ALL USING (
+    EXISTS (
+      SELECT 1 FROM family_relationships 
+      WHERE parent_id = auth.uid() 
+      AND child_id = credit_lines.child_id
+    )
+  ) WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM family_relationships 
+      WHERE parent_id = auth.uid() 
+      AND child_id = credit_lines.child_id
+    )
+  );
+
+-- Loans are written only by wallet_borrow and repay_loans_from_income
+CREATE POLICY "Users can view own loans" ON loans
+  FOR SELECT USING (
+    auth.uid() = child_id OR
+    EXISTS (
+      SELECT 1 FROM family_relationships 
+      WHERE parent_id = auth.uid() 
+      AND child_id = loans.child_id
+    )
+  );
+
+-- Children can view their transfer rule; parents set approval thresholds for their children
+CREATE POLICY "Users can view own transfer settings" ON transfer_settings
+  FOR SELECT USING (
+    auth.uid() = child_id OR
+    EXISTS (
+      SELECT 1 FROM family_relationships 
+      WHERE parent_id = auth.uid() 
+      AND child_id = transfer_settings.child_id
+    )
+  );
+
+CREATE POLICY "Parents can manage children transfer settings" ON transfer_settings
+  FOR ALL USING (
+    EXISTS (
+      SELECT 1 FROM family_relationships 
+      WHERE parent_id = auth.uid() 
+      AND child_id = transfer_settings.child_id
+    )
+  ) WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM family_relationships 
+      WHERE parent_id = auth.uid() 
+      AND child_id = transfer_settings.child_id
+    )
+  );
+
+-- Transfers are written only by wallet_transfer and decide_token_transfer.
+-- Both sides can see a transfer, as can the parents of either side.
+CREATE POLICY "Users can view own token transfers" ON token_transfers
+  FOR SELECT USING (
+    auth.uid() IN (from_user_id, to_user_id) OR
+    EXISTS (
+      SELECT 1 FROM family_relationships 
+      WHERE parent_id = auth.uid() 
+      AND child_id IN (token_transfers.from_user_id, token_transfers.to_user_id)
+    )
+  );
+
+-- App sessions are written only by open/heartbeat/close_app_session and close_stale_app_sessions
+CREATE POLICY "Users can view own app sessions" ON app_sessions
+  FOR SELECT USING (
+    auth.uid() = child_id OR
+    EXISTS (
+      SELECT 1 FROM family_relationships 
+      WHERE parent_id = auth.uid() 
+      AND child_id = app_sessions.child_id
+    )
+  );
+
+-- Quest completions are written only by wallet_complete_quest
+CREATE POLICY "Users can view own quest completions" ON quest_completions
+  FOR SELECT USING (
+    auth.uid() = child_id OR
+    EXISTS (
+      SELECT 1 FROM family_relationships 
+      WHERE parent_id = auth.uid() 
+      AND child_id = quest_completions.child_id
+    )
+  );
+
+-- Session leases are written only by acquire_session_lease and release_session_lease
+CREATE POLICY "Users can view own session lease" ON session_leases
+  FOR SELECT USING (
+    auth.uid() = child_id OR
+    EXISTS (
+      SELECT 1 FROM family_relationships 
+      WHERE parent_id = auth.uid() 
+      AND child_id = session_leases.child_id
+    )
+  );
+
+-- Clock events are written only by report_clock_event
+CREATE POLICY "Users can view own clock events" ON clock_events
+  FOR SELECT USING (
+    auth.uid() = child_id OR
+    EXISTS (
+      SELECT 1 FROM family_relationships 
+      WHERE parent_id = auth.uid() 
+      AND child_id = clock_events.child_id
+    )
+  );
+
+-- Allowance grants are written only by grant_due_allowances
+CREATE POLICY "Users can view own allowance grants" ON allowance_grants
+  FOR SELECT USING (
+    auth.uid() = child_id OR
+    EXISTS (
+      SELECT 1 FROM family_relationships 
+      WHERE parent_id = auth.uid() 
+      AND child_id = allowance_grants.child_id
+    )
+  );
+
+-- Parents manage their family's app pricing; children read the pricing of their linked parents
+CREATE POLICY "Users can view family app pricing" ON app_pricing
+  FOR SELECT USING (
+    auth.uid() = parent_id OR
+    EXISTS (
+      SELECT 1 FROM family_relationships 
+      WHERE parent_id = app_pricing.parent_id 
+      AND child_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Parents can manage own app pricing" ON app_pricing
+  FOR ALL USING (
+    auth.uid() = parent_id AND is_parent()
+  ) WITH CHECK (
+    auth.uid() = parent_id AND is_parent()
+  );
+
+-- Parents manage their family's app catalog; children read the catalogs of their linked parents
+CREATE POLICY "Users can view family apps" ON apps
+  FOR SELECT USING (
+    auth.uid() = parent_id OR
+    EXISTS (
+      SELECT 1 FROM family_relationships 
+      WHERE parent_id = apps.parent_id 
+      AND child_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Parents can manage own apps" ON apps
+  FOR ALL USING (
+    auth.uid() = parent_id AND is_parent()
+  ) WITH CHECK (
+    auth.uid() = parent_id AND is_parent()
+  );
+
+-- Schedule rules follow the same family visibility as app pricing
+CREATE POLICY "Users can view family schedule rules" ON schedule_rules
+  FOR SELECT USING (
+    auth.uid() = parent_id OR
+    EXISTS (
+      SELECT 1 FROM family_relationships 
+      WHERE parent_id = schedule_rules.parent_id 
+      AND child_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Parents can manage own schedule rules" ON schedule_rules
+  FOR ALL USING (
+    auth.uid() = parent_id AND is_parent()
+  ) WITH CHECK (
+    auth.uid() = parent_id AND is_parent()
+  );
+
+-- Children can view their spending caps; parents manage caps for their children
+CREATE POLICY "Users can view own spending caps" ON spending_caps
+  FOR SELECT USING (
+    auth.uid() = child_id OR
+    EXISTS (
+      SELECT 1 FROM family_relationships 
+      WHERE parent_id = auth.uid() 
+      AND child_id = spending_caps.child_id
+    )
+  );
+
+CREATE POLICY "Parents can manage children spending caps" ON spending_caps
+  FOR ALL USING (
+    EXISTS (
+      SELECT 1 FROM family_relationships 
+      WHERE parent_id = auth.uid() 
+      AND child_id = spending_caps.child_id
+    )
+  ) WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM family_relationships 
+      WHERE parent_id = auth.uid() 
+      AND child_id = spending_caps.child_id
+    )
+  );
+
+-- Rewards are per family: children see their linked parents' catalogs
+CREATE POLICY "Users can view family rewards" ON rewards
+  FOR SELECT USING (
+    auth.uid() = parent_id OR
+    EXISTS (
+      SELECT 1 FROM family_relationships 
+      WHERE parent_id = rewards.parent_id 
+      AND child_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Parents can manage own rewards" ON rewards
+  FOR ALL USING (
+    auth.uid() = parent_id AND is_parent()
+  ) WITH CHECK (
+    auth.uid() = parent_id AND is_parent()
+  );
+
+-- Savings goals and redemptions are written only by the goal RPCs
+CREATE POLICY "Users can view own savings goals" ON savings_goals
+  FOR SELECT USING (
+    auth.uid() = child_id OR
+    EXISTS (
+      SELECT 1 FROM family_relationships 
+      WHERE parent_id = auth.uid() 
+      AND child_id = savings_goals.child_id
+    )
+  );
+
+CREATE POLICY "Users can view own reward redemptions" ON reward_redemptions
+  FOR SELECT USING (
+    auth.uid() = child_id OR
+    EXISTS (
+      SELECT 1 FROM family_relationships 
+      WHERE parent_id = auth.uid() 
+      AND child_id = reward_redemptions.child_id
+    )
+  );
+
 -- Create indexes for family relationships
 CREATE INDEX IF NOT EXISTS idx_family_relationships_parent ON family_relationships(parent_id);
 CREATE INDEX IF NOT EXISTS idx_family_relationships_child ON family_relationships(child_id);
@@ -194,6 +512,573 @@ BEGIN
 END;
 $$ LANGUAGE plpgsql SECURITY DEFINER;
 
+-- Function to check whether two profiles belong to the same family:
+-- a parent and their linked child, or two children who share a linked parent
+CREATE OR REPLACE FUNCTION are_family_members(p_user_a UUID, p_user_b UUID)
+RETURNS BOOLEAN AS $$
+BEGIN
+  RETURN EXISTS (
+    SELECT 1 FROM family_relationships
+    WHERE (parent_id = p_user_a AND child_id = p_user_b)
+    OR (parent_id = p_user_b AND child_id = p_user_a)
+  ) OR EXISTS (
+    SELECT 1 FROM family_relationships a
+    JOIN family_relationships b ON a.parent_id = b.parent_id
+    WHERE a.child_id = p_user_a
+    AND b.child_id = p_user_b
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER STABLE;
+
+-- Function to list everyone the signed-in user can send tokens to
+-- Children cannot read their siblings' profiles, so this only exposes ids and roles
+CREATE OR REPLACE FUNCTION get_family_members()
+RETURNS TABLE (
+  member_id UUID,
+  member_role TEXT,
+  relation TEXT
+) AS $$
+DECLARE
+  current_user_id UUID := auth.uid();
+BEGIN
+  RETURN QUERY
+  SELECT DISTINCT ON (p.id)
+    p.id,
+    p.role,
+    CASE
+      WHEN EXISTS (
+        SELECT 1 FROM family_relationships
+        WHERE parent_id = p.id AND child_id = current_user_id
+      ) THEN 'parent'
+      WHEN EXISTS (
+        SELECT 1 FROM family_relationships
+        WHERE parent_id = current_user_id AND child_id = p.id
+      ) THEN 'child'
+      ELSE 'sibling'
+    END
+  FROM profiles p
+  WHERE p.id <> current_user_id
+  AND are_family_members(current_user_id, p.id)
+  ORDER BY p.id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER STABLE;
+
+-- Function to send tokens to another member of the caller's family
+-- The transfer completes immediately unless the sender is a child whose parent set an
+-- approval threshold below the amount; then it waits as 'pending' for decide_token_transfer.
+CREATE OR REPLACE FUNCTION wallet_transfer(
+  p_to_user_id UUID,
+  p_amount INTEGER,
+  p_note TEXT DEFAULT NULL
+)
+RETURNS JSON AS $$
+DECLARE
+  current_user_id UUID := auth.uid();
+  sender profiles;
+  threshold INTEGER;
+  new_transfer token_transfers;
+BEGIN
+  IF current_user_id IS NULL THEN
+    RAISE EXCEPTION 'User must be authenticated to send tokens';
+  END IF;
+
+  IF p_amount IS NULL OR p_amount <= 0 THEN
+    RAISE EXCEPTION 'Transfer amount must be positive';
+  END IF;
+
+  IF p_to_user_id IS NULL OR p_to_user_id = current_user_id THEN
+    RAISE EXCEPTION 'Choose someone else to send tokens to';
+  END IF;
+
+  IF NOT are_family_members(current_user_id, p_to_user_id) THEN
+    RAISE EXCEPTION 'Tokens can only be sent within your family'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  SELECT * INTO sender FROM profiles WHERE id = current_user_id;
+  IF sender.balance < p_amount THEN
+    RAISE EXCEPTION 'Insufficient balance. Current balance: %, Required: %', sender.balance, p_amount;
+  END IF;
+
+  INSERT INTO token_transfers (from_user_id, to_user_id, amount, note)
+  VALUES (current_user_id, p_to_user_id, p_amount, NULLIF(btrim(p_note), ''))
+  RETURNING * INTO new_transfer;
+
+  IF sender.role = 'child' THEN
+    SELECT approval_threshold INTO threshold
+    FROM transfer_settings
+    WHERE child_id = current_user_id;
+
+    IF threshold IS NOT NULL AND p_amount > threshold THEN
+      RETURN json_build_object(
+        'transfer', row_to_json(new_transfer),
+        'transaction', NULL,
+        'profile', row_to_json(sender)
+      );
+    END IF;
+  END IF;
+
+  RETURN apply_token_transfer(new_transfer.id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Function for a parent linked to the sender to approve or reject a pending transfer
+-- Approval moves the tokens then, so the sender must still hold them
+CREATE OR REPLACE FUNCTION decide_token_transfer(
+  p_transfer_id UUID,
+  p_approve BOOLEAN
+)
+RETURNS token_transfers AS $$
+DECLARE
+  current_user_id UUID := auth.uid();
+  transfer token_transfers;
+BEGIN
+  IF current_user_id IS NULL THEN
+    RAISE EXCEPTION 'User must be authenticated to decide a transfer';
+  END IF;
+
+  SELECT * INTO transfer FROM token_transfers
+  WHERE id = p_transfer_id
+  FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Transfer not found';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM family_relationships
+    WHERE parent_id = current_user_id
+    AND child_id = transfer.from_user_id
+  ) THEN
+    RAISE EXCEPTION 'Only a linked parent can decide this transfer'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF transfer.status <> 'pending' THEN
+    RAISE EXCEPTION 'This transfer has already been decided';
+  END IF;
+
+  IF p_approve THEN
+    PERFORM apply_token_transfer(transfer.id, current_user_id);
+    SELECT * INTO transfer FROM token_transfers WHERE id = transfer.id;
+  ELSE
+    UPDATE token_transfers
+    SET
+      status = 'rejected',
+      decided_at = NOW(),
+      decided_by = current_user_id
+    WHERE id = transfer.id
+    RETURNING * INTO transfer;
+  END IF;
+
+  RETURN transfer;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Function for a parent to grant (positive amount) or deduct (negative amount) tokens
+-- Only parents linked to the child in family_relationships may adjust a balance.
+-- Bonuses are recorded as 'adjustment' and deductions as 'penalty', signed with the parent's id.
+CREATE OR REPLACE FUNCTION wallet_adjust_balance(
+  p_child_id UUID,
+  p_amount INTEGER,
+  p_reason TEXT
+)
+RETURNS JSON AS $$
+DECLARE
+  current_user_id UUID := auth.uid();
+BEGIN
+  IF current_user_id IS NULL THEN
+    RAISE EXCEPTION 'User must be authenticated to adjust a balance';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM family_relationships
+    WHERE parent_id = current_user_id
+    AND child_id = p_child_id
+  ) THEN
+    RAISE EXCEPTION 'Only a linked parent can adjust this balance'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF p_amount IS NULL OR p_amount = 0 THEN
+    RAISE EXCEPTION 'Adjustment amount must not be zero';
+  END IF;
+
+  IF p_reason IS NULL OR btrim(p_reason) = '' THEN
+    RAISE EXCEPTION 'A reason is required for balance adjustments';
+  END IF;
+
+  RETURN wallet_apply_transaction(
+    p_child_id,
+    CASE WHEN p_amount > 0 THEN 'adjustment' ELSE 'penalty' END,
+    abs(p_amount),
+    p_reason,
+    NULL,
+    NULL,
+    NULL,
+    NULL,
+    current_user_id
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Function for a child to be paid for a completed quest
+-- The reward comes from the quest, which must be active and either built in or set by a linked
+-- parent. Each quest pays out once per 20 hours, so a daily chore can be claimed every day but
+-- not over and over. The proof and who checked it are kept in quest_completions for parents.
+CREATE OR REPLACE FUNCTION wallet_complete_quest(
+  p_quest_type_id UUID,
+  p_proof_image_url TEXT,
+  p_verified_by TEXT DEFAULT 'ai',
+  p_timestamp TIMESTAMPTZ DEFAULT NULL,
+  p_client_txn_id TEXT DEFAULT NULL
+)
+RETURNS JSON AS $$
+DECLARE
+  current_user_id UUID := auth.uid();
+  quest quest_types;
+  earn_result JSON;
+BEGIN
+  IF current_user_id IS NULL THEN
+    RAISE EXCEPTION 'User must be authenticated to complete a quest';
+  END IF;
+
+  SELECT q.* INTO quest FROM quest_types q
+  WHERE q.id = p_quest_type_id
+  AND q.is_active
+  AND (
+    q.created_by IS NULL OR
+    EXISTS (
+      SELECT 1 FROM family_relationships
+      WHERE parent_id = q.created_by
+      AND child_id = current_user_id
+    )
+  );
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Quest not found';
+  END IF;
+
+  IF p_proof_image_url IS NULL OR btrim(p_proof_image_url) = '' THEN
+    RAISE EXCEPTION 'A photo is required to complete a quest';
+  END IF;
+
+  IF p_verified_by IS NULL OR p_verified_by NOT IN ('ai', 'parent') THEN
+    RAISE EXCEPTION 'Invalid verification %', p_verified_by;
+  END IF;
+
+  -- Serialize completions so two devices cannot both claim the same quest
+  PERFORM 1 FROM profiles WHERE id = current_user_id FOR UPDATE;
+
+  -- A replayed offline completion reports the conflict rather than the cooldown
+  IF p_client_txn_id IS NOT NULL
+    AND EXISTS (SELECT 1 FROM transactions WHERE client_txn_id = p_client_txn_id) THEN
+    RAISE EXCEPTION 'Transaction % has already been recorded', p_client_txn_id
+      USING ERRCODE = 'unique_violation';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM quest_completions
+    WHERE child_id = current_user_id
+    AND quest_type_id = quest.id
+    AND completed_at > NOW() - INTERVAL '20 hours'
+  ) THEN
+    RAISE EXCEPTION 'This quest has already been completed today';
+  END IF;
+
+  earn_result := wallet_apply_transaction(
+    current_user_id,
+    'earn',
+    quest.token_reward,
+    'Quest completed: ' || quest.name || CASE WHEN p_verified_by = 'parent' THEN ' (Parent verified)' ELSE ' (AI verified)' END,
+    btrim(p_proof_image_url),
+    NULL,
+    wallet_client_timestamp(p_timestamp, p_client_txn_id),
+    p_client_txn_id
+  );
+
+  INSERT INTO quest_completions (child_id, quest_type_id, token_reward, proof_image_url, verified_by, transaction_id)
+  VALUES (
+    current_user_id,
+    quest.id,
+    quest.token_reward,
+    btrim(p_proof_image_url),
+    p_verified_by,
+    (earn_result->'transaction'->>'id')::UUID
+  );
+
+  RETURN earn_result;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Function for the terms a child's Learn & Earn app pays on, as the child's app list shows them
+-- Mirrors buildAppList in src/lib/appCatalog.ts: an app earns only if every linked parent who lists
+-- it has it enabled as Learn & Earn, at the lowest earn rate and daily limit any of them set. A family
+-- without a catalog gets the built-in Learn & Earn apps of src/lib/config.ts at the default terms.
+-- Returns no row when the app does not earn.
+CREATE OR REPLACE FUNCTION get_earning_app_terms(p_child_id UUID, p_app_name TEXT)
+RETURNS TABLE (tokens_per_minute INTEGER, daily_earn_limit INTEGER, timezone TEXT) AS $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM apps a
+    JOIN family_relationships fr ON fr.parent_id = a.parent_id
+    WHERE fr.child_id = p_child_id
+  ) THEN
+    RETURN QUERY
+    SELECT
+      COALESCE(MIN(a.tokens_per_minute), 1),
+      COALESCE(MIN(a.daily_earn_limit), 30),
+      MIN(a.timezone COLLATE "C")
+    FROM apps a
+    JOIN family_relationships fr ON fr.parent_id = a.parent_id
+    WHERE fr.child_id = p_child_id
+    AND lower(a.name) = lower(btrim(p_app_name))
+    HAVING COUNT(*) > 0 AND bool_and(a.is_enabled AND a.classification = 'earning');
+  ELSIF lower(btrim(p_app_name)) IN ('duolingo', 'khan academy') THEN
+    RETURN QUERY SELECT 1, 30, 'UTC'::TEXT;
+  END IF;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- Function for the category of an app in a child's family catalog, or NULL for an app not in it
+CREATE OR REPLACE FUNCTION get_child_app_category(p_child_id UUID, p_app_name TEXT)
+RETURNS TEXT AS $$
+  SELECT a.category FROM apps a
+  JOIN family_relationships fr ON fr.parent_id = a.parent_id
+  WHERE fr.child_id = p_child_id
+  AND lower(a.name) = lower(btrim(p_app_name))
+  ORDER BY a.created_at
+  LIMIT 1;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Function for a daily spending cap a child has reached that applies to an app category, if any
+-- Mirrors getCapStatus in src/lib/caps.ts: spends less refunds since midnight in the cap's timezone,
+-- counted in tokens or in minutes of recorded app time. A spend's category is its app session's,
+-- or the catalog's for its app; refunds without an app give tokens back to total caps only.
+-- p_exclude_session_id leaves out one app session's own spends. Returns NULL when no cap is reached.
+CREATE OR REPLACE FUNCTION find_reached_spending_cap(
+  p_child_id UUID,
+  p_category TEXT,
+  p_exclude_session_id UUID DEFAULT NULL
+)
+RETURNS spending_caps AS $$
+  SELECT c.* FROM spending_caps c
+  WHERE c.child_id = p_child_id
+  AND c.is_active
+  AND (c.scope = 'total' OR lower(c.category) = lower(btrim(p_category)))
+  AND c.daily_limit <= (
+    SELECT CASE
+      WHEN c.unit = 'tokens' THEN GREATEST(COALESCE(SUM(
+        CASE WHEN t.type = 'refund' THEN -t.amount ELSE t.amount END
+      ), 0), 0)
+      ELSE floor(GREATEST(COALESCE(SUM(
+        CASE
+          WHEN t.app_name IS NULL THEN 0
+          WHEN t.type = 'refund' THEN -COALESCE(t.usage_seconds, 0)
+          ELSE COALESCE(t.usage_seconds, 0)
+        END
+      ), 0), 0) / 60)
+    END
+    FROM transactions t
+    LEFT JOIN app_sessions s ON s.id = t.session_id
+    WHERE t.user_id = p_child_id
+    AND t.type IN ('spend', 'refund')
+    AND t.timestamp >= date_trunc('day', NOW() AT TIME ZONE c.timezone) AT TIME ZONE c.timezone
+    AND (p_exclude_session_id IS NULL OR t.session_id IS DISTINCT FROM p_exclude_session_id)
+    AND (
+      c.scope = 'total'
+      OR lower(COALESCE(s.category, get_child_app_category(p_child_id, t.app_name))) = lower(c.category)
+    )
+  )
+  ORDER BY c.created_at
+  LIMIT 1;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Function for a child to be paid for time in a Learn & Earn app
+-- p_active_seconds is the session's running time so far. The session pays the app's earn rate from
+-- the family's catalog for that time, never for more than has passed since the server opened it (the
+-- client's start time can be backdated), less what it has already paid or forfeited, so a replayed
+-- or repeated call never pays for the same minute twice.
+-- Each app pays at most its daily earn limit between midnights in the app's timezone; tokens past
+-- the limit are forfeited rather than paid the next day. The transaction is null when there is
+-- nothing new to pay.
+CREATE OR REPLACE FUNCTION wallet_earn_app_time(
+  p_client_session_id TEXT,
+  p_active_seconds INTEGER,
+  p_timestamp TIMESTAMPTZ DEFAULT NULL,
+  p_client_txn_id TEXT DEFAULT NULL
+)
+RETURNS JSON AS $$
+DECLARE
+  current_user_id UUID := auth.uid();
+  earn_session app_sessions;
+  terms RECORD;
+  paid_seconds INTEGER;
+  owed INTEGER;
+  earned_today INTEGER;
+  amount INTEGER;
+BEGIN
+  IF current_user_id IS NULL THEN
+    RAISE EXCEPTION 'User must be authenticated to earn tokens';
+  END IF;
+
+  SELECT * INTO earn_session FROM app_sessions
+  WHERE client_session_id = p_client_session_id
+  AND child_id = current_user_id
+  FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'App session % not found', p_client_session_id;
+  END IF;
+
+  SELECT * INTO terms FROM get_earning_app_terms(current_user_id, earn_session.app_name);
+  IF NOT FOUND OR earn_session.classification <> 'earning' THEN
+    RAISE EXCEPTION 'Only Learn & Earn apps pay for time used';
+  END IF;
+
+  IF p_client_txn_id IS NOT NULL
+    AND EXISTS (SELECT 1 FROM transactions WHERE client_txn_id = p_client_txn_id) THEN
+    RAISE EXCEPTION 'Transaction % has already been recorded', p_client_txn_id
+      USING ERRCODE = 'unique_violation';
+  END IF;
+
+  -- Serialize earns from the same wallet so two sessions cannot both use the last of a limit
+  PERFORM 1 FROM profiles WHERE id = current_user_id FOR UPDATE;
+
+  paid_seconds := LEAST(
+    GREATEST(COALESCE(p_active_seconds, 0), 0),
+    floor(EXTRACT(EPOCH FROM NOW() - earn_session.opened_at))::INTEGER
+  );
+  owed := floor(paid_seconds * terms.tokens_per_minute / 60)::INTEGER
+    - earn_session.tokens_earned - earn_session.tokens_forfeited;
+
+  SELECT COALESCE(SUM(t.amount), 0) INTO earned_today FROM transactions t
+  WHERE t.user_id = current_user_id
+  AND t.type = 'earn'
+  AND lower(btrim(t.app_name)) = lower(btrim(earn_session.app_name))
+  AND t.timestamp >= date_trunc('day', NOW() AT TIME ZONE terms.timezone) AT TIME ZONE terms.timezone;
+
+  amount := LEAST(owed, GREATEST(terms.daily_earn_limit - earned_today, 0));
+
+  UPDATE app_sessions
+  SET active_seconds = GREATEST(active_seconds, paid_seconds),
+    tokens_forfeited = tokens_forfeited + GREATEST(owed - GREATEST(amount, 0), 0)
+  WHERE id = earn_session.id;
+
+  IF amount <= 0 THEN
+    RETURN json_build_object(
+      'transaction', NULL,
+      'profile', (SELECT row_to_json(p) FROM profiles p WHERE p.id = current_user_id),
+      'repayment', NULL
+    );
+  END IF;
+
+  RETURN wallet_apply_transaction(
+    current_user_id,
+    'earn',
+    amount,
+    earn_session.app_name || ' learning (' || paid_seconds || 's)',
+    NULL,
+    earn_session.app_name,
+    wallet_client_timestamp(p_timestamp, p_client_txn_id),
+    p_client_txn_id,
+    NULL,
+    round(amount * 60.0 / terms.tokens_per_minute)::INTEGER,
+    NULL,
+    earn_session.id
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Function for a child to start saving toward a reward from a linked parent's catalog
+CREATE OR REPLACE FUNCTION start_savings_goal(p_reward_id UUID)
+RETURNS savings_goals AS $$
+DECLARE
+  current_user_id UUID := auth.uid();
+  reward rewards;
+  new_goal savings_goals;
+BEGIN
+  IF current_user_id IS NULL THEN
+    RAISE EXCEPTION 'User must be authenticated to start a savings goal';
+  END IF;
+
+  SELECT r.* INTO reward FROM rewards r
+  JOIN family_relationships fr ON fr.parent_id = r.parent_id
+  WHERE r.id = p_reward_id
+  AND fr.child_id = current_user_id
+  AND r.is_active;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Reward not found';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM savings_goals
+    WHERE child_id = current_user_id
+    AND reward_id = p_reward_id
+    AND status IN ('active', 'requested')
+  ) THEN
+    RAISE EXCEPTION 'You are already saving toward this reward';
+  END IF;
+
+  INSERT INTO savings_goals (child_id, reward_id, target_amount)
+  VALUES (current_user_id, reward.id, reward.token_cost)
+  RETURNING * INTO new_goal;
+
+  RETURN new_goal;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Function for a linked parent to approve or reject a reward request
+-- Approval spends the goal's saved tokens on the reward; rejection reopens the goal
+-- so the child can keep the tokens saved or withdraw them.
+CREATE OR REPLACE FUNCTION decide_reward_redemption(
+  p_redemption_id UUID,
+  p_approve BOOLEAN,
+  p_note TEXT DEFAULT NULL
+)
+RETURNS reward_redemptions AS $$
+DECLARE
+  current_user_id UUID := auth.uid();
+  redemption reward_redemptions;
+BEGIN
+  IF current_user_id IS NULL THEN
+    RAISE EXCEPTION 'User must be authenticated to decide a reward request';
+  END IF;
+
+  SELECT * INTO redemption FROM reward_redemptions
+  WHERE id = p_redemption_id
+  FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Reward request not found';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM family_relationships
+    WHERE parent_id = current_user_id
+    AND child_id = redemption.child_id
+  ) THEN
+    RAISE EXCEPTION 'Only a linked parent can decide this request'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF redemption.status <> 'pending' THEN
+    RAISE EXCEPTION 'This request has already been decided';
+  END IF;
+
+  UPDATE reward_redemptions
+  SET
+    status = CASE WHEN p_approve THEN 'approved' ELSE 'rejected' END,
+    decided_at = NOW(),
+    decided_by = current_user_id,
+    parent_note = NULLIF(btrim(p_note), '')
+  WHERE id = redemption.id
+  RETURNING * INTO redemption;
+
+  UPDATE savings_goals
+  SET status = CASE WHEN p_approve THEN 'redeemed' ELSE 'active' END
+  WHERE id = redemption.goal_id;
+
+  RETURN redemption;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
 -- Create view for parent dashboard data
 CREATE OR REPLACE VIEW parent_dashboard_view AS
 SELECT 
@@ -213,4 +1098,65 @@ GROUP BY fr.parent_id, p.id, p.balance, p.total_earned, p.total_spent;
 GRANT USAGE ON SCHEMA public TO authenticated;
 GRANT ALL ON ALL TABLES IN SCHEMA public TO authenticated;
 GRANT ALL ON ALL SEQUENCES IN SCHEMA public TO authenticated;
-GRANT EXECUTE ON ALL FUNCTIONS IN SCHEMA public TO authenticated;
\ No newline at end of file
+GRANT EXECUTE ON ALL FUNCTIONS IN SCHEMA public TO authenticated;
+
+-- The internal wallet helper takes an arbitrary user id, so clients must go
+-- through wallet_spend / wallet_refund / wallet_complete_quest / wallet_earn_app_time,
+-- which use auth.uid(), or wallet_adjust_balance, which checks family_relationships
+REVOKE EXECUTE ON FUNCTION wallet_apply_transaction(UUID, TEXT, INTEGER, TEXT, TEXT, TEXT, TIMESTAMPTZ, TEXT, UUID, INTEGER, UUID, UUID) FROM PUBLIC, authenticated;
+
+-- wallet_earn credits whatever amount it is given, so children are paid only through the quest
+-- and Learn & Earn RPCs, which take the amount from quest_types and the app session
+REVOKE EXECUTE ON FUNCTION wallet_earn(INTEGER, TEXT, TEXT, TIMESTAMPTZ, TEXT, TEXT, INTEGER, TEXT) FROM PUBLIC, authenticated;
+
+-- Applying a transfer skips the family and approval checks done by wallet_transfer / decide_token_transfer
+REVOKE EXECUTE ON FUNCTION apply_token_transfer(UUID, UUID) FROM PUBLIC, authenticated;
+
+-- Loan repayment takes an arbitrary user id and is only run on income inside wallet_apply_transaction
+REVOKE EXECUTE ON FUNCTION repay_loans_from_income(UUID, INTEGER) FROM PUBLIC, authenticated;
+
+-- The allowance job accepts an arbitrary clock, so clients use wallet_claim_allowance instead
+REVOKE EXECUTE ON FUNCTION grant_due_allowances(TIMESTAMPTZ, UUID) FROM PUBLIC, authenticated;
+
+-- Session lookup takes an arbitrary user id, and the stale-session job accepts an arbitrary clock
+REVOKE EXECUTE ON FUNCTION resolve_app_session(UUID, TEXT) FROM PUBLIC, authenticated;
+REVOKE EXECUTE ON FUNCTION close_stale_app_sessions(TIMESTAMPTZ, INTERVAL) FROM PUBLIC, authenticated;
+
+-- Earn terms, app categories and cap usage take an arbitrary child id, so they would show any family's data
+REVOKE EXECUTE ON FUNCTION get_earning_app_terms(UUID, TEXT) FROM PUBLIC, authenticated;
+REVOKE EXECUTE ON FUNCTION get_child_app_category(UUID, TEXT) FROM PUBLIC, authenticated;
+REVOKE EXECUTE ON FUNCTION find_reached_spending_cap(UUID, TEXT, UUID) FROM PUBLIC, authenticated;
+
+-- Balances are ledger-derived: clients cannot write transactions or balance columns.
+-- guard_profile_protected_columns (schema.sql) enforces the same rule if these grants are ever re-applied
+REVOKE INSERT ON transactions FROM authenticated, anon;
+REVOKE INSERT ON wallet_exceptions FROM authenticated, anon;
+REVOKE INSERT, UPDATE, DELETE ON allowance_grants FROM authenticated, anon;
+REVOKE UPDATE ON profiles FROM authenticated, anon;
+GRANT UPDATE (updated_at) ON profiles TO authenticated;
+
+-- Parents resolving a wallet exception can only mark it resolved, not change the amounts
+REVOKE UPDATE ON wallet_exceptions FROM authenticated, anon;
+GRANT UPDATE (resolved_at, resolved_by) ON wallet_exceptions TO authenticated;
+
+-- Saved amounts and request outcomes change only through the goal and redemption functions
+REVOKE INSERT, UPDATE, DELETE ON savings_goals FROM authenticated, anon;
+REVOKE INSERT, UPDATE, DELETE ON reward_redemptions FROM authenticated, anon;
+
+-- Outstanding debt changes only by borrowing and by repayments out of income
+REVOKE INSERT, UPDATE, DELETE ON loans FROM authenticated, anon;
+
+-- Transfers are created and decided only through wallet_transfer and decide_token_transfer
+REVOKE INSERT, UPDATE, DELETE ON token_transfers FROM authenticated, anon;
+
+-- Session records change only through the session RPCs, so tokens_charged always matches the ledger
+REVOKE INSERT, UPDATE, DELETE ON app_sessions FROM authenticated, anon;
+
+-- Leases change only through the lease RPCs, which refuse to take a live lease without asking
+REVOKE INSERT, UPDATE, DELETE ON session_leases FROM authenticated, anon;
+
+-- Quests are paid only through wallet_complete_quest, which records the completion with the payout
+REVOKE INSERT, UPDATE, DELETE ON quest_completions FROM authenticated, anon;
+
+-- Children cannot edit or delete the clock problems reported to their parents
+REVOKE INSERT, UPDATE, DELETE ON clock_events FROM authenticated, anon;
@@ -13,17 +13,319 @@ CREATE TABLE IF NOT EXISTS profiles (
   updated_at TIMESTAMPTZ DEFAULT NOW()
 );
 
+-- Create app_sessions table
+-- One row per app session a child runs, opened at launch and kept alive by heartbeats.
+-- Spends made during a session point back at it, less refunds of unused prepaid time,
+-- so tokens_charged is the session's total cost. Earns from a Learn & Earn app add up in tokens_earned.
+-- A prepaid session is charged once, for its block of prepaid_seconds, and refunded at most once.
+-- Sessions whose heartbeats stop are closed by close_stale_app_sessions.
+CREATE TABLE IF NOT EXISTS app_sessions (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  child_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  -- Id the client's session engine gave the session, so opening it again is harmless
+  client_session_id TEXT NOT NULL UNIQUE,
+  app_name TEXT NOT NULL,
+  category TEXT,
+  classification TEXT NOT NULL DEFAULT 'entertainment' CHECK (classification IN ('entertainment', 'free', 'earning')),
+  tokens_per_minute NUMERIC NOT NULL CHECK (tokens_per_minute >= 0), -- 0 for free apps; the earn rate for earning apps
+  started_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  -- When the server recorded the session; started_at is the client's start and may be earlier
+  opened_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  -- Length of the block bought up front; NULL for sessions paid as they go
+  prepaid_seconds INTEGER CHECK (prepaid_seconds > 0),
+  last_heartbeat_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  ended_at TIMESTAMPTZ,
+  -- Running time reported by the client, excluding pauses
+  active_seconds INTEGER NOT NULL DEFAULT 0 CHECK (active_seconds >= 0),
+  tokens_charged INTEGER NOT NULL DEFAULT 0 CHECK (tokens_charged >= 0),
+  tokens_earned INTEGER NOT NULL DEFAULT 0 CHECK (tokens_earned >= 0),
+  -- Earning apps: tokens accrued past the app's daily earn limit, which are never paid
+  tokens_forfeited INTEGER NOT NULL DEFAULT 0 CHECK (tokens_forfeited >= 0),
+  end_reason TEXT CHECK (end_reason IN (
+    'user', 'insufficient_balance', 'schedule', 'cap', 'charge_failed', 'time_up', 'taken_over', 'stale'
+  )),
+  CHECK ((ended_at IS NULL) = (end_reason IS NULL))
+);
+
+-- Create session_leases table
+-- At most one row per child: the device currently allowed to run app sessions, so a child
+-- cannot run sessions on a phone and a browser at once. The holder renews expires_at with
+-- every heartbeat; once it lapses any device can take the lease.
+CREATE TABLE IF NOT EXISTS session_leases (
+  child_id UUID PRIMARY KEY REFERENCES profiles(id) ON DELETE CASCADE,
+  -- Random id each install keeps in local storage
+  device_id TEXT NOT NULL,
+  device_label TEXT,
+  -- Session the holder is running; closed as 'taken_over' when another device takes the lease
+  client_session_id TEXT,
+  acquired_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  expires_at TIMESTAMPTZ NOT NULL
+);
+
+-- Create clock_events table
+-- Device clock problems the app noticed, so parents can see attempts to get free screen time.
+-- Billing already follows trusted time; these rows are only a record for parents.
+CREATE TABLE IF NOT EXISTS clock_events (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  child_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  -- clock_set_back: the device clock jumped backwards; clock_skew: it disagrees with the server
+  kind TEXT NOT NULL CHECK (kind IN ('clock_set_back', 'clock_skew')),
+  -- Device clock minus trusted time when detected; negative when the clock is behind
+  skew_seconds INTEGER NOT NULL,
+  session_id UUID REFERENCES app_sessions(id) ON DELETE SET NULL,
+  detected_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
 -- Create transactions table
 -- Stores all token earning and spending transactions
 CREATE TABLE IF NOT EXISTS transactions (
   id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
   user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
   amount INTEGER NOT NULL CHECK (amount > 0),
-  type TEXT NOT NULL CHECK (type IN ('earn', 'spend')),
+  type TEXT NOT NULL CHECK (type IN (
+    'earn', 'spend', 'allowance', 'refund', 'adjustment', 'penalty', 'goal_deposit', 'goal_withdrawal',
+    'loan', 'loan_repayment', 'transfer_out', 'transfer_in'
+  )),
   description TEXT NOT NULL,
   proof_image_url TEXT,
   app_name TEXT,
-  timestamp TIMESTAMPTZ DEFAULT NOW()
+  timestamp TIMESTAMPTZ DEFAULT NOW(),
+  -- Id assigned by the client's offline queue so replayed syncs can be detected
+  client_txn_id TEXT UNIQUE,
+  -- Parent who made a manual adjustment or penalty; NULL for the wallet owner's own activity
+  created_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  -- Seconds of app time a spend paid for, so minute-based spending caps can be measured
+  usage_seconds INTEGER CHECK (usage_seconds >= 0),
+  -- Other family member in a transfer: the recipient on transfer_out, the sender on transfer_in
+  counterparty_id UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  -- App session a spend paid for
+  session_id UUID REFERENCES app_sessions(id) ON DELETE SET NULL
+);
+
+-- Create wallet_exceptions table
+-- Records offline spends the server could not apply in full (overdrafts), or that it charged past a
+-- daily spending cap, so parents can review them
+CREATE TABLE IF NOT EXISTS wallet_exceptions (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  client_txn_id TEXT UNIQUE,
+  requested_amount INTEGER NOT NULL CHECK (requested_amount > 0),
+  charged_amount INTEGER NOT NULL DEFAULT 0 CHECK (charged_amount >= 0),
+  shortfall INTEGER NOT NULL CHECK (shortfall >= 0),
+  description TEXT NOT NULL,
+  app_name TEXT,
+  reason TEXT NOT NULL,
+  occurred_at TIMESTAMPTZ NOT NULL,
+  resolved_at TIMESTAMPTZ,
+  resolved_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Create allowances table
+-- One recurring token allowance per child, configured by a parent
+CREATE TABLE IF NOT EXISTS allowances (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  child_id UUID NOT NULL UNIQUE REFERENCES profiles(id) ON DELETE CASCADE,
+  amount INTEGER NOT NULL CHECK (amount > 0),
+  cadence TEXT NOT NULL CHECK (cadence IN ('daily', 'weekly')),
+  day_of_week SMALLINT CHECK (day_of_week BETWEEN 0 AND 6), -- 0 = Sunday, weekly only
+  time_of_day TIME NOT NULL DEFAULT '07:00',
+  timezone TEXT NOT NULL DEFAULT 'UTC',
+  is_active BOOLEAN DEFAULT true,
+  created_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  CHECK (cadence = 'daily' OR day_of_week IS NOT NULL)
+);
+
+-- Create allowance_grants table
+-- One row per allowance period; the unique key makes grants idempotent
+CREATE TABLE IF NOT EXISTS allowance_grants (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  allowance_id UUID NOT NULL REFERENCES allowances(id) ON DELETE CASCADE,
+  child_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  period_start DATE NOT NULL,
+  amount INTEGER NOT NULL CHECK (amount > 0),
+  transaction_id UUID REFERENCES transactions(id) ON DELETE SET NULL,
+  granted_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (allowance_id, period_start)
+);
+
+-- Create app_pricing table
+-- Per-family token rates for a whole category; an app's own price is its catalog price
+-- (apps.tokens_per_minute), and apps without either fall back to the default rate in the app config
+CREATE TABLE IF NOT EXISTS app_pricing (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  parent_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  scope TEXT NOT NULL CHECK (scope = 'category'),
+  target_name TEXT NOT NULL CHECK (btrim(target_name) <> ''),
+  tokens_per_minute INTEGER NOT NULL CHECK (tokens_per_minute > 0 AND tokens_per_minute <= 60),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (parent_id, scope, target_name)
+);
+
+-- Create apps table
+-- Per-family app catalog: the apps a parent lets their children launch and how to open each one.
+-- A family without any rows uses the built-in list in the app config.
+-- Entertainment apps cost tokens, free apps cost nothing and earning apps (Learn & Earn) pay
+-- tokens per minute used, up to a daily earn limit.
+CREATE TABLE IF NOT EXISTS apps (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  parent_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  name TEXT NOT NULL CHECK (btrim(name) <> ''),
+  icon TEXT,
+  package_name TEXT, -- Android package, used for the store link when the app is missing
+  deep_link TEXT,
+  web_url TEXT CHECK (web_url IS NULL OR web_url ~* '^https?://'),
+  category TEXT NOT NULL CHECK (btrim(category) <> ''),
+  classification TEXT NOT NULL DEFAULT 'entertainment' CHECK (classification IN ('entertainment', 'free', 'earning')),
+  tokens_per_minute INTEGER CHECK (tokens_per_minute > 0 AND tokens_per_minute <= 60), -- Price, or earn rate for earning apps; NULL uses the default
+  daily_earn_limit INTEGER CHECK (daily_earn_limit > 0 AND daily_earn_limit <= 1000), -- Earning apps only; NULL uses the default
+  timezone TEXT NOT NULL DEFAULT 'UTC', -- The daily earn limit resets at midnight here
+  is_enabled BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (parent_id, name),
+  CHECK (deep_link IS NOT NULL OR web_url IS NOT NULL) -- An app needs some way to be opened
+);
+
+-- Create schedule_rules table
+-- Per-family time-of-day rules: during the window an app's rate is multiplied, or entertainment is blocked.
+-- A window whose end_time is before its start_time runs past midnight into the next day.
+CREATE TABLE IF NOT EXISTS schedule_rules (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  parent_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  name TEXT NOT NULL CHECK (btrim(name) <> ''),
+  days_of_week SMALLINT[] NOT NULL CHECK (
+    cardinality(days_of_week) > 0 AND days_of_week <@ ARRAY[0, 1, 2, 3, 4, 5, 6]::SMALLINT[]
+  ), -- Days the window starts on, 0 = Sunday
+  start_time TIME NOT NULL,
+  end_time TIME NOT NULL CHECK (end_time <> start_time),
+  action TEXT NOT NULL CHECK (action IN ('multiplier', 'block')),
+  multiplier NUMERIC(4, 2) CHECK (multiplier > 0 AND multiplier <= 10),
+  timezone TEXT NOT NULL DEFAULT 'UTC',
+  is_active BOOLEAN DEFAULT true,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  CHECK (action = 'block' OR multiplier IS NOT NULL)
+);
+
+-- Create spending_caps table
+-- Daily limits per child, in tokens or minutes of app time, for all apps or one category.
+-- Usage is measured from the child's spends since local midnight in the cap's timezone.
+CREATE TABLE IF NOT EXISTS spending_caps (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  child_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  scope TEXT NOT NULL CHECK (scope IN ('total', 'category')),
+  category TEXT CHECK (btrim(category) <> ''),
+  unit TEXT NOT NULL CHECK (unit IN ('tokens', 'minutes')),
+  daily_limit INTEGER NOT NULL CHECK (daily_limit > 0),
+  timezone TEXT NOT NULL DEFAULT 'UTC',
+  is_active BOOLEAN DEFAULT true,
+  created_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  CHECK ((scope = 'total') = (category IS NULL))
+);
+
+-- Create rewards table
+-- Per-family catalog of real-world rewards (e.g. "Trip to the zoo") a parent offers, priced in tokens
+CREATE TABLE IF NOT EXISTS rewards (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  parent_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  name TEXT NOT NULL CHECK (btrim(name) <> ''),
+  description TEXT,
+  icon TEXT NOT NULL DEFAULT '🎁',
+  token_cost INTEGER NOT NULL CHECK (token_cost > 0),
+  is_active BOOLEAN DEFAULT true,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Create savings_goals table
+-- A child's bucket of tokens locked toward one reward. Tokens move in and out only through
+-- the wallet_goal_* RPCs, which record goal_deposit / goal_withdrawal ledger rows.
+-- target_amount is the reward's cost when the goal was started, so later price changes do not move it.
+CREATE TABLE IF NOT EXISTS savings_goals (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  child_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  reward_id UUID NOT NULL REFERENCES rewards(id) ON DELETE RESTRICT,
+  target_amount INTEGER NOT NULL CHECK (target_amount > 0),
+  saved_amount INTEGER NOT NULL DEFAULT 0 CHECK (saved_amount >= 0),
+  status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'requested', 'redeemed', 'cancelled')),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  CHECK (saved_amount <= target_amount)
+);
+
+-- Create reward_redemptions table
+-- A child's request to exchange a fully saved goal for its reward, approved or rejected by a parent
+CREATE TABLE IF NOT EXISTS reward_redemptions (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  goal_id UUID NOT NULL REFERENCES savings_goals(id) ON DELETE CASCADE,
+  child_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  reward_id UUID NOT NULL REFERENCES rewards(id) ON DELETE RESTRICT,
+  token_cost INTEGER NOT NULL CHECK (token_cost > 0),
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'rejected')),
+  requested_at TIMESTAMPTZ DEFAULT NOW(),
+  decided_at TIMESTAMPTZ,
+  decided_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  parent_note TEXT
+);
+
+-- Create credit_lines table
+-- Opt-in borrowing: a parent sets how many tokens one child may owe at a time
+CREATE TABLE IF NOT EXISTS credit_lines (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  child_id UUID NOT NULL UNIQUE REFERENCES profiles(id) ON DELETE CASCADE,
+  credit_limit INTEGER NOT NULL CHECK (credit_limit > 0),
+  is_active BOOLEAN DEFAULT true,
+  created_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Create loans table
+-- Tokens a child borrowed against future income. Loans are repaid oldest first,
+-- automatically, out of the child's next allowance or quest earnings.
+CREATE TABLE IF NOT EXISTS loans (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  child_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  amount INTEGER NOT NULL CHECK (amount > 0),
+  outstanding INTEGER NOT NULL CHECK (outstanding >= 0 AND outstanding <= amount),
+  transaction_id UUID REFERENCES transactions(id) ON DELETE SET NULL,
+  borrowed_at TIMESTAMPTZ DEFAULT NOW(),
+  repaid_at TIMESTAMPTZ
+);
+
+-- Create transfer_settings table
+-- Optional per-child rule: transfers this child sends above the threshold wait for a parent's approval
+CREATE TABLE IF NOT EXISTS transfer_settings (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  child_id UUID NOT NULL UNIQUE REFERENCES profiles(id) ON DELETE CASCADE,
+  approval_threshold INTEGER NOT NULL CHECK (approval_threshold > 0),
+  created_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Create token_transfers table
+-- Tokens sent between two members of the same family (siblings, or a relative gifting a child).
+-- A completed transfer points at its paired transfer_out / transfer_in ledger rows.
+CREATE TABLE IF NOT EXISTS token_transfers (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  from_user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  to_user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  amount INTEGER NOT NULL CHECK (amount > 0),
+  note TEXT,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'completed', 'rejected')),
+  requested_at TIMESTAMPTZ DEFAULT NOW(),
+  decided_at TIMESTAMPTZ,
+  decided_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  debit_transaction_id UUID REFERENCES transactions(id) ON DELETE SET NULL,
+  credit_transaction_id UUID REFERENCES transactions(id) ON DELETE SET NULL,
+  CHECK (from_user_id <> to_user_id)
 );
 
 -- Create quest_types table
@@ -40,11 +342,50 @@ CREATE TABLE IF NOT EXISTS quest_types (
   updated_at TIMESTAMPTZ DEFAULT NOW()
 );
 
+-- Create quest_completions table
+-- One row per quest a child was paid for, written only by wallet_complete_quest. The reward is
+-- copied from quest_types so the child never chooses the amount; parents can review the proof.
+CREATE TABLE IF NOT EXISTS quest_completions (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  child_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  quest_type_id UUID NOT NULL REFERENCES quest_types(id) ON DELETE CASCADE,
+  token_reward INTEGER NOT NULL CHECK (token_reward > 0),
+  proof_image_url TEXT NOT NULL CHECK (btrim(proof_image_url) <> ''),
+  -- Who checked the photo: the AI check, or a parent on the child's device
+  verified_by TEXT NOT NULL CHECK (verified_by IN ('ai', 'parent')),
+  transaction_id UUID REFERENCES transactions(id) ON DELETE SET NULL,
+  completed_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
 -- Create indexes for better query performance
 CREATE INDEX IF NOT EXISTS idx_transactions_user_id ON transactions(user_id);
 CREATE INDEX IF NOT EXISTS idx_transactions_timestamp ON transactions(timestamp DESC);
 CREATE INDEX IF NOT EXISTS idx_transactions_type ON transactions(type);
+CREATE INDEX IF NOT EXISTS idx_wallet_exceptions_user_id ON wallet_exceptions(user_id);
+CREATE INDEX IF NOT EXISTS idx_wallet_exceptions_unresolved ON wallet_exceptions(user_id) WHERE resolved_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_allowances_active ON allowances(is_active) WHERE is_active = true;
+CREATE INDEX IF NOT EXISTS idx_allowance_grants_child ON allowance_grants(child_id);
+CREATE INDEX IF NOT EXISTS idx_app_pricing_parent ON app_pricing(parent_id);
+CREATE INDEX IF NOT EXISTS idx_apps_parent ON apps(parent_id);
+CREATE INDEX IF NOT EXISTS idx_schedule_rules_parent ON schedule_rules(parent_id);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_spending_caps_unique
+  ON spending_caps(child_id, scope, COALESCE(category, ''), unit);
+CREATE INDEX IF NOT EXISTS idx_transactions_user_timestamp ON transactions(user_id, timestamp DESC);
+CREATE INDEX IF NOT EXISTS idx_rewards_parent ON rewards(parent_id);
+CREATE INDEX IF NOT EXISTS idx_savings_goals_child ON savings_goals(child_id);
+CREATE INDEX IF NOT EXISTS idx_reward_redemptions_child ON reward_redemptions(child_id);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_reward_redemptions_one_pending
+  ON reward_redemptions(goal_id) WHERE status = 'pending';
+CREATE INDEX IF NOT EXISTS idx_loans_outstanding ON loans(child_id, borrowed_at) WHERE outstanding > 0;
+CREATE INDEX IF NOT EXISTS idx_token_transfers_from ON token_transfers(from_user_id, requested_at DESC);
+CREATE INDEX IF NOT EXISTS idx_token_transfers_to ON token_transfers(to_user_id, requested_at DESC);
+CREATE INDEX IF NOT EXISTS idx_app_sessions_child ON app_sessions(child_id, started_at DESC);
+CREATE INDEX IF NOT EXISTS idx_app_sessions_open ON app_sessions(last_heartbeat_at) WHERE ended_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_clock_events_child ON clock_events(child_id, detected_at DESC);
+CREATE INDEX IF NOT EXISTS idx_transactions_session ON transactions(session_id) WHERE session_id IS NOT NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_transactions_session_refund ON transactions(session_id) WHERE type = 'refund';
 CREATE INDEX IF NOT EXISTS idx_quest_types_active ON quest_types(is_active) WHERE is_active = true;
+CREATE INDEX IF NOT EXISTS idx_quest_completions_child ON quest_completions(child_id, quest_type_id, completed_at DESC);
 CREATE INDEX IF NOT EXISTS idx_profiles_role ON profiles(role);
 
 -- Create updated_at trigger function
@@ -67,6 +408,51 @@ CREATE TRIGGER update_quest_types_updated_at
   FOR EACH ROW 
   EXECUTE FUNCTION update_updated_at_column();
 
+CREATE TRIGGER update_allowances_updated_at 
+  BEFORE UPDATE ON allowances 
+  FOR EACH ROW 
+  EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_app_pricing_updated_at 
+  BEFORE UPDATE ON app_pricing 
+  FOR EACH ROW 
+  EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_apps_updated_at 
+  BEFORE UPDATE ON apps 
+  FOR EACH ROW 
+  EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_schedule_rules_updated_at 
+  BEFORE UPDATE ON schedule_rules 
+  FOR EACH ROW 
+  EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_spending_caps_updated_at 
+  BEFORE UPDATE ON spending_caps 
+  FOR EACH ROW 
+  EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_rewards_updated_at 
+  BEFORE UPDATE ON rewards 
+  FOR EACH ROW 
+  EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_savings_goals_updated_at 
+  BEFORE UPDATE ON savings_goals 
+  FOR EACH ROW 
+  EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_credit_lines_updated_at 
+  BEFORE UPDATE ON credit_lines 
+  FOR EACH ROW 
+  EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_transfer_settings_updated_at 
+  BEFORE UPDATE ON transfer_settings 
+  FOR EACH ROW 
+  EXECUTE FUNCTION update_updated_at_column();
+
 -- Create function to automatically create profile after user signup
 CREATE OR REPLACE FUNCTION public.handle_new_user()
 RETURNS TRIGGER AS $$
@@ -89,10 +475,12 @@ CREATE TRIGGER on_auth_user_created
   FOR EACH ROW EXECUTE FUNCTION public.handle_new_user();
 
 -- Create function to update profile balance after transaction
+-- earn/allowance count as income, refunds give back a spend, and parent
+-- adjustments/penalties, goal transfers, loans and family transfers move the balance without touching the totals
 CREATE OR REPLACE FUNCTION update_profile_balance()
 RETURNS TRIGGER AS $$
 BEGIN
-  IF NEW.type = 'earn' THEN
+  IF NEW.type IN ('earn', 'allowance') THEN
     UPDATE profiles 
     SET 
       balance = balance + NEW.amount,
@@ -106,6 +494,25 @@ BEGIN
       total_spent = total_spent + NEW.amount,
       updated_at = NOW()
     WHERE id = NEW.user_id;
+  ELSIF NEW.type = 'refund' THEN
+    UPDATE profiles 
+    SET 
+      balance = balance + NEW.amount,
+      total_spent = GREATEST(total_spent - NEW.amount, 0),
+      updated_at = NOW()
+    WHERE id = NEW.user_id;
+  ELSIF NEW.type IN ('adjustment', 'goal_withdrawal', 'loan', 'transfer_in') THEN
+    UPDATE profiles 
+    SET 
+      balance = balance + NEW.amount,
+      updated_at = NOW()
+    WHERE id = NEW.user_id;
+  ELSIF NEW.type IN ('penalty', 'goal_deposit', 'loan_repayment', 'transfer_out') THEN
+    UPDATE profiles 
+    SET 
+      balance = balance - NEW.amount,
+      updated_at = NOW()
+    WHERE id = NEW.user_id;
   END IF;
   
   RETURN NEW;
@@ -117,13 +524,44 @@ CREATE TRIGGER on_transaction_created
   AFTER INSERT ON transactions
   FOR EACH ROW EXECUTE FUNCTION update_profile_balance();
 
--- Create function to validate transaction amount against balance for spend transactions
+-- Create function to stop clients from editing role or balances directly
+-- Balance columns may only change from inside on_transaction_created (trigger depth > 1);
+-- service-role and SQL editor sessions are not restricted.
+CREATE OR REPLACE FUNCTION guard_profile_protected_columns()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF pg_trigger_depth() > 1 OR COALESCE(auth.role(), '') NOT IN ('authenticated', 'anon') THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.balance IS DISTINCT FROM OLD.balance
+    OR NEW.total_earned IS DISTINCT FROM OLD.total_earned
+    OR NEW.total_spent IS DISTINCT FROM OLD.total_spent THEN
+    RAISE EXCEPTION 'Token balances can only be changed through wallet transactions'
+      USING ERRCODE = '42501';
+  END IF;
+
+  IF NEW.role IS DISTINCT FROM OLD.role THEN
+    RAISE EXCEPTION 'Profile role cannot be changed'
+      USING ERRCODE = '42501';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Create trigger to guard protected profile columns
+CREATE TRIGGER guard_profile_protected_columns_before_update
+  BEFORE UPDATE ON profiles
+  FOR EACH ROW EXECUTE FUNCTION guard_profile_protected_columns();
+
+-- Create function to validate transaction amount against balance for transactions that remove tokens
 CREATE OR REPLACE FUNCTION validate_spend_transaction()
 RETURNS TRIGGER AS $$
 DECLARE
   current_balance INTEGER;
 BEGIN
-  IF NEW.type = 'spend' THEN
+  IF NEW.type IN ('spend', 'penalty', 'goal_deposit', 'loan_repayment', 'transfer_out') THEN
     SELECT balance INTO current_balance 
     FROM profiles 
     WHERE id = NEW.user_id;
@@ -142,6 +580,1052 @@ CREATE TRIGGER validate_spend_before_insert
   BEFORE INSERT ON transactions
   FOR EACH ROW EXECUTE FUNCTION validate_spend_transaction();
 
+-- Create function to repay a user's outstanding loans out of income they just received
+-- Takes up to the whole income, records one loan_repayment ledger row and pays loans off oldest first.
+-- Called by wallet_apply_transaction with the profile row already locked; returns NULL when nothing is owed.
+-- Not callable by clients directly (see rls_policies.sql).
+CREATE OR REPLACE FUNCTION repay_loans_from_income(
+  p_user_id UUID,
+  p_income INTEGER
+)
+RETURNS transactions AS $$
+DECLARE
+  owed INTEGER;
+  remaining INTEGER;
+  loan_row loans;
+  payment INTEGER;
+  repayment transactions;
+BEGIN
+  SELECT COALESCE(SUM(outstanding), 0) INTO owed FROM loans WHERE child_id = p_user_id;
+
+  remaining := LEAST(owed, p_income);
+  IF remaining <= 0 THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO transactions (user_id, amount, type, description)
+  VALUES (p_user_id, remaining, 'loan_repayment', 'Loan repayment')
+  RETURNING * INTO repayment;
+
+  FOR loan_row IN
+    SELECT * FROM loans
+    WHERE child_id = p_user_id AND outstanding > 0
+    ORDER BY borrowed_at
+    FOR UPDATE
+  LOOP
+    EXIT WHEN remaining = 0;
+
+    payment := LEAST(loan_row.outstanding, remaining);
+    UPDATE loans
+    SET
+      outstanding = outstanding - payment,
+      repaid_at = CASE WHEN outstanding = payment THEN NOW() ELSE NULL END
+    WHERE id = loan_row.id;
+
+    remaining := remaining - payment;
+  END LOOP;
+
+  RETURN repayment;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Create function to decide when a client's wallet transaction happened
+-- Clients are not trusted with the time: a live call is recorded at the server's clock. Only a
+-- replay from the offline queue (it carries a client_txn_id) may be dated earlier, and never more
+-- than 3 days back, so a spend cannot be moved to a day whose caps it escapes.
+CREATE OR REPLACE FUNCTION wallet_client_timestamp(p_timestamp TIMESTAMPTZ, p_client_txn_id TEXT)
+RETURNS TIMESTAMPTZ AS $$
+  SELECT CASE
+    WHEN p_timestamp IS NULL OR p_client_txn_id IS NULL THEN NOW()
+    ELSE LEAST(GREATEST(p_timestamp, NOW() - INTERVAL '3 days'), NOW())
+  END;
+$$ LANGUAGE sql STABLE;
+
+-- Create function to apply a wallet operation for a user
+-- Locks the profile row, inserts the ledger row and lets on_transaction_created
+-- adjust the balance, all inside the caller's database transaction.
+-- Income (earn/allowance) first pays down outstanding loans; the repayment is returned alongside.
+-- A spend linked to an app session is added to that session's tokens_charged; a linked refund
+-- (unused prepaid time) is taken back off it, and a linked earn is added to its tokens_earned.
+-- A prepaid session takes one spend, its block, so a refund can only give back unused block time.
+-- Not callable by clients directly (see rls_policies.sql); use the wallet_* RPCs below.
+CREATE OR REPLACE FUNCTION wallet_apply_transaction(
+  p_user_id UUID,
+  p_type TEXT,
+  p_amount INTEGER,
+  p_description TEXT,
+  p_proof_image_url TEXT DEFAULT NULL,
+  p_app_name TEXT DEFAULT NULL,
+  p_timestamp TIMESTAMPTZ DEFAULT NULL,
+  p_client_txn_id TEXT DEFAULT NULL,
+  p_created_by UUID DEFAULT NULL,
+  p_usage_seconds INTEGER DEFAULT NULL,
+  p_counterparty_id UUID DEFAULT NULL,
+  p_session_id UUID DEFAULT NULL
+)
+RETURNS JSON AS $$
+DECLARE
+  new_transaction transactions;
+  repayment transactions;
+  updated_profile profiles;
+BEGIN
+  IF p_user_id IS NULL THEN
+    RAISE EXCEPTION 'User must be authenticated to change token balance';
+  END IF;
+
+  IF p_amount IS NULL OR p_amount <= 0 THEN
+    RAISE EXCEPTION 'Token amount must be positive';
+  END IF;
+
+  IF p_description IS NULL OR btrim(p_description) = '' THEN
+    RAISE EXCEPTION 'Description is required';
+  END IF;
+
+  -- Serialize concurrent operations on the same wallet
+  PERFORM 1 FROM profiles WHERE id = p_user_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Profile not found for user %', p_user_id;
+  END IF;
+
+  -- A replayed offline transaction must not be applied twice. Checked before the
+  -- insert so a duplicate spend reports a conflict rather than insufficient balance.
+  IF p_client_txn_id IS NOT NULL
+    AND EXISTS (SELECT 1 FROM transactions WHERE client_txn_id = p_client_txn_id) THEN
+    RAISE EXCEPTION 'Transaction % has already been recorded', p_client_txn_id
+      USING ERRCODE = 'unique_violation';
+  END IF;
+
+  IF p_session_id IS NOT NULL AND p_type = 'spend' AND EXISTS (
+    SELECT 1 FROM app_sessions s
+    WHERE s.id = p_session_id
+    AND s.prepaid_seconds IS NOT NULL
+    AND EXISTS (SELECT 1 FROM transactions t WHERE t.session_id = s.id AND t.type = 'spend')
+  ) THEN
+    RAISE EXCEPTION 'A prepaid session is charged once, for its block';
+  END IF;
+
+  INSERT INTO transactions (
+    user_id, amount, type, description, proof_image_url, app_name, timestamp,
+    client_txn_id, created_by, usage_seconds, counterparty_id, session_id
+  )
+  VALUES (
+    p_user_id,
+    p_amount,
+    p_type,
+    btrim(p_description),
+    p_proof_image_url,
+    p_app_name,
+    COALESCE(p_timestamp, NOW()),
+    p_client_txn_id,
+    p_created_by,
+    p_usage_seconds,
+    p_counterparty_id,
+    p_session_id
+  )
+  RETURNING * INTO new_transaction;
+
+  IF p_session_id IS NOT NULL AND p_type = 'spend' THEN
+    UPDATE app_sessions
+    SET tokens_charged = tokens_charged + p_amount
+    WHERE id = p_session_id;
+  ELSIF p_session_id IS NOT NULL AND p_type = 'refund' THEN
+    UPDATE app_sessions
+    SET tokens_charged = GREATEST(tokens_charged - p_amount, 0)
+    WHERE id = p_session_id;
+  ELSIF p_session_id IS NOT NULL AND p_type = 'earn' THEN
+    UPDATE app_sessions
+    SET tokens_earned = tokens_earned + p_amount
+    WHERE id = p_session_id;
+  END IF;
+
+  IF p_type IN ('earn', 'allowance') THEN
+    repayment := repay_loans_from_income(p_user_id, p_amount);
+  END IF;
+
+  -- Balance and totals were updated by the on_transaction_created trigger
+  SELECT * INTO updated_profile FROM profiles WHERE id = p_user_id;
+
+  RETURN json_build_object(
+    'transaction', row_to_json(new_transaction),
+    'profile', row_to_json(updated_profile),
+    'repayment', CASE WHEN repayment.id IS NULL THEN NULL ELSE row_to_json(repayment) END
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Create function for crediting the current user any amount of earnings
+-- Not callable by clients directly (see rls_policies.sql): children are paid through
+-- wallet_complete_quest and wallet_earn_app_time, which work out the amount themselves.
+CREATE OR REPLACE FUNCTION wallet_earn(
+  p_amount INTEGER,
+  p_description TEXT,
+  p_proof_image_url TEXT DEFAULT NULL,
+  p_timestamp TIMESTAMPTZ DEFAULT NULL,
+  p_client_txn_id TEXT DEFAULT NULL,
+  p_app_name TEXT DEFAULT NULL,
+  p_usage_seconds INTEGER DEFAULT NULL,
+  p_client_session_id TEXT DEFAULT NULL
+)
+RETURNS JSON AS $$
+BEGIN
+  RETURN wallet_apply_transaction(
+    auth.uid(), 'earn', p_amount, p_description, p_proof_image_url, p_app_name,
+    wallet_client_timestamp(p_timestamp, p_client_txn_id), p_client_txn_id, NULL,
+    p_usage_seconds, NULL, resolve_app_session(auth.uid(), p_client_session_id)
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Create function to find a user's app session from the id their session engine gave it
+-- Returns NULL when the session never reached the server (it was started offline), so the
+-- spend is still recorded, just without a session link.
+CREATE OR REPLACE FUNCTION resolve_app_session(p_user_id UUID, p_client_session_id TEXT)
+RETURNS UUID AS $$
+  SELECT id FROM app_sessions
+  WHERE client_session_id = p_client_session_id
+  AND child_id = p_user_id;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Create RPC for spending tokens (app usage)
+-- A live spend is refused once the child's other spending today has reached a daily cap on the
+-- app, so a session cannot start billing past a cap. The session that crosses a cap is still
+-- charged for its time until the app stops it. A replay from the offline queue is charged for time
+-- already used, and one past a cap is recorded as a wallet exception for parents to review.
+CREATE OR REPLACE FUNCTION wallet_spend(
+  p_amount INTEGER,
+  p_description TEXT,
+  p_app_name TEXT DEFAULT NULL,
+  p_timestamp TIMESTAMPTZ DEFAULT NULL,
+  p_client_txn_id TEXT DEFAULT NULL,
+  p_usage_seconds INTEGER DEFAULT NULL,
+  p_client_session_id TEXT DEFAULT NULL
+)
+RETURNS JSON AS $$
+DECLARE
+  current_user_id UUID := auth.uid();
+  spend_session_id UUID := resolve_app_session(current_user_id, p_client_session_id);
+  event_time TIMESTAMPTZ := wallet_client_timestamp(p_timestamp, p_client_txn_id);
+  reached_cap spending_caps;
+  spend_result JSON;
+BEGIN
+  reached_cap := find_reached_spending_cap(
+    current_user_id,
+    COALESCE(
+      (SELECT category FROM app_sessions WHERE id = spend_session_id),
+      get_child_app_category(current_user_id, p_app_name)
+    ),
+    spend_session_id
+  );
+  IF reached_cap.id IS NOT NULL AND (p_timestamp IS NULL OR p_client_txn_id IS NULL) THEN
+    RAISE EXCEPTION 'Daily spending limit reached';
+  END IF;
+
+  spend_result := wallet_apply_transaction(
+    current_user_id, 'spend', p_amount, p_description, NULL, p_app_name, event_time,
+    p_client_txn_id, NULL, p_usage_seconds, NULL, spend_session_id
+  );
+
+  IF reached_cap.id IS NOT NULL THEN
+    INSERT INTO wallet_exceptions (
+      user_id, client_txn_id, requested_amount, charged_amount, shortfall,
+      description, app_name, reason, occurred_at
+    )
+    VALUES (
+      current_user_id, p_client_txn_id, p_amount, p_amount, 0,
+      btrim(p_description), p_app_name, 'Daily spending limit passed while offline', event_time
+    );
+  END IF;
+
+  RETURN spend_result;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Create RPC for refunding the unused part of a prepaid app session
+-- Only a prepaid session can be refunded, and only once. The server works out what is unused: the
+-- block less the time since the server opened the session, paused time included, and the same share
+-- of what the block cost. The amount asked for can only lower that. The refund is recorded against
+-- the session's app with the unused seconds, so minute caps give back only time that was not used.
+-- A refund replayed from the offline queue is worked out when it arrives, so it gives back less.
+CREATE OR REPLACE FUNCTION wallet_refund(
+  p_amount INTEGER,
+  p_description TEXT,
+  p_timestamp TIMESTAMPTZ DEFAULT NULL,
+  p_client_txn_id TEXT DEFAULT NULL,
+  p_app_name TEXT DEFAULT NULL,
+  p_usage_seconds INTEGER DEFAULT NULL,
+  p_client_session_id TEXT DEFAULT NULL
+)
+RETURNS JSON AS $$
+DECLARE
+  current_user_id UUID := auth.uid();
+  refund_session app_sessions;
+  block transactions;
+  unused_seconds INTEGER;
+  refund_amount INTEGER;
+BEGIN
+  IF p_amount IS NULL OR p_amount <= 0 THEN
+    RAISE EXCEPTION 'Token amount must be positive';
+  END IF;
+
+  SELECT * INTO refund_session FROM app_sessions
+  WHERE client_session_id = p_client_session_id
+  AND child_id = current_user_id
+  FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'A refund must be for one of your app sessions'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  -- A replay of a refund that was already recorded reports the conflict, not a second refund
+  IF p_client_txn_id IS NOT NULL
+    AND EXISTS (SELECT 1 FROM transactions WHERE client_txn_id = p_client_txn_id) THEN
+    RAISE EXCEPTION 'Transaction % has already been recorded', p_client_txn_id
+      USING ERRCODE = 'unique_violation';
+  END IF;
+
+  IF refund_session.prepaid_seconds IS NULL THEN
+    RAISE EXCEPTION 'Only unused prepaid time can be refunded';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM transactions WHERE session_id = refund_session.id AND type = 'refund') THEN
+    RAISE EXCEPTION 'This session has already been refunded';
+  END IF;
+
+  SELECT * INTO block FROM transactions
+  WHERE session_id = refund_session.id
+  AND type = 'spend';
+
+  unused_seconds := GREATEST(
+    refund_session.prepaid_seconds - ceil(EXTRACT(EPOCH FROM NOW() - refund_session.opened_at))::INTEGER,
+    0
+  );
+  refund_amount := LEAST(p_amount, COALESCE(block.amount, 0) * unused_seconds / refund_session.prepaid_seconds);
+
+  IF refund_amount <= 0 THEN
+    RAISE EXCEPTION 'Nothing left to refund for this session';
+  END IF;
+
+  RETURN wallet_apply_transaction(
+    current_user_id, 'refund', refund_amount, p_description, NULL, refund_session.app_name,
+    wallet_client_timestamp(p_timestamp, p_client_txn_id), p_client_txn_id, NULL,
+    LEAST(unused_seconds, COALESCE(block.usage_seconds, 0)), NULL, refund_session.id
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Create RPC for reconciling an offline spend the server rejected for insufficient balance
+-- Charges whatever balance is left and records the remainder as a parent-visible exception.
+-- Replays with the same client_txn_id raise unique_violation, like the other wallet RPCs.
+CREATE OR REPLACE FUNCTION wallet_record_overdraft(
+  p_amount INTEGER,
+  p_description TEXT,
+  p_app_name TEXT DEFAULT NULL,
+  p_timestamp TIMESTAMPTZ DEFAULT NULL,
+  p_client_txn_id TEXT DEFAULT NULL,
+  p_reason TEXT DEFAULT 'Insufficient balance when synced',
+  p_usage_seconds INTEGER DEFAULT NULL,
+  p_client_session_id TEXT DEFAULT NULL
+)
+RETURNS JSON AS $$
+DECLARE
+  current_user_id UUID := auth.uid();
+  current_balance INTEGER;
+  charged INTEGER;
+  event_time TIMESTAMPTZ := wallet_client_timestamp(p_timestamp, p_client_txn_id);
+  spend_result JSON;
+  new_exception wallet_exceptions;
+  updated_profile profiles;
+BEGIN
+  IF current_user_id IS NULL THEN
+    RAISE EXCEPTION 'User must be authenticated to change token balance';
+  END IF;
+
+  IF p_amount IS NULL OR p_amount <= 0 THEN
+    RAISE EXCEPTION 'Token amount must be positive';
+  END IF;
+
+  IF p_description IS NULL OR btrim(p_description) = '' THEN
+    RAISE EXCEPTION 'Description is required';
+  END IF;
+
+  SELECT balance INTO current_balance FROM profiles WHERE id = current_user_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Profile not found for user %', current_user_id;
+  END IF;
+
+  IF p_client_txn_id IS NOT NULL AND (
+    EXISTS (SELECT 1 FROM wallet_exceptions WHERE client_txn_id = p_client_txn_id)
+    OR EXISTS (SELECT 1 FROM transactions WHERE client_txn_id = p_client_txn_id)
+  ) THEN
+    RAISE EXCEPTION 'Transaction % has already been recorded', p_client_txn_id
+      USING ERRCODE = 'unique_violation';
+  END IF;
+
+  charged := LEAST(current_balance, p_amount);
+
+  IF charged > 0 THEN
+    spend_result := wallet_apply_transaction(
+      current_user_id, 'spend', charged, p_description, NULL, p_app_name, event_time, p_client_txn_id,
+      NULL, p_usage_seconds, NULL, resolve_app_session(current_user_id, p_client_session_id)
+    );
+  END IF;
+
+  IF charged < p_amount THEN
+    INSERT INTO wallet_exceptions (
+      user_id, client_txn_id, requested_amount, charged_amount, shortfall,
+      description, app_name, reason, occurred_at
+    )
+    VALUES (
+      current_user_id, p_client_txn_id, p_amount, charged, p_amount - charged,
+      btrim(p_description), p_app_name, p_reason, event_time
+    )
+    RETURNING * INTO new_exception;
+  END IF;
+
+  SELECT * INTO updated_profile FROM profiles WHERE id = current_user_id;
+
+  RETURN json_build_object(
+    'transaction', spend_result->'transaction',
+    'exception', CASE WHEN new_exception.id IS NULL THEN NULL ELSE row_to_json(new_exception) END,
+    'profile', row_to_json(updated_profile)
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Create RPC for recording that the current user started an app session
+-- Opening the same client session again returns the existing row, so the app can retry
+-- an open that failed while offline. The category comes from the family's catalog when it lists
+-- the app, so spending caps count the session's spends under the category the parent set.
+-- A prepaid session is opened with the length of its block before the block is charged.
+CREATE OR REPLACE FUNCTION open_app_session(
+  p_client_session_id TEXT,
+  p_app_name TEXT,
+  p_category TEXT DEFAULT NULL,
+  p_tokens_per_minute NUMERIC DEFAULT 1,
+  p_started_at TIMESTAMPTZ DEFAULT NULL,
+  p_classification TEXT DEFAULT 'entertainment',
+  p_prepaid_seconds INTEGER DEFAULT NULL
+)
+RETURNS app_sessions AS $$
+DECLARE
+  current_user_id UUID := auth.uid();
+  session_category TEXT;
+  session_row app_sessions;
+BEGIN
+  IF current_user_id IS NULL THEN
+    RAISE EXCEPTION 'User must be authenticated to start an app session';
+  END IF;
+
+  IF p_client_session_id IS NULL OR btrim(p_client_session_id) = '' THEN
+    RAISE EXCEPTION 'Session id is required';
+  END IF;
+
+  IF p_app_name IS NULL OR btrim(p_app_name) = '' THEN
+    RAISE EXCEPTION 'App name is required';
+  END IF;
+
+  session_category := COALESCE(get_child_app_category(current_user_id, p_app_name), NULLIF(btrim(p_category), ''));
+
+  IF p_prepaid_seconds IS NOT NULL AND COALESCE(p_classification, 'entertainment') <> 'entertainment' THEN
+    RAISE EXCEPTION 'Only entertainment apps can be prepaid';
+  END IF;
+
+  INSERT INTO app_sessions (
+    child_id, client_session_id, app_name, category, classification, tokens_per_minute, started_at,
+    prepaid_seconds, last_heartbeat_at
+  )
+  VALUES (
+    current_user_id,
+    p_client_session_id,
+    btrim(p_app_name),
+    session_category,
+    COALESCE(p_classification, 'entertainment'),
+    p_tokens_per_minute,
+    -- A start time from the client can be earlier than now (opened offline) but never later,
+    -- and no earlier than an offline replay may be dated (see wallet_client_timestamp)
+    LEAST(GREATEST(COALESCE(p_started_at, NOW()), NOW() - INTERVAL '3 days'), NOW()),
+    p_prepaid_seconds,
+    NOW()
+  )
+  ON CONFLICT (client_session_id) DO NOTHING
+  RETURNING * INTO session_row;
+
+  IF session_row.id IS NULL THEN
+    SELECT * INTO session_row FROM app_sessions
+    WHERE client_session_id = p_client_session_id
+    AND child_id = current_user_id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'App session % not found', p_client_session_id;
+    END IF;
+  END IF;
+
+  RETURN session_row;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Create RPC for keeping the current user's app session open
+-- A heartbeat for a session closed as stale reopens it: the gap was the connection, not the child stopping.
+CREATE OR REPLACE FUNCTION heartbeat_app_session(
+  p_client_session_id TEXT,
+  p_active_seconds INTEGER DEFAULT NULL
+)
+RETURNS app_sessions AS $$
+DECLARE
+  session_row app_sessions;
+BEGIN
+  UPDATE app_sessions
+  SET
+    last_heartbeat_at = NOW(),
+    active_seconds = GREATEST(active_seconds, COALESCE(p_active_seconds, 0)),
+    ended_at = CASE WHEN end_reason = 'stale' THEN NULL ELSE ended_at END,
+    end_reason = CASE WHEN end_reason = 'stale' THEN NULL ELSE end_reason END
+  WHERE client_session_id = p_client_session_id
+  AND child_id = auth.uid()
+  RETURNING * INTO session_row;
+
+  IF session_row.id IS NULL THEN
+    RAISE EXCEPTION 'App session % not found', p_client_session_id;
+  END IF;
+
+  RETURN session_row;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Create RPC for closing the current user's app session with the reason it ended
+-- Closing twice keeps the first reason, except that a real close replaces a stale one.
+CREATE OR REPLACE FUNCTION close_app_session(
+  p_client_session_id TEXT,
+  p_end_reason TEXT DEFAULT 'user',
+  p_active_seconds INTEGER DEFAULT NULL
+)
+RETURNS app_sessions AS $$
+DECLARE
+  session_row app_sessions;
+BEGIN
+  IF p_end_reason IS NULL OR p_end_reason = 'stale' THEN
+    RAISE EXCEPTION 'Invalid end reason %', p_end_reason;
+  END IF;
+
+  UPDATE app_sessions
+  SET
+    active_seconds = GREATEST(active_seconds, COALESCE(p_active_seconds, 0)),
+    ended_at = CASE WHEN ended_at IS NULL OR end_reason = 'stale' THEN NOW() ELSE ended_at END,
+    end_reason = CASE WHEN ended_at IS NULL OR end_reason = 'stale' THEN p_end_reason ELSE end_reason END
+  WHERE client_session_id = p_client_session_id
+  AND child_id = auth.uid()
+  RETURNING * INTO session_row;
+
+  IF session_row.id IS NULL THEN
+    RAISE EXCEPTION 'App session % not found', p_client_session_id;
+  END IF;
+
+  RETURN session_row;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Create RPC for claiming or renewing the current user's session lease for a device
+-- Renewing a lease the device already holds, or taking one that has lapsed, always succeeds.
+-- A live lease held by another device raises lock_not_available with the holder's label as
+-- the detail, unless p_takeover is set: the lease then moves here and the other device's open
+-- session is closed as 'taken_over' (that device stops when it sees the lease change).
+CREATE OR REPLACE FUNCTION acquire_session_lease(
+  p_device_id TEXT,
+  p_device_label TEXT DEFAULT NULL,
+  p_client_session_id TEXT DEFAULT NULL,
+  p_takeover BOOLEAN DEFAULT false,
+  p_lease_seconds INTEGER DEFAULT 120
+)
+RETURNS session_leases AS $$
+DECLARE
+  current_user_id UUID := auth.uid();
+  lease_row session_leases;
+BEGIN
+  IF current_user_id IS NULL THEN
+    RAISE EXCEPTION 'User must be authenticated to run app sessions';
+  END IF;
+
+  IF p_device_id IS NULL OR btrim(p_device_id) = '' THEN
+    RAISE EXCEPTION 'Device id is required';
+  END IF;
+
+  IF p_lease_seconds IS NULL OR p_lease_seconds < 30 OR p_lease_seconds > 600 THEN
+    RAISE EXCEPTION 'Lease length must be between 30 and 600 seconds';
+  END IF;
+
+  -- Lock the child's lease so two devices starting at once cannot both win
+  SELECT * INTO lease_row FROM session_leases
+  WHERE child_id = current_user_id
+  FOR UPDATE;
+
+  IF FOUND AND lease_row.device_id <> p_device_id AND lease_row.expires_at > NOW() THEN
+    IF NOT p_takeover THEN
+      RAISE EXCEPTION 'An app session is already running on %', COALESCE(lease_row.device_label, 'another device')
+        USING ERRCODE = 'lock_not_available', DETAIL = COALESCE(lease_row.device_label, 'another device');
+    END IF;
+
+    IF lease_row.client_session_id IS NOT NULL THEN
+      UPDATE app_sessions
+      SET ended_at = NOW(), end_reason = 'taken_over'
+      WHERE client_session_id = lease_row.client_session_id
+      AND child_id = current_user_id
+      AND (ended_at IS NULL OR end_reason = 'stale');
+    END IF;
+  END IF;
+
+  INSERT INTO session_leases (child_id, device_id, device_label, client_session_id, acquired_at, expires_at)
+  VALUES (
+    current_user_id,
+    p_device_id,
+    NULLIF(btrim(p_device_label), ''),
+    p_client_session_id,
+    NOW(),
+    NOW() + make_interval(secs => p_lease_seconds)
+  )
+  ON CONFLICT (child_id) DO UPDATE SET
+    device_id = EXCLUDED.device_id,
+    device_label = EXCLUDED.device_label,
+    client_session_id = EXCLUDED.client_session_id,
+    -- A renewal keeps the original acquisition time
+    acquired_at = CASE
+      WHEN session_leases.device_id = EXCLUDED.device_id AND session_leases.expires_at > NOW()
+        THEN session_leases.acquired_at
+      ELSE NOW()
+    END,
+    expires_at = EXCLUDED.expires_at
+  RETURNING * INTO lease_row;
+
+  RETURN lease_row;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Create RPC for giving up the current user's session lease when a device's session ends
+-- Returns false when the device no longer held it (it lapsed or was taken over).
+CREATE OR REPLACE FUNCTION release_session_lease(p_device_id TEXT)
+RETURNS BOOLEAN AS $$
+BEGIN
+  DELETE FROM session_leases
+  WHERE child_id = auth.uid()
+  AND device_id = p_device_id;
+
+  RETURN FOUND;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Devices listen for lease changes so a session taken over elsewhere stops straight away
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_publication WHERE pubname = 'supabase_realtime') THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE session_leases;
+  END IF;
+EXCEPTION
+  WHEN duplicate_object THEN NULL;
+END $$;
+
+-- Create RPC returning the database clock, the app's trusted time source for billing
+CREATE OR REPLACE FUNCTION get_server_time()
+RETURNS TIMESTAMPTZ AS $$
+  SELECT clock_timestamp();
+$$ LANGUAGE sql VOLATILE;
+
+-- Create RPC for recording a device clock problem seen by the current user's app
+CREATE OR REPLACE FUNCTION report_clock_event(
+  p_kind TEXT,
+  p_skew_seconds INTEGER,
+  p_client_session_id TEXT DEFAULT NULL
+)
+RETURNS clock_events AS $$
+DECLARE
+  current_user_id UUID := auth.uid();
+  event_row clock_events;
+BEGIN
+  IF current_user_id IS NULL THEN
+    RAISE EXCEPTION 'User must be authenticated to report clock events';
+  END IF;
+
+  IF p_skew_seconds IS NULL THEN
+    RAISE EXCEPTION 'Clock skew is required';
+  END IF;
+
+  INSERT INTO clock_events (child_id, kind, skew_seconds, session_id)
+  VALUES (current_user_id, p_kind, p_skew_seconds, resolve_app_session(current_user_id, p_client_session_id))
+  RETURNING * INTO event_row;
+
+  RETURN event_row;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Create function to close app sessions whose heartbeats stopped (app killed, device offline)
+-- A stale session ends at its last heartbeat. Returns the number of sessions closed.
+-- Not callable by clients directly (see rls_policies.sql); schedule it with pg_cron:
+--   SELECT cron.schedule('close-stale-sessions', '* * * * *', 'SELECT close_stale_app_sessions()');
+CREATE OR REPLACE FUNCTION close_stale_app_sessions(
+  p_now TIMESTAMPTZ DEFAULT NOW(),
+  p_stale_after INTERVAL DEFAULT INTERVAL '2 minutes'
+)
+RETURNS INTEGER AS $$
+DECLARE
+  closed_count INTEGER;
+BEGIN
+  UPDATE app_sessions
+  SET
+    ended_at = last_heartbeat_at,
+    end_reason = 'stale'
+  WHERE ended_at IS NULL
+  AND last_heartbeat_at < p_now - p_stale_after;
+
+  GET DIAGNOSTICS closed_count = ROW_COUNT;
+  RETURN closed_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Create function to grant every allowance whose current period has started
+-- Safe to run as often as needed: allowance_grants allows one grant per allowance per period.
+-- Not callable by clients directly (see rls_policies.sql); schedule it with pg_cron:
+--   SELECT cron.schedule('grant-allowances', '*/15 * * * *', 'SELECT grant_due_allowances()');
+CREATE OR REPLACE FUNCTION grant_due_allowances(
+  p_now TIMESTAMPTZ DEFAULT NOW(),
+  p_child_id UUID DEFAULT NULL
+)
+RETURNS INTEGER AS $$
+DECLARE
+  allowance_row allowances;
+  local_now TIMESTAMP;
+  current_period_start DATE;
+  grant_id UUID;
+  grant_result JSON;
+  granted_count INTEGER := 0;
+BEGIN
+  FOR allowance_row IN
+    SELECT * FROM allowances
+    WHERE is_active = true
+    AND (p_child_id IS NULL OR child_id = p_child_id)
+  LOOP
+    local_now := p_now AT TIME ZONE allowance_row.timezone;
+
+    IF allowance_row.cadence = 'daily' THEN
+      current_period_start := local_now::DATE;
+    ELSE
+      current_period_start := local_now::DATE
+        - ((EXTRACT(DOW FROM local_now)::INTEGER - allowance_row.day_of_week + 7) % 7);
+    END IF;
+
+    -- The period has not reached its grant time yet
+    IF local_now < current_period_start + allowance_row.time_of_day THEN
+      CONTINUE;
+    END IF;
+
+    INSERT INTO allowance_grants (allowance_id, child_id, period_start, amount)
+    VALUES (allowance_row.id, allowance_row.child_id, current_period_start, allowance_row.amount)
+    ON CONFLICT (allowance_id, period_start) DO NOTHING
+    RETURNING id INTO grant_id;
+
+    IF grant_id IS NULL THEN
+      CONTINUE;
+    END IF;
+
+    grant_result := wallet_apply_transaction(
+      allowance_row.child_id,
+      'allowance',
+      allowance_row.amount,
+      CASE WHEN allowance_row.cadence = 'daily' THEN 'Daily allowance' ELSE 'Weekly allowance' END,
+      NULL,
+      NULL,
+      p_now
+    );
+
+    UPDATE allowance_grants
+    SET transaction_id = (grant_result->'transaction'->>'id')::UUID
+    WHERE id = grant_id;
+
+    granted_count := granted_count + 1;
+  END LOOP;
+
+  RETURN granted_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Create RPC for the app to claim the current user's due allowance (local scheduler fallback)
+CREATE OR REPLACE FUNCTION wallet_claim_allowance()
+RETURNS INTEGER AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'User must be authenticated to claim an allowance';
+  END IF;
+
+  RETURN grant_due_allowances(NOW(), auth.uid());
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Create RPC for moving tokens from the current user's balance into one of their savings goals
+-- A goal only takes what it still needs, and only while it is active.
+CREATE OR REPLACE FUNCTION wallet_goal_deposit(
+  p_goal_id UUID,
+  p_amount INTEGER
+)
+RETURNS JSON AS $$
+DECLARE
+  current_user_id UUID := auth.uid();
+  goal savings_goals;
+  reward_name TEXT;
+  deposit_result JSON;
+BEGIN
+  IF current_user_id IS NULL THEN
+    RAISE EXCEPTION 'User must be authenticated to save tokens';
+  END IF;
+
+  SELECT * INTO goal FROM savings_goals
+  WHERE id = p_goal_id AND child_id = current_user_id
+  FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Savings goal not found';
+  END IF;
+
+  IF goal.status <> 'active' THEN
+    RAISE EXCEPTION 'Tokens can only be added to an active goal';
+  END IF;
+
+  IF p_amount IS NULL OR p_amount <= 0 THEN
+    RAISE EXCEPTION 'Token amount must be positive';
+  END IF;
+
+  IF goal.saved_amount + p_amount > goal.target_amount THEN
+    RAISE EXCEPTION 'This goal only needs % more tokens', goal.target_amount - goal.saved_amount;
+  END IF;
+
+  SELECT name INTO reward_name FROM rewards WHERE id = goal.reward_id;
+
+  deposit_result := wallet_apply_transaction(
+    current_user_id, 'goal_deposit', p_amount, 'Saved toward ' || reward_name
+  );
+
+  UPDATE savings_goals
+  SET saved_amount = saved_amount + p_amount
+  WHERE id = goal.id
+  RETURNING * INTO goal;
+
+  RETURN json_build_object(
+    'transaction', deposit_result->'transaction',
+    'profile', deposit_result->'profile',
+    'goal', row_to_json(goal)
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Create RPC for returning saved tokens from an active goal to the current user's balance
+-- With p_cancel the whole amount is returned and the goal is closed.
+CREATE OR REPLACE FUNCTION wallet_goal_withdraw(
+  p_goal_id UUID,
+  p_amount INTEGER DEFAULT NULL,
+  p_cancel BOOLEAN DEFAULT false
+)
+RETURNS JSON AS $$
+DECLARE
+  current_user_id UUID := auth.uid();
+  goal savings_goals;
+  reward_name TEXT;
+  withdraw_amount INTEGER;
+  withdraw_result JSON;
+  updated_profile profiles;
+BEGIN
+  IF current_user_id IS NULL THEN
+    RAISE EXCEPTION 'User must be authenticated to withdraw savings';
+  END IF;
+
+  SELECT * INTO goal FROM savings_goals
+  WHERE id = p_goal_id AND child_id = current_user_id
+  FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Savings goal not found';
+  END IF;
+
+  -- A goal waiting for a parent's decision keeps its tokens until the request is rejected
+  IF goal.status <> 'active' THEN
+    RAISE EXCEPTION 'Tokens can only be withdrawn from an active goal';
+  END IF;
+
+  withdraw_amount := CASE WHEN p_cancel THEN goal.saved_amount ELSE p_amount END;
+
+  IF NOT p_cancel AND (withdraw_amount IS NULL OR withdraw_amount <= 0) THEN
+    RAISE EXCEPTION 'Token amount must be positive';
+  END IF;
+
+  IF withdraw_amount > goal.saved_amount THEN
+    RAISE EXCEPTION 'Only % tokens are saved in this goal', goal.saved_amount;
+  END IF;
+
+  SELECT name INTO reward_name FROM rewards WHERE id = goal.reward_id;
+
+  IF withdraw_amount > 0 THEN
+    withdraw_result := wallet_apply_transaction(
+      current_user_id, 'goal_withdrawal', withdraw_amount, 'Withdrawn from ' || reward_name || ' goal'
+    );
+  END IF;
+
+  UPDATE savings_goals
+  SET
+    saved_amount = saved_amount - withdraw_amount,
+    status = CASE WHEN p_cancel THEN 'cancelled' ELSE status END
+  WHERE id = goal.id
+  RETURNING * INTO goal;
+
+  SELECT * INTO updated_profile FROM profiles WHERE id = current_user_id;
+
+  RETURN json_build_object(
+    'transaction', withdraw_result->'transaction',
+    'profile', row_to_json(updated_profile),
+    'goal', row_to_json(goal)
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Create RPC for asking a parent to exchange a fully saved goal for its reward
+-- The goal is held (no withdrawals) until a parent approves or rejects the request.
+CREATE OR REPLACE FUNCTION request_reward_redemption(p_goal_id UUID)
+RETURNS reward_redemptions AS $$
+DECLARE
+  current_user_id UUID := auth.uid();
+  goal savings_goals;
+  new_redemption reward_redemptions;
+BEGIN
+  IF current_user_id IS NULL THEN
+    RAISE EXCEPTION 'User must be authenticated to request a reward';
+  END IF;
+
+  SELECT * INTO goal FROM savings_goals
+  WHERE id = p_goal_id AND child_id = current_user_id
+  FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Savings goal not found';
+  END IF;
+
+  IF goal.status <> 'active' THEN
+    RAISE EXCEPTION 'This goal already has a request or is closed';
+  END IF;
+
+  IF goal.saved_amount < goal.target_amount THEN
+    RAISE EXCEPTION 'Save % more tokens before requesting this reward', goal.target_amount - goal.saved_amount;
+  END IF;
+
+  INSERT INTO reward_redemptions (goal_id, child_id, reward_id, token_cost)
+  VALUES (goal.id, current_user_id, goal.reward_id, goal.target_amount)
+  RETURNING * INTO new_redemption;
+
+  UPDATE savings_goals SET status = 'requested' WHERE id = goal.id;
+
+  RETURN new_redemption;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Create RPC for borrowing tokens against the current user's future income
+-- Only children a parent has given an active credit line can borrow, up to its limit in total.
+CREATE OR REPLACE FUNCTION wallet_borrow(p_amount INTEGER)
+RETURNS JSON AS $$
+DECLARE
+  current_user_id UUID := auth.uid();
+  credit credit_lines;
+  owed INTEGER;
+  borrow_result JSON;
+  new_loan loans;
+BEGIN
+  IF current_user_id IS NULL THEN
+    RAISE EXCEPTION 'User must be authenticated to borrow tokens';
+  END IF;
+
+  IF p_amount IS NULL OR p_amount <= 0 THEN
+    RAISE EXCEPTION 'Token amount must be positive';
+  END IF;
+
+  -- Serialize with other wallet operations so concurrent borrows cannot both pass the limit check
+  PERFORM 1 FROM profiles WHERE id = current_user_id FOR UPDATE;
+
+  SELECT * INTO credit FROM credit_lines
+  WHERE child_id = current_user_id AND is_active = true;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Borrowing is not turned on for this account';
+  END IF;
+
+  SELECT COALESCE(SUM(outstanding), 0) INTO owed FROM loans WHERE child_id = current_user_id;
+
+  IF owed + p_amount > credit.credit_limit THEN
+    RAISE EXCEPTION 'Credit limit reached. You can borrow up to % more tokens',
+      GREATEST(credit.credit_limit - owed, 0);
+  END IF;
+
+  borrow_result := wallet_apply_transaction(
+    current_user_id, 'loan', p_amount, 'Borrowed against future earnings'
+  );
+
+  INSERT INTO loans (child_id, amount, outstanding, transaction_id)
+  VALUES (current_user_id, p_amount, p_amount, (borrow_result->'transaction'->>'id')::UUID)
+  RETURNING * INTO new_loan;
+
+  RETURN json_build_object(
+    'transaction', borrow_result->'transaction',
+    'profile', borrow_result->'profile',
+    'loan', row_to_json(new_loan)
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Create function to carry out a pending family transfer
+-- Locks both wallets in id order (so opposite transfers cannot deadlock), then writes the
+-- sender's transfer_out and the recipient's transfer_in rows in the same database transaction.
+-- Not callable by clients directly (see rls_policies.sql); use wallet_transfer / decide_token_transfer.
+CREATE OR REPLACE FUNCTION apply_token_transfer(
+  p_transfer_id UUID,
+  p_decided_by UUID DEFAULT NULL
+)
+RETURNS JSON AS $$
+DECLARE
+  transfer token_transfers;
+  debit_result JSON;
+  credit_result JSON;
+  note_suffix TEXT;
+BEGIN
+  SELECT * INTO transfer FROM token_transfers WHERE id = p_transfer_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Transfer not found';
+  END IF;
+
+  IF transfer.status <> 'pending' THEN
+    RAISE EXCEPTION 'This transfer has already been decided';
+  END IF;
+
+  PERFORM 1 FROM profiles
+  WHERE id IN (transfer.from_user_id, transfer.to_user_id)
+  ORDER BY id
+  FOR UPDATE;
+
+  note_suffix := COALESCE(': ' || NULLIF(btrim(transfer.note), ''), '');
+
+  debit_result := wallet_apply_transaction(
+    transfer.from_user_id, 'transfer_out', transfer.amount, 'Sent tokens' || note_suffix,
+    NULL, NULL, NULL, NULL, NULL, NULL, transfer.to_user_id
+  );
+  credit_result := wallet_apply_transaction(
+    transfer.to_user_id, 'transfer_in', transfer.amount, 'Received tokens' || note_suffix,
+    NULL, NULL, NULL, NULL, NULL, NULL, transfer.from_user_id
+  );
+
+  UPDATE token_transfers
+  SET
+    status = 'completed',
+    decided_at = NOW(),
+    decided_by = p_decided_by,
+    debit_transaction_id = (debit_result->'transaction'->>'id')::UUID,
+    credit_transaction_id = (credit_result->'transaction'->>'id')::UUID
+  WHERE id = transfer.id
+  RETURNING * INTO transfer;
+
+  RETURN json_build_object(
+    'transfer', row_to_json(transfer),
+    'transaction', debit_result->'transaction',
+    'profile', (SELECT row_to_json(p) FROM profiles p WHERE p.id = transfer.from_user_id)
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
 -- Insert default quest types
 INSERT INTO quest_types (name, description, token_reward, verification_prompt, is_active) VALUES
   ('Clean Room', 'Take a photo of your clean and organized bedroom', 25, 'Analyze this image to verify that a bedroom is clean and organized. Look for made bed, organized items, clean surfaces, and no clutter on the floor.', true),
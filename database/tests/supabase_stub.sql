@@ -0,0 +1,40 @@
+-- Stand-in for the parts of Supabase the schema relies on, for running the wallet checks in CI
+-- Load into an empty Postgres database before schema.sql, rls_policies.sql and wallet_security_test.sql.
+-- Never run it against a Supabase project: the roles and the auth schema already exist there.
+
+-- API roles that Supabase maps requests to
+CREATE ROLE anon NOLOGIN;
+CREATE ROLE authenticated NOLOGIN;
+CREATE ROLE service_role NOLOGIN BYPASSRLS;
+
+-- auth.users and the helpers policies call; the caller is read from the request's JWT claims
+CREATE SCHEMA auth;
+GRANT USAGE ON SCHEMA auth TO anon, authenticated, service_role;
+
+CREATE TABLE auth.users (
+  id UUID PRIMARY KEY,
+  email TEXT,
+  raw_user_meta_data JSONB DEFAULT '{}'::jsonb,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE FUNCTION auth.uid() RETURNS UUID AS $$
+  SELECT NULLIF(current_setting('request.jwt.claims', true)::jsonb->>'sub', '')::uuid;
+$$ LANGUAGE sql STABLE;
+
+CREATE FUNCTION auth.role() RETURNS TEXT AS $$
+  SELECT current_setting('request.jwt.claims', true)::jsonb->>'role';
+$$ LANGUAGE sql STABLE;
+
+CREATE FUNCTION auth.jwt() RETURNS JSONB AS $$
+  SELECT current_setting('request.jwt.claims', true)::jsonb;
+$$ LANGUAGE sql STABLE;
+
+-- Supabase's default grants; rls_policies.sql revokes what clients may not touch
+GRANT USAGE ON SCHEMA public TO anon, authenticated, service_role;
+ALTER DEFAULT PRIVILEGES IN SCHEMA public GRANT ALL ON TABLES TO anon, authenticated, service_role;
+ALTER DEFAULT PRIVILEGES IN SCHEMA public GRANT ALL ON SEQUENCES TO anon, authenticated, service_role;
+ALTER DEFAULT PRIVILEGES IN SCHEMA public GRANT EXECUTE ON FUNCTIONS TO anon, authenticated, service_role;
+
+-- The development child's sign-in, which schema.sql gives a profile
+INSERT INTO auth.users (id, email) VALUES ('00000000-0000-0000-0000-000000000123', 'dev-child@example.com');
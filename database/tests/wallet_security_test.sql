@@ -0,0 +1,353 @@
+-- Wallet security checks for Project Aether: The Attention Wallet
+-- Run in the Supabase SQL editor after schema.sql and rls_policies.sql, or with `npm run test:db`
+-- against an empty Postgres database (see tests/supabase_stub.sql), as CI does.
+-- Everything runs inside a transaction that is rolled back, so no data is kept.
+-- Each check raises an exception if a child session manages to mint tokens.
+
+BEGIN;
+
+-- Impersonate the development child profile as an authenticated client
+SELECT set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-000000000123", "role": "authenticated"}', true);
+SET LOCAL ROLE authenticated;
+
+-- 1. Direct balance update must be rejected
+DO $$
+BEGIN
+  UPDATE profiles SET balance = 99999 WHERE id = auth.uid();
+  RAISE EXCEPTION 'FAIL: child was able to update own balance';
+EXCEPTION
+  WHEN insufficient_privilege THEN
+    RAISE NOTICE 'PASS: direct balance update rejected';
+END $$;
+
+-- 2. Direct total_earned update must be rejected
+DO $$
+BEGIN
+  UPDATE profiles SET total_earned = 99999 WHERE id = auth.uid();
+  RAISE EXCEPTION 'FAIL: child was able to update own total_earned';
+EXCEPTION
+  WHEN insufficient_privilege THEN
+    RAISE NOTICE 'PASS: direct total_earned update rejected';
+END $$;
+
+-- 3. Direct transaction insert must be rejected
+DO $$
+BEGIN
+  INSERT INTO transactions (user_id, amount, type, description)
+  VALUES (auth.uid(), 99999, 'earn', 'Minted tokens');
+  RAISE EXCEPTION 'FAIL: child was able to insert a transaction directly';
+EXCEPTION
+  WHEN insufficient_privilege THEN
+    RAISE NOTICE 'PASS: direct transaction insert rejected';
+END $$;
+
+-- 4. The internal wallet helper must not be callable by clients
+DO $$
+BEGIN
+  PERFORM wallet_apply_transaction(auth.uid(), 'earn', 99999, 'Minted tokens');
+  RAISE EXCEPTION 'FAIL: child was able to call wallet_apply_transaction';
+EXCEPTION
+  WHEN insufficient_privilege THEN
+    RAISE NOTICE 'PASS: wallet_apply_transaction not executable';
+END $$;
+
+-- 5. A child cannot use the parent adjustment RPC on their own wallet
+DO $$
+BEGIN
+  PERFORM wallet_adjust_balance(auth.uid(), 99999, 'Minted tokens');
+  RAISE EXCEPTION 'FAIL: child was able to adjust own balance';
+EXCEPTION
+  WHEN insufficient_privilege THEN
+    RAISE NOTICE 'PASS: wallet_adjust_balance rejected for unlinked user';
+END $$;
+
+-- 6. Saved goal amounts cannot be edited directly
+DO $$
+BEGIN
+  UPDATE savings_goals SET saved_amount = target_amount WHERE child_id = auth.uid();
+  RAISE EXCEPTION 'FAIL: child was able to update a savings goal directly';
+EXCEPTION
+  WHEN insufficient_privilege THEN
+    RAISE NOTICE 'PASS: direct savings goal update rejected';
+END $$;
+
+-- 7. A child cannot give themselves a credit line to borrow against
+DO $$
+BEGIN
+  INSERT INTO credit_lines (child_id, credit_limit) VALUES (auth.uid(), 99999);
+  RAISE EXCEPTION 'FAIL: child was able to create own credit line';
+EXCEPTION
+  WHEN insufficient_privilege THEN
+    RAISE NOTICE 'PASS: self-granted credit line rejected';
+END $$;
+
+-- 8. A child cannot move tokens to a profile outside their family
+DO $$
+BEGIN
+  PERFORM wallet_transfer('00000000-0000-0000-0000-000000000999', 1, 'Security test transfer');
+  RAISE EXCEPTION 'FAIL: child was able to transfer tokens outside the family';
+EXCEPTION
+  WHEN insufficient_privilege THEN
+    RAISE NOTICE 'PASS: transfer outside the family rejected';
+END $$;
+
+-- 9. A child cannot shrink the tokens charged to their app session
+DO $$
+BEGIN
+  UPDATE app_sessions SET tokens_charged = 0 WHERE child_id = auth.uid();
+  RAISE EXCEPTION 'FAIL: child was able to edit an app session directly';
+EXCEPTION
+  WHEN insufficient_privilege THEN
+    RAISE NOTICE 'PASS: direct app session update rejected';
+END $$;
+
+-- 10. A second device cannot take a live session lease without asking to take over
+DO $$
+BEGIN
+  PERFORM acquire_session_lease('security-test-phone', 'Phone');
+  PERFORM acquire_session_lease('security-test-browser', 'Browser');
+  RAISE EXCEPTION 'FAIL: a second device took a live session lease';
+EXCEPTION
+  WHEN lock_not_available THEN
+    RAISE NOTICE 'PASS: second device refused while the lease is live';
+END $$;
+
+-- 11. A child cannot delete the clock tampering reported to their parents
+DO $$
+DECLARE
+  deleted_count INTEGER;
+BEGIN
+  PERFORM report_clock_event('clock_set_back', -3600);
+  DELETE FROM clock_events WHERE child_id = auth.uid();
+  GET DIAGNOSTICS deleted_count = ROW_COUNT;
+  RAISE EXCEPTION 'FAIL: child was able to delete % clock event(s)', deleted_count;
+EXCEPTION
+  WHEN insufficient_privilege THEN
+    RAISE NOTICE 'PASS: clock event delete rejected';
+END $$;
+
+-- 12. A child cannot credit themselves an amount of their choosing
+DO $$
+BEGIN
+  PERFORM wallet_earn(99999, 'Minted tokens');
+  RAISE EXCEPTION 'FAIL: child was able to call wallet_earn';
+EXCEPTION
+  WHEN insufficient_privilege THEN
+    RAISE NOTICE 'PASS: wallet_earn not executable';
+END $$;
+
+-- 13. A child cannot add an app to the catalog at their own price
+DO $$
+BEGIN
+  INSERT INTO apps (parent_id, name, web_url, category, tokens_per_minute)
+  VALUES (auth.uid(), 'Security Test App', 'https://example.com', 'Video', 1);
+  RAISE EXCEPTION 'FAIL: child was able to add a catalog app';
+EXCEPTION
+  WHEN insufficient_privilege THEN
+    RAISE NOTICE 'PASS: child catalog insert rejected';
+END $$;
+
+-- 14. A refund that is not for one of the child's app sessions must be rejected
+DO $$
+BEGIN
+  PERFORM wallet_refund(99999, 'Minted tokens');
+  RAISE EXCEPTION 'FAIL: child was able to refund tokens without an app session';
+EXCEPTION
+  WHEN insufficient_privilege THEN
+    RAISE NOTICE 'PASS: refund without an app session rejected';
+END $$;
+
+-- 15. A quest pays its own reward through the ledger, and only once per day
+DO $$
+DECLARE
+  quest quest_types;
+  balance_before INTEGER;
+  balance_after INTEGER;
+BEGIN
+  SELECT * INTO quest FROM quest_types WHERE name = 'Make Bed' AND created_by IS NULL LIMIT 1;
+  SELECT balance INTO balance_before FROM profiles WHERE id = auth.uid();
+  PERFORM wallet_complete_quest(quest.id, 'security-test-photo.jpg');
+  SELECT balance INTO balance_after FROM profiles WHERE id = auth.uid();
+
+  IF balance_after IS DISTINCT FROM balance_before + quest.token_reward THEN
+    RAISE EXCEPTION 'FAIL: wallet_complete_quest did not pay the quest reward (before %, after %)', balance_before, balance_after;
+  END IF;
+
+  BEGIN
+    PERFORM wallet_complete_quest(quest.id, 'security-test-photo.jpg');
+    RAISE EXCEPTION 'FAIL: child was paid twice for the same quest';
+  EXCEPTION
+    WHEN raise_exception THEN
+      IF SQLERRM NOT LIKE '%already been completed%' THEN
+        RAISE;
+      END IF;
+  END;
+
+  RAISE NOTICE 'PASS: quest reward paid once via the ledger';
+END $$;
+
+-- 16. A live spend is recorded at the server's clock, and a replayed one no more than 3 days back
+DO $$
+DECLARE
+  live transactions;
+  replayed transactions;
+BEGIN
+  SELECT * INTO live FROM json_populate_record(
+    NULL::transactions,
+    wallet_spend(1, 'Backdated spend', NULL, NOW() - INTERVAL '30 days')->'transaction'
+  );
+  IF live.timestamp < NOW() - INTERVAL '1 minute' THEN
+    RAISE EXCEPTION 'FAIL: live spend was recorded at the client time %', live.timestamp;
+  END IF;
+
+  SELECT * INTO replayed FROM json_populate_record(
+    NULL::transactions,
+    wallet_spend(1, 'Backdated replay', NULL, NOW() - INTERVAL '30 days', 'security-test-replay')->'transaction'
+  );
+  IF replayed.timestamp < NOW() - INTERVAL '3 days' THEN
+    RAISE EXCEPTION 'FAIL: replayed spend was dated % back', NOW() - replayed.timestamp;
+  END IF;
+
+  RAISE NOTICE 'PASS: client timestamps ignored live and bounded on replay';
+END $$;
+
+-- 17. Learn & Earn time is paid only for time the server has seen pass, whatever start the client claims
+DO $$
+DECLARE
+  balance_before INTEGER;
+  balance_after INTEGER;
+BEGIN
+  PERFORM open_app_session('security-test-earning', 'Duolingo', 'Learning', 60, NOW() - INTERVAL '1 hour', 'earning');
+  SELECT balance INTO balance_before FROM profiles WHERE id = auth.uid();
+  PERFORM wallet_earn_app_time('security-test-earning', 3600);
+  SELECT balance INTO balance_after FROM profiles WHERE id = auth.uid();
+
+  IF balance_after <> balance_before THEN
+    RAISE EXCEPTION 'FAIL: a session opened just now was paid % tokens for a backdated hour', balance_after - balance_before;
+  END IF;
+
+  RAISE NOTICE 'PASS: backdated Learn & Earn time not paid';
+END $$;
+
+-- The server opened that session an hour ago
+RESET ROLE;
+UPDATE app_sessions SET opened_at = NOW() - INTERVAL '1 hour' WHERE client_session_id = 'security-test-earning';
+SET LOCAL ROLE authenticated;
+
+-- 17b. Learn & Earn time is paid at the catalog's rate and daily limit, not the rate the session claims
+DO $$
+DECLARE
+  balance_before INTEGER;
+  balance_after INTEGER;
+BEGIN
+  SELECT balance INTO balance_before FROM profiles WHERE id = auth.uid();
+  PERFORM wallet_earn_app_time('security-test-earning', 3600);
+  PERFORM wallet_earn_app_time('security-test-earning', 3600);
+  SELECT balance INTO balance_after FROM profiles WHERE id = auth.uid();
+
+  -- 60 tokens a minute for an hour would be 3600; without a catalog Duolingo pays 1 a minute up to 30 a day
+  IF balance_after - balance_before <> 30 THEN
+    RAISE EXCEPTION 'FAIL: Learn & Earn paid % tokens for an hour, not the daily limit of 30', balance_after - balance_before;
+  END IF;
+
+  RAISE NOTICE 'PASS: Learn & Earn paid % tokens on the catalog''s terms', balance_after - balance_before;
+END $$;
+
+-- 18. Only unused prepaid time can be refunded, worked out by the server, and only once
+DO $$
+DECLARE
+  refunded transactions;
+BEGIN
+  PERFORM open_app_session('security-test-metered', 'YouTube', 'Video', 5, NULL, 'entertainment');
+  PERFORM wallet_spend(5, 'YouTube usage (60s)', 'YouTube', NULL, 'security-test-metered:5', 60, 'security-test-metered');
+  BEGIN
+    PERFORM wallet_refund(5, 'Refund of pay-as-you-go time', NULL, NULL, 'YouTube', 60, 'security-test-metered');
+    RAISE EXCEPTION 'FAIL: child was able to refund a pay-as-you-go session';
+  EXCEPTION
+    WHEN raise_exception THEN
+      IF SQLERRM NOT LIKE '%Only unused prepaid time%' THEN
+        RAISE;
+      END IF;
+  END;
+
+  PERFORM open_app_session('security-test-prepaid', 'YouTube', 'Video', 1, NULL, 'entertainment', 600);
+  PERFORM wallet_spend(10, 'YouTube prepaid 10 min', 'YouTube', NULL, 'security-test-prepaid:10', 600, 'security-test-prepaid');
+  BEGIN
+    PERFORM wallet_spend(1, 'YouTube usage (60s)', 'YouTube', NULL, NULL, 60, 'security-test-prepaid');
+    RAISE EXCEPTION 'FAIL: a prepaid session was charged a second time';
+  EXCEPTION
+    WHEN raise_exception THEN
+      IF SQLERRM NOT LIKE '%charged once%' THEN
+        RAISE;
+      END IF;
+  END;
+
+  SELECT * INTO refunded FROM json_populate_record(
+    NULL::transactions,
+    wallet_refund(99999, 'Unused prepaid time', NULL, NULL, 'Other App', 99999, 'security-test-prepaid')->'transaction'
+  );
+  IF refunded.amount > 10 OR refunded.usage_seconds > 600 OR refunded.app_name <> 'YouTube' THEN
+    RAISE EXCEPTION 'FAIL: refund gave back % tokens and % seconds of %', refunded.amount, refunded.usage_seconds, refunded.app_name;
+  END IF;
+
+  BEGIN
+    PERFORM wallet_refund(1, 'Second refund', NULL, NULL, 'YouTube', 60, 'security-test-prepaid');
+    RAISE EXCEPTION 'FAIL: a prepaid session was refunded twice';
+  EXCEPTION
+    WHEN raise_exception THEN
+      IF SQLERRM NOT LIKE '%already been refunded%' THEN
+        RAISE;
+      END IF;
+  END;
+
+  RAISE NOTICE 'PASS: only unused prepaid time refunded, once';
+END $$;
+
+-- A parent caps the child's spending at 1 token a day, which today's spends have already reached
+RESET ROLE;
+INSERT INTO spending_caps (child_id, scope, unit, daily_limit)
+VALUES ('00000000-0000-0000-0000-000000000123', 'total', 'tokens', 1);
+SET LOCAL ROLE authenticated;
+
+-- 19. A spend past a daily cap is refused live, and a replay past it is recorded for parents
+DO $$
+BEGIN
+  BEGIN
+    PERFORM wallet_spend(1, 'YouTube usage (60s)', 'YouTube', NULL, 'security-test-capped', 60);
+    RAISE EXCEPTION 'FAIL: a live spend went past the daily cap';
+  EXCEPTION
+    WHEN raise_exception THEN
+      IF SQLERRM NOT LIKE '%Daily spending limit reached%' THEN
+        RAISE;
+      END IF;
+  END;
+
+  PERFORM wallet_spend(1, 'YouTube usage (60s)', 'YouTube', NOW(), 'security-test-capped-replay', 60);
+  IF NOT EXISTS (
+    SELECT 1 FROM wallet_exceptions
+    WHERE client_txn_id = 'security-test-capped-replay' AND user_id = auth.uid() AND resolved_at IS NULL
+  ) THEN
+    RAISE EXCEPTION 'FAIL: a replay past the daily cap was charged without telling parents';
+  END IF;
+
+  RAISE NOTICE 'PASS: live spends stop at the daily cap and replays past it are recorded';
+END $$;
+
+-- A new child signs up whose profile has not been created yet
+RESET ROLE;
+INSERT INTO auth.users (id, email) VALUES ('00000000-0000-0000-0000-000000000124', 'new-child@example.com');
+DELETE FROM profiles WHERE id = '00000000-0000-0000-0000-000000000124';
+SELECT set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-000000000124", "role": "authenticated"}', true);
+SET LOCAL ROLE authenticated;
+
+-- 20. A new profile must start with an empty wallet
+DO $$
+BEGIN
+  INSERT INTO profiles (id, role, balance, total_earned) VALUES (auth.uid(), 'child', 99999, 99999);
+  RAISE EXCEPTION 'FAIL: child was able to create a profile with tokens';
+EXCEPTION
+  WHEN insufficient_privilege THEN
+    RAISE NOTICE 'PASS: new profile with tokens rejected';
+END $$;
+
+ROLLBACK;
@@ -107,7 +107,7 @@ describe('Build Verification', () => {
         context: ['AuthContext', 'WalletContext', 'ThemeContext'],
         screens: ['HomeScreen', 'QuestScreen', 'LockScreen', 'ParentDashboard'],
         lib: ['config', 'supabase', 'gemini', 'offlineQueue', 'theme', 'responsive'],
-        hooks: ['useAppState', 'useOfflineQueue']
+        hooks: ['useSession', 'useOfflineQueue']
       }
     };
     
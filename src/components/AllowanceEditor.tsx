@@ -0,0 +1,451 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  TextInput,
+  Alert,
+  Modal,
+  Switch,
+  ActivityIndicator,
+} from 'react-native';
+import { Allowance, AllowanceCadence } from '../lib/types';
+import { dbHelpers } from '../lib/supabase';
+import { useAuth } from '../context';
+
+interface AllowanceFormData {
+  amount: number;
+  cadence: AllowanceCadence;
+  day_of_week: number;
+  time_of_day: string;
+  timezone: string;
+  is_active: boolean;
+}
+
+interface AllowanceFormErrors {
+  amount?: string;
+  time_of_day?: string;
+  timezone?: string;
+}
+
+interface AllowanceEditorProps {
+  visible: boolean;
+  childId: string;
+  childName?: string;
+  onClose: () => void;
+  onSaved?: (allowance: Allowance) => void;
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const getDeviceTimezone = (): string => {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+  } catch {
+    return 'UTC';
+  }
+};
+
+const isValidTimezone = (timezone: string): boolean => {
+  try {
+    Intl.DateTimeFormat(undefined, { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Allowance Editor Component
+ * Lets a parent configure the recurring token allowance for one child
+ */
+const AllowanceEditor = ({ visible, childId, childName, onClose, onSaved }: AllowanceEditorProps) => {
+  const { user, hasRole } = useAuth();
+
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [formData, setFormData] = useState<AllowanceFormData>({
+    amount: 20,
+    cadence: 'daily',
+    day_of_week: 1,
+    time_of_day: '07:00',
+    timezone: getDeviceTimezone(),
+    is_active: true,
+  });
+  const [formErrors, setFormErrors] = useState<AllowanceFormErrors>({});
+
+  // Load the current allowance when the editor opens
+  useEffect(() => {
+    if (visible) {
+      loadAllowance();
+    }
+  }, [visible, childId]);
+
+  /**
+   * Load the child's existing allowance into the form
+   */
+  const loadAllowance = async () => {
+    try {
+      setIsLoading(true);
+      setFormErrors({});
+
+      const allowance = await dbHelpers.getAllowance(childId);
+      if (allowance) {
+        setFormData({
+          amount: allowance.amount,
+          cadence: allowance.cadence,
+          day_of_week: allowance.day_of_week ?? 1,
+          time_of_day: allowance.time_of_day.slice(0, 5),
+          timezone: allowance.timezone,
+          is_active: allowance.is_active,
+        });
+      }
+    } catch (error) {
+      console.error('Failed to load allowance:', error);
+      Alert.alert('Error', 'Failed to load allowance. Please try again.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  /**
+   * Validate form data
+   */
+  const validateForm = (): boolean => {
+    const errors: AllowanceFormErrors = {};
+
+    if (!formData.amount || formData.amount < 1) {
+      errors.amount = 'Allowance must be at least 1 token';
+    } else if (formData.amount > 500) {
+      errors.amount = 'Allowance must be 500 tokens or less';
+    }
+
+    if (!/^([01]\d|2[0-3]):[0-5]\d$/.test(formData.time_of_day)) {
+      errors.time_of_day = 'Use 24-hour HH:MM format (e.g., 07:00)';
+    }
+
+    if (!formData.timezone.trim() || !isValidTimezone(formData.timezone.trim())) {
+      errors.timezone = 'Enter a valid timezone (e.g., America/New_York)';
+    }
+
+    setFormErrors(errors);
+    return Object.keys(errors).length === 0;
+  };
+
+  /**
+   * Handle form submission
+   */
+  const handleSubmit = async () => {
+    if (!validateForm()) {
+      return;
+    }
+
+    if (!user) {
+      Alert.alert('Error', 'You must be logged in to manage allowances.');
+      return;
+    }
+
+    try {
+      setIsSubmitting(true);
+
+      const savedAllowance = await dbHelpers.saveAllowance(childId, {
+        amount: formData.amount,
+        cadence: formData.cadence,
+        day_of_week: formData.day_of_week,
+        time_of_day: formData.time_of_day,
+        timezone: formData.timezone.trim(),
+        is_active: formData.is_active,
+      }, user.id);
+
+      onSaved?.(savedAllowance);
+      Alert.alert('Success', 'Allowance saved successfully!');
+      onClose();
+    } catch (error) {
+      console.error('Failed to save allowance:', error);
+      Alert.alert('Error', 'Failed to save allowance. Please try again.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  // Check if user has parent role
+  if (!hasRole('parent')) {
+    return (
+      <Modal visible={visible} animationType="slide" onRequestClose={onClose}>
+        <View style={styles.modalContainer}>
+          <Text style={styles.errorText}>Access denied. Parent account required.</Text>
+        </View>
+      </Modal>
+    );
+  }
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onClose}
+    >
+      <View style={styles.modalContainer}>
+        <View style={styles.modalHeader}>
+          <TouchableOpacity onPress={onClose}>
+            <Text style={styles.cancelButton}>Cancel</Text>
+          </TouchableOpacity>
+          <Text style={styles.modalTitle}>
+            {childName ? `${childName}'s Allowance` : 'Allowance'}
+          </Text>
+          <TouchableOpacity onPress={handleSubmit} disabled={isSubmitting || isLoading}>
+            <Text style={[styles.saveButton, (isSubmitting || isLoading) && styles.saveButtonDisabled]}>
+              {isSubmitting ? 'Saving...' : 'Save'}
+            </Text>
+          </TouchableOpacity>
+        </View>
+
+        {isLoading ? (
+          <View style={styles.loadingContainer}>
+            <ActivityIndicator size="large" color="#00d4ff" />
+            <Text style={styles.loadingText}>Loading allowance...</Text>
+          </View>
+        ) : (
+          <ScrollView style={styles.formContainer}>
+            {/* Amount */}
+            <View style={styles.formGroup}>
+              <Text style={styles.formLabel}>Tokens per Period *</Text>
+              <TextInput
+                style={[styles.formInput, formErrors.amount ? styles.formInputError : null]}
+                value={formData.amount.toString()}
+                onChangeText={(text) => {
+                  const num = parseInt(text) || 0;
+                  setFormData(prev => ({ ...prev, amount: num }));
+                }}
+                placeholder="20"
+                placeholderTextColor="#8892b0"
+                keyboardType="numeric"
+                maxLength={3}
+              />
+              {formErrors.amount && <Text style={styles.errorText}>{formErrors.amount}</Text>}
+            </View>
+
+            {/* Cadence */}
+            <View style={styles.formGroup}>
+              <Text style={styles.formLabel}>Frequency</Text>
+              <View style={styles.optionRow}>
+                {(['daily', 'weekly'] as AllowanceCadence[]).map(cadence => (
+                  <TouchableOpacity
+                    key={cadence}
+                    style={[styles.optionButton, formData.cadence === cadence && styles.optionButtonSelected]}
+                    onPress={() => setFormData(prev => ({ ...prev, cadence }))}
+                  >
+                    <Text style={[styles.optionText, formData.cadence === cadence && styles.optionTextSelected]}>
+                      {cadence === 'daily' ? 'Daily' : 'Weekly'}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            </View>
+
+            {/* Day of week (weekly only) */}
+            {formData.cadence === 'weekly' && (
+              <View style={styles.formGroup}>
+                <Text style={styles.formLabel}>Day of Week</Text>
+                <View style={styles.optionRow}>
+                  {WEEKDAYS.map((day, index) => (
+                    <TouchableOpacity
+                      key={day}
+                      style={[styles.dayButton, formData.day_of_week === index && styles.optionButtonSelected]}
+                      onPress={() => setFormData(prev => ({ ...prev, day_of_week: index }))}
+                    >
+                      <Text style={[styles.optionText, formData.day_of_week === index && styles.optionTextSelected]}>
+                        {day}
+                      </Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+              </View>
+            )}
+
+            {/* Time of day */}
+            <View style={styles.formGroup}>
+              <Text style={styles.formLabel}>Time of Day *</Text>
+              <TextInput
+                style={[styles.formInput, formErrors.time_of_day ? styles.formInputError : null]}
+                value={formData.time_of_day}
+                onChangeText={(text) => setFormData(prev => ({ ...prev, time_of_day: text }))}
+                placeholder="07:00"
+                placeholderTextColor="#8892b0"
+                maxLength={5}
+              />
+              {formErrors.time_of_day && <Text style={styles.errorText}>{formErrors.time_of_day}</Text>}
+            </View>
+
+            {/* Timezone */}
+            <View style={styles.formGroup}>
+              <Text style={styles.formLabel}>Timezone *</Text>
+              <TextInput
+                style={[styles.formInput, formErrors.timezone ? styles.formInputError : null]}
+                value={formData.timezone}
+                onChangeText={(text) => setFormData(prev => ({ ...prev, timezone: text }))}
+                placeholder="America/New_York"
+                placeholderTextColor="#8892b0"
+                autoCapitalize="none"
+                autoCorrect={false}
+              />
+              {formErrors.timezone && <Text style={styles.errorText}>{formErrors.timezone}</Text>}
+              <Text style={styles.formHint}>
+                Tokens are granted once per period, at this time in this timezone
+              </Text>
+            </View>
+
+            {/* Active Status */}
+            <View style={styles.formGroup}>
+              <View style={styles.switchRow}>
+                <Text style={styles.formLabel}>Active</Text>
+                <Switch
+                  value={formData.is_active}
+                  onValueChange={(value) => setFormData(prev => ({ ...prev, is_active: value }))}
+                  trackColor={{ false: '#3e3e3e', true: '#00d4ff' }}
+                  thumbColor={formData.is_active ? '#ffffff' : '#8892b0'}
+                />
+              </View>
+              <Text style={styles.formHint}>
+                Paused allowances are not granted until turned back on
+              </Text>
+            </View>
+          </ScrollView>
+        )}
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  modalContainer: {
+    flex: 1,
+    backgroundColor: '#0a0a0a',
+  },
+
+  // Modal Header Styles
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 15,
+    borderBottomWidth: 1,
+    borderBottomColor: '#1a1a2e',
+    backgroundColor: '#0a0a0a',
+  },
+  modalTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#ffffff',
+  },
+  cancelButton: {
+    fontSize: 16,
+    color: '#8892b0',
+  },
+  saveButton: {
+    fontSize: 16,
+    color: '#00d4ff',
+    fontWeight: '600',
+  },
+  saveButtonDisabled: {
+    color: '#3e3e3e',
+  },
+
+  // Form Styles
+  formContainer: {
+    flex: 1,
+    padding: 20,
+  },
+  formGroup: {
+    marginBottom: 20,
+  },
+  formLabel: {
+    color: '#ffffff',
+    fontSize: 14,
+    fontWeight: '500',
+    marginBottom: 8,
+  },
+  formInput: {
+    backgroundColor: '#1a1a2e',
+    borderWidth: 1,
+    borderColor: '#16213e',
+    borderRadius: 8,
+    paddingHorizontal: 15,
+    paddingVertical: 12,
+    color: '#ffffff',
+    fontSize: 14,
+  },
+  formInputError: {
+    borderColor: '#e74c3c',
+  },
+  optionRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  optionButton: {
+    flex: 1,
+    backgroundColor: '#1a1a2e',
+    borderWidth: 1,
+    borderColor: '#16213e',
+    borderRadius: 8,
+    paddingVertical: 10,
+    alignItems: 'center',
+  },
+  dayButton: {
+    backgroundColor: '#1a1a2e',
+    borderWidth: 1,
+    borderColor: '#16213e',
+    borderRadius: 8,
+    paddingVertical: 8,
+    paddingHorizontal: 10,
+    alignItems: 'center',
+  },
+  optionButtonSelected: {
+    backgroundColor: '#00d4ff',
+    borderColor: '#00d4ff',
+  },
+  optionText: {
+    color: '#8892b0',
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  optionTextSelected: {
+    color: '#0a0a0a',
+    fontWeight: '600',
+  },
+  switchRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  formHint: {
+    color: '#8892b0',
+    fontSize: 12,
+    marginTop: 5,
+    lineHeight: 16,
+  },
+  errorText: {
+    color: '#e74c3c',
+    fontSize: 12,
+    marginTop: 5,
+  },
+
+  // Loading State
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  loadingText: {
+    color: '#8892b0',
+    fontSize: 16,
+    marginTop: 10,
+  },
+});
+
+export default AllowanceEditor;
@@ -0,0 +1,834 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  TextInput,
+  Alert,
+  Modal,
+  Switch,
+  ActivityIndicator,
+} from 'react-native';
+import { AppClassification, CatalogApp } from '../lib/types';
+import { APP_CONFIG, ENTERTAINMENT_APPS } from '../lib/config';
+import { dbHelpers } from '../lib/supabase';
+import { catalogHelpers, getAppCategories, toCatalogAppInput } from '../lib/appCatalog';
+import { APP_CLASSIFICATION_LABELS, getAppClassification } from '../lib/appClassification';
+import { useAuth } from '../context';
+
+interface AppFormData {
+  name: string;
+  icon: string;
+  category: string;
+  web_url: string;
+  deep_link: string;
+  package_name: string;
+  classification: AppClassification;
+  tokens_per_minute: string; // Price, or earn rate for earning apps; empty uses the default
+  daily_earn_limit: string; // Earning apps only; empty uses the default limit
+  timezone: string; // Earning apps only; where the daily earn limit resets
+  is_enabled: boolean;
+}
+
+interface AppFormErrors {
+  name?: string;
+  category?: string;
+  web_url?: string;
+  deep_link?: string;
+  tokens_per_minute?: string;
+  daily_earn_limit?: string;
+  timezone?: string;
+}
+
+interface AppCatalogEditorProps {
+  visible: boolean;
+  onClose: () => void;
+  onSaved?: (apps: CatalogApp[]) => void;
+}
+
+const MAX_TOKENS_PER_MINUTE = 60;
+
+const MAX_DAILY_EARN_LIMIT = 1000;
+
+const getDeviceTimezone = (): string => {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+  } catch {
+    return 'UTC';
+  }
+};
+
+const isValidTimezone = (timezone: string): boolean => {
+  try {
+    Intl.DateTimeFormat(undefined, { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+const CLASSIFICATIONS = Object.keys(APP_CLASSIFICATION_LABELS) as AppClassification[];
+
+const BUILT_IN_CATEGORIES = getAppCategories(ENTERTAINMENT_APPS);
+
+const emptyForm = (): AppFormData => ({
+  name: '',
+  icon: '📱',
+  category: '',
+  web_url: '',
+  deep_link: '',
+  package_name: '',
+  classification: 'entertainment',
+  tokens_per_minute: '',
+  daily_earn_limit: '',
+  timezone: getDeviceTimezone(),
+  is_enabled: true,
+});
+
+/**
+ * App Catalog Editor Component
+ * Lets a parent choose the apps their children can launch, how each one opens and what it costs,
+ * or whether it is free or pays tokens while used (Learn & Earn)
+ */
+const AppCatalogEditor = ({ visible, onClose, onSaved }: AppCatalogEditorProps) => {
+  const { user, hasRole } = useAuth();
+
+  const [apps, setApps] = useState<CatalogApp[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [editingAppId, setEditingAppId] = useState<string | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const [formData, setFormData] = useState<AppFormData>(emptyForm);
+  const [formErrors, setFormErrors] = useState<AppFormErrors>({});
+
+  const categories = Array.from(new Set([...BUILT_IN_CATEGORIES, ...apps.map(app => app.category)]));
+
+  // Load the catalog when the editor opens
+  useEffect(() => {
+    if (visible && user) {
+      setShowForm(false);
+      loadApps();
+    }
+  }, [visible, user?.id]);
+
+  /**
+   * Load this parent's catalog
+   */
+  const loadApps = async () => {
+    if (!user) return;
+
+    try {
+      setIsLoading(true);
+      setApps(await dbHelpers.getCatalogApps(user.id));
+    } catch (error) {
+      console.error('Failed to load app catalog:', error);
+      Alert.alert('Error', 'Failed to load apps. Please try again.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  /**
+   * Reload the catalog after a change and refresh this device's offline copy
+   */
+  const handleCatalogChanged = async () => {
+    if (!user) return;
+
+    const updatedApps = await dbHelpers.getCatalogApps(user.id);
+    setApps(updatedApps);
+    await catalogHelpers.loadApps();
+    onSaved?.(updatedApps);
+  };
+
+  /**
+   * Open the form for a new app
+   */
+  const openCreateForm = () => {
+    setEditingAppId(null);
+    setFormData(emptyForm());
+    setFormErrors({});
+    setShowForm(true);
+  };
+
+  /**
+   * Open the form for an existing app
+   */
+  const openEditForm = (app: CatalogApp) => {
+    setEditingAppId(app.id);
+    setFormData({
+      name: app.name,
+      icon: app.icon ?? '',
+      category: app.category,
+      web_url: app.web_url ?? '',
+      deep_link: app.deep_link ?? '',
+      package_name: app.package_name ?? '',
+      classification: getAppClassification(app),
+      tokens_per_minute: app.tokens_per_minute?.toString() ?? '',
+      daily_earn_limit: app.daily_earn_limit?.toString() ?? '',
+      timezone: app.timezone ?? 'UTC',
+      is_enabled: app.is_enabled,
+    });
+    setFormErrors({});
+    setShowForm(true);
+  };
+
+  /**
+   * Validate form data
+   */
+  const validateForm = (): boolean => {
+    const errors: AppFormErrors = {};
+    const name = formData.name.trim();
+
+    if (!name) {
+      errors.name = 'App name is required';
+    } else if (name.length > 40) {
+      errors.name = 'App name must be 40 characters or less';
+    } else if (apps.some(app => app.id !== editingAppId && app.name.toLowerCase() === name.toLowerCase())) {
+      errors.name = 'This app is already in the catalog';
+    }
+
+    if (!formData.category.trim()) {
+      errors.category = 'Pick or enter a category';
+    }
+
+    const webUrl = formData.web_url.trim();
+    if (webUrl && !/^https?:\/\//i.test(webUrl)) {
+      errors.web_url = 'Web address must start with https://';
+    }
+
+    if (!webUrl && !formData.deep_link.trim()) {
+      errors.deep_link = 'Enter a web address or an app link so the app can be opened';
+    }
+
+    if (formData.tokens_per_minute && formData.classification !== 'free') {
+      const rate = parseInt(formData.tokens_per_minute, 10);
+      if (isNaN(rate) || rate < 1 || rate > MAX_TOKENS_PER_MINUTE) {
+        errors.tokens_per_minute = formData.classification === 'earning'
+          ? `Earn rate must be between 1 and ${MAX_TOKENS_PER_MINUTE} tokens per minute`
+          : `Price must be between 1 and ${MAX_TOKENS_PER_MINUTE} tokens per minute`;
+      }
+    }
+
+    if (formData.daily_earn_limit && formData.classification === 'earning') {
+      const limit = parseInt(formData.daily_earn_limit, 10);
+      if (isNaN(limit) || limit < 1 || limit > MAX_DAILY_EARN_LIMIT) {
+        errors.daily_earn_limit = `Daily limit must be between 1 and ${MAX_DAILY_EARN_LIMIT} tokens`;
+      }
+    }
+
+    if (formData.classification === 'earning' && !isValidTimezone(formData.timezone.trim())) {
+      errors.timezone = 'Enter a valid timezone (e.g., America/New_York)';
+    }
+
+    setFormErrors(errors);
+    return Object.keys(errors).length === 0;
+  };
+
+  /**
+   * Save the app in the form
+   */
+  const handleSubmit = async () => {
+    if (!validateForm()) {
+      return;
+    }
+
+    if (!user) {
+      Alert.alert('Error', 'You must be logged in to manage apps.');
+      return;
+    }
+
+    try {
+      setIsSubmitting(true);
+
+      await dbHelpers.saveCatalogApp(user.id, {
+        name: formData.name,
+        icon: formData.icon,
+        category: formData.category,
+        web_url: formData.web_url,
+        deep_link: formData.deep_link,
+        package_name: formData.package_name,
+        classification: formData.classification,
+        // Free apps have no rate to keep
+        tokens_per_minute: formData.tokens_per_minute && formData.classification !== 'free'
+          ? parseInt(formData.tokens_per_minute, 10)
+          : null,
+        daily_earn_limit: formData.daily_earn_limit ? parseInt(formData.daily_earn_limit, 10) : null,
+        timezone: formData.timezone.trim() || 'UTC',
+        is_enabled: formData.is_enabled,
+      }, editingAppId ?? undefined);
+
+      await handleCatalogChanged();
+      setShowForm(false);
+    } catch (error) {
+      console.error('Failed to save catalog app:', error);
+      Alert.alert('Error', 'Failed to save app. Please try again.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  /**
+   * Start the catalog from the built-in apps, keeping any apps already added
+   */
+  const handleAddBuiltInApps = async () => {
+    if (!user) return;
+
+    try {
+      setIsSubmitting(true);
+      await dbHelpers.addCatalogApps(user.id, ENTERTAINMENT_APPS.map(app => ({
+        ...toCatalogAppInput(app),
+        timezone: getDeviceTimezone(),
+      })));
+      await handleCatalogChanged();
+    } catch (error) {
+      console.error('Failed to add built-in apps:', error);
+      Alert.alert('Error', 'Failed to add the built-in apps. Please try again.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  /**
+   * Delete an app after confirmation
+   */
+  const handleDelete = (app: CatalogApp) => {
+    Alert.alert(
+      'Remove App',
+      `Are you sure you want to remove "${app.name}"? Children will no longer be able to launch it.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Remove',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await dbHelpers.deleteCatalogApp(app.id);
+              await handleCatalogChanged();
+            } catch (error) {
+              console.error('Failed to delete catalog app:', error);
+              Alert.alert('Error', 'Failed to remove app. Please try again.');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  /**
+   * Describe what an app costs or pays
+   */
+  const describeRate = (app: CatalogApp): string => {
+    switch (getAppClassification(app)) {
+      case 'free':
+        return 'Free';
+      case 'earning':
+        return `Earns ${app.tokens_per_minute ?? APP_CONFIG.earnRate} tokens/min, up to ${
+          app.daily_earn_limit ?? APP_CONFIG.dailyEarnLimit
+        } a day`;
+      default:
+        return app.tokens_per_minute ? `${app.tokens_per_minute} tokens/min` : 'Default rate';
+    }
+  };
+
+  /**
+   * Render one catalog entry
+   */
+  const renderApp = (app: CatalogApp) => (
+    <View key={app.id} style={[styles.appItem, !app.is_enabled && styles.appItemDisabled]}>
+      <Text style={styles.appIcon}>{app.icon || '📱'}</Text>
+      <View style={styles.appInfo}>
+        <Text style={styles.appName}>{app.name}</Text>
+        <Text style={styles.appDetail}>
+          {app.category} · {describeRate(app)}
+          {app.is_enabled ? '' : ' · Hidden'}
+        </Text>
+        <Text style={styles.appDetail} numberOfLines={1}>
+          {app.web_url || app.deep_link}
+        </Text>
+      </View>
+      <View style={styles.appActions}>
+        <TouchableOpacity onPress={() => openEditForm(app)}>
+          <Text style={styles.appActionText}>Edit</Text>
+        </TouchableOpacity>
+        <TouchableOpacity onPress={() => handleDelete(app)}>
+          <Text style={[styles.appActionText, styles.deleteText]}>Remove</Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+
+  /**
+   * Render the create/edit form
+   */
+  const renderForm = () => (
+    <View>
+      {/* Name */}
+      <View style={styles.formGroup}>
+        <Text style={styles.formLabel}>App Name *</Text>
+        <TextInput
+          style={[styles.formInput, formErrors.name ? styles.formInputError : null]}
+          value={formData.name}
+          onChangeText={(text) => setFormData(prev => ({ ...prev, name: text }))}
+          placeholder="e.g., Minecraft"
+          placeholderTextColor="#8892b0"
+          maxLength={40}
+        />
+        {formErrors.name && <Text style={styles.errorText}>{formErrors.name}</Text>}
+      </View>
+
+      {/* Icon */}
+      <View style={styles.formGroup}>
+        <Text style={styles.formLabel}>Icon</Text>
+        <TextInput
+          style={styles.formInput}
+          value={formData.icon}
+          onChangeText={(text) => setFormData(prev => ({ ...prev, icon: text }))}
+          placeholder="📱"
+          placeholderTextColor="#8892b0"
+          maxLength={4}
+        />
+      </View>
+
+      {/* Category */}
+      <View style={styles.formGroup}>
+        <Text style={styles.formLabel}>Category *</Text>
+        <View style={styles.chipRow}>
+          {categories.map(category => (
+            <TouchableOpacity
+              key={category}
+              style={[styles.chipButton, formData.category === category && styles.chipButtonSelected]}
+              onPress={() => setFormData(prev => ({ ...prev, category }))}
+            >
+              <Text style={[styles.chipText, formData.category === category && styles.chipTextSelected]}>
+                {category}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+        <TextInput
+          style={[styles.formInput, formErrors.category ? styles.formInputError : null]}
+          value={formData.category}
+          onChangeText={(text) => setFormData(prev => ({ ...prev, category: text }))}
+          placeholder="Or type a new category"
+          placeholderTextColor="#8892b0"
+          maxLength={30}
+        />
+        {formErrors.category && <Text style={styles.errorText}>{formErrors.category}</Text>}
+      </View>
+
+      {/* Web URL */}
+      <View style={styles.formGroup}>
+        <Text style={styles.formLabel}>Web Address</Text>
+        <TextInput
+          style={[styles.formInput, formErrors.web_url ? styles.formInputError : null]}
+          value={formData.web_url}
+          onChangeText={(text) => setFormData(prev => ({ ...prev, web_url: text }))}
+          placeholder="https://www.minecraft.net"
+          placeholderTextColor="#8892b0"
+          autoCapitalize="none"
+          autoCorrect={false}
+          keyboardType="url"
+        />
+        {formErrors.web_url && <Text style={styles.errorText}>{formErrors.web_url}</Text>}
+        <Text style={styles.formHint}>
+          Used in the browser, and on phones when the app is not installed
+        </Text>
+      </View>
+
+      {/* Deep link */}
+      <View style={styles.formGroup}>
+        <Text style={styles.formLabel}>App Link</Text>
+        <TextInput
+          style={[styles.formInput, formErrors.deep_link ? styles.formInputError : null]}
+          value={formData.deep_link}
+          onChangeText={(text) => setFormData(prev => ({ ...prev, deep_link: text }))}
+          placeholder="minecraft://"
+          placeholderTextColor="#8892b0"
+          autoCapitalize="none"
+          autoCorrect={false}
+        />
+        {formErrors.deep_link && <Text style={styles.errorText}>{formErrors.deep_link}</Text>}
+      </View>
+
+      {/* Android package */}
+      <View style={styles.formGroup}>
+        <Text style={styles.formLabel}>Android Package</Text>
+        <TextInput
+          style={styles.formInput}
+          value={formData.package_name}
+          onChangeText={(text) => setFormData(prev => ({ ...prev, package_name: text }))}
+          placeholder="com.mojang.minecraftpe"
+          placeholderTextColor="#8892b0"
+          autoCapitalize="none"
+          autoCorrect={false}
+        />
+        <Text style={styles.formHint}>
+          Lets children find the app in the store when it is not installed
+        </Text>
+      </View>
+
+      {/* Classification */}
+      <View style={styles.formGroup}>
+        <Text style={styles.formLabel}>Type</Text>
+        <View style={styles.chipRow}>
+          {CLASSIFICATIONS.map(classification => (
+            <TouchableOpacity
+              key={classification}
+              style={[styles.chipButton, formData.classification === classification && styles.chipButtonSelected]}
+              onPress={() => setFormData(prev => ({ ...prev, classification }))}
+            >
+              <Text style={[styles.chipText, formData.classification === classification && styles.chipTextSelected]}>
+                {APP_CLASSIFICATION_LABELS[classification]}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+        <Text style={styles.formHint}>
+          {formData.classification === 'free'
+            ? 'Children can use this app without spending tokens'
+            : formData.classification === 'earning'
+              ? 'Children earn tokens for every minute in this app, up to a daily limit'
+              : 'Children spend tokens for every minute in this app'}
+        </Text>
+      </View>
+
+      {/* Price, or earn rate */}
+      {formData.classification !== 'free' && (
+        <View style={styles.formGroup}>
+          <Text style={styles.formLabel}>
+            {formData.classification === 'earning' ? 'Earn Rate (tokens per minute)' : 'Price (tokens per minute)'}
+          </Text>
+          <TextInput
+            style={[styles.formInput, formErrors.tokens_per_minute ? styles.formInputError : null]}
+            value={formData.tokens_per_minute}
+            onChangeText={(text) => setFormData(prev => ({ ...prev, tokens_per_minute: text.replace(/[^0-9]/g, '') }))}
+            placeholder={(formData.classification === 'earning' ? APP_CONFIG.earnRate : APP_CONFIG.tokenRate).toString()}
+            placeholderTextColor="#8892b0"
+            keyboardType="numeric"
+            maxLength={2}
+          />
+          {formErrors.tokens_per_minute && <Text style={styles.errorText}>{formErrors.tokens_per_minute}</Text>}
+          <Text style={styles.formHint}>
+            {formData.classification === 'earning'
+              ? 'Leave empty to use the default earn rate'
+              : 'This price replaces the category rate from App Pricing. Leave empty to use that rate, or the default rate'}
+          </Text>
+        </View>
+      )}
+
+      {/* Daily earn limit */}
+      {formData.classification === 'earning' && (
+        <View style={styles.formGroup}>
+          <Text style={styles.formLabel}>Daily Earn Limit (tokens)</Text>
+          <TextInput
+            style={[styles.formInput, formErrors.daily_earn_limit ? styles.formInputError : null]}
+            value={formData.daily_earn_limit}
+            onChangeText={(text) => setFormData(prev => ({ ...prev, daily_earn_limit: text.replace(/[^0-9]/g, '') }))}
+            placeholder={APP_CONFIG.dailyEarnLimit.toString()}
+            placeholderTextColor="#8892b0"
+            keyboardType="numeric"
+            maxLength={4}
+          />
+          {formErrors.daily_earn_limit && <Text style={styles.errorText}>{formErrors.daily_earn_limit}</Text>}
+          <Text style={styles.formHint}>
+            Once reached, children can keep using the app for free until tomorrow
+          </Text>
+        </View>
+      )}
+
+      {/* Timezone of the daily earn limit */}
+      {formData.classification === 'earning' && (
+        <View style={styles.formGroup}>
+          <Text style={styles.formLabel}>Timezone</Text>
+          <TextInput
+            style={[styles.formInput, formErrors.timezone ? styles.formInputError : null]}
+            value={formData.timezone}
+            onChangeText={(text) => setFormData(prev => ({ ...prev, timezone: text }))}
+            placeholder="America/New_York"
+            placeholderTextColor="#8892b0"
+            autoCapitalize="none"
+            autoCorrect={false}
+          />
+          {formErrors.timezone && <Text style={styles.errorText}>{formErrors.timezone}</Text>}
+          <Text style={styles.formHint}>
+            The daily earn limit resets at midnight in this timezone
+          </Text>
+        </View>
+      )}
+
+      {/* Enabled */}
+      <View style={styles.formGroup}>
+        <View style={styles.switchRow}>
+          <Text style={styles.formLabel}>Children Can Launch</Text>
+          <Switch
+            value={formData.is_enabled}
+            onValueChange={(value) => setFormData(prev => ({ ...prev, is_enabled: value }))}
+            trackColor={{ false: '#3e3e3e', true: '#00d4ff' }}
+            thumbColor={formData.is_enabled ? '#ffffff' : '#8892b0'}
+          />
+        </View>
+      </View>
+    </View>
+  );
+
+  // Check if user has parent role
+  if (!hasRole('parent')) {
+    return (
+      <Modal visible={visible} animationType="slide" onRequestClose={onClose}>
+        <View style={styles.modalContainer}>
+          <Text style={styles.errorText}>Access denied. Parent account required.</Text>
+        </View>
+      </Modal>
+    );
+  }
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onClose}
+    >
+      <View style={styles.modalContainer}>
+        <View style={styles.modalHeader}>
+          <TouchableOpacity onPress={showForm ? () => setShowForm(false) : onClose}>
+            <Text style={styles.cancelButton}>{showForm ? 'Back' : 'Close'}</Text>
+          </TouchableOpacity>
+          <Text style={styles.modalTitle}>
+            {showForm ? (editingAppId ? 'Edit App' : 'New App') : 'App Catalog'}
+          </Text>
+          {showForm ? (
+            <TouchableOpacity onPress={handleSubmit} disabled={isSubmitting}>
+              <Text style={[styles.saveButton, isSubmitting && styles.saveButtonDisabled]}>
+                {isSubmitting ? 'Saving...' : 'Save'}
+              </Text>
+            </TouchableOpacity>
+          ) : (
+            <TouchableOpacity onPress={openCreateForm}>
+              <Text style={styles.saveButton}>+ Add</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+
+        {isLoading ? (
+          <View style={styles.loadingContainer}>
+            <ActivityIndicator size="large" color="#00d4ff" />
+            <Text style={styles.loadingText}>Loading apps...</Text>
+          </View>
+        ) : (
+          <ScrollView style={styles.formContainer}>
+            {showForm ? renderForm() : (
+              <View>
+                <Text style={styles.formHint}>
+                  Children can launch the apps shown here. Until you add an app, they see the built-in list
+                  of {ENTERTAINMENT_APPS.length} popular apps.
+                </Text>
+
+                <TouchableOpacity
+                  style={styles.presetButton}
+                  onPress={handleAddBuiltInApps}
+                  disabled={isSubmitting}
+                >
+                  <Text style={styles.presetText}>
+                    {isSubmitting ? 'Adding...' : '✨ Add the built-in apps'}
+                  </Text>
+                </TouchableOpacity>
+
+                {apps.length === 0 ? (
+                  <Text style={styles.emptyText}>No apps yet</Text>
+                ) : (
+                  apps.map(renderApp)
+                )}
+              </View>
+            )}
+          </ScrollView>
+        )}
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  modalContainer: {
+    flex: 1,
+    backgroundColor: '#0a0a0a',
+  },
+
+  // Modal Header Styles
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 15,
+    borderBottomWidth: 1,
+    borderBottomColor: '#1a1a2e',
+    backgroundColor: '#0a0a0a',
+  },
+  modalTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#ffffff',
+  },
+  cancelButton: {
+    fontSize: 16,
+    color: '#8892b0',
+  },
+  saveButton: {
+    fontSize: 16,
+    color: '#00d4ff',
+    fontWeight: '600',
+  },
+  saveButtonDisabled: {
+    color: '#3e3e3e',
+  },
+
+  // App List Styles
+  presetButton: {
+    alignSelf: 'flex-start',
+    backgroundColor: '#16213e',
+    borderRadius: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    marginVertical: 15,
+  },
+  presetText: {
+    color: '#00d4ff',
+    fontSize: 13,
+    fontWeight: '500',
+  },
+  appItem: {
+    backgroundColor: '#1a1a2e',
+    borderWidth: 1,
+    borderColor: '#16213e',
+    borderRadius: 12,
+    padding: 15,
+    marginBottom: 10,
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  appItemDisabled: {
+    opacity: 0.6,
+  },
+  appIcon: {
+    fontSize: 28,
+    marginRight: 12,
+  },
+  appInfo: {
+    flex: 1,
+  },
+  appName: {
+    color: '#ffffff',
+    fontSize: 15,
+    fontWeight: '600',
+    marginBottom: 4,
+  },
+  appDetail: {
+    color: '#8892b0',
+    fontSize: 12,
+  },
+  appActions: {
+    alignItems: 'flex-end',
+    gap: 8,
+  },
+  appActionText: {
+    color: '#00d4ff',
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  deleteText: {
+    color: '#e74c3c',
+  },
+  emptyText: {
+    color: '#8892b0',
+    fontSize: 14,
+    textAlign: 'center',
+    marginTop: 20,
+  },
+
+  // Form Styles
+  formContainer: {
+    flex: 1,
+    padding: 20,
+  },
+  formGroup: {
+    marginBottom: 20,
+  },
+  formLabel: {
+    color: '#ffffff',
+    fontSize: 14,
+    fontWeight: '500',
+    marginBottom: 8,
+  },
+  formInput: {
+    backgroundColor: '#1a1a2e',
+    borderWidth: 1,
+    borderColor: '#16213e',
+    borderRadius: 8,
+    paddingHorizontal: 15,
+    paddingVertical: 12,
+    color: '#ffffff',
+    fontSize: 14,
+  },
+  formInputError: {
+    borderColor: '#e74c3c',
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 10,
+  },
+  chipButton: {
+    backgroundColor: '#1a1a2e',
+    borderWidth: 1,
+    borderColor: '#16213e',
+    borderRadius: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+  },
+  chipButtonSelected: {
+    borderColor: '#00d4ff',
+    backgroundColor: '#16213e',
+  },
+  chipText: {
+    color: '#8892b0',
+    fontSize: 13,
+  },
+  chipTextSelected: {
+    color: '#00d4ff',
+    fontWeight: '600',
+  },
+  switchRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  formHint: {
+    color: '#8892b0',
+    fontSize: 12,
+    marginTop: 5,
+    lineHeight: 16,
+  },
+  errorText: {
+    color: '#e74c3c',
+    fontSize: 12,
+    marginTop: 5,
+  },
+
+  // Loading State
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  loadingText: {
+    color: '#8892b0',
+    fontSize: 16,
+    marginTop: 10,
+  },
+});
+
+export default AppCatalogEditor;
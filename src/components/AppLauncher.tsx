@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
 import {
   View,
   Text,
@@ -14,8 +14,31 @@ import {
   Platform,
 } from 'react-native';
 import { useWallet } from '../context/WalletContext';
-import { AppConfig } from '../lib/types';
-import { StableTimer } from './StableTimer';
+import { AppConfig, ScheduleStatus, UsageSession } from '../lib/types';
+import { APP_CONFIG } from '../lib/config';
+import { describeScheduleBlock } from '../lib/schedule';
+import { describeCapReached, getRemainingCapMinutes } from '../lib/caps';
+import { getPrepaidCost, sessionEngine } from '../lib/sessionEngine';
+import { describeLeaseConflict } from '../lib/sessionLease';
+import { trustedClock } from '../lib/trustedClock';
+import { windowManager, WindowEvent } from '../lib/windowManager';
+import { describeIdlePause } from '../lib/webIdle';
+import { formatSessionDuration } from '../lib/appSessions';
+import { getAppClassification, getEarnRate, isEntertainmentApp } from '../lib/appClassification';
+import useAppPricing from '../hooks/useAppPricing';
+import useAppCatalog from '../hooks/useAppCatalog';
+import useScheduleRules from '../hooks/useScheduleRules';
+import useSpendingCaps from '../hooks/useSpendingCaps';
+import useEarnAllowance from '../hooks/useEarnAllowance';
+import useSession from '../hooks/useSession';
+import useSessionRecord from '../hooks/useSessionRecord';
+import useSessionWarnings from '../hooks/useSessionWarnings';
+import useSessionLease from '../hooks/useSessionLease';
+import useWebIdle from '../hooks/useWebIdle';
+import useBrowserExtension from '../hooks/useBrowserExtension';
+import { SessionTimer } from './SessionTimer';
+import WrapUpCountdown from './WrapUpCountdown';
+import StillWatchingPrompt from './StillWatchingPrompt';
 
 const { width: screenWidth } = Dimensions.get('window');
 
@@ -33,112 +56,52 @@ const colors = {
   disabled: '#404040',
 };
 
-// Default entertainment apps configuration
-const DEFAULT_APPS: AppConfig[] = [
-  {
-    name: 'YouTube',
-    packageName: 'com.google.android.youtube',
-    deepLink: 'vnd.youtube://',
-    webUrl: 'https://youtube.com',
-    icon: '📺',
-    category: 'Video',
-  },
-  {
-    name: 'Netflix',
-    packageName: 'com.netflix.mediaclient',
-    deepLink: 'nflx://',
-    webUrl: 'https://netflix.com',
-    icon: '🎬',
-    category: 'Video',
-  },
-  {
-    name: 'Spotify',
-    packageName: 'com.spotify.music',
-    deepLink: 'spotify://',
-    webUrl: 'https://open.spotify.com',
-    icon: '🎵',
-    category: 'Music',
-  },
-  {
-    name: 'TikTok',
-    packageName: 'com.zhiliaoapp.musically',
-    deepLink: 'snssdk1233://',
-    webUrl: 'https://tiktok.com',
-    icon: '🎭',
-    category: 'Social',
-  },
-  {
-    name: 'Instagram',
-    packageName: 'com.instagram.android',
-    deepLink: 'instagram://',
-    webUrl: 'https://instagram.com',
-    icon: '📸',
-    category: 'Social',
-  },
-  {
-    name: 'Discord',
-    packageName: 'com.discord',
-    deepLink: 'discord://',
-    webUrl: 'https://discord.com/app',
-    icon: '💬',
-    category: 'Social',
-  },
-  {
-    name: 'Twitch',
-    packageName: 'tv.twitch.android.app',
-    deepLink: 'twitch://',
-    webUrl: 'https://twitch.tv',
-    icon: '🎮',
-    category: 'Gaming',
-  },
-  {
-    name: 'Roblox',
-    packageName: 'com.roblox.client',
-    deepLink: 'roblox-player://',
-    webUrl: 'https://roblox.com',
-    icon: '🎯',
-    category: 'Gaming',
-  },
-];
-
 interface AppLauncherProps {
-  apps?: AppConfig[];
+  apps?: AppConfig[]; // Defaults to the family's app catalog
   minTokensRequired?: number;
-  tokensPerMinute?: number;
+  defaultTokensPerMinute?: number; // Rate for apps the family has not priced
   style?: ViewStyle;
   onAppLaunch?: (app: AppConfig) => void;
   onInsufficientBalance?: () => void;
-}
-
-interface TimerState {
-  appName: string;
-  startTime: number;
-  windowOpened: boolean;
+  onOutOfTokens?: () => void; // A session ended because tokens ran out, e.g. to show the lock screen
 }
 
 export const AppLauncher = ({
-  apps = DEFAULT_APPS,
+  apps: appsOverride,
   minTokensRequired = 1, // Minimum 1 token to start (proportional charging)
-  tokensPerMinute = 5,
+  defaultTokensPerMinute = APP_CONFIG.tokenRate,
   style,
   onAppLaunch,
   onInsufficientBalance,
+  onOutOfTokens,
 }: AppLauncherProps) => {
-  const { balance, spendTokens, isLoading } = useWallet();
+  const { isLoading } = useWallet();
+  const { apps: catalogApps, isLoading: isCatalogLoading } = useAppCatalog();
+  const apps = appsOverride ?? catalogApps;
+  // Free and earning apps are listed apart, under Learn & Earn
+  const entertainmentApps = useMemo(() => apps.filter(isEntertainmentApp), [apps]);
+  const learnApps = useMemo(() => apps.filter(app => !isEntertainmentApp(app)), [apps]);
+  const { getTokensPerMinute } = useAppPricing(defaultTokensPerMinute);
+  const { status: scheduleStatus, evaluateNow, getMultiplierAt } = useScheduleRules();
+  const { statuses: capStatuses, getReachedCap } = useSpendingCaps(apps);
+  const { getAllowance: getEarnAllowance } = useEarnAllowance();
   
-  // Component state - restored with proper timer state
+  // Component state
   const [launchingApp, setLaunchingApp] = useState<string | null>(null);
   const [appAvailability, setAppAvailability] = useState<Record<string, boolean>>({});
-  const [activeTimer, setActiveTimer] = useState<TimerState | null>(null);
+  const [prepaidMinutes, setPrepaidMinutes] = useState<number | null>(null); // null = pay as you go
+  const [wrapUpDismissedId, setWrapUpDismissedId] = useState<string | null>(null);
   
   // Animation values
   const fadeAnim = useRef(new Animated.Value(1)).current;
   const pulseAnim = useRef(new Animated.Value(1)).current;
 
-  // Check app availability on mount
+  // Check app availability whenever the app list changes, e.g. once the catalog loads
   useEffect(() => {
     checkAppAvailability();
-    
+  }, [apps]);
+
+  useEffect(() => {
     // Start pulsing animation for active indicators
     const pulse = () => {
       Animated.sequence([
@@ -162,27 +125,91 @@ export const AppLauncher = ({
     };
   }, []);
 
-  // Simple timer functions
-  const startTimer = (appName: string, windowOpened: boolean = false) => {
-    console.log('� SEtarting simple timer for', appName);
-    setActiveTimer({
-      appName,
-      startTime: Date.now(),
-      windowOpened,
-    });
+  const handleScheduleBlock = (status: ScheduleStatus) => {
+    Alert.alert(
+      'Time to Stop',
+      describeScheduleBlock(status) ?? 'Entertainment is not available right now.',
+      [{ text: 'OK' }]
+    );
   };
 
-  const stopTimer = () => {
-    console.log('🟦 Stopping timer');
-    setActiveTimer(null);
-  };
+  // Explain why the engine ended a session the child did not stop themselves
+  const handleSessionEnd = (ended: UsageSession) => {
+    // Billing has stopped, so close the app's window if this app opened one
+    if (Platform.OS === 'web') {
+      windowManager.closeWindow(ended.id);
+    }
 
-  const handleTokenCharge = (amount: number, description: string) => {
-    console.log('🟦 Synchronized token charge:', amount, description);
-    spendTokens(amount, description);
-    // No need to update timer state - StableTimer handles its own token tracking
+    switch (ended.stopReason) {
+      case 'schedule':
+        handleScheduleBlock(evaluateNow());
+        break;
+      case 'cap': {
+        const reachedCap = getReachedCap({ category: ended.category });
+        if (reachedCap) {
+          Alert.alert('Daily Limit Reached', describeCapReached(reachedCap), [{ text: 'OK' }]);
+        }
+        break;
+      }
+      case 'insufficient_balance':
+        // The wrap-up countdown already warned them; the lock screen explains how to earn more
+        if (onOutOfTokens) {
+          onOutOfTokens();
+          break;
+        }
+        Alert.alert(
+          'Out of Tokens',
+          `${ended.appName} stopped because your tokens ran out. Complete quests to earn more!`,
+          [{ text: 'OK' }]
+        );
+        break;
+      case 'charge_failed':
+        Alert.alert('Session Stopped', `${ended.appName} stopped because tokens could not be charged.`, [{ text: 'OK' }]);
+        break;
+      case 'taken_over':
+        Alert.alert(
+          'Session Moved',
+          `${ended.appName} stopped here because you started a session on another device.`,
+          [{ text: 'OK' }]
+        );
+        break;
+    }
   };
 
+  const {
+    session,
+    isActive,
+    elapsedMs,
+    remainingMs,
+    hasPaidTimeLeft,
+    availableBalance: balance, // Includes usage not yet flushed to the wallet
+    timeLeftMs,
+    startSession,
+    pauseSession,
+    resumeSession,
+    stopSession,
+  } = useSession(apps, handleSessionEnd);
+  const activeSession = isActive ? session : null;
+
+  // Mirror the session to the server so parents can see how long it lasted
+  useSessionRecord(session);
+
+  // Only one of the child's devices may run a session at a time
+  const { claimLease, releaseLease } = useSessionLease(session);
+
+  // Warn as time runs low, then count down before the session ends
+  const { warning, wrapUpMs, dismissWarning } = useSessionWarnings(session, timeLeftMs);
+
+  // On web, stop billing an app window left in the background or forgotten
+  const { pauseReason, stillWatchingDeadline, confirmStillWatching } = useWebIdle(session);
+
+  // On web, block entertainment sites in any tab once tokens run out, with the companion extension
+  const { isConnected: isExtensionConnected, browsingMs } = useBrowserExtension(apps, balance, hasPaidTimeLeft);
+  const browsingSummary = Object.entries(browsingMs)
+    .filter(([, ms]) => ms >= 60000)
+    .map(([appName, ms]) => `${appName} ${formatSessionDuration(Math.floor(ms / 1000))}`)
+    .join(', ');
+
   const checkAppAvailability = async () => {
     const availability: Record<string, boolean> = {};
     
@@ -212,23 +239,44 @@ export const AppLauncher = ({
     setAppAvailability(availability);
   };
 
-  const launchApp = async (app: AppConfig) => {
-    // Check if timer is already running
-    if (activeTimer) {
+  const launchApp = async (app: AppConfig, takeover: boolean = false) => {
+    // Only one session can be billed at a time
+    if (activeSession) {
       Alert.alert(
         'Timer Already Running',
-        `${activeTimer.appName} timer is active. Stop it first before launching another app.`,
+        `${activeSession.appName} timer is active. Stop it first before launching another app.`,
         [
           { text: 'OK' },
-          { text: 'Stop Timer', onPress: stopTimer }
+          { text: 'Stop Timer', onPress: stopSession }
         ]
       );
       return;
     }
 
+    // Check the family's schedule (e.g. bedtime curfew) before anything else
+    const currentSchedule = evaluateNow();
+    if (currentSchedule.blocked) {
+      Alert.alert(
+        'Not Available Right Now',
+        describeScheduleBlock(currentSchedule) ?? `${app.name} is not available right now.`,
+        [{ text: 'OK' }]
+      );
+      return;
+    }
+
+    // Free and earning apps cost nothing, so caps, the balance and prepaid blocks only apply to entertainment
+    const isEntertainment = isEntertainmentApp(app);
+
+    // Parents' daily caps apply even when the balance would allow more
+    const reachedCap = isEntertainment ? getReachedCap(app) : null;
+    if (reachedCap) {
+      Alert.alert('Daily Limit Reached', describeCapReached(reachedCap), [{ text: 'OK' }]);
+      return;
+    }
+
     // Check if user has sufficient balance for at least a few seconds of usage
     const minimumTokensNeeded = 1; // At least 1 token to start
-    if (balance < minimumTokensNeeded) {
+    if (isEntertainment && balance < minimumTokensNeeded) {
       Alert.alert(
         'Insufficient Balance',
         `You need at least ${minimumTokensNeeded} token to launch ${app.name}. You currently have ${balance} tokens.\n\nComplete quests to earn more tokens!`,
@@ -240,22 +288,84 @@ export const AppLauncher = ({
       return;
     }
 
+    // A prepaid block must be affordable and fit within today's caps
+    const tokensPerMinute = isEntertainment ? getTokensPerMinute(app) : getEarnRate(app);
+    const blockMinutes = isEntertainment ? prepaidMinutes : null;
+    if (blockMinutes !== null) {
+      const cost = getPrepaidCost(tokensPerMinute, blockMinutes, trustedClock.now(), getMultiplierAt);
+      if (cost > balance) {
+        Alert.alert(
+          'Not Enough Tokens',
+          `${blockMinutes} minutes of ${app.name} costs ${cost} tokens. You have ${balance}. Pick a shorter block or pay as you go.`,
+          [{ text: 'OK' }]
+        );
+        return;
+      }
+
+      const capMinutes = getRemainingCapMinutes(capStatuses, app, tokensPerMinute * scheduleStatus.multiplier);
+      if (capMinutes !== null && capMinutes < blockMinutes) {
+        Alert.alert(
+          'Block Too Long',
+          `Your daily limit leaves ${capMinutes} minutes of ${app.name} today. Pick a shorter block or pay as you go.`,
+          [{ text: 'OK' }]
+        );
+        return;
+      }
+    }
+
     try {
       setLaunchingApp(app.name);
       console.log(`Launching ${app.name} with timer system`);
 
+      // Refuse to double up with a session on another device unless the child takes it over
+      const leaseHolder = await claimLease(takeover);
+      if (leaseHolder) {
+        Alert.alert(
+          'Already Playing Elsewhere',
+          describeLeaseConflict(leaseHolder, app.name),
+          [
+            { text: 'Cancel', style: 'cancel' },
+            { text: 'Take Over', onPress: () => launchApp(app, true) },
+          ]
+        );
+        return;
+      }
+
+      // Start the session first so a prepaid block is paid for before the app opens.
+      // The rate is locked in now so a pricing change mid-session does not re-bill elapsed time.
+      // A session that fails to start hands back the lease claimed for it.
+      let started: UsageSession;
+      try {
+        started = await startSession(app, tokensPerMinute, blockMinutes ?? undefined);
+      } catch (error) {
+        await releaseLease();
+        throw error;
+      }
+
       // Try to open the app
-      const launched = await attemptAppLaunch(app);
+      const launched = await attemptAppLaunch(app, started.id);
       
       if (launched) {
-        // Start the timer - no window management needed for new tabs
-        startTimer(app.name, false); // windowOpened = false since we're using new tabs
         onAppLaunch?.(app);
       } else {
+        // Stopping straight away charges nothing and refunds the unused prepaid block
+        const stopped = await stopSession();
+        const popupHint = Platform.OS === 'web' ? ' Allow pop-ups for this site and try again.' : '';
+        let chargeNote = 'No tokens were charged.';
+        if (blockMinutes !== null) {
+          chargeNote = stopped?.refundedTokens
+            ? 'Your prepaid tokens have been refunded.'
+            : 'Your prepaid tokens could not be refunded. Ask a parent to check your wallet.';
+        }
         Alert.alert(
           'App Launch Failed',
-          `Unable to open ${app.name}. No tokens were charged.`,
-          [{ text: 'OK' }]
+          `Unable to open ${app.name}. ${chargeNote}${popupHint}`,
+          Platform.OS === 'web'
+            ? [{ text: 'OK' }]
+            : [
+                { text: 'OK', style: 'cancel' },
+                { text: 'Install', onPress: () => openAppStore(app) },
+              ]
         );
       }
 
@@ -271,18 +381,33 @@ export const AppLauncher = ({
     }
   };
 
-  const attemptAppLaunch = async (app: AppConfig): Promise<boolean> => {
+  /**
+   * Follow the app window opened for a session: closing it ends the session
+   */
+  const handleWindowEvent = (sessionId: string) => (event: WindowEvent) => {
+    const current = sessionEngine.getSession();
+    if (event.type === 'closed_by_user' && current?.id === sessionId && current.status !== 'stopped') {
+      console.log(`🟦 ${event.appName} window closed, stopping its session`);
+      stopSession();
+    }
+  };
+
+  /**
+   * Open an app for a session; launchApp tells the child when it could not be opened
+   */
+  const attemptAppLaunch = async (app: AppConfig, sessionId: string): Promise<boolean> => {
     try {
       console.log(`Attempting to launch ${app.name} on ${Platform.OS}`);
       
-      // On web platform, open in new tab
+      // On web platform, open in a window managed for this session
       if (Platform.OS === 'web' && app.webUrl) {
-        console.log(`🟦 Opening ${app.name} in new tab: ${app.webUrl}`);
-        
-        // Open URL in new tab
-        window.open(app.webUrl, '_blank', 'noopener,noreferrer');
-        console.log(`🟦 Successfully opened ${app.name} in new tab`);
-        return true;
+        console.log(`🟦 Opening ${app.name} in new window: ${app.webUrl}`);
+
+        const windowId = await windowManager.openWindow(app.name, app.webUrl, {
+          windowId: sessionId,
+          onEvent: handleWindowEvent(sessionId),
+        });
+        return windowId !== null;
       }
 
       // On mobile, try deep link first
@@ -326,35 +451,6 @@ export const AppLauncher = ({
           return true;
         } catch (webError) {
           console.log(`Web fallback failed for ${app.name}:`, webError);
-          
-          // Show user-friendly message for app not installed
-          Alert.alert(
-            `${app.name} Not Available`,
-            `${app.name} is not installed on your device. Would you like to install it from the app store?`,
-            [
-              { text: 'Cancel', style: 'cancel' },
-              { 
-                text: 'Install', 
-                onPress: () => {
-                  // Try to open app store
-                  const storeUrl = Platform.OS === 'android' 
-                    ? `market://details?id=${app.packageName}`
-                    : `https://apps.apple.com/search?term=${encodeURIComponent(app.name)}`;
-                  Linking.openURL(storeUrl).catch(() => {
-                    // Fallback to web store
-                    const webStoreUrl = Platform.OS === 'android'
-                      ? `https://play.google.com/store/apps/details?id=${app.packageName}`
-                      : `https://apps.apple.com/search?term=${encodeURIComponent(app.name)}`;
-                    if (Platform.OS === 'web') {
-                      window.open(webStoreUrl, '_blank', 'noopener,noreferrer');
-                    } else {
-                      Linking.openURL(webStoreUrl);
-                    }
-                  });
-                }
-              }
-            ]
-          );
           return false;
         }
       }
@@ -362,24 +458,38 @@ export const AppLauncher = ({
       throw new Error('No valid launch method available');
     } catch (error) {
       console.error(`Failed to launch ${app.name}:`, error);
-      
-      // Show user-friendly error message
-      Alert.alert(
-        'App Launch Failed',
-        `Unable to open ${app.name}. This might be because:\n\n• The app is not installed\n• The app doesn't support this launch method\n• There's a temporary issue\n\nYour tokens have been refunded.`,
-        [{ text: 'OK' }]
-      );
-      
       return false;
     }
   };
 
+  /**
+   * Open the app's store page so a child missing the app can install it
+   */
+  const openAppStore = (app: AppConfig) => {
+    const storeUrl = Platform.OS === 'android'
+      ? `market://details?id=${app.packageName}`
+      : `https://apps.apple.com/search?term=${encodeURIComponent(app.name)}`;
+    Linking.openURL(storeUrl).catch(() => {
+      // Fallback to web store
+      const webStoreUrl = Platform.OS === 'android'
+        ? `https://play.google.com/store/apps/details?id=${app.packageName}`
+        : `https://apps.apple.com/search?term=${encodeURIComponent(app.name)}`;
+      Linking.openURL(webStoreUrl);
+    });
+  };
+
   const renderAppItem = ({ item: app }: { item: AppConfig }) => {
     const isAvailable = appAvailability[app.name] !== false;
-    const canAfford = balance >= minTokensRequired; // Only need minimum tokens to start
+    const isEntertainment = isEntertainmentApp(app);
+    const canAfford = !isEntertainment || balance >= minTokensRequired; // Only need minimum tokens to start
     const isLaunching = launchingApp === app.name;
-    const isTimerRunning = activeTimer?.appName === app.name;
-    const isDisabled = !canAfford || isLoading || isLaunching || (activeTimer && !isTimerRunning);
+    const isTimerRunning = activeSession?.appName === app.name;
+    const isBlocked = scheduleStatus.blocked;
+    const reachedCap = isEntertainment ? getReachedCap(app) : null;
+    const earnAllowance = getAppClassification(app) === 'earning' ? getEarnAllowance(app) : null;
+    const isDisabled = !canAfford || isLoading || isLaunching || isBlocked || reachedCap !== null ||
+      (activeSession && !isTimerRunning);
+    const currentRate = getTokensPerMinute(app) * scheduleStatus.multiplier;
 
     return (
       <TouchableOpacity
@@ -432,19 +542,48 @@ export const AppLauncher = ({
               { transform: [{ scale: pulseAnim }] }
             ]} />
           </View>
+        ) : isBlocked ? (
+          <Text style={styles.blockedText}>
+            🌙 {scheduleStatus.blockingRule?.name ?? 'Unavailable now'}
+          </Text>
+        ) : reachedCap ? (
+          <Text style={styles.blockedText}>
+            ⛔ Daily limit reached
+          </Text>
         ) : !canAfford ? (
           <Text style={styles.insufficientText}>
             💰 Need more tokens
           </Text>
-        ) : activeTimer ? (
+        ) : activeSession ? (
           <Text style={styles.blockedText}>
             ⏸️ Stop current timer first
           </Text>
+        ) : !isEntertainment ? (
+          <View style={styles.costContainer}>
+            <Text style={styles.earnText}>
+              {earnAllowance !== null && earnAllowance > 0 ? `+${getEarnRate(app)} tokens/min` : 'Free'}
+            </Text>
+            {earnAllowance !== null && (
+              <Text style={styles.costSubtext}>
+                {earnAllowance > 0 ? `Up to ${earnAllowance} more today` : 'Earn limit reached today'}
+              </Text>
+            )}
+            <Text style={styles.costSubtext}>
+              Tap to launch
+            </Text>
+          </View>
         ) : (
           <View style={styles.costContainer}>
             <Text style={styles.costText}>
-              ~{tokensPerMinute} tokens/min
+              {prepaidMinutes !== null
+                ? `${getPrepaidCost(getTokensPerMinute(app), prepaidMinutes, trustedClock.now(), getMultiplierAt)} tokens for ${prepaidMinutes} min`
+                : `~${currentRate} tokens/min`}
             </Text>
+            {scheduleStatus.multiplier !== 1 && (
+              <Text style={styles.costSubtext}>
+                ×{scheduleStatus.multiplier} right now
+              </Text>
+            )}
             <Text style={styles.costSubtext}>
               Tap to launch
             </Text>
@@ -454,6 +593,11 @@ export const AppLauncher = ({
     );
   };
 
+  // Longest possible session is on the cheapest app that costs tokens
+  const cheapestRate = (entertainmentApps.length > 0
+    ? Math.min(...entertainmentApps.map(app => getTokensPerMinute(app)))
+    : defaultTokensPerMinute) * scheduleStatus.multiplier;
+
   const numColumns = 2;
   const itemWidth = (screenWidth - 48) / numColumns; // Account for padding and margins
 
@@ -467,17 +611,44 @@ export const AppLauncher = ({
         },
       ]}
     >
-      {/* Stable Timer Display */}
-      {activeTimer && (
-        <StableTimer
-          key={`timer-${activeTimer.appName}`}
-          appName={activeTimer.appName}
-          startTime={activeTimer.startTime}
+      {/* Session Timer Display */}
+      {activeSession && (
+        <SessionTimer
+          session={activeSession}
+          elapsedMs={elapsedMs}
+          remainingMs={remainingMs}
           balance={balance}
-          tokensPerMinute={tokensPerMinute}
-          onStop={stopTimer}
-          windowOpened={false} // No window management for new tabs
-          onTokenCharge={handleTokenCharge}
+          multiplier={scheduleStatus.multiplier}
+          warning={warning}
+          wrapUpMs={wrapUpMs}
+          pauseNote={pauseReason && describeIdlePause(pauseReason, activeSession.appName)}
+          onDismissWarning={dismissWarning}
+          onStop={stopSession}
+          onPause={pauseSession}
+          onResume={resumeSession}
+          windowOpened={Platform.OS === 'web' && windowManager.isWindowOpen(activeSession.id)}
+          onFocus={() => windowManager.focusWindow(activeSession.id)}
+        />
+      )}
+
+      {activeSession && stillWatchingDeadline !== null && wrapUpMs === null && (
+        <StillWatchingPrompt
+          visible
+          appName={activeSession.appName}
+          remainingMs={stillWatchingDeadline - Date.now()}
+          onConfirm={confirmStillWatching}
+          onPause={pauseSession}
+        />
+      )}
+
+      {activeSession && wrapUpMs !== null && (
+        <WrapUpCountdown
+          visible={wrapUpDismissedId !== activeSession.id}
+          appName={activeSession.appName}
+          remainingMs={wrapUpMs}
+          willLock={activeSession.mode !== 'prepaid'}
+          onStopNow={stopSession}
+          onDismiss={() => setWrapUpDismissedId(activeSession.id)}
         />
       )}
 
@@ -489,22 +660,78 @@ export const AppLauncher = ({
             Balance: {balance} tokens
           </Text>
           <Text style={styles.timeInfo}>
-            ~{Math.floor(balance / tokensPerMinute * 60)} seconds available
+            Up to ~{Math.floor(balance / cheapestRate * 60)} seconds available
           </Text>
+          {Platform.OS === 'web' && (
+            <Text style={styles.extensionInfo}>
+              {isExtensionConnected
+                ? '🧩 Browser extension on: app sites are blocked in every tab when your tokens run out'
+                : '🧩 Add the Aether browser extension to block app sites in other tabs too'}
+            </Text>
+          )}
+          {isExtensionConnected && browsingSummary !== '' && (
+            <Text style={styles.extensionInfo}>Browser time: {browsingSummary}</Text>
+          )}
+        </View>
+
+        {/* Pay as you go, or buy a block of time up front */}
+        <View style={styles.blockSelector}>
+          {[null, ...APP_CONFIG.prepaidBlockMinutes].map((minutes) => {
+            const isSelected = prepaidMinutes === minutes;
+            return (
+              <TouchableOpacity
+                key={minutes ?? 'metered'}
+                style={[styles.blockChip, isSelected && styles.blockChipSelected]}
+                onPress={() => setPrepaidMinutes(minutes)}
+                disabled={!!activeSession}
+              >
+                <Text style={[styles.blockChipText, isSelected && styles.blockChipTextSelected]}>
+                  {minutes === null ? 'Pay as you go' : `${minutes} min`}
+                </Text>
+              </TouchableOpacity>
+            );
+          })}
         </View>
       </View>
 
       {/* Apps Grid */}
       <View style={styles.gridContainer}>
-        <View style={styles.appsGrid}>
-          {apps.map((item, index) => (
-            <View key={item.name} style={styles.appItemWrapper}>
-              {renderAppItem({ item })}
-            </View>
-          ))}
-        </View>
+        {apps.length === 0 ? (
+          isCatalogLoading ? (
+            <ActivityIndicator size="large" color={colors.primary} />
+          ) : (
+            <Text style={styles.emptyText}>
+              No apps yet. Ask a parent to add apps to your family's catalog.
+            </Text>
+          )
+        ) : (
+          <View style={styles.appsGrid}>
+            {entertainmentApps.map((item, index) => (
+              <View key={item.name} style={styles.appItemWrapper}>
+                {renderAppItem({ item })}
+              </View>
+            ))}
+          </View>
+        )}
       </View>
 
+      {/* Learn & Earn: apps that are free, or pay tokens while used */}
+      {learnApps.length > 0 && (
+        <View style={styles.gridContainer}>
+          <Text style={styles.sectionTitle}>📚 LEARN & EARN</Text>
+          <Text style={styles.sectionSubtitle}>
+            These apps never cost tokens, and some pay you for every minute up to a daily limit
+          </Text>
+          <View style={styles.appsGrid}>
+            {learnApps.map(item => (
+              <View key={item.name} style={styles.appItemWrapper}>
+                {renderAppItem({ item })}
+              </View>
+            ))}
+          </View>
+        </View>
+      )}
+
       {/* Enhanced Low Balance Warning */}
       {balance < minTokensRequired && (
         <View style={styles.warningContainer}>
@@ -518,6 +745,11 @@ export const AppLauncher = ({
             <Text style={styles.warningActionText}>
               💎 Earn tokens through quests
             </Text>
+            {learnApps.some(app => getAppClassification(app) === 'earning') && (
+              <Text style={styles.warningActionText}>
+                📚 Or earn them in Learn & Earn apps
+              </Text>
+            )}
           </View>
         </View>
       )}
@@ -526,16 +758,22 @@ export const AppLauncher = ({
       <View style={styles.infoContainer}>
         <Text style={styles.infoTitle}>💡 HOW IT WORKS</Text>
         <Text style={styles.infoText}>
-          • Apps charge proportionally: ~{tokensPerMinute} tokens per minute
+          • Apps charge proportionally at the rate shown on each app (default ~{defaultTokensPerMinute} tokens per minute)
+        </Text>
+        <Text style={styles.infoText}>
+          • Pay as you go is charged as you play; a prepaid block is paid up front and unused time is refunded
+        </Text>
+        <Text style={styles.infoText}>
+          • Your family's schedule can raise rates or pause apps at certain times
         </Text>
         <Text style={styles.infoText}>
-          • Tokens charged every second based on actual usage
+          • Learn & Earn apps are free, and some add tokens to your wallet while you use them
         </Text>
         <Text style={styles.infoText}>
           • Apps open in new browser tabs for seamless experience
         </Text>
         <Text style={styles.infoText}>
-          • Timer stops automatically when you close the app
+          • The timer keeps running if you leave or close the app - stop it when you are done
         </Text>
       </View>
     </Animated.View>
@@ -591,10 +829,70 @@ const styles = StyleSheet.create({
     fontWeight: '600',
   } as TextStyle,
 
+  extensionInfo: {
+    fontSize: 12,
+    color: colors.textSecondary,
+    textAlign: 'center',
+    marginTop: 6,
+  } as TextStyle,
+
+  blockSelector: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'center',
+    gap: 8,
+    marginTop: 12,
+  } as ViewStyle,
+
+  blockChip: {
+    borderWidth: 1,
+    borderColor: colors.primary,
+    borderRadius: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+  } as ViewStyle,
+
+  blockChipSelected: {
+    backgroundColor: colors.primary,
+  } as ViewStyle,
+
+  blockChipText: {
+    fontSize: 13,
+    color: colors.primary,
+    fontWeight: '600',
+  } as TextStyle,
+
+  blockChipTextSelected: {
+    color: colors.background,
+  } as TextStyle,
+
   gridContainer: {
     padding: 16,
   } as ViewStyle,
 
+  emptyText: {
+    fontSize: 14,
+    color: colors.textSecondary,
+    textAlign: 'center',
+    paddingVertical: 24,
+  } as TextStyle,
+
+  sectionTitle: {
+    fontSize: 22,
+    fontWeight: '900',
+    color: colors.success,
+    textAlign: 'center',
+    marginBottom: 6,
+    letterSpacing: 1,
+  } as TextStyle,
+
+  sectionSubtitle: {
+    fontSize: 13,
+    color: colors.textSecondary,
+    textAlign: 'center',
+    marginBottom: 12,
+  } as TextStyle,
+
   row: {
     justifyContent: 'space-between',
   } as ViewStyle,
@@ -722,6 +1020,14 @@ const styles = StyleSheet.create({
     marginBottom: 2,
   } as TextStyle,
 
+  earnText: {
+    fontSize: 13,
+    color: colors.success,
+    textAlign: 'center',
+    fontWeight: '700',
+    marginBottom: 2,
+  } as TextStyle,
+
   costSubtext: {
     fontSize: 11,
     color: colors.textSecondary,
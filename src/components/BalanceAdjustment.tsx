@@ -0,0 +1,335 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  TextInput,
+  Alert,
+  Modal,
+} from 'react-native';
+import { WalletOperationResult } from '../lib/types';
+import { walletHelpers } from '../lib/supabase';
+import { useAuth } from '../context';
+
+type AdjustmentDirection = 'bonus' | 'penalty';
+
+interface AdjustmentFormData {
+  direction: AdjustmentDirection;
+  amount: number;
+  reason: string;
+}
+
+interface AdjustmentFormErrors {
+  amount?: string;
+  reason?: string;
+}
+
+interface BalanceAdjustmentProps {
+  visible: boolean;
+  childId: string;
+  childName?: string;
+  currentBalance: number;
+  onClose: () => void;
+  onAdjusted?: (result: WalletOperationResult) => void;
+}
+
+const EMPTY_FORM: AdjustmentFormData = {
+  direction: 'bonus',
+  amount: 10,
+  reason: '',
+};
+
+/**
+ * Balance Adjustment Component
+ * Lets a parent grant bonus tokens to, or deduct penalty tokens from, one child
+ */
+const BalanceAdjustment = ({
+  visible,
+  childId,
+  childName,
+  currentBalance,
+  onClose,
+  onAdjusted,
+}: BalanceAdjustmentProps) => {
+  const { user, hasRole } = useAuth();
+
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [formData, setFormData] = useState<AdjustmentFormData>(EMPTY_FORM);
+  const [formErrors, setFormErrors] = useState<AdjustmentFormErrors>({});
+
+  // Start from an empty form each time the modal opens
+  useEffect(() => {
+    if (visible) {
+      setFormData(EMPTY_FORM);
+      setFormErrors({});
+    }
+  }, [visible, childId]);
+
+  /**
+   * Validate form data
+   */
+  const validateForm = (): boolean => {
+    const errors: AdjustmentFormErrors = {};
+
+    if (!formData.amount || formData.amount < 1) {
+      errors.amount = 'Amount must be at least 1 token';
+    } else if (formData.amount > 1000) {
+      errors.amount = 'Amount must be 1000 tokens or less';
+    } else if (formData.direction === 'penalty' && formData.amount > currentBalance) {
+      errors.amount = `Cannot deduct more than the current balance (${currentBalance})`;
+    }
+
+    if (!formData.reason.trim()) {
+      errors.reason = 'A reason is required';
+    } else if (formData.reason.trim().length < 3) {
+      errors.reason = 'Reason must be at least 3 characters';
+    }
+
+    setFormErrors(errors);
+    return Object.keys(errors).length === 0;
+  };
+
+  /**
+   * Handle form submission
+   */
+  const handleSubmit = async () => {
+    if (!validateForm()) {
+      return;
+    }
+
+    if (!user) {
+      Alert.alert('Error', 'You must be logged in to adjust balances.');
+      return;
+    }
+
+    try {
+      setIsSubmitting(true);
+
+      const signedAmount = formData.direction === 'bonus' ? formData.amount : -formData.amount;
+      const result = await walletHelpers.adjustBalance(childId, signedAmount, formData.reason.trim());
+
+      onAdjusted?.(result);
+      Alert.alert(
+        'Success',
+        formData.direction === 'bonus'
+          ? `Granted ${formData.amount} tokens.`
+          : `Deducted ${formData.amount} tokens.`
+      );
+      onClose();
+    } catch (error) {
+      console.error('Failed to adjust balance:', error);
+      Alert.alert('Error', 'Failed to adjust balance. Please try again.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  // Check if user has parent role
+  if (!hasRole('parent')) {
+    return (
+      <Modal visible={visible} animationType="slide" onRequestClose={onClose}>
+        <View style={styles.modalContainer}>
+          <Text style={styles.errorText}>Access denied. Parent account required.</Text>
+        </View>
+      </Modal>
+    );
+  }
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onClose}
+    >
+      <View style={styles.modalContainer}>
+        <View style={styles.modalHeader}>
+          <TouchableOpacity onPress={onClose}>
+            <Text style={styles.cancelButton}>Cancel</Text>
+          </TouchableOpacity>
+          <Text style={styles.modalTitle}>
+            {childName ? `Adjust ${childName}'s Balance` : 'Adjust Balance'}
+          </Text>
+          <TouchableOpacity onPress={handleSubmit} disabled={isSubmitting}>
+            <Text style={[styles.saveButton, isSubmitting && styles.saveButtonDisabled]}>
+              {isSubmitting ? 'Saving...' : 'Save'}
+            </Text>
+          </TouchableOpacity>
+        </View>
+
+        <ScrollView style={styles.formContainer}>
+          <Text style={styles.balanceText}>Current balance: {currentBalance} tokens</Text>
+
+          {/* Direction */}
+          <View style={styles.formGroup}>
+            <Text style={styles.formLabel}>Type</Text>
+            <View style={styles.optionRow}>
+              {(['bonus', 'penalty'] as AdjustmentDirection[]).map(direction => (
+                <TouchableOpacity
+                  key={direction}
+                  style={[styles.optionButton, formData.direction === direction && styles.optionButtonSelected]}
+                  onPress={() => setFormData(prev => ({ ...prev, direction }))}
+                >
+                  <Text style={[styles.optionText, formData.direction === direction && styles.optionTextSelected]}>
+                    {direction === 'bonus' ? '➕ Bonus' : '➖ Penalty'}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          </View>
+
+          {/* Amount */}
+          <View style={styles.formGroup}>
+            <Text style={styles.formLabel}>Tokens *</Text>
+            <TextInput
+              style={[styles.formInput, formErrors.amount ? styles.formInputError : null]}
+              value={formData.amount.toString()}
+              onChangeText={(text) => {
+                const num = parseInt(text) || 0;
+                setFormData(prev => ({ ...prev, amount: num }));
+              }}
+              placeholder="10"
+              placeholderTextColor="#8892b0"
+              keyboardType="numeric"
+              maxLength={4}
+            />
+            {formErrors.amount && <Text style={styles.errorText}>{formErrors.amount}</Text>}
+          </View>
+
+          {/* Reason */}
+          <View style={styles.formGroup}>
+            <Text style={styles.formLabel}>Reason *</Text>
+            <TextInput
+              style={[styles.formInput, styles.formTextArea, formErrors.reason ? styles.formInputError : null]}
+              value={formData.reason}
+              onChangeText={(text) => setFormData(prev => ({ ...prev, reason: text }))}
+              placeholder={formData.direction === 'bonus' ? 'e.g., Helped a neighbour' : 'e.g., Screen time after bedtime'}
+              placeholderTextColor="#8892b0"
+              multiline
+              numberOfLines={3}
+              maxLength={200}
+            />
+            {formErrors.reason && <Text style={styles.errorText}>{formErrors.reason}</Text>}
+            <Text style={styles.formHint}>
+              Shown in your child's transaction history along with who made the change
+            </Text>
+          </View>
+        </ScrollView>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  modalContainer: {
+    flex: 1,
+    backgroundColor: '#0a0a0a',
+  },
+
+  // Modal Header Styles
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 15,
+    borderBottomWidth: 1,
+    borderBottomColor: '#1a1a2e',
+    backgroundColor: '#0a0a0a',
+  },
+  modalTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#ffffff',
+  },
+  cancelButton: {
+    fontSize: 16,
+    color: '#8892b0',
+  },
+  saveButton: {
+    fontSize: 16,
+    color: '#00d4ff',
+    fontWeight: '600',
+  },
+  saveButtonDisabled: {
+    color: '#3e3e3e',
+  },
+
+  // Form Styles
+  formContainer: {
+    flex: 1,
+    padding: 20,
+  },
+  balanceText: {
+    color: '#8892b0',
+    fontSize: 14,
+    marginBottom: 20,
+  },
+  formGroup: {
+    marginBottom: 20,
+  },
+  formLabel: {
+    color: '#ffffff',
+    fontSize: 14,
+    fontWeight: '500',
+    marginBottom: 8,
+  },
+  formInput: {
+    backgroundColor: '#1a1a2e',
+    borderWidth: 1,
+    borderColor: '#16213e',
+    borderRadius: 8,
+    paddingHorizontal: 15,
+    paddingVertical: 12,
+    color: '#ffffff',
+    fontSize: 14,
+  },
+  formTextArea: {
+    height: 80,
+    textAlignVertical: 'top',
+  },
+  formInputError: {
+    borderColor: '#e74c3c',
+  },
+  optionRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  optionButton: {
+    flex: 1,
+    backgroundColor: '#1a1a2e',
+    borderWidth: 1,
+    borderColor: '#16213e',
+    borderRadius: 8,
+    paddingVertical: 10,
+    alignItems: 'center',
+  },
+  optionButtonSelected: {
+    backgroundColor: '#00d4ff',
+    borderColor: '#00d4ff',
+  },
+  optionText: {
+    color: '#8892b0',
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  optionTextSelected: {
+    color: '#0a0a0a',
+    fontWeight: '600',
+  },
+  formHint: {
+    color: '#8892b0',
+    fontSize: 12,
+    marginTop: 5,
+    lineHeight: 16,
+  },
+  errorText: {
+    color: '#e74c3c',
+    fontSize: 12,
+    marginTop: 5,
+  },
+});
+
+export default BalanceAdjustment;
@@ -0,0 +1,323 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  TextInput,
+  Alert,
+  Modal,
+  Switch,
+  ActivityIndicator,
+} from 'react-native';
+import { CreditLine } from '../lib/types';
+import { dbHelpers } from '../lib/supabase';
+import { useAuth } from '../context';
+
+interface CreditLineFormData {
+  credit_limit: number;
+  is_active: boolean;
+}
+
+interface CreditLineFormErrors {
+  credit_limit?: string;
+}
+
+interface CreditLimitEditorProps {
+  visible: boolean;
+  childId: string;
+  childName?: string;
+  currentDebt?: number;
+  onClose: () => void;
+  onSaved?: (creditLine: CreditLine) => void;
+}
+
+/**
+ * Credit Limit Editor Component
+ * Lets a parent turn on borrowing for one child and set how many tokens they may owe
+ */
+const CreditLimitEditor = ({
+  visible,
+  childId,
+  childName,
+  currentDebt = 0,
+  onClose,
+  onSaved,
+}: CreditLimitEditorProps) => {
+  const { user, hasRole } = useAuth();
+
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [formData, setFormData] = useState<CreditLineFormData>({
+    credit_limit: 25,
+    is_active: true,
+  });
+  const [formErrors, setFormErrors] = useState<CreditLineFormErrors>({});
+
+  // Load the current credit line when the editor opens
+  useEffect(() => {
+    if (visible) {
+      loadCreditLine();
+    }
+  }, [visible, childId]);
+
+  /**
+   * Load the child's existing credit line into the form
+   */
+  const loadCreditLine = async () => {
+    try {
+      setIsLoading(true);
+      setFormErrors({});
+
+      const creditLine = await dbHelpers.getCreditLine(childId);
+      if (creditLine) {
+        setFormData({
+          credit_limit: creditLine.credit_limit,
+          is_active: creditLine.is_active,
+        });
+      }
+    } catch (error) {
+      console.error('Failed to load credit line:', error);
+      Alert.alert('Error', 'Failed to load credit limit. Please try again.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  /**
+   * Validate form data
+   */
+  const validateForm = (): boolean => {
+    const errors: CreditLineFormErrors = {};
+
+    if (!formData.credit_limit || formData.credit_limit < 1) {
+      errors.credit_limit = 'Credit limit must be at least 1 token';
+    } else if (formData.credit_limit > 500) {
+      errors.credit_limit = 'Credit limit must be 500 tokens or less';
+    }
+
+    setFormErrors(errors);
+    return Object.keys(errors).length === 0;
+  };
+
+  /**
+   * Handle form submission
+   */
+  const handleSubmit = async () => {
+    if (!validateForm()) {
+      return;
+    }
+
+    if (!user) {
+      Alert.alert('Error', 'You must be logged in to manage credit limits.');
+      return;
+    }
+
+    try {
+      setIsSubmitting(true);
+
+      const savedCreditLine = await dbHelpers.saveCreditLine(childId, {
+        credit_limit: formData.credit_limit,
+        is_active: formData.is_active,
+      }, user.id);
+
+      onSaved?.(savedCreditLine);
+      Alert.alert('Success', 'Credit limit saved successfully!');
+      onClose();
+    } catch (error) {
+      console.error('Failed to save credit line:', error);
+      Alert.alert('Error', 'Failed to save credit limit. Please try again.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  // Check if user has parent role
+  if (!hasRole('parent')) {
+    return (
+      <Modal visible={visible} animationType="slide" onRequestClose={onClose}>
+        <View style={styles.modalContainer}>
+          <Text style={styles.errorText}>Access denied. Parent account required.</Text>
+        </View>
+      </Modal>
+    );
+  }
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onClose}
+    >
+      <View style={styles.modalContainer}>
+        <View style={styles.modalHeader}>
+          <TouchableOpacity onPress={onClose}>
+            <Text style={styles.cancelButton}>Cancel</Text>
+          </TouchableOpacity>
+          <Text style={styles.modalTitle}>
+            {childName ? `${childName}'s Credit` : 'Credit Limit'}
+          </Text>
+          <TouchableOpacity onPress={handleSubmit} disabled={isSubmitting || isLoading}>
+            <Text style={[styles.saveButton, (isSubmitting || isLoading) && styles.saveButtonDisabled]}>
+              {isSubmitting ? 'Saving...' : 'Save'}
+            </Text>
+          </TouchableOpacity>
+        </View>
+
+        {isLoading ? (
+          <View style={styles.loadingContainer}>
+            <ActivityIndicator size="large" color="#00d4ff" />
+            <Text style={styles.loadingText}>Loading credit limit...</Text>
+          </View>
+        ) : (
+          <ScrollView style={styles.formContainer}>
+            {/* Allow borrowing */}
+            <View style={styles.formGroup}>
+              <View style={styles.switchRow}>
+                <Text style={styles.formLabel}>Allow Borrowing</Text>
+                <Switch
+                  value={formData.is_active}
+                  onValueChange={(value) => setFormData(prev => ({ ...prev, is_active: value }))}
+                  trackColor={{ false: '#3e3e3e', true: '#00d4ff' }}
+                  thumbColor={formData.is_active ? '#ffffff' : '#8892b0'}
+                />
+              </View>
+              <Text style={styles.formHint}>
+                When tokens run out, the lock screen offers a loan. Loans are repaid automatically
+                from the next allowance or quest earnings.
+              </Text>
+            </View>
+
+            {/* Credit limit */}
+            <View style={styles.formGroup}>
+              <Text style={styles.formLabel}>Most Tokens Owed at Once *</Text>
+              <TextInput
+                style={[styles.formInput, formErrors.credit_limit ? styles.formInputError : null]}
+                value={formData.credit_limit.toString()}
+                onChangeText={(text) => {
+                  const num = parseInt(text) || 0;
+                  setFormData(prev => ({ ...prev, credit_limit: num }));
+                }}
+                placeholder="25"
+                placeholderTextColor="#8892b0"
+                keyboardType="numeric"
+                maxLength={3}
+              />
+              {formErrors.credit_limit && <Text style={styles.errorText}>{formErrors.credit_limit}</Text>}
+            </View>
+
+            {/* Current debt */}
+            <View style={styles.formGroup}>
+              <Text style={styles.formLabel}>Currently Owed</Text>
+              <Text style={styles.debtValue}>{currentDebt} tokens</Text>
+              <Text style={styles.formHint}>
+                Lowering the limit or turning borrowing off does not cancel what is owed; it is still repaid from earnings.
+              </Text>
+            </View>
+          </ScrollView>
+        )}
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  modalContainer: {
+    flex: 1,
+    backgroundColor: '#0a0a0a',
+  },
+
+  // Modal Header Styles
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 15,
+    borderBottomWidth: 1,
+    borderBottomColor: '#1a1a2e',
+    backgroundColor: '#0a0a0a',
+  },
+  modalTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#ffffff',
+  },
+  cancelButton: {
+    fontSize: 16,
+    color: '#8892b0',
+  },
+  saveButton: {
+    fontSize: 16,
+    color: '#00d4ff',
+    fontWeight: '600',
+  },
+  saveButtonDisabled: {
+    color: '#3e3e3e',
+  },
+
+  // Form Styles
+  formContainer: {
+    flex: 1,
+    padding: 20,
+  },
+  formGroup: {
+    marginBottom: 20,
+  },
+  formLabel: {
+    color: '#ffffff',
+    fontSize: 14,
+    fontWeight: '500',
+    marginBottom: 8,
+  },
+  formInput: {
+    backgroundColor: '#1a1a2e',
+    borderWidth: 1,
+    borderColor: '#16213e',
+    borderRadius: 8,
+    paddingHorizontal: 15,
+    paddingVertical: 12,
+    color: '#ffffff',
+    fontSize: 14,
+  },
+  formInputError: {
+    borderColor: '#e74c3c',
+  },
+  switchRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  debtValue: {
+    color: '#f39c12',
+    fontSize: 20,
+    fontWeight: '600',
+  },
+  formHint: {
+    color: '#8892b0',
+    fontSize: 12,
+    marginTop: 5,
+    lineHeight: 16,
+  },
+  errorText: {
+    color: '#e74c3c',
+    fontSize: 12,
+    marginTop: 5,
+  },
+
+  // Loading State
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  loadingText: {
+    color: '#8892b0',
+    fontSize: 16,
+    marginTop: 10,
+  },
+});
+
+export default CreditLimitEditor;
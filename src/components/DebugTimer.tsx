@@ -1,67 +1,56 @@
-import React, { useState, useEffect } from 'react';
+/**
+ * Debug Timer Component
+ * Shows the session engine's raw state for the current session, for checking billing by eye
+ */
+
 import { View, Text, TouchableOpacity, StyleSheet, ViewStyle, TextStyle } from 'react-native';
+import { UsageSession } from '../lib/types';
+import { getOwedTokens } from '../lib/sessionEngine';
 
 interface DebugTimerProps {
-  appName: string;
-  startTime: number;
-  tokensSpent: number;
+  session: UsageSession;
+  elapsedMs: number;
   balance: number;
-  tokensPerMinute: number;
   onStop: () => void;
   onFocus?: () => void;
   windowOpened?: boolean;
 }
 
 export const DebugTimer = ({
-  appName,
-  startTime,
-  tokensSpent,
+  session,
+  elapsedMs,
   balance,
-  tokensPerMinute,
   onStop,
   onFocus,
   windowOpened = false,
 }: DebugTimerProps) => {
-  const [currentTime, setCurrentTime] = useState(Date.now());
-  const [debugInfo, setDebugInfo] = useState<string[]>([]);
-
-  // Update current time every second
-  useEffect(() => {
-    const interval = setInterval(() => {
-      const now = Date.now();
-      setCurrentTime(now);
-      
-      // Add debug info
-      const elapsed = Math.floor((now - startTime) / 1000);
-      const newDebugInfo = [
-        `Timer active: ${appName}`,
-        `Elapsed: ${elapsed}s`,
-        `Start time: ${new Date(startTime).toLocaleTimeString()}`,
-        `Current time: ${new Date(now).toLocaleTimeString()}`,
-        `Tokens spent: ${tokensSpent}`,
-        `Balance: ${balance}`,
-        `Window opened: ${windowOpened}`,
-        `Component rendered: ${new Date().toLocaleTimeString()}`,
-      ];
-      setDebugInfo(newDebugInfo);
-    }, 1000);
-
-    return () => clearInterval(interval);
-  }, [appName, startTime, tokensSpent, balance, windowOpened]);
-
   const formatTime = (elapsed: number) => {
     const minutes = Math.floor(elapsed / 60000);
     const seconds = Math.floor((elapsed % 60000) / 1000);
     return `${minutes}:${seconds.toString().padStart(2, '0')}`;
   };
 
-  const elapsed = currentTime - startTime;
+  const formatClock = (time: number | null | undefined) =>
+    time ? new Date(time).toLocaleTimeString() : '-';
+
+  const debugInfo = [
+    `Session: ${session.id}`,
+    `Status: ${session.status}${session.stopReason ? ` (${session.stopReason})` : ''}`,
+    `Started: ${formatClock(session.startedAt)}`,
+    `Running since: ${formatClock(session.runningSince)}`,
+    `Active before: ${Math.floor(session.activeMs / 1000)}s`,
+    `Accrued: ${session.accruedTokens.toFixed(3)} tokens at ${formatClock(session.accruedAt)}`,
+    `Charged: ${session.chargedTokens} tokens for ${Math.floor(session.chargedMs / 1000)}s`,
+    `Owed: ${getOwedTokens(session)} tokens, last flushed ${formatClock(session.flushedAt ?? session.startedAt)}`,
+    `Mode: ${session.mode ?? 'metered'}${session.prepaidMs ? ` (${session.prepaidMs / 60000} min, ${session.refundedTokens ?? 0} refunded)` : ''}`,
+    `Window opened: ${windowOpened}`,
+  ];
 
   return (
     <View style={styles.container}>
       {/* Main Timer Display */}
       <View style={styles.timerHeader}>
-        <Text style={styles.appName}>🐛 DEBUG: {appName}</Text>
+        <Text style={styles.appName}>🐛 DEBUG: {session.appName}</Text>
         <View style={styles.buttonContainer}>
           {windowOpened && onFocus && (
             <TouchableOpacity style={styles.focusButton} onPress={onFocus}>
@@ -76,29 +65,22 @@ export const DebugTimer = ({
 
       {/* Timer Stats */}
       <View style={styles.statsContainer}>
-        <Text style={styles.timeDisplay}>{formatTime(elapsed)}</Text>
-        <Text style={styles.statText}>Spent: {tokensSpent} tokens</Text>
+        <Text style={styles.timeDisplay}>{formatTime(elapsedMs)}</Text>
+        <Text style={styles.statText}>Spent: {session.chargedTokens} tokens</Text>
         <Text style={styles.statText}>
-          Balance: {balance} (~{Math.floor(balance / tokensPerMinute * 60)}s)
+          Balance: {balance} (~{Math.floor(balance / session.tokensPerMinute * 60)}s)
         </Text>
       </View>
 
       {/* Debug Information */}
       <View style={styles.debugContainer}>
-        <Text style={styles.debugTitle}>Debug Info:</Text>
+        <Text style={styles.debugTitle}>Engine State:</Text>
         {debugInfo.map((info, index) => (
           <Text key={index} style={styles.debugText}>
             {info}
           </Text>
         ))}
       </View>
-
-      {/* Render Counter */}
-      <View style={styles.renderCounter}>
-        <Text style={styles.renderText}>
-          Renders: {Math.floor(Math.random() * 1000)} (changes = re-render)
-        </Text>
-      </View>
     </View>
   );
 };
@@ -201,19 +183,6 @@ const styles = StyleSheet.create({
     fontFamily: 'monospace',
     lineHeight: 12,
   } as TextStyle,
-
-  renderCounter: {
-    backgroundColor: '#ff9800',
-    borderRadius: 4,
-    padding: 4,
-    alignItems: 'center',
-  } as ViewStyle,
-
-  renderText: {
-    fontSize: 10,
-    color: '#000000',
-    fontWeight: 'bold',
-  } as TextStyle,
 });
 
 export default DebugTimer;
\ No newline at end of file
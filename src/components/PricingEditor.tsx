@@ -0,0 +1,351 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  TextInput,
+  Alert,
+  Modal,
+  ActivityIndicator,
+} from 'react-native';
+import { AppConfig, AppPricingRule, AppPricingScope } from '../lib/types';
+import { APP_CONFIG } from '../lib/config';
+import { dbHelpers } from '../lib/supabase';
+import { buildAppList, catalogHelpers, getAppCategories } from '../lib/appCatalog';
+import { isEntertainmentApp } from '../lib/appClassification';
+import { useAuth } from '../context';
+
+// Rates keyed by `${scope}:${target_name}`; an empty string means "use the fallback rate"
+type RateInputs = Record<string, string>;
+
+interface PricingEditorProps {
+  visible: boolean;
+  onClose: () => void;
+  onSaved?: (rules: AppPricingRule[]) => void;
+}
+
+const MAX_TOKENS_PER_MINUTE = 60;
+
+const rateKey = (scope: AppPricingScope, targetName: string): string => `${scope}:${targetName}`;
+
+/**
+ * Pricing Editor Component
+ * Lets a parent set per-category token rates for their family; apps are priced in the app catalog
+ */
+const PricingEditor = ({ visible, onClose, onSaved }: PricingEditorProps) => {
+  const { user, hasRole } = useAuth();
+
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [existingRules, setExistingRules] = useState<AppPricingRule[]>([]);
+  const [apps, setApps] = useState<AppConfig[]>([]);
+  const [rates, setRates] = useState<RateInputs>({});
+  const [formError, setFormError] = useState<string | null>(null);
+  const categories = getAppCategories(apps);
+
+  // Load the family's current rates when the editor opens
+  useEffect(() => {
+    if (visible && user) {
+      loadPricing(user.id);
+    }
+  }, [visible, user?.id]);
+
+  /**
+   * Load existing pricing rules into the form, for the apps in the family's catalog
+   */
+  const loadPricing = async (parentId: string) => {
+    try {
+      setIsLoading(true);
+      setFormError(null);
+
+      const [rules, catalog] = await Promise.all([
+        dbHelpers.getAppPricing(parentId),
+        catalogHelpers.loadApps(),
+      ]);
+      // Free and earning apps have no price to set
+      setApps(buildAppList(catalog).filter(isEntertainmentApp));
+      setExistingRules(rules);
+      setRates(Object.fromEntries(
+        rules.map(rule => [rateKey(rule.scope, rule.target_name), rule.tokens_per_minute.toString()])
+      ));
+    } catch (error) {
+      console.error('Failed to load app pricing:', error);
+      Alert.alert('Error', 'Failed to load app pricing. Please try again.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  /**
+   * Validate every entered rate
+   */
+  const validateForm = (): boolean => {
+    const invalid = Object.values(rates).some(value => {
+      if (!value.trim()) return false;
+      const rate = parseInt(value, 10);
+      return isNaN(rate) || rate < 1 || rate > MAX_TOKENS_PER_MINUTE;
+    });
+
+    setFormError(invalid ? `Rates must be between 1 and ${MAX_TOKENS_PER_MINUTE} tokens per minute` : null);
+    return !invalid;
+  };
+
+  /**
+   * Save changed rates and remove cleared ones
+   */
+  const handleSubmit = async () => {
+    if (!validateForm()) {
+      return;
+    }
+
+    if (!user) {
+      Alert.alert('Error', 'You must be logged in to manage pricing.');
+      return;
+    }
+
+    try {
+      setIsSubmitting(true);
+
+      const existingByKey = new Map(existingRules.map(rule => [rateKey(rule.scope, rule.target_name), rule]));
+      const targets: Array<{ scope: AppPricingScope; target_name: string }> =
+        categories.map(category => ({ scope: 'category' as const, target_name: category }));
+
+      for (const target of targets) {
+        const key = rateKey(target.scope, target.target_name);
+        const value = rates[key]?.trim() ?? '';
+        const existing = existingByKey.get(key);
+
+        if (!value) {
+          if (existing) {
+            await dbHelpers.deleteAppPricingRule(existing.id);
+          }
+          continue;
+        }
+
+        const tokensPerMinute = parseInt(value, 10);
+        if (existing?.tokens_per_minute !== tokensPerMinute) {
+          await dbHelpers.saveAppPricingRule(user.id, { ...target, tokens_per_minute: tokensPerMinute });
+        }
+      }
+
+      onSaved?.(await dbHelpers.getAppPricing(user.id));
+      Alert.alert('Success', 'App pricing saved successfully!');
+      onClose();
+    } catch (error) {
+      console.error('Failed to save app pricing:', error);
+      Alert.alert('Error', 'Failed to save app pricing. Please try again.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  /**
+   * Render one rate input row
+   */
+  const renderRateRow = (scope: AppPricingScope, targetName: string, label: string, fallbackRate: number) => {
+    const key = rateKey(scope, targetName);
+
+    return (
+      <View key={key} style={styles.rateRow}>
+        <Text style={styles.rateLabel}>{label}</Text>
+        <TextInput
+          style={styles.rateInput}
+          value={rates[key] ?? ''}
+          onChangeText={(text) => setRates(prev => ({ ...prev, [key]: text.replace(/[^0-9]/g, '') }))}
+          placeholder={fallbackRate.toString()}
+          placeholderTextColor="#3e3e3e"
+          keyboardType="numeric"
+          maxLength={2}
+        />
+        <Text style={styles.rateUnit}>tokens/min</Text>
+      </View>
+    );
+  };
+
+  /**
+   * Apps in a category that keep their own catalog price whatever the category rate
+   */
+  const getCatalogPricedApps = (category: string): AppConfig[] =>
+    apps.filter(app => app.category === category && app.tokensPerMinute !== undefined);
+
+  // Check if user has parent role
+  if (!hasRole('parent')) {
+    return (
+      <Modal visible={visible} animationType="slide" onRequestClose={onClose}>
+        <View style={styles.modalContainer}>
+          <Text style={styles.errorText}>Access denied. Parent account required.</Text>
+        </View>
+      </Modal>
+    );
+  }
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onClose}
+    >
+      <View style={styles.modalContainer}>
+        <View style={styles.modalHeader}>
+          <TouchableOpacity onPress={onClose}>
+            <Text style={styles.cancelButton}>Cancel</Text>
+          </TouchableOpacity>
+          <Text style={styles.modalTitle}>App Pricing</Text>
+          <TouchableOpacity onPress={handleSubmit} disabled={isSubmitting || isLoading}>
+            <Text style={[styles.saveButton, (isSubmitting || isLoading) && styles.saveButtonDisabled]}>
+              {isSubmitting ? 'Saving...' : 'Save'}
+            </Text>
+          </TouchableOpacity>
+        </View>
+
+        {isLoading ? (
+          <View style={styles.loadingContainer}>
+            <ActivityIndicator size="large" color="#00d4ff" />
+            <Text style={styles.loadingText}>Loading pricing...</Text>
+          </View>
+        ) : (
+          <ScrollView style={styles.formContainer}>
+            <Text style={styles.formHint}>
+              Leave a rate empty to use the default of {APP_CONFIG.tokenRate} tokens per minute.
+              An app with its own price in the app catalog uses that price instead. Rates apply to all of your children.
+            </Text>
+            {formError && <Text style={styles.errorText}>{formError}</Text>}
+
+            <Text style={styles.sectionTitle}>Categories</Text>
+            {categories.map(category => {
+              const pricedApps = getCatalogPricedApps(category);
+
+              return (
+                <View key={category}>
+                  {renderRateRow('category', category, category, APP_CONFIG.tokenRate)}
+                  {pricedApps.length > 0 && (
+                    <Text style={styles.catalogPriceNote}>
+                      Catalog price: {pricedApps.map(app => `${app.icon} ${app.name} (${app.tokensPerMinute}/min)`).join(', ')}
+                    </Text>
+                  )}
+                </View>
+              );
+            })}
+          </ScrollView>
+        )}
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  modalContainer: {
+    flex: 1,
+    backgroundColor: '#0a0a0a',
+  },
+
+  // Modal Header Styles
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 15,
+    borderBottomWidth: 1,
+    borderBottomColor: '#1a1a2e',
+    backgroundColor: '#0a0a0a',
+  },
+  modalTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#ffffff',
+  },
+  cancelButton: {
+    fontSize: 16,
+    color: '#8892b0',
+  },
+  saveButton: {
+    fontSize: 16,
+    color: '#00d4ff',
+    fontWeight: '600',
+  },
+  saveButtonDisabled: {
+    color: '#3e3e3e',
+  },
+
+  // Form Styles
+  formContainer: {
+    flex: 1,
+    padding: 20,
+  },
+  sectionTitle: {
+    color: '#ffffff',
+    fontSize: 16,
+    fontWeight: '600',
+    marginTop: 20,
+    marginBottom: 10,
+  },
+  rateRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#1a1a2e',
+    borderWidth: 1,
+    borderColor: '#16213e',
+    borderRadius: 8,
+    paddingHorizontal: 15,
+    paddingVertical: 8,
+    marginBottom: 8,
+  },
+  rateLabel: {
+    flex: 1,
+    color: '#ffffff',
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  rateInput: {
+    width: 50,
+    backgroundColor: '#0a0a0a',
+    borderWidth: 1,
+    borderColor: '#16213e',
+    borderRadius: 6,
+    paddingHorizontal: 8,
+    paddingVertical: 6,
+    color: '#ffffff',
+    fontSize: 14,
+    textAlign: 'center',
+  },
+  rateUnit: {
+    color: '#8892b0',
+    fontSize: 12,
+    marginLeft: 8,
+  },
+  catalogPriceNote: {
+    color: '#8892b0',
+    fontSize: 12,
+    marginTop: -4,
+    marginBottom: 8,
+    paddingHorizontal: 4,
+  },
+  formHint: {
+    color: '#8892b0',
+    fontSize: 12,
+    lineHeight: 16,
+  },
+  errorText: {
+    color: '#e74c3c',
+    fontSize: 12,
+    marginTop: 5,
+  },
+
+  // Loading State
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  loadingText: {
+    color: '#8892b0',
+    fontSize: 16,
+    marginTop: 10,
+  },
+});
+
+export default PricingEditor;
@@ -51,7 +51,7 @@ export const QuestCam = ({
   onCancel,
   style,
 }: QuestCamProps) => {
-  const { earnTokens } = useWallet();
+  const { completeQuest } = useWallet();
   const { profile } = useAuth();
   const { requestVerification } = useManualVerification();
   
@@ -245,7 +245,7 @@ export const QuestCam = ({
         
         if (aiResult.isValid) {
           console.log('Quest verified by AI, awarding tokens');
-          await earnTokens(quest.token_reward, `Quest completed: ${quest.name} (AI verified)`, imageUri);
+          await completeQuest(quest, imageUri, 'ai');
           
           setTimeout(() => {
             onQuestComplete(true, quest.token_reward);
@@ -353,7 +353,7 @@ export const QuestCam = ({
         setVerificationResult(result);
         setShowResult(true);
         
-        await earnTokens(quest.token_reward, `Quest completed: ${quest.name} (Parent verified)`, imageUri);
+        await completeQuest(quest, imageUri, 'parent');
         
         // Show success message that stays visible longer
         setTimeout(() => {
@@ -0,0 +1,566 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  TextInput,
+  Alert,
+  Modal,
+  Switch,
+  ActivityIndicator,
+} from 'react-native';
+import { Reward } from '../lib/types';
+import { dbHelpers } from '../lib/supabase';
+import { useAuth } from '../context';
+
+interface RewardFormData {
+  name: string;
+  icon: string;
+  description: string;
+  token_cost: number;
+  is_active: boolean;
+}
+
+interface RewardFormErrors {
+  name?: string;
+  icon?: string;
+  token_cost?: string;
+}
+
+interface RewardsCatalogEditorProps {
+  visible: boolean;
+  onClose: () => void;
+  onSaved?: (rewards: Reward[]) => void;
+}
+
+// Common rewards offered as starting points
+const PRESETS: Array<{ label: string; reward: Omit<RewardFormData, 'is_active'> }> = [
+  {
+    label: '🦁 Trip to the zoo',
+    reward: { name: 'Trip to the zoo', icon: '🦁', description: 'A family day out at the zoo', token_cost: 1000 },
+  },
+  {
+    label: '🍕 Pick dinner',
+    reward: { name: 'Pick dinner', icon: '🍕', description: 'Choose what the family eats tonight', token_cost: 200 },
+  },
+];
+
+const emptyForm = (): RewardFormData => ({
+  name: '',
+  icon: '🎁',
+  description: '',
+  token_cost: 100,
+  is_active: true,
+});
+
+/**
+ * Rewards Catalog Editor Component
+ * Lets a parent manage the real-world rewards their children can save tokens toward
+ */
+const RewardsCatalogEditor = ({ visible, onClose, onSaved }: RewardsCatalogEditorProps) => {
+  const { user, hasRole } = useAuth();
+
+  const [rewards, setRewards] = useState<Reward[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [editingRewardId, setEditingRewardId] = useState<string | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const [formData, setFormData] = useState<RewardFormData>(emptyForm);
+  const [formErrors, setFormErrors] = useState<RewardFormErrors>({});
+
+  // Load the catalog when the editor opens
+  useEffect(() => {
+    if (visible && user) {
+      setShowForm(false);
+      loadRewards();
+    }
+  }, [visible, user?.id]);
+
+  /**
+   * Load this parent's rewards
+   */
+  const loadRewards = async () => {
+    if (!user) return;
+
+    try {
+      setIsLoading(true);
+      setRewards(await dbHelpers.getRewards(user.id));
+    } catch (error) {
+      console.error('Failed to load rewards:', error);
+      Alert.alert('Error', 'Failed to load rewards. Please try again.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  /**
+   * Open the form for a new reward, optionally prefilled from a preset
+   */
+  const openCreateForm = (preset?: Omit<RewardFormData, 'is_active'>) => {
+    setEditingRewardId(null);
+    setFormData({ ...emptyForm(), ...preset });
+    setFormErrors({});
+    setShowForm(true);
+  };
+
+  /**
+   * Open the form for an existing reward
+   */
+  const openEditForm = (reward: Reward) => {
+    setEditingRewardId(reward.id);
+    setFormData({
+      name: reward.name,
+      icon: reward.icon,
+      description: reward.description ?? '',
+      token_cost: reward.token_cost,
+      is_active: reward.is_active,
+    });
+    setFormErrors({});
+    setShowForm(true);
+  };
+
+  /**
+   * Validate form data
+   */
+  const validateForm = (): boolean => {
+    const errors: RewardFormErrors = {};
+
+    if (!formData.name.trim()) {
+      errors.name = 'Reward name is required';
+    } else if (formData.name.trim().length > 60) {
+      errors.name = 'Reward name must be 60 characters or less';
+    }
+
+    if (!formData.icon.trim()) {
+      errors.icon = 'Pick an icon';
+    }
+
+    if (!formData.token_cost || formData.token_cost < 1) {
+      errors.token_cost = 'Cost must be at least 1 token';
+    } else if (formData.token_cost > 100000) {
+      errors.token_cost = 'Cost must be 100000 tokens or less';
+    }
+
+    setFormErrors(errors);
+    return Object.keys(errors).length === 0;
+  };
+
+  /**
+   * Save the reward in the form
+   */
+  const handleSubmit = async () => {
+    if (!validateForm()) {
+      return;
+    }
+
+    if (!user) {
+      Alert.alert('Error', 'You must be logged in to manage rewards.');
+      return;
+    }
+
+    try {
+      setIsSubmitting(true);
+
+      await dbHelpers.saveReward(user.id, {
+        ...formData,
+        icon: formData.icon.trim(),
+      }, editingRewardId ?? undefined);
+
+      const updatedRewards = await dbHelpers.getRewards(user.id);
+      setRewards(updatedRewards);
+      onSaved?.(updatedRewards);
+      setShowForm(false);
+    } catch (error) {
+      console.error('Failed to save reward:', error);
+      Alert.alert('Error', 'Failed to save reward. Please try again.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  /**
+   * Delete a reward after confirmation
+   */
+  const handleDelete = (reward: Reward) => {
+    Alert.alert(
+      'Delete Reward',
+      `Are you sure you want to delete "${reward.name}"?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await dbHelpers.deleteReward(reward.id);
+              const updatedRewards = rewards.filter(r => r.id !== reward.id);
+              setRewards(updatedRewards);
+              onSaved?.(updatedRewards);
+            } catch (error) {
+              console.error('Failed to delete reward:', error);
+              Alert.alert(
+                'Error',
+                'This reward could not be deleted, usually because a child is saving toward it. Turn it off instead to hide it from the catalog.'
+              );
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  /**
+   * Render one catalog entry
+   */
+  const renderReward = (reward: Reward) => (
+    <View key={reward.id} style={[styles.rewardItem, !reward.is_active && styles.rewardItemInactive]}>
+      <Text style={styles.rewardIcon}>{reward.icon}</Text>
+      <View style={styles.rewardInfo}>
+        <Text style={styles.rewardName}>{reward.name}</Text>
+        <Text style={styles.rewardDetail}>
+          {reward.token_cost} tokens
+          {reward.is_active ? '' : ' · Hidden'}
+        </Text>
+        {reward.description ? (
+          <Text style={styles.rewardDetail}>{reward.description}</Text>
+        ) : null}
+      </View>
+      <View style={styles.rewardActions}>
+        <TouchableOpacity onPress={() => openEditForm(reward)}>
+          <Text style={styles.rewardActionText}>Edit</Text>
+        </TouchableOpacity>
+        <TouchableOpacity onPress={() => handleDelete(reward)}>
+          <Text style={[styles.rewardActionText, styles.deleteText]}>Delete</Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+
+  /**
+   * Render the create/edit form
+   */
+  const renderForm = () => (
+    <View>
+      {/* Name */}
+      <View style={styles.formGroup}>
+        <Text style={styles.formLabel}>Reward Name *</Text>
+        <TextInput
+          style={[styles.formInput, formErrors.name ? styles.formInputError : null]}
+          value={formData.name}
+          onChangeText={(text) => setFormData(prev => ({ ...prev, name: text }))}
+          placeholder="e.g., Trip to the zoo"
+          placeholderTextColor="#8892b0"
+          maxLength={60}
+        />
+        {formErrors.name && <Text style={styles.errorText}>{formErrors.name}</Text>}
+      </View>
+
+      {/* Icon */}
+      <View style={styles.formGroup}>
+        <Text style={styles.formLabel}>Icon *</Text>
+        <TextInput
+          style={[styles.formInput, formErrors.icon ? styles.formInputError : null]}
+          value={formData.icon}
+          onChangeText={(text) => setFormData(prev => ({ ...prev, icon: text }))}
+          placeholder="🎁"
+          placeholderTextColor="#8892b0"
+          maxLength={4}
+        />
+        {formErrors.icon && <Text style={styles.errorText}>{formErrors.icon}</Text>}
+      </View>
+
+      {/* Description */}
+      <View style={styles.formGroup}>
+        <Text style={styles.formLabel}>Description</Text>
+        <TextInput
+          style={[styles.formInput, styles.formTextArea]}
+          value={formData.description}
+          onChangeText={(text) => setFormData(prev => ({ ...prev, description: text }))}
+          placeholder="What the reward includes"
+          placeholderTextColor="#8892b0"
+          multiline
+          numberOfLines={3}
+          maxLength={200}
+        />
+      </View>
+
+      {/* Token cost */}
+      <View style={styles.formGroup}>
+        <Text style={styles.formLabel}>Token Cost *</Text>
+        <TextInput
+          style={[styles.formInput, formErrors.token_cost ? styles.formInputError : null]}
+          value={formData.token_cost.toString()}
+          onChangeText={(text) => {
+            const num = parseInt(text) || 0;
+            setFormData(prev => ({ ...prev, token_cost: num }));
+          }}
+          placeholder="100"
+          placeholderTextColor="#8892b0"
+          keyboardType="numeric"
+          maxLength={6}
+        />
+        {formErrors.token_cost && <Text style={styles.errorText}>{formErrors.token_cost}</Text>}
+        <Text style={styles.formHint}>
+          Changing the cost only affects goals started afterwards
+        </Text>
+      </View>
+
+      {/* Active Status */}
+      <View style={styles.formGroup}>
+        <View style={styles.switchRow}>
+          <Text style={styles.formLabel}>Shown in Catalog</Text>
+          <Switch
+            value={formData.is_active}
+            onValueChange={(value) => setFormData(prev => ({ ...prev, is_active: value }))}
+            trackColor={{ false: '#3e3e3e', true: '#00d4ff' }}
+            thumbColor={formData.is_active ? '#ffffff' : '#8892b0'}
+          />
+        </View>
+      </View>
+    </View>
+  );
+
+  // Check if user has parent role
+  if (!hasRole('parent')) {
+    return (
+      <Modal visible={visible} animationType="slide" onRequestClose={onClose}>
+        <View style={styles.modalContainer}>
+          <Text style={styles.errorText}>Access denied. Parent account required.</Text>
+        </View>
+      </Modal>
+    );
+  }
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onClose}
+    >
+      <View style={styles.modalContainer}>
+        <View style={styles.modalHeader}>
+          <TouchableOpacity onPress={showForm ? () => setShowForm(false) : onClose}>
+            <Text style={styles.cancelButton}>{showForm ? 'Back' : 'Close'}</Text>
+          </TouchableOpacity>
+          <Text style={styles.modalTitle}>
+            {showForm ? (editingRewardId ? 'Edit Reward' : 'New Reward') : 'Rewards Catalog'}
+          </Text>
+          {showForm ? (
+            <TouchableOpacity onPress={handleSubmit} disabled={isSubmitting}>
+              <Text style={[styles.saveButton, isSubmitting && styles.saveButtonDisabled]}>
+                {isSubmitting ? 'Saving...' : 'Save'}
+              </Text>
+            </TouchableOpacity>
+          ) : (
+            <TouchableOpacity onPress={() => openCreateForm()}>
+              <Text style={styles.saveButton}>+ Add</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+
+        {isLoading ? (
+          <View style={styles.loadingContainer}>
+            <ActivityIndicator size="large" color="#00d4ff" />
+            <Text style={styles.loadingText}>Loading rewards...</Text>
+          </View>
+        ) : (
+          <ScrollView style={styles.formContainer}>
+            {showForm ? renderForm() : (
+              <View>
+                <Text style={styles.formHint}>
+                  Children save tokens toward these rewards. You approve each request before it is redeemed.
+                </Text>
+
+                <View style={styles.presetRow}>
+                  {PRESETS.map(preset => (
+                    <TouchableOpacity
+                      key={preset.label}
+                      style={styles.presetButton}
+                      onPress={() => openCreateForm(preset.reward)}
+                    >
+                      <Text style={styles.presetText}>{preset.label}</Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+
+                {rewards.length === 0 ? (
+                  <Text style={styles.emptyText}>No rewards yet</Text>
+                ) : (
+                  rewards.map(renderReward)
+                )}
+              </View>
+            )}
+          </ScrollView>
+        )}
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  modalContainer: {
+    flex: 1,
+    backgroundColor: '#0a0a0a',
+  },
+
+  // Modal Header Styles
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 15,
+    borderBottomWidth: 1,
+    borderBottomColor: '#1a1a2e',
+    backgroundColor: '#0a0a0a',
+  },
+  modalTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#ffffff',
+  },
+  cancelButton: {
+    fontSize: 16,
+    color: '#8892b0',
+  },
+  saveButton: {
+    fontSize: 16,
+    color: '#00d4ff',
+    fontWeight: '600',
+  },
+  saveButtonDisabled: {
+    color: '#3e3e3e',
+  },
+
+  // Reward List Styles
+  presetRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginVertical: 15,
+  },
+  presetButton: {
+    backgroundColor: '#16213e',
+    borderRadius: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+  },
+  presetText: {
+    color: '#00d4ff',
+    fontSize: 13,
+    fontWeight: '500',
+  },
+  rewardItem: {
+    backgroundColor: '#1a1a2e',
+    borderWidth: 1,
+    borderColor: '#16213e',
+    borderRadius: 12,
+    padding: 15,
+    marginBottom: 10,
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  rewardItemInactive: {
+    opacity: 0.6,
+  },
+  rewardIcon: {
+    fontSize: 28,
+    marginRight: 12,
+  },
+  rewardInfo: {
+    flex: 1,
+  },
+  rewardName: {
+    color: '#ffffff',
+    fontSize: 15,
+    fontWeight: '600',
+    marginBottom: 4,
+  },
+  rewardDetail: {
+    color: '#8892b0',
+    fontSize: 12,
+  },
+  rewardActions: {
+    alignItems: 'flex-end',
+    gap: 8,
+  },
+  rewardActionText: {
+    color: '#00d4ff',
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  deleteText: {
+    color: '#e74c3c',
+  },
+  emptyText: {
+    color: '#8892b0',
+    fontSize: 14,
+    textAlign: 'center',
+    marginTop: 20,
+  },
+
+  // Form Styles
+  formContainer: {
+    flex: 1,
+    padding: 20,
+  },
+  formGroup: {
+    marginBottom: 20,
+  },
+  formLabel: {
+    color: '#ffffff',
+    fontSize: 14,
+    fontWeight: '500',
+    marginBottom: 8,
+  },
+  formInput: {
+    backgroundColor: '#1a1a2e',
+    borderWidth: 1,
+    borderColor: '#16213e',
+    borderRadius: 8,
+    paddingHorizontal: 15,
+    paddingVertical: 12,
+    color: '#ffffff',
+    fontSize: 14,
+  },
+  formTextArea: {
+    minHeight: 80,
+    textAlignVertical: 'top',
+  },
+  formInputError: {
+    borderColor: '#e74c3c',
+  },
+  switchRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  formHint: {
+    color: '#8892b0',
+    fontSize: 12,
+    marginTop: 5,
+    lineHeight: 16,
+  },
+  errorText: {
+    color: '#e74c3c',
+    fontSize: 12,
+    marginTop: 5,
+  },
+
+  // Loading State
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  loadingText: {
+    color: '#8892b0',
+    fontSize: 16,
+    marginTop: 10,
+  },
+});
+
+export default RewardsCatalogEditor;
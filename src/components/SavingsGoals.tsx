@@ -0,0 +1,504 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  TextInput,
+  Alert,
+  Modal,
+  ActivityIndicator,
+} from 'react-native';
+import { Reward, RewardRedemption, SavingsGoal } from '../lib/types';
+import { canRequestReward, getGoalProgress, getMaxDeposit } from '../lib/goals';
+import { useAuth } from '../context';
+import { useWallet } from '../context/WalletContext';
+import useSavingsGoals from '../hooks/useSavingsGoals';
+
+interface SavingsGoalsProps {
+  visible: boolean;
+  onClose: () => void;
+}
+
+const REDEMPTION_STATUS_LABELS: Record<RewardRedemption['status'], string> = {
+  pending: '⏳ Waiting for a parent',
+  approved: '✅ Approved',
+  rejected: '❌ Not approved',
+};
+
+/**
+ * Savings Goals Component
+ * Lets a child lock tokens toward rewards from the family catalog and ask a parent to redeem them
+ */
+const SavingsGoals = ({ visible, onClose }: SavingsGoalsProps) => {
+  const { hasRole } = useAuth();
+  const { balance } = useWallet();
+  const {
+    goals,
+    rewards,
+    redemptions,
+    isLoading,
+    startGoal,
+    deposit,
+    withdraw,
+    cancelGoal,
+    requestReward,
+    refreshGoals,
+  } = useSavingsGoals();
+
+  const [amounts, setAmounts] = useState<Record<string, number>>({});
+  const [busyGoalId, setBusyGoalId] = useState<string | null>(null);
+
+  // Reload when the modal opens so parent decisions show up
+  useEffect(() => {
+    if (visible) {
+      setAmounts({});
+      refreshGoals();
+    }
+  }, [visible]);
+
+  /**
+   * Run a goal operation, showing the server's reason if it fails
+   */
+  const runGoalAction = async (goalId: string, action: () => Promise<void>, failureMessage: string) => {
+    try {
+      setBusyGoalId(goalId);
+      await action();
+      setAmounts(prev => ({ ...prev, [goalId]: 0 }));
+    } catch (error) {
+      console.error(failureMessage, error);
+      Alert.alert('Error', error instanceof Error ? error.message : failureMessage);
+    } finally {
+      setBusyGoalId(null);
+    }
+  };
+
+  /**
+   * Lock the entered amount into a goal
+   */
+  const handleDeposit = (goal: SavingsGoal) => {
+    const amount = amounts[goal.id] || 0;
+    const maxDeposit = getMaxDeposit(goal, balance);
+
+    if (amount < 1) {
+      Alert.alert('Enter an amount', 'How many tokens do you want to save?');
+      return;
+    }
+    if (amount > maxDeposit) {
+      Alert.alert('Too many tokens', `You can save up to ${maxDeposit} tokens toward this goal right now.`);
+      return;
+    }
+
+    runGoalAction(goal.id, () => deposit(goal.id, amount), 'Failed to save tokens.');
+  };
+
+  /**
+   * Return the entered amount from a goal to the balance
+   */
+  const handleWithdraw = (goal: SavingsGoal) => {
+    const amount = amounts[goal.id] || 0;
+
+    if (amount < 1 || amount > goal.saved_amount) {
+      Alert.alert('Enter an amount', `You can take back up to ${goal.saved_amount} tokens.`);
+      return;
+    }
+
+    runGoalAction(goal.id, () => withdraw(goal.id, amount), 'Failed to take back tokens.');
+  };
+
+  /**
+   * Cancel a goal after confirmation; saved tokens go back to the balance
+   */
+  const handleCancel = (goal: SavingsGoal) => {
+    Alert.alert(
+      'Cancel Goal',
+      goal.saved_amount > 0
+        ? `Stop saving for "${goal.reward?.name ?? 'this reward'}"? Your ${goal.saved_amount} saved tokens go back to your wallet.`
+        : `Stop saving for "${goal.reward?.name ?? 'this reward'}"?`,
+      [
+        { text: 'Keep Saving', style: 'cancel' },
+        {
+          text: 'Cancel Goal',
+          style: 'destructive',
+          onPress: () => runGoalAction(goal.id, () => cancelGoal(goal.id), 'Failed to cancel goal.'),
+        },
+      ]
+    );
+  };
+
+  /**
+   * Start saving toward a catalog reward
+   */
+  const handleStart = (reward: Reward) => {
+    runGoalAction(reward.id, () => startGoal(reward.id), 'Failed to start goal.');
+  };
+
+  /**
+   * Render one open goal with its progress and actions
+   */
+  const renderGoal = (goal: SavingsGoal) => {
+    const progress = getGoalProgress(goal);
+    const isBusy = busyGoalId === goal.id;
+
+    return (
+      <View key={goal.id} style={styles.goalItem}>
+        <View style={styles.goalHeader}>
+          <Text style={styles.goalIcon}>{goal.reward?.icon ?? '🎁'}</Text>
+          <View style={styles.goalInfo}>
+            <Text style={styles.goalName}>{goal.reward?.name ?? 'Reward'}</Text>
+            <Text style={styles.goalDetail}>
+              {progress.saved} / {progress.target} tokens · {progress.percent}%
+            </Text>
+          </View>
+        </View>
+
+        <View style={styles.progressBar}>
+          <View style={[styles.progressFill, { width: `${progress.percent}%` }]} />
+        </View>
+
+        {goal.status === 'requested' ? (
+          <Text style={styles.waitingText}>⏳ Waiting for a parent to approve</Text>
+        ) : canRequestReward(goal) ? (
+          <View style={styles.actionRow}>
+            <TouchableOpacity
+              style={[styles.primaryButton, isBusy && styles.buttonDisabled]}
+              onPress={() => runGoalAction(goal.id, () => requestReward(goal.id), 'Failed to request reward.')}
+              disabled={isBusy}
+            >
+              <Text style={styles.primaryButtonText}>🎉 Request Reward</Text>
+            </TouchableOpacity>
+          </View>
+        ) : (
+          <View style={styles.actionRow}>
+            <TextInput
+              style={styles.amountInput}
+              value={amounts[goal.id] ? amounts[goal.id].toString() : ''}
+              onChangeText={(text) => setAmounts(prev => ({ ...prev, [goal.id]: parseInt(text) || 0 }))}
+              placeholder={`${Math.min(progress.remaining, balance)}`}
+              placeholderTextColor="#8892b0"
+              keyboardType="numeric"
+              maxLength={6}
+            />
+            <TouchableOpacity
+              style={[styles.primaryButton, isBusy && styles.buttonDisabled]}
+              onPress={() => handleDeposit(goal)}
+              disabled={isBusy}
+            >
+              <Text style={styles.primaryButtonText}>Save</Text>
+            </TouchableOpacity>
+            {goal.saved_amount > 0 && (
+              <TouchableOpacity
+                style={[styles.secondaryButton, isBusy && styles.buttonDisabled]}
+                onPress={() => handleWithdraw(goal)}
+                disabled={isBusy}
+              >
+                <Text style={styles.secondaryButtonText}>Take Back</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+        )}
+
+        {goal.status === 'active' && (
+          <TouchableOpacity onPress={() => handleCancel(goal)} disabled={isBusy}>
+            <Text style={styles.cancelGoalText}>Cancel goal</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+    );
+  };
+
+  /**
+   * Render one catalog reward
+   */
+  const renderReward = (reward: Reward) => {
+    const hasGoal = goals.some(goal => goal.reward_id === reward.id);
+
+    return (
+      <View key={reward.id} style={styles.rewardItem}>
+        <Text style={styles.goalIcon}>{reward.icon}</Text>
+        <View style={styles.goalInfo}>
+          <Text style={styles.goalName}>{reward.name}</Text>
+          <Text style={styles.goalDetail}>{reward.token_cost} tokens</Text>
+          {reward.description ? <Text style={styles.goalDetail}>{reward.description}</Text> : null}
+        </View>
+        {hasGoal ? (
+          <Text style={styles.goalDetail}>Saving</Text>
+        ) : (
+          <TouchableOpacity
+            style={[styles.secondaryButton, busyGoalId === reward.id && styles.buttonDisabled]}
+            onPress={() => handleStart(reward)}
+            disabled={busyGoalId === reward.id}
+          >
+            <Text style={styles.secondaryButtonText}>Start Saving</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+    );
+  };
+
+  /**
+   * Render one past or pending reward request
+   */
+  const renderRedemption = (redemption: RewardRedemption) => (
+    <View key={redemption.id} style={styles.redemptionItem}>
+      <Text style={styles.goalName}>
+        {redemption.reward?.icon ?? '🎁'} {redemption.reward?.name ?? 'Reward'}
+      </Text>
+      <Text style={styles.goalDetail}>{REDEMPTION_STATUS_LABELS[redemption.status]}</Text>
+      {redemption.parent_note ? (
+        <Text style={styles.noteText}>"{redemption.parent_note}"</Text>
+      ) : null}
+    </View>
+  );
+
+  // Goals belong to child accounts
+  if (!hasRole('child')) {
+    return (
+      <Modal visible={visible} animationType="slide" onRequestClose={onClose}>
+        <View style={styles.modalContainer}>
+          <Text style={styles.errorText}>Savings goals are for child accounts.</Text>
+        </View>
+      </Modal>
+    );
+  }
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onClose}
+    >
+      <View style={styles.modalContainer}>
+        <View style={styles.modalHeader}>
+          <TouchableOpacity onPress={onClose}>
+            <Text style={styles.cancelButton}>Close</Text>
+          </TouchableOpacity>
+          <Text style={styles.modalTitle}>Goals & Rewards</Text>
+          <Text style={styles.balanceText}>🪙 {balance}</Text>
+        </View>
+
+        {isLoading && goals.length === 0 && rewards.length === 0 ? (
+          <View style={styles.loadingContainer}>
+            <ActivityIndicator size="large" color="#00d4ff" />
+            <Text style={styles.loadingText}>Loading goals...</Text>
+          </View>
+        ) : (
+          <ScrollView style={styles.contentContainer}>
+            <Text style={styles.sectionTitle}>My Goals</Text>
+            {goals.length === 0 ? (
+              <Text style={styles.emptyText}>Pick a reward below to start saving</Text>
+            ) : (
+              goals.map(renderGoal)
+            )}
+
+            <Text style={styles.sectionTitle}>Rewards</Text>
+            {rewards.length === 0 ? (
+              <Text style={styles.emptyText}>No rewards yet. Ask a parent to add some!</Text>
+            ) : (
+              rewards.map(renderReward)
+            )}
+
+            {redemptions.length > 0 && (
+              <>
+                <Text style={styles.sectionTitle}>Requests</Text>
+                {redemptions.map(renderRedemption)}
+              </>
+            )}
+          </ScrollView>
+        )}
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  modalContainer: {
+    flex: 1,
+    backgroundColor: '#0a0a0a',
+  },
+
+  // Modal Header Styles
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 15,
+    borderBottomWidth: 1,
+    borderBottomColor: '#1a1a2e',
+    backgroundColor: '#0a0a0a',
+  },
+  modalTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#ffffff',
+  },
+  cancelButton: {
+    fontSize: 16,
+    color: '#8892b0',
+  },
+  balanceText: {
+    fontSize: 16,
+    color: '#00d4ff',
+    fontWeight: '600',
+  },
+
+  // Content Styles
+  contentContainer: {
+    flex: 1,
+    padding: 20,
+  },
+  sectionTitle: {
+    color: '#ffffff',
+    fontSize: 16,
+    fontWeight: '600',
+    marginTop: 10,
+    marginBottom: 12,
+  },
+  emptyText: {
+    color: '#8892b0',
+    fontSize: 14,
+    textAlign: 'center',
+    marginBottom: 20,
+  },
+
+  // Goal Styles
+  goalItem: {
+    backgroundColor: '#1a1a2e',
+    borderWidth: 1,
+    borderColor: '#16213e',
+    borderRadius: 12,
+    padding: 15,
+    marginBottom: 10,
+  },
+  goalHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 10,
+  },
+  goalIcon: {
+    fontSize: 28,
+    marginRight: 12,
+  },
+  goalInfo: {
+    flex: 1,
+  },
+  goalName: {
+    color: '#ffffff',
+    fontSize: 15,
+    fontWeight: '600',
+    marginBottom: 4,
+  },
+  goalDetail: {
+    color: '#8892b0',
+    fontSize: 12,
+  },
+  progressBar: {
+    height: 8,
+    backgroundColor: '#0a0a0a',
+    borderRadius: 4,
+    overflow: 'hidden',
+    marginBottom: 12,
+  },
+  progressFill: {
+    height: '100%',
+    backgroundColor: '#00d4ff',
+    borderRadius: 4,
+  },
+  actionRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  amountInput: {
+    flex: 1,
+    backgroundColor: '#0a0a0a',
+    borderWidth: 1,
+    borderColor: '#16213e',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    color: '#ffffff',
+    fontSize: 14,
+  },
+  primaryButton: {
+    backgroundColor: '#00d4ff',
+    borderRadius: 8,
+    paddingHorizontal: 14,
+    paddingVertical: 9,
+  },
+  primaryButtonText: {
+    color: '#0a0a0a',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  secondaryButton: {
+    backgroundColor: '#16213e',
+    borderRadius: 8,
+    paddingHorizontal: 14,
+    paddingVertical: 9,
+  },
+  secondaryButtonText: {
+    color: '#00d4ff',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+  waitingText: {
+    color: '#f39c12',
+    fontSize: 13,
+    fontWeight: '500',
+  },
+  cancelGoalText: {
+    color: '#e74c3c',
+    fontSize: 12,
+    marginTop: 10,
+  },
+
+  // Reward and Request Styles
+  rewardItem: {
+    backgroundColor: '#1a1a2e',
+    borderWidth: 1,
+    borderColor: '#16213e',
+    borderRadius: 12,
+    padding: 15,
+    marginBottom: 10,
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  redemptionItem: {
+    backgroundColor: '#1a1a2e',
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 8,
+  },
+  noteText: {
+    color: '#ffffff',
+    fontSize: 12,
+    fontStyle: 'italic',
+    marginTop: 4,
+  },
+  errorText: {
+    color: '#e74c3c',
+    fontSize: 12,
+    marginTop: 5,
+  },
+
+  // Loading State
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  loadingText: {
+    color: '#8892b0',
+    fontSize: 16,
+    marginTop: 10,
+  },
+});
+
+export default SavingsGoals;
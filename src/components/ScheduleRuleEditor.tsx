@@ -0,0 +1,727 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  TextInput,
+  Alert,
+  Modal,
+  Switch,
+  ActivityIndicator,
+} from 'react-native';
+import { ScheduleRule, ScheduleRuleAction } from '../lib/types';
+import { dbHelpers } from '../lib/supabase';
+import { formatRuleTime } from '../lib/schedule';
+import { useAuth } from '../context';
+
+type ScheduleRuleFormData = Omit<ScheduleRule, 'id' | 'parent_id' | 'created_at' | 'updated_at' | 'multiplier'> & {
+  multiplier: string;
+};
+
+interface ScheduleRuleFormErrors {
+  name?: string;
+  days_of_week?: string;
+  start_time?: string;
+  end_time?: string;
+  multiplier?: string;
+  timezone?: string;
+}
+
+interface ScheduleRuleEditorProps {
+  visible: boolean;
+  onClose: () => void;
+  onSaved?: (rules: ScheduleRule[]) => void;
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+const getDeviceTimezone = (): string => {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+  } catch {
+    return 'UTC';
+  }
+};
+
+const isValidTimezone = (timezone: string): boolean => {
+  try {
+    Intl.DateTimeFormat(undefined, { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// Common family rules offered as starting points
+const PRESETS: Array<{ label: string; rule: Omit<ScheduleRuleFormData, 'timezone' | 'is_active'> }> = [
+  {
+    label: '🌙 School-night curfew',
+    rule: {
+      name: 'School-night curfew',
+      days_of_week: [0, 1, 2, 3, 4],
+      start_time: '21:00',
+      end_time: '07:00',
+      action: 'block',
+      multiplier: '',
+    },
+  },
+  {
+    label: '⏰ Evening double rate',
+    rule: {
+      name: 'Evening double rate',
+      days_of_week: [0, 1, 2, 3, 4, 5, 6],
+      start_time: '20:00',
+      end_time: '21:00',
+      action: 'multiplier',
+      multiplier: '2',
+    },
+  },
+];
+
+const emptyForm = (): ScheduleRuleFormData => ({
+  name: '',
+  days_of_week: [1, 2, 3, 4, 5],
+  start_time: '20:00',
+  end_time: '21:00',
+  action: 'multiplier',
+  multiplier: '2',
+  timezone: getDeviceTimezone(),
+  is_active: true,
+});
+
+/**
+ * Describe when a rule applies, e.g. "Sun–Thu · 9:00 PM – 7:00 AM"
+ */
+const describeRuleWindow = (rule: Pick<ScheduleRule, 'days_of_week' | 'start_time' | 'end_time'>): string => {
+  const days = [...rule.days_of_week].sort().map(day => WEEKDAYS[day]).join(', ');
+  return `${days} · ${formatRuleTime(rule.start_time)} – ${formatRuleTime(rule.end_time)}`;
+};
+
+/**
+ * Schedule Rule Editor Component
+ * Lets a parent manage time-of-day rate multipliers and curfews for their family
+ */
+const ScheduleRuleEditor = ({ visible, onClose, onSaved }: ScheduleRuleEditorProps) => {
+  const { user, hasRole } = useAuth();
+
+  const [rules, setRules] = useState<ScheduleRule[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [editingRuleId, setEditingRuleId] = useState<string | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const [formData, setFormData] = useState<ScheduleRuleFormData>(emptyForm);
+  const [formErrors, setFormErrors] = useState<ScheduleRuleFormErrors>({});
+
+  // Load the family's rules when the editor opens
+  useEffect(() => {
+    if (visible && user) {
+      setShowForm(false);
+      loadRules(user.id);
+    }
+  }, [visible, user?.id]);
+
+  /**
+   * Load existing schedule rules
+   */
+  const loadRules = async (parentId: string) => {
+    try {
+      setIsLoading(true);
+      setRules(await dbHelpers.getScheduleRules(parentId));
+    } catch (error) {
+      console.error('Failed to load schedule rules:', error);
+      Alert.alert('Error', 'Failed to load schedule rules. Please try again.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  /**
+   * Open the form for a new rule, optionally prefilled from a preset
+   */
+  const openCreateForm = (preset?: Omit<ScheduleRuleFormData, 'timezone' | 'is_active'>) => {
+    setEditingRuleId(null);
+    setFormData({ ...emptyForm(), ...preset });
+    setFormErrors({});
+    setShowForm(true);
+  };
+
+  /**
+   * Open the form for an existing rule
+   */
+  const openEditForm = (rule: ScheduleRule) => {
+    setEditingRuleId(rule.id);
+    setFormData({
+      name: rule.name,
+      days_of_week: rule.days_of_week,
+      start_time: rule.start_time.slice(0, 5),
+      end_time: rule.end_time.slice(0, 5),
+      action: rule.action,
+      multiplier: rule.multiplier ? rule.multiplier.toString() : '2',
+      timezone: rule.timezone,
+      is_active: rule.is_active,
+    });
+    setFormErrors({});
+    setShowForm(true);
+  };
+
+  /**
+   * Toggle a weekday in the form
+   */
+  const toggleDay = (day: number) => {
+    setFormData(prev => ({
+      ...prev,
+      days_of_week: prev.days_of_week.includes(day)
+        ? prev.days_of_week.filter(d => d !== day)
+        : [...prev.days_of_week, day].sort(),
+    }));
+  };
+
+  /**
+   * Validate form data
+   */
+  const validateForm = (): boolean => {
+    const errors: ScheduleRuleFormErrors = {};
+
+    if (!formData.name.trim()) {
+      errors.name = 'Rule name is required';
+    }
+
+    if (formData.days_of_week.length === 0) {
+      errors.days_of_week = 'Pick at least one day';
+    }
+
+    if (!TIME_PATTERN.test(formData.start_time)) {
+      errors.start_time = 'Use 24-hour HH:MM format (e.g., 21:00)';
+    }
+
+    if (!TIME_PATTERN.test(formData.end_time)) {
+      errors.end_time = 'Use 24-hour HH:MM format (e.g., 07:00)';
+    } else if (formData.end_time === formData.start_time) {
+      errors.end_time = 'End time must differ from start time';
+    }
+
+    if (formData.action === 'multiplier') {
+      const multiplier = parseFloat(formData.multiplier);
+      if (isNaN(multiplier) || multiplier <= 0 || multiplier > 10) {
+        errors.multiplier = 'Multiplier must be between 0.1 and 10';
+      }
+    }
+
+    if (!formData.timezone.trim() || !isValidTimezone(formData.timezone.trim())) {
+      errors.timezone = 'Enter a valid timezone (e.g., America/New_York)';
+    }
+
+    setFormErrors(errors);
+    return Object.keys(errors).length === 0;
+  };
+
+  /**
+   * Save the rule in the form
+   */
+  const handleSubmit = async () => {
+    if (!validateForm()) {
+      return;
+    }
+
+    if (!user) {
+      Alert.alert('Error', 'You must be logged in to manage schedule rules.');
+      return;
+    }
+
+    try {
+      setIsSubmitting(true);
+
+      await dbHelpers.saveScheduleRule(user.id, {
+        ...formData,
+        timezone: formData.timezone.trim(),
+        multiplier: formData.action === 'multiplier' ? parseFloat(formData.multiplier) : null,
+      }, editingRuleId ?? undefined);
+
+      const updatedRules = await dbHelpers.getScheduleRules(user.id);
+      setRules(updatedRules);
+      onSaved?.(updatedRules);
+      setShowForm(false);
+    } catch (error) {
+      console.error('Failed to save schedule rule:', error);
+      Alert.alert('Error', 'Failed to save schedule rule. Please try again.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  /**
+   * Delete a rule after confirmation
+   */
+  const handleDelete = (rule: ScheduleRule) => {
+    Alert.alert(
+      'Delete Rule',
+      `Are you sure you want to delete "${rule.name}"?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await dbHelpers.deleteScheduleRule(rule.id);
+              const updatedRules = rules.filter(r => r.id !== rule.id);
+              setRules(updatedRules);
+              onSaved?.(updatedRules);
+            } catch (error) {
+              console.error('Failed to delete schedule rule:', error);
+              Alert.alert('Error', 'Failed to delete schedule rule. Please try again.');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  /**
+   * Render one existing rule
+   */
+  const renderRule = (rule: ScheduleRule) => (
+    <View key={rule.id} style={[styles.ruleItem, !rule.is_active && styles.ruleItemInactive]}>
+      <View style={styles.ruleInfo}>
+        <Text style={styles.ruleName}>
+          {rule.action === 'block' ? '🌙' : '⏰'} {rule.name}
+        </Text>
+        <Text style={styles.ruleDetail}>{describeRuleWindow(rule)}</Text>
+        <Text style={styles.ruleDetail}>
+          {rule.action === 'block' ? 'Apps unavailable' : `Rates ×${rule.multiplier}`} · {rule.timezone}
+          {rule.is_active ? '' : ' · Paused'}
+        </Text>
+      </View>
+      <View style={styles.ruleActions}>
+        <TouchableOpacity onPress={() => openEditForm(rule)}>
+          <Text style={styles.ruleActionText}>Edit</Text>
+        </TouchableOpacity>
+        <TouchableOpacity onPress={() => handleDelete(rule)}>
+          <Text style={[styles.ruleActionText, styles.deleteText]}>Delete</Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+
+  /**
+   * Render the create/edit form
+   */
+  const renderForm = () => (
+    <View>
+      {/* Name */}
+      <View style={styles.formGroup}>
+        <Text style={styles.formLabel}>Rule Name *</Text>
+        <TextInput
+          style={[styles.formInput, formErrors.name ? styles.formInputError : null]}
+          value={formData.name}
+          onChangeText={(text) => setFormData(prev => ({ ...prev, name: text }))}
+          placeholder="e.g., School-night curfew"
+          placeholderTextColor="#8892b0"
+          maxLength={50}
+        />
+        {formErrors.name && <Text style={styles.errorText}>{formErrors.name}</Text>}
+      </View>
+
+      {/* Action */}
+      <View style={styles.formGroup}>
+        <Text style={styles.formLabel}>During this time</Text>
+        <View style={styles.optionRow}>
+          {(['multiplier', 'block'] as ScheduleRuleAction[]).map(action => (
+            <TouchableOpacity
+              key={action}
+              style={[styles.optionButton, formData.action === action && styles.optionButtonSelected]}
+              onPress={() => setFormData(prev => ({ ...prev, action }))}
+            >
+              <Text style={[styles.optionText, formData.action === action && styles.optionTextSelected]}>
+                {action === 'multiplier' ? 'Change rate' : 'Block apps'}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      </View>
+
+      {/* Multiplier */}
+      {formData.action === 'multiplier' && (
+        <View style={styles.formGroup}>
+          <Text style={styles.formLabel}>Rate Multiplier *</Text>
+          <TextInput
+            style={[styles.formInput, formErrors.multiplier ? styles.formInputError : null]}
+            value={formData.multiplier}
+            onChangeText={(text) => setFormData(prev => ({ ...prev, multiplier: text.replace(/[^0-9.]/g, '') }))}
+            placeholder="2"
+            placeholderTextColor="#8892b0"
+            keyboardType="decimal-pad"
+            maxLength={4}
+          />
+          {formErrors.multiplier && <Text style={styles.errorText}>{formErrors.multiplier}</Text>}
+          <Text style={styles.formHint}>2 = double cost, 0.5 = half cost</Text>
+        </View>
+      )}
+
+      {/* Days */}
+      <View style={styles.formGroup}>
+        <Text style={styles.formLabel}>Starts On *</Text>
+        <View style={styles.optionRow}>
+          {WEEKDAYS.map((day, index) => (
+            <TouchableOpacity
+              key={day}
+              style={[styles.dayButton, formData.days_of_week.includes(index) && styles.optionButtonSelected]}
+              onPress={() => toggleDay(index)}
+            >
+              <Text style={[styles.optionText, formData.days_of_week.includes(index) && styles.optionTextSelected]}>
+                {day}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+        {formErrors.days_of_week && <Text style={styles.errorText}>{formErrors.days_of_week}</Text>}
+      </View>
+
+      {/* Times */}
+      <View style={styles.timeRow}>
+        <View style={[styles.formGroup, styles.timeField]}>
+          <Text style={styles.formLabel}>From *</Text>
+          <TextInput
+            style={[styles.formInput, formErrors.start_time ? styles.formInputError : null]}
+            value={formData.start_time}
+            onChangeText={(text) => setFormData(prev => ({ ...prev, start_time: text }))}
+            placeholder="21:00"
+            placeholderTextColor="#8892b0"
+            maxLength={5}
+          />
+          {formErrors.start_time && <Text style={styles.errorText}>{formErrors.start_time}</Text>}
+        </View>
+        <View style={[styles.formGroup, styles.timeField]}>
+          <Text style={styles.formLabel}>Until *</Text>
+          <TextInput
+            style={[styles.formInput, formErrors.end_time ? styles.formInputError : null]}
+            value={formData.end_time}
+            onChangeText={(text) => setFormData(prev => ({ ...prev, end_time: text }))}
+            placeholder="07:00"
+            placeholderTextColor="#8892b0"
+            maxLength={5}
+          />
+          {formErrors.end_time && <Text style={styles.errorText}>{formErrors.end_time}</Text>}
+        </View>
+      </View>
+      <Text style={[styles.formHint, styles.timeHint]}>
+        An end time before the start time runs overnight into the next morning
+      </Text>
+
+      {/* Timezone */}
+      <View style={styles.formGroup}>
+        <Text style={styles.formLabel}>Timezone *</Text>
+        <TextInput
+          style={[styles.formInput, formErrors.timezone ? styles.formInputError : null]}
+          value={formData.timezone}
+          onChangeText={(text) => setFormData(prev => ({ ...prev, timezone: text }))}
+          placeholder="America/New_York"
+          placeholderTextColor="#8892b0"
+          autoCapitalize="none"
+          autoCorrect={false}
+        />
+        {formErrors.timezone && <Text style={styles.errorText}>{formErrors.timezone}</Text>}
+      </View>
+
+      {/* Active Status */}
+      <View style={styles.formGroup}>
+        <View style={styles.switchRow}>
+          <Text style={styles.formLabel}>Active</Text>
+          <Switch
+            value={formData.is_active}
+            onValueChange={(value) => setFormData(prev => ({ ...prev, is_active: value }))}
+            trackColor={{ false: '#3e3e3e', true: '#00d4ff' }}
+            thumbColor={formData.is_active ? '#ffffff' : '#8892b0'}
+          />
+        </View>
+      </View>
+    </View>
+  );
+
+  // Check if user has parent role
+  if (!hasRole('parent')) {
+    return (
+      <Modal visible={visible} animationType="slide" onRequestClose={onClose}>
+        <View style={styles.modalContainer}>
+          <Text style={styles.errorText}>Access denied. Parent account required.</Text>
+        </View>
+      </Modal>
+    );
+  }
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onClose}
+    >
+      <View style={styles.modalContainer}>
+        <View style={styles.modalHeader}>
+          <TouchableOpacity onPress={showForm ? () => setShowForm(false) : onClose}>
+            <Text style={styles.cancelButton}>{showForm ? 'Back' : 'Close'}</Text>
+          </TouchableOpacity>
+          <Text style={styles.modalTitle}>
+            {showForm ? (editingRuleId ? 'Edit Rule' : 'New Rule') : 'Schedule Rules'}
+          </Text>
+          {showForm ? (
+            <TouchableOpacity onPress={handleSubmit} disabled={isSubmitting}>
+              <Text style={[styles.saveButton, isSubmitting && styles.saveButtonDisabled]}>
+                {isSubmitting ? 'Saving...' : 'Save'}
+              </Text>
+            </TouchableOpacity>
+          ) : (
+            <TouchableOpacity onPress={() => openCreateForm()}>
+              <Text style={styles.saveButton}>+ Add</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+
+        {isLoading ? (
+          <View style={styles.loadingContainer}>
+            <ActivityIndicator size="large" color="#00d4ff" />
+            <Text style={styles.loadingText}>Loading rules...</Text>
+          </View>
+        ) : (
+          <ScrollView style={styles.formContainer}>
+            {showForm ? renderForm() : (
+              <View>
+                <Text style={styles.formHint}>
+                  Rules apply to all of your children. Blocking rules stop running apps when they begin.
+                </Text>
+
+                <View style={styles.presetRow}>
+                  {PRESETS.map(preset => (
+                    <TouchableOpacity
+                      key={preset.label}
+                      style={styles.presetButton}
+                      onPress={() => openCreateForm(preset.rule)}
+                    >
+                      <Text style={styles.presetText}>{preset.label}</Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+
+                {rules.length === 0 ? (
+                  <Text style={styles.emptyText}>No schedule rules yet</Text>
+                ) : (
+                  rules.map(renderRule)
+                )}
+              </View>
+            )}
+          </ScrollView>
+        )}
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  modalContainer: {
+    flex: 1,
+    backgroundColor: '#0a0a0a',
+  },
+
+  // Modal Header Styles
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 15,
+    borderBottomWidth: 1,
+    borderBottomColor: '#1a1a2e',
+    backgroundColor: '#0a0a0a',
+  },
+  modalTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#ffffff',
+  },
+  cancelButton: {
+    fontSize: 16,
+    color: '#8892b0',
+  },
+  saveButton: {
+    fontSize: 16,
+    color: '#00d4ff',
+    fontWeight: '600',
+  },
+  saveButtonDisabled: {
+    color: '#3e3e3e',
+  },
+
+  // Rule List Styles
+  presetRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginVertical: 15,
+  },
+  presetButton: {
+    backgroundColor: '#16213e',
+    borderRadius: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+  },
+  presetText: {
+    color: '#00d4ff',
+    fontSize: 13,
+    fontWeight: '500',
+  },
+  ruleItem: {
+    backgroundColor: '#1a1a2e',
+    borderWidth: 1,
+    borderColor: '#16213e',
+    borderRadius: 12,
+    padding: 15,
+    marginBottom: 10,
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  ruleItemInactive: {
+    opacity: 0.6,
+  },
+  ruleInfo: {
+    flex: 1,
+  },
+  ruleName: {
+    color: '#ffffff',
+    fontSize: 15,
+    fontWeight: '600',
+    marginBottom: 4,
+  },
+  ruleDetail: {
+    color: '#8892b0',
+    fontSize: 12,
+    marginBottom: 2,
+  },
+  ruleActions: {
+    alignItems: 'flex-end',
+    gap: 8,
+  },
+  ruleActionText: {
+    color: '#00d4ff',
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  deleteText: {
+    color: '#e74c3c',
+  },
+  emptyText: {
+    color: '#8892b0',
+    fontSize: 14,
+    textAlign: 'center',
+    marginTop: 20,
+  },
+
+  // Form Styles
+  formContainer: {
+    flex: 1,
+    padding: 20,
+  },
+  formGroup: {
+    marginBottom: 20,
+  },
+  formLabel: {
+    color: '#ffffff',
+    fontSize: 14,
+    fontWeight: '500',
+    marginBottom: 8,
+  },
+  formInput: {
+    backgroundColor: '#1a1a2e',
+    borderWidth: 1,
+    borderColor: '#16213e',
+    borderRadius: 8,
+    paddingHorizontal: 15,
+    paddingVertical: 12,
+    color: '#ffffff',
+    fontSize: 14,
+  },
+  formInputError: {
+    borderColor: '#e74c3c',
+  },
+  optionRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  optionButton: {
+    flex: 1,
+    backgroundColor: '#1a1a2e',
+    borderWidth: 1,
+    borderColor: '#16213e',
+    borderRadius: 8,
+    paddingVertical: 10,
+    alignItems: 'center',
+  },
+  dayButton: {
+    backgroundColor: '#1a1a2e',
+    borderWidth: 1,
+    borderColor: '#16213e',
+    borderRadius: 8,
+    paddingVertical: 8,
+    paddingHorizontal: 10,
+    alignItems: 'center',
+  },
+  optionButtonSelected: {
+    backgroundColor: '#00d4ff',
+    borderColor: '#00d4ff',
+  },
+  optionText: {
+    color: '#8892b0',
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  optionTextSelected: {
+    color: '#0a0a0a',
+    fontWeight: '600',
+  },
+  timeRow: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  timeField: {
+    flex: 1,
+    marginBottom: 5,
+  },
+  timeHint: {
+    marginTop: 0,
+    marginBottom: 20,
+  },
+  switchRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  formHint: {
+    color: '#8892b0',
+    fontSize: 12,
+    marginTop: 5,
+    lineHeight: 16,
+  },
+  errorText: {
+    color: '#e74c3c',
+    fontSize: 12,
+    marginTop: 5,
+  },
+
+  // Loading State
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  loadingText: {
+    color: '#8892b0',
+    fontSize: 16,
+    marginTop: 10,
+  },
+});
+
+export default ScheduleRuleEditor;
@@ -0,0 +1,427 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  TextInput,
+  Alert,
+  Modal,
+  ActivityIndicator,
+} from 'react-native';
+import { FamilyMember, TokenTransfer } from '../lib/types';
+import { getFamilyMemberLabel, getTransferDirection, needsTransferApproval } from '../lib/transfers';
+import { useAuth } from '../context';
+import { useWallet } from '../context/WalletContext';
+import useTransfers from '../hooks/useTransfers';
+
+interface SendTokensFormData {
+  to_user_id: string;
+  amount: number;
+  note: string;
+}
+
+interface SendTokensFormErrors {
+  to_user_id?: string;
+  amount?: string;
+}
+
+interface SendTokensProps {
+  visible: boolean;
+  onClose: () => void;
+}
+
+const TRANSFER_STATUS_LABELS: Record<TokenTransfer['status'], string> = {
+  pending: '⏳ Waiting for a parent',
+  completed: '✅ Done',
+  rejected: '❌ Not approved',
+};
+
+const EMPTY_FORM: SendTokensFormData = { to_user_id: '', amount: 0, note: '' };
+
+/**
+ * Send Tokens Component
+ * Lets a child give tokens to a sibling, or a relative gift tokens to a child in the family
+ */
+const SendTokens = ({ visible, onClose }: SendTokensProps) => {
+  const { user, profile } = useAuth();
+  const { balance } = useWallet();
+  const { members, transfers, settings, isLoading, send, refreshTransfers } = useTransfers();
+
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [formData, setFormData] = useState<SendTokensFormData>(EMPTY_FORM);
+  const [formErrors, setFormErrors] = useState<SendTokensFormErrors>({});
+
+  // Start from a blank form and fresh transfer list each time the modal opens
+  useEffect(() => {
+    if (visible) {
+      setFormData(EMPTY_FORM);
+      setFormErrors({});
+      refreshTransfers();
+    }
+  }, [visible]);
+
+  const willNeedApproval = !!profile && needsTransferApproval(formData.amount, profile.role, settings);
+
+  /**
+   * Label a transfer's other side, falling back to a short id for former family members
+   */
+  const describeOtherSide = (transfer: TokenTransfer): string => {
+    const direction = profile ? getTransferDirection(transfer, profile.id) : 'sent';
+    const otherId = direction === 'sent' ? transfer.to_user_id : transfer.from_user_id;
+    const member = members.find(m => m.member_id === otherId);
+    const name = member ? getFamilyMemberLabel(member) : `Family member ${otherId.slice(0, 8)}`;
+
+    return direction === 'sent' ? `To ${name}` : `From ${name}`;
+  };
+
+  /**
+   * Validate form data
+   */
+  const validateForm = (): boolean => {
+    const errors: SendTokensFormErrors = {};
+
+    if (!formData.to_user_id) {
+      errors.to_user_id = 'Choose who to send tokens to';
+    }
+
+    if (!formData.amount || formData.amount < 1) {
+      errors.amount = 'Send at least 1 token';
+    } else if (formData.amount > balance) {
+      errors.amount = `You only have ${balance} tokens`;
+    }
+
+    setFormErrors(errors);
+    return Object.keys(errors).length === 0;
+  };
+
+  /**
+   * Handle form submission
+   */
+  const handleSubmit = async () => {
+    if (!validateForm()) {
+      return;
+    }
+
+    try {
+      setIsSubmitting(true);
+
+      const result = await send(formData.to_user_id, formData.amount, formData.note.trim() || undefined);
+
+      if (result.transfer.status === 'pending') {
+        Alert.alert('Waiting for Approval', `A parent needs to approve sending ${formData.amount} tokens. They stay in your wallet until then.`);
+      } else {
+        Alert.alert('Sent!', `${formData.amount} tokens are on their way.`);
+      }
+      setFormData(EMPTY_FORM);
+    } catch (error) {
+      console.error('Failed to send tokens:', error);
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to send tokens. Please try again.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  /**
+   * Render one family member the user can pick
+   */
+  const renderMember = (member: FamilyMember) => {
+    const isSelected = formData.to_user_id === member.member_id;
+
+    return (
+      <TouchableOpacity
+        key={member.member_id}
+        style={[styles.memberChip, isSelected && styles.memberChipSelected]}
+        onPress={() => setFormData(prev => ({ ...prev, to_user_id: member.member_id }))}
+      >
+        <Text style={[styles.memberChipText, isSelected && styles.memberChipTextSelected]}>
+          {getFamilyMemberLabel(member)}
+        </Text>
+      </TouchableOpacity>
+    );
+  };
+
+  /**
+   * Render one sent or received transfer
+   */
+  const renderTransfer = (transfer: TokenTransfer) => {
+    const isSent = profile ? getTransferDirection(transfer, profile.id) === 'sent' : true;
+
+    return (
+      <View key={transfer.id} style={styles.transferItem}>
+        <View style={styles.transferInfo}>
+          <Text style={styles.transferName}>{describeOtherSide(transfer)}</Text>
+          <Text style={styles.transferDetail}>{TRANSFER_STATUS_LABELS[transfer.status]}</Text>
+          {transfer.note ? <Text style={styles.noteText}>"{transfer.note}"</Text> : null}
+        </View>
+        <Text style={[styles.transferAmount, isSent ? styles.sentAmount : styles.receivedAmount]}>
+          {isSent ? '-' : '+'}{transfer.amount}
+        </Text>
+      </View>
+    );
+  };
+
+  if (!user) {
+    return (
+      <Modal visible={visible} animationType="slide" onRequestClose={onClose}>
+        <View style={styles.modalContainer}>
+          <Text style={styles.errorText}>You must be logged in to send tokens.</Text>
+        </View>
+      </Modal>
+    );
+  }
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onClose}
+    >
+      <View style={styles.modalContainer}>
+        <View style={styles.modalHeader}>
+          <TouchableOpacity onPress={onClose}>
+            <Text style={styles.cancelButton}>Close</Text>
+          </TouchableOpacity>
+          <Text style={styles.modalTitle}>Send Tokens</Text>
+          <TouchableOpacity onPress={handleSubmit} disabled={isSubmitting || isLoading}>
+            <Text style={[styles.saveButton, (isSubmitting || isLoading) && styles.saveButtonDisabled]}>
+              {isSubmitting ? 'Sending...' : 'Send'}
+            </Text>
+          </TouchableOpacity>
+        </View>
+
+        {isLoading && members.length === 0 ? (
+          <View style={styles.loadingContainer}>
+            <ActivityIndicator size="large" color="#00d4ff" />
+            <Text style={styles.loadingText}>Loading family...</Text>
+          </View>
+        ) : (
+          <ScrollView style={styles.formContainer}>
+            {/* Recipient */}
+            <View style={styles.formGroup}>
+              <Text style={styles.formLabel}>Send To *</Text>
+              {members.length === 0 ? (
+                <Text style={styles.formHint}>No one in your family yet. Ask a parent to link your accounts.</Text>
+              ) : (
+                <View style={styles.memberList}>{members.map(renderMember)}</View>
+              )}
+              {formErrors.to_user_id && <Text style={styles.errorText}>{formErrors.to_user_id}</Text>}
+            </View>
+
+            {/* Amount */}
+            <View style={styles.formGroup}>
+              <Text style={styles.formLabel}>Tokens * (you have {balance})</Text>
+              <TextInput
+                style={[styles.formInput, formErrors.amount ? styles.formInputError : null]}
+                value={formData.amount ? formData.amount.toString() : ''}
+                onChangeText={(text) => {
+                  const num = parseInt(text) || 0;
+                  setFormData(prev => ({ ...prev, amount: num }));
+                }}
+                placeholder="10"
+                placeholderTextColor="#8892b0"
+                keyboardType="numeric"
+                maxLength={6}
+              />
+              {formErrors.amount && <Text style={styles.errorText}>{formErrors.amount}</Text>}
+              {willNeedApproval && settings && (
+                <Text style={styles.approvalHint}>
+                  Over {settings.approval_threshold} tokens: a parent approves this before it is sent.
+                </Text>
+              )}
+            </View>
+
+            {/* Note */}
+            <View style={styles.formGroup}>
+              <Text style={styles.formLabel}>Note</Text>
+              <TextInput
+                style={styles.formInput}
+                value={formData.note}
+                onChangeText={(text) => setFormData(prev => ({ ...prev, note: text }))}
+                placeholder="Happy birthday!"
+                placeholderTextColor="#8892b0"
+                maxLength={100}
+              />
+            </View>
+
+            {transfers.length > 0 && (
+              <>
+                <Text style={styles.sectionTitle}>Recent Transfers</Text>
+                {transfers.map(renderTransfer)}
+              </>
+            )}
+          </ScrollView>
+        )}
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  modalContainer: {
+    flex: 1,
+    backgroundColor: '#0a0a0a',
+  },
+
+  // Modal Header Styles
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 15,
+    borderBottomWidth: 1,
+    borderBottomColor: '#1a1a2e',
+    backgroundColor: '#0a0a0a',
+  },
+  modalTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#ffffff',
+  },
+  cancelButton: {
+    fontSize: 16,
+    color: '#8892b0',
+  },
+  saveButton: {
+    fontSize: 16,
+    color: '#00d4ff',
+    fontWeight: '600',
+  },
+  saveButtonDisabled: {
+    color: '#3e3e3e',
+  },
+
+  // Form Styles
+  formContainer: {
+    flex: 1,
+    padding: 20,
+  },
+  formGroup: {
+    marginBottom: 20,
+  },
+  formLabel: {
+    color: '#ffffff',
+    fontSize: 14,
+    fontWeight: '500',
+    marginBottom: 8,
+  },
+  formInput: {
+    backgroundColor: '#1a1a2e',
+    borderWidth: 1,
+    borderColor: '#16213e',
+    borderRadius: 8,
+    paddingHorizontal: 15,
+    paddingVertical: 12,
+    color: '#ffffff',
+    fontSize: 14,
+  },
+  formInputError: {
+    borderColor: '#e74c3c',
+  },
+  formHint: {
+    color: '#8892b0',
+    fontSize: 12,
+    marginTop: 5,
+    lineHeight: 16,
+  },
+  approvalHint: {
+    color: '#f39c12',
+    fontSize: 12,
+    marginTop: 5,
+  },
+  errorText: {
+    color: '#e74c3c',
+    fontSize: 12,
+    marginTop: 5,
+  },
+
+  // Family Member Styles
+  memberList: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  memberChip: {
+    backgroundColor: '#1a1a2e',
+    borderWidth: 1,
+    borderColor: '#16213e',
+    borderRadius: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+  },
+  memberChipSelected: {
+    backgroundColor: '#00d4ff',
+    borderColor: '#00d4ff',
+  },
+  memberChipText: {
+    color: '#ffffff',
+    fontSize: 13,
+  },
+  memberChipTextSelected: {
+    color: '#0a0a0a',
+    fontWeight: '600',
+  },
+
+  // Transfer History Styles
+  sectionTitle: {
+    color: '#ffffff',
+    fontSize: 16,
+    fontWeight: '600',
+    marginTop: 10,
+    marginBottom: 12,
+  },
+  transferItem: {
+    backgroundColor: '#1a1a2e',
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 8,
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  transferInfo: {
+    flex: 1,
+  },
+  transferName: {
+    color: '#ffffff',
+    fontSize: 14,
+    fontWeight: '600',
+    marginBottom: 4,
+  },
+  transferDetail: {
+    color: '#8892b0',
+    fontSize: 12,
+  },
+  transferAmount: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  sentAmount: {
+    color: '#e74c3c',
+  },
+  receivedAmount: {
+    color: '#2ecc71',
+  },
+  noteText: {
+    color: '#ffffff',
+    fontSize: 12,
+    fontStyle: 'italic',
+    marginTop: 4,
+  },
+
+  // Loading State
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  loadingText: {
+    color: '#8892b0',
+    fontSize: 16,
+    marginTop: 10,
+  },
+});
+
+export default SendTokens;
@@ -0,0 +1,288 @@
+/**
+ * Session Timer Component
+ * Displays the session engine's current session (lib/sessionEngine.ts); all billing happens in
+ * the engine, so this component only renders state and forwards the pause, resume and stop buttons
+ */
+
+import { View, Text, TouchableOpacity, StyleSheet, ViewStyle, TextStyle } from 'react-native';
+import { UsageSession } from '../lib/types';
+import { getSessionClassification } from '../lib/sessionEngine';
+
+interface SessionTimerProps {
+  session: UsageSession;
+  elapsedMs: number;
+  remainingMs?: number | null; // Time left in a prepaid block
+  balance: number;
+  multiplier?: number; // Schedule multiplier in effect now
+  warning?: string | null; // Time-left warning from useSessionWarnings
+  wrapUpMs?: number | null; // Final countdown before the session ends
+  pauseNote?: string | null; // Why the session paused when the child did not pause it (useWebIdle)
+  onDismissWarning?: () => void;
+  onStop: () => void;
+  onPause?: () => void;
+  onResume?: () => void;
+  onFocus?: () => void;
+  windowOpened?: boolean;
+}
+
+export const SessionTimer = ({
+  session,
+  elapsedMs,
+  remainingMs = null,
+  balance,
+  multiplier = 1,
+  warning = null,
+  wrapUpMs = null,
+  pauseNote = null,
+  onDismissWarning,
+  onStop,
+  onPause,
+  onResume,
+  onFocus,
+  windowOpened = false,
+}: SessionTimerProps) => {
+  const formatTime = (elapsed: number) => {
+    const minutes = Math.floor(elapsed / 60000);
+    const seconds = Math.floor((elapsed % 60000) / 1000);
+    return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+  };
+
+  const isPaused = session.status === 'paused';
+  const isPrepaid = session.mode === 'prepaid';
+  const classification = getSessionClassification(session);
+  const accruedTokens = Math.floor(session.accruedTokens);
+  const effectiveTokensPerMinute = session.tokensPerMinute * multiplier;
+  const isSynchronized = session.chargedTokens === accruedTokens;
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <Text style={styles.appName}>⏱️ {session.appName}</Text>
+        <View style={styles.buttons}>
+          {windowOpened && onFocus && (
+            <TouchableOpacity style={styles.focusButton} onPress={onFocus}>
+              <Text style={styles.buttonText}>🔍 Focus</Text>
+            </TouchableOpacity>
+          )}
+          {isPaused && onResume && (
+            <TouchableOpacity style={styles.focusButton} onPress={onResume}>
+              <Text style={styles.buttonText}>▶️ Resume</Text>
+            </TouchableOpacity>
+          )}
+          {!isPaused && onPause && (
+            <TouchableOpacity style={styles.pauseButton} onPress={onPause}>
+              <Text style={styles.buttonText}>⏸️ Pause</Text>
+            </TouchableOpacity>
+          )}
+          <TouchableOpacity style={styles.stopButton} onPress={onStop}>
+            <Text style={styles.buttonText}>⏹️ Stop</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+
+      {/* Time-left warnings, replaced by the countdown in the last seconds */}
+      {wrapUpMs !== null ? (
+        <View style={[styles.warningBanner, styles.wrapUpBanner]}>
+          <Text style={styles.warningText}>⏳ Wrapping up: {session.appName} ends in {Math.ceil(wrapUpMs / 1000)}s</Text>
+        </View>
+      ) : warning && (
+        <TouchableOpacity style={styles.warningBanner} onPress={onDismissWarning} disabled={!onDismissWarning}>
+          <Text style={styles.warningText}>⚠️ {warning}</Text>
+        </TouchableOpacity>
+      )}
+
+      {isPaused && pauseNote && (
+        <View style={[styles.warningBanner, styles.pauseBanner]}>
+          <Text style={[styles.warningText, styles.pauseText]}>⏸️ {pauseNote}</Text>
+        </View>
+      )}
+      
+      <View style={styles.stats}>
+        {isPrepaid ? (
+          <>
+            <Text style={styles.timeDisplay}>{formatTime(remainingMs ?? 0)}</Text>
+            <Text style={styles.statText}>Left of {formatTime(session.prepaidMs ?? 0)} prepaid</Text>
+            <Text style={styles.statText}>Paid: {session.chargedTokens} tokens</Text>
+            <Text style={styles.statText}>Used so far: {accruedTokens} tokens (the rest is refunded if you stop early)</Text>
+          </>
+        ) : classification !== 'entertainment' ? (
+          <>
+            <Text style={styles.timeDisplay}>{formatTime(elapsedMs)}</Text>
+            {classification === 'earning' ? (
+              <>
+                <Text style={styles.statText}>Earned: {session.earnedTokens ?? 0} tokens</Text>
+                <Text style={styles.statText}>
+                  Earning {session.tokensPerMinute} tokens/min until today's limit
+                </Text>
+              </>
+            ) : (
+              <Text style={styles.statText}>Free to use: no tokens are spent</Text>
+            )}
+          </>
+        ) : (
+          <>
+            <Text style={styles.timeDisplay}>{formatTime(elapsedMs)}</Text>
+            <Text style={styles.statText}>Spent: {session.chargedTokens} tokens</Text>
+            <Text style={styles.statText}>
+              Expected: {accruedTokens} tokens
+            </Text>
+            <Text style={styles.statText}>
+              Balance: {balance} tokens (~{Math.floor(balance / effectiveTokensPerMinute * 60)}s)
+            </Text>
+          </>
+        )}
+        {multiplier !== 1 && classification === 'entertainment' && (
+          <Text style={styles.statText}>
+            Rate ×{multiplier} now ({effectiveTokensPerMinute} tokens/min)
+          </Text>
+        )}
+      </View>
+      
+      {/* Synchronization indicator */}
+      <View style={styles.syncIndicator}>
+        <Text style={[
+          styles.syncText,
+          isPaused ? styles.syncPaused : isPrepaid || isSynchronized ? styles.syncGood : styles.syncBad
+        ]}>
+          {isPaused ? '⏸️ PAUSED' : isPrepaid ? '🎟️ PREPAID' : isSynchronized ? '✅ SYNCHRONIZED' : '⚠️ SYNCING...'}
+        </Text>
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: '#1a1a2e',
+    borderRadius: 12,
+    padding: 16,
+    margin: 16,
+    borderWidth: 2,
+    borderColor: '#00ff88',
+    shadowColor: '#00ff88',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.3,
+    shadowRadius: 4,
+    elevation: 10,
+    zIndex: 10,
+  } as ViewStyle,
+
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 12,
+  } as ViewStyle,
+
+  appName: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#00ff88',
+    flex: 1,
+  } as TextStyle,
+
+  buttons: {
+    flexDirection: 'row',
+    gap: 8,
+  } as ViewStyle,
+
+  focusButton: {
+    backgroundColor: '#00ffff',
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 6,
+  } as ViewStyle,
+
+  pauseButton: {
+    backgroundColor: '#ffaa00',
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 6,
+  } as ViewStyle,
+
+  stopButton: {
+    backgroundColor: '#ff4444',
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 6,
+  } as ViewStyle,
+
+  buttonText: {
+    color: '#ffffff',
+    fontSize: 12,
+    fontWeight: 'bold',
+  } as TextStyle,
+
+  warningBanner: {
+    backgroundColor: 'rgba(255, 170, 0, 0.15)',
+    borderWidth: 1,
+    borderColor: '#ffaa00',
+    borderRadius: 6,
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    marginBottom: 12,
+  } as ViewStyle,
+
+  wrapUpBanner: {
+    backgroundColor: 'rgba(255, 68, 68, 0.15)',
+    borderColor: '#ff4444',
+  } as ViewStyle,
+
+  warningText: {
+    color: '#ffaa00',
+    fontSize: 12,
+    fontWeight: 'bold',
+  } as TextStyle,
+
+  pauseBanner: {
+    backgroundColor: 'rgba(0, 255, 255, 0.1)',
+    borderColor: '#00ffff',
+  } as ViewStyle,
+
+  pauseText: {
+    color: '#00ffff',
+  } as TextStyle,
+
+  stats: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  } as ViewStyle,
+
+  timeDisplay: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#00ff88',
+    fontFamily: 'monospace',
+  } as TextStyle,
+
+  statText: {
+    fontSize: 12,
+    color: '#b0b0b0',
+  } as TextStyle,
+
+  syncIndicator: {
+    marginTop: 8,
+    alignItems: 'center',
+  } as ViewStyle,
+
+  syncText: {
+    fontSize: 10,
+    fontWeight: 'bold',
+    letterSpacing: 1,
+  } as TextStyle,
+
+  syncPaused: {
+    color: '#b0b0b0',
+  } as TextStyle,
+
+  syncGood: {
+    color: '#00ff88',
+  } as TextStyle,
+
+  syncBad: {
+    color: '#ffaa00',
+  } as TextStyle,
+});
+
+export default SessionTimer;
\ No newline at end of file
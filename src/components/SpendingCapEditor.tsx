@@ -0,0 +1,662 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  TextInput,
+  Alert,
+  Modal,
+  Switch,
+  ActivityIndicator,
+} from 'react-native';
+import { SpendingCap, SpendingCapScope, SpendingCapUnit } from '../lib/types';
+import { dbHelpers } from '../lib/supabase';
+import { describeSpendingCap } from '../lib/caps';
+import { buildAppList, catalogHelpers, getAppCategories } from '../lib/appCatalog';
+import { isEntertainmentApp } from '../lib/appClassification';
+import { useAuth } from '../context';
+
+interface SpendingCapFormData {
+  scope: SpendingCapScope;
+  category: string;
+  unit: SpendingCapUnit;
+  daily_limit: number;
+  timezone: string;
+  is_active: boolean;
+}
+
+interface SpendingCapFormErrors {
+  category?: string;
+  daily_limit?: string;
+  timezone?: string;
+}
+
+interface SpendingCapEditorProps {
+  visible: boolean;
+  childId: string;
+  childName?: string;
+  onClose: () => void;
+  onSaved?: (caps: SpendingCap[]) => void;
+}
+
+const getDeviceTimezone = (): string => {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+  } catch {
+    return 'UTC';
+  }
+};
+
+const isValidTimezone = (timezone: string): boolean => {
+  try {
+    Intl.DateTimeFormat(undefined, { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// Common limits offered as starting points
+const PRESETS: Array<{ label: string; cap: Omit<SpendingCapFormData, 'timezone' | 'is_active'> }> = [
+  {
+    label: '💬 60 min of Social',
+    cap: { scope: 'category', category: 'Social', unit: 'minutes', daily_limit: 60 },
+  },
+  {
+    label: '🪙 150 tokens total',
+    cap: { scope: 'total', category: '', unit: 'tokens', daily_limit: 150 },
+  },
+];
+
+const emptyForm = (): SpendingCapFormData => ({
+  scope: 'total',
+  category: '',
+  unit: 'minutes',
+  daily_limit: 60,
+  timezone: getDeviceTimezone(),
+  is_active: true,
+});
+
+/**
+ * Spending Cap Editor Component
+ * Lets a parent manage one child's daily limits, in tokens or minutes, for all apps or a category
+ */
+const SpendingCapEditor = ({ visible, childId, childName, onClose, onSaved }: SpendingCapEditorProps) => {
+  const { user, hasRole } = useAuth();
+
+  const [caps, setCaps] = useState<SpendingCap[]>([]);
+  const [categories, setCategories] = useState<string[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [editingCapId, setEditingCapId] = useState<string | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const [formData, setFormData] = useState<SpendingCapFormData>(emptyForm);
+  const [formErrors, setFormErrors] = useState<SpendingCapFormErrors>({});
+
+  // Load the child's caps when the editor opens
+  useEffect(() => {
+    if (visible) {
+      setShowForm(false);
+      loadCaps();
+    }
+  }, [visible, childId]);
+
+  /**
+   * Load existing spending caps, and the catalog's categories to cap
+   */
+  const loadCaps = async () => {
+    try {
+      setIsLoading(true);
+      const [childCaps, catalog] = await Promise.all([
+        dbHelpers.getSpendingCaps(childId),
+        catalogHelpers.loadApps(),
+      ]);
+      setCaps(childCaps);
+      // Caps limit spending, so free and earning apps never count toward them
+      setCategories(getAppCategories(buildAppList(catalog).filter(isEntertainmentApp)));
+    } catch (error) {
+      console.error('Failed to load spending caps:', error);
+      Alert.alert('Error', 'Failed to load daily limits. Please try again.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  /**
+   * Open the form for a new cap, optionally prefilled from a preset
+   */
+  const openCreateForm = (preset?: Omit<SpendingCapFormData, 'timezone' | 'is_active'>) => {
+    setEditingCapId(null);
+    setFormData({ ...emptyForm(), ...preset });
+    setFormErrors({});
+    setShowForm(true);
+  };
+
+  /**
+   * Open the form for an existing cap
+   */
+  const openEditForm = (cap: SpendingCap) => {
+    setEditingCapId(cap.id);
+    setFormData({
+      scope: cap.scope,
+      category: cap.category ?? '',
+      unit: cap.unit,
+      daily_limit: cap.daily_limit,
+      timezone: cap.timezone,
+      is_active: cap.is_active,
+    });
+    setFormErrors({});
+    setShowForm(true);
+  };
+
+  /**
+   * Validate form data
+   */
+  const validateForm = (): boolean => {
+    const errors: SpendingCapFormErrors = {};
+
+    if (formData.scope === 'category' && !formData.category) {
+      errors.category = 'Pick a category';
+    }
+
+    const maxLimit = formData.unit === 'minutes' ? 1440 : 10000;
+    if (!formData.daily_limit || formData.daily_limit < 1) {
+      errors.daily_limit = 'Limit must be at least 1';
+    } else if (formData.daily_limit > maxLimit) {
+      errors.daily_limit = `Limit must be ${maxLimit} ${formData.unit} or less`;
+    }
+
+    const duplicate = caps.find(cap =>
+      cap.id !== editingCapId &&
+      cap.scope === formData.scope &&
+      cap.unit === formData.unit &&
+      (cap.category ?? '') === (formData.scope === 'category' ? formData.category : '')
+    );
+    if (duplicate) {
+      errors.daily_limit = `${describeSpendingCap(duplicate)} already exists; edit it instead`;
+    }
+
+    if (!formData.timezone.trim() || !isValidTimezone(formData.timezone.trim())) {
+      errors.timezone = 'Enter a valid timezone (e.g., America/New_York)';
+    }
+
+    setFormErrors(errors);
+    return Object.keys(errors).length === 0;
+  };
+
+  /**
+   * Save the cap in the form
+   */
+  const handleSubmit = async () => {
+    if (!validateForm()) {
+      return;
+    }
+
+    if (!user) {
+      Alert.alert('Error', 'You must be logged in to manage daily limits.');
+      return;
+    }
+
+    try {
+      setIsSubmitting(true);
+
+      await dbHelpers.saveSpendingCap(childId, {
+        ...formData,
+        category: formData.scope === 'category' ? formData.category : null,
+        timezone: formData.timezone.trim(),
+      }, user.id, editingCapId ?? undefined);
+
+      const updatedCaps = await dbHelpers.getSpendingCaps(childId);
+      setCaps(updatedCaps);
+      onSaved?.(updatedCaps);
+      setShowForm(false);
+    } catch (error) {
+      console.error('Failed to save spending cap:', error);
+      Alert.alert('Error', 'Failed to save daily limit. Please try again.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  /**
+   * Delete a cap after confirmation
+   */
+  const handleDelete = (cap: SpendingCap) => {
+    Alert.alert(
+      'Delete Limit',
+      `Are you sure you want to delete "${describeSpendingCap(cap)}"?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await dbHelpers.deleteSpendingCap(cap.id);
+              const updatedCaps = caps.filter(c => c.id !== cap.id);
+              setCaps(updatedCaps);
+              onSaved?.(updatedCaps);
+            } catch (error) {
+              console.error('Failed to delete spending cap:', error);
+              Alert.alert('Error', 'Failed to delete daily limit. Please try again.');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  /**
+   * Render one existing cap
+   */
+  const renderCap = (cap: SpendingCap) => (
+    <View key={cap.id} style={[styles.capItem, !cap.is_active && styles.capItemInactive]}>
+      <View style={styles.capInfo}>
+        <Text style={styles.capName}>
+          {cap.unit === 'minutes' ? '⏳' : '🪙'} {describeSpendingCap(cap)}
+        </Text>
+        <Text style={styles.capDetail}>
+          Resets at midnight · {cap.timezone}
+          {cap.is_active ? '' : ' · Paused'}
+        </Text>
+      </View>
+      <View style={styles.capActions}>
+        <TouchableOpacity onPress={() => openEditForm(cap)}>
+          <Text style={styles.capActionText}>Edit</Text>
+        </TouchableOpacity>
+        <TouchableOpacity onPress={() => handleDelete(cap)}>
+          <Text style={[styles.capActionText, styles.deleteText]}>Delete</Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+
+  /**
+   * Render the create/edit form
+   */
+  const renderForm = () => (
+    <View>
+      {/* Scope */}
+      <View style={styles.formGroup}>
+        <Text style={styles.formLabel}>Applies To</Text>
+        <View style={styles.optionRow}>
+          {(['total', 'category'] as SpendingCapScope[]).map(scope => (
+            <TouchableOpacity
+              key={scope}
+              style={[styles.optionButton, formData.scope === scope && styles.optionButtonSelected]}
+              onPress={() => setFormData(prev => ({ ...prev, scope }))}
+            >
+              <Text style={[styles.optionText, formData.scope === scope && styles.optionTextSelected]}>
+                {scope === 'total' ? 'All apps' : 'One category'}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      </View>
+
+      {/* Category (category caps only) */}
+      {formData.scope === 'category' && (
+        <View style={styles.formGroup}>
+          <Text style={styles.formLabel}>Category *</Text>
+          <View style={styles.optionRow}>
+            {categories.map(category => (
+              <TouchableOpacity
+                key={category}
+                style={[styles.chipButton, formData.category === category && styles.optionButtonSelected]}
+                onPress={() => setFormData(prev => ({ ...prev, category }))}
+              >
+                <Text style={[styles.optionText, formData.category === category && styles.optionTextSelected]}>
+                  {category}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+          {formErrors.category && <Text style={styles.errorText}>{formErrors.category}</Text>}
+        </View>
+      )}
+
+      {/* Unit */}
+      <View style={styles.formGroup}>
+        <Text style={styles.formLabel}>Measure</Text>
+        <View style={styles.optionRow}>
+          {(['minutes', 'tokens'] as SpendingCapUnit[]).map(unit => (
+            <TouchableOpacity
+              key={unit}
+              style={[styles.optionButton, formData.unit === unit && styles.optionButtonSelected]}
+              onPress={() => setFormData(prev => ({ ...prev, unit }))}
+            >
+              <Text style={[styles.optionText, formData.unit === unit && styles.optionTextSelected]}>
+                {unit === 'minutes' ? 'Minutes' : 'Tokens'}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      </View>
+
+      {/* Daily limit */}
+      <View style={styles.formGroup}>
+        <Text style={styles.formLabel}>
+          {formData.unit === 'minutes' ? 'Minutes per Day *' : 'Tokens per Day *'}
+        </Text>
+        <TextInput
+          style={[styles.formInput, formErrors.daily_limit ? styles.formInputError : null]}
+          value={formData.daily_limit.toString()}
+          onChangeText={(text) => {
+            const num = parseInt(text) || 0;
+            setFormData(prev => ({ ...prev, daily_limit: num }));
+          }}
+          placeholder={formData.unit === 'minutes' ? '60' : '150'}
+          placeholderTextColor="#8892b0"
+          keyboardType="numeric"
+          maxLength={5}
+        />
+        {formErrors.daily_limit && <Text style={styles.errorText}>{formErrors.daily_limit}</Text>}
+      </View>
+
+      {/* Timezone */}
+      <View style={styles.formGroup}>
+        <Text style={styles.formLabel}>Timezone *</Text>
+        <TextInput
+          style={[styles.formInput, formErrors.timezone ? styles.formInputError : null]}
+          value={formData.timezone}
+          onChangeText={(text) => setFormData(prev => ({ ...prev, timezone: text }))}
+          placeholder="America/New_York"
+          placeholderTextColor="#8892b0"
+          autoCapitalize="none"
+          autoCorrect={false}
+        />
+        {formErrors.timezone && <Text style={styles.errorText}>{formErrors.timezone}</Text>}
+        <Text style={styles.formHint}>
+          The limit resets at midnight in this timezone
+        </Text>
+      </View>
+
+      {/* Active Status */}
+      <View style={styles.formGroup}>
+        <View style={styles.switchRow}>
+          <Text style={styles.formLabel}>Active</Text>
+          <Switch
+            value={formData.is_active}
+            onValueChange={(value) => setFormData(prev => ({ ...prev, is_active: value }))}
+            trackColor={{ false: '#3e3e3e', true: '#00d4ff' }}
+            thumbColor={formData.is_active ? '#ffffff' : '#8892b0'}
+          />
+        </View>
+      </View>
+    </View>
+  );
+
+  // Check if user has parent role
+  if (!hasRole('parent')) {
+    return (
+      <Modal visible={visible} animationType="slide" onRequestClose={onClose}>
+        <View style={styles.modalContainer}>
+          <Text style={styles.errorText}>Access denied. Parent account required.</Text>
+        </View>
+      </Modal>
+    );
+  }
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onClose}
+    >
+      <View style={styles.modalContainer}>
+        <View style={styles.modalHeader}>
+          <TouchableOpacity onPress={showForm ? () => setShowForm(false) : onClose}>
+            <Text style={styles.cancelButton}>{showForm ? 'Back' : 'Close'}</Text>
+          </TouchableOpacity>
+          <Text style={styles.modalTitle}>
+            {showForm
+              ? (editingCapId ? 'Edit Limit' : 'New Limit')
+              : (childName ? `${childName}'s Daily Limits` : 'Daily Limits')}
+          </Text>
+          {showForm ? (
+            <TouchableOpacity onPress={handleSubmit} disabled={isSubmitting}>
+              <Text style={[styles.saveButton, isSubmitting && styles.saveButtonDisabled]}>
+                {isSubmitting ? 'Saving...' : 'Save'}
+              </Text>
+            </TouchableOpacity>
+          ) : (
+            <TouchableOpacity onPress={() => openCreateForm()}>
+              <Text style={styles.saveButton}>+ Add</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+
+        {isLoading ? (
+          <View style={styles.loadingContainer}>
+            <ActivityIndicator size="large" color="#00d4ff" />
+            <Text style={styles.loadingText}>Loading limits...</Text>
+          </View>
+        ) : (
+          <ScrollView style={styles.formContainer}>
+            {showForm ? renderForm() : (
+              <View>
+                <Text style={styles.formHint}>
+                  Limits apply even when there are tokens to spare. Running apps stop when a limit is reached.
+                </Text>
+
+                <View style={styles.presetRow}>
+                  {PRESETS.map(preset => (
+                    <TouchableOpacity
+                      key={preset.label}
+                      style={styles.presetButton}
+                      onPress={() => openCreateForm(preset.cap)}
+                    >
+                      <Text style={styles.presetText}>{preset.label}</Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+
+                {caps.length === 0 ? (
+                  <Text style={styles.emptyText}>No daily limits yet</Text>
+                ) : (
+                  caps.map(renderCap)
+                )}
+              </View>
+            )}
+          </ScrollView>
+        )}
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  modalContainer: {
+    flex: 1,
+    backgroundColor: '#0a0a0a',
+  },
+
+  // Modal Header Styles
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 15,
+    borderBottomWidth: 1,
+    borderBottomColor: '#1a1a2e',
+    backgroundColor: '#0a0a0a',
+  },
+  modalTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#ffffff',
+  },
+  cancelButton: {
+    fontSize: 16,
+    color: '#8892b0',
+  },
+  saveButton: {
+    fontSize: 16,
+    color: '#00d4ff',
+    fontWeight: '600',
+  },
+  saveButtonDisabled: {
+    color: '#3e3e3e',
+  },
+
+  // Cap List Styles
+  presetRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginVertical: 15,
+  },
+  presetButton: {
+    backgroundColor: '#16213e',
+    borderRadius: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+  },
+  presetText: {
+    color: '#00d4ff',
+    fontSize: 13,
+    fontWeight: '500',
+  },
+  capItem: {
+    backgroundColor: '#1a1a2e',
+    borderWidth: 1,
+    borderColor: '#16213e',
+    borderRadius: 12,
+    padding: 15,
+    marginBottom: 10,
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  capItemInactive: {
+    opacity: 0.6,
+  },
+  capInfo: {
+    flex: 1,
+  },
+  capName: {
+    color: '#ffffff',
+    fontSize: 15,
+    fontWeight: '600',
+    marginBottom: 4,
+  },
+  capDetail: {
+    color: '#8892b0',
+    fontSize: 12,
+  },
+  capActions: {
+    alignItems: 'flex-end',
+    gap: 8,
+  },
+  capActionText: {
+    color: '#00d4ff',
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  deleteText: {
+    color: '#e74c3c',
+  },
+  emptyText: {
+    color: '#8892b0',
+    fontSize: 14,
+    textAlign: 'center',
+    marginTop: 20,
+  },
+
+  // Form Styles
+  formContainer: {
+    flex: 1,
+    padding: 20,
+  },
+  formGroup: {
+    marginBottom: 20,
+  },
+  formLabel: {
+    color: '#ffffff',
+    fontSize: 14,
+    fontWeight: '500',
+    marginBottom: 8,
+  },
+  formInput: {
+    backgroundColor: '#1a1a2e',
+    borderWidth: 1,
+    borderColor: '#16213e',
+    borderRadius: 8,
+    paddingHorizontal: 15,
+    paddingVertical: 12,
+    color: '#ffffff',
+    fontSize: 14,
+  },
+  formInputError: {
+    borderColor: '#e74c3c',
+  },
+  optionRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  optionButton: {
+    flex: 1,
+    backgroundColor: '#1a1a2e',
+    borderWidth: 1,
+    borderColor: '#16213e',
+    borderRadius: 8,
+    paddingVertical: 10,
+    alignItems: 'center',
+  },
+  chipButton: {
+    backgroundColor: '#1a1a2e',
+    borderWidth: 1,
+    borderColor: '#16213e',
+    borderRadius: 8,
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    alignItems: 'center',
+  },
+  optionButtonSelected: {
+    backgroundColor: '#00d4ff',
+    borderColor: '#00d4ff',
+  },
+  optionText: {
+    color: '#8892b0',
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  optionTextSelected: {
+    color: '#0a0a0a',
+    fontWeight: '600',
+  },
+  switchRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  formHint: {
+    color: '#8892b0',
+    fontSize: 12,
+    marginTop: 5,
+    lineHeight: 16,
+  },
+  errorText: {
+    color: '#e74c3c',
+    fontSize: 12,
+    marginTop: 5,
+  },
+
+  // Loading State
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  loadingText: {
+    color: '#8892b0',
+    fontSize: 16,
+    marginTop: 10,
+  },
+});
+
+export default SpendingCapEditor;
@@ -0,0 +1,109 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, Modal } from 'react-native';
+
+interface StillWatchingPromptProps {
+  visible: boolean;
+  appName: string;
+  remainingMs: number; // Time left to answer before the session pauses
+  onConfirm: () => void;
+  onPause: () => void;
+}
+
+/**
+ * Still Watching Prompt Component
+ * Asks whether the child is still using a web app, so a session left playing stops billing
+ */
+const StillWatchingPrompt = ({
+  visible,
+  appName,
+  remainingMs,
+  onConfirm,
+  onPause,
+}: StillWatchingPromptProps) => {
+  const seconds = Math.max(0, Math.ceil(remainingMs / 1000));
+
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={onConfirm}>
+      <View style={styles.overlay}>
+        <View style={styles.card}>
+          <Text style={styles.title}>👀 Still Watching?</Text>
+          <Text style={styles.message}>
+            {appName} is still using your tokens. Answer within {seconds} second{seconds === 1 ? '' : 's'} or
+            your session pauses.
+          </Text>
+
+          <View style={styles.buttonRow}>
+            <TouchableOpacity style={styles.secondaryButton} onPress={onPause}>
+              <Text style={styles.secondaryButtonText}>Pause</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.primaryButton} onPress={onConfirm}>
+              <Text style={styles.primaryButtonText}>Keep Watching</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.7)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 24,
+  },
+  card: {
+    width: '100%',
+    maxWidth: 360,
+    backgroundColor: '#1a1a2e',
+    borderRadius: 16,
+    borderWidth: 2,
+    borderColor: '#00ffff',
+    padding: 24,
+    alignItems: 'center',
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#ffffff',
+    marginBottom: 12,
+  },
+  message: {
+    fontSize: 14,
+    color: '#ffffff',
+    textAlign: 'center',
+    lineHeight: 20,
+  },
+  buttonRow: {
+    flexDirection: 'row',
+    gap: 12,
+    marginTop: 20,
+  },
+  secondaryButton: {
+    paddingHorizontal: 18,
+    paddingVertical: 10,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#8892b0',
+  },
+  secondaryButtonText: {
+    color: '#8892b0',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  primaryButton: {
+    paddingHorizontal: 18,
+    paddingVertical: 10,
+    borderRadius: 8,
+    backgroundColor: '#00aa66',
+  },
+  primaryButtonText: {
+    color: '#ffffff',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+});
+
+export default StillWatchingPrompt;
@@ -1,72 +1,103 @@
 /**
  * Timer Test Component
  * Demonstrates synchronized token consumption: 5 tokens/minute = 1 token every 12 seconds
+ * Runs a private session engine against an in-memory store and a pretend balance, so the real
+ * wallet and any real session are untouched
  */
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
+import { SessionEngine, SessionStorage, getRunningMs, getPendingTokens } from '../lib/sessionEngine';
+import { UsageSession } from '../lib/types';
+
+const STARTING_BALANCE = 50;
+
+const createMemoryStorage = (): SessionStorage => {
+  const items = new Map<string, string>();
+  return {
+    getItem: async (key) => items.get(key) ?? null,
+    setItem: async (key, value) => {
+      items.set(key, value);
+    },
+    removeItem: async (key) => {
+      items.delete(key);
+    },
+  };
+};
 
 export const TimerTest = () => {
-  const [isRunning, setIsRunning] = useState(false);
-  const [startTime, setStartTime] = useState(0);
-  const [currentTime, setCurrentTime] = useState(0);
-  const [tokensCharged, setTokensCharged] = useState(0);
-  const [balance, setBalance] = useState(50);
+  const engineRef = useRef<SessionEngine | null>(null);
+  if (!engineRef.current) {
+    engineRef.current = new SessionEngine({ storage: createMemoryStorage() });
+  }
+  const engine = engineRef.current;
+
+  const [session, setSession] = useState<UsageSession | null>(null);
+  const [currentTime, setCurrentTime] = useState(Date.now());
+  const [balance, setBalance] = useState(STARTING_BALANCE);
+  const balanceRef = useRef(balance);
+  balanceRef.current = balance;
 
   const tokensPerMinute = 5;
   const secondsPerToken = 60 / tokensPerMinute; // 12 seconds per token
+  const isRunning = session?.status === 'running';
 
+  // Charge the pretend balance instead of the wallet
   useEffect(() => {
-    let interval: NodeJS.Timeout;
-    
-    if (isRunning) {
-      interval = setInterval(() => {
-        const now = Date.now();
-        setCurrentTime(now);
-        
-        const elapsedMs = now - startTime;
-        const expectedTokens = Math.floor(elapsedMs / (secondsPerToken * 1000));
-        
-        if (expectedTokens > tokensCharged && balance > 0) {
-          const tokensToCharge = expectedTokens - tokensCharged;
-          setTokensCharged(expectedTokens);
-          setBalance(prev => Math.max(0, prev - tokensToCharge));
-          console.log(`🟦 TEST: Charged ${tokensToCharge} tokens at ${Math.floor(elapsedMs/1000)}s`);
-        }
-        
-        if (balance <= 0) {
-          setIsRunning(false);
-        }
-      }, 1000);
-    }
+    const disconnect = engine.setHandlers({
+      charge: async ({ amount }) => {
+        balanceRef.current -= amount;
+        setBalance(balanceRef.current);
+        console.log(`🟦 TEST: Charged ${amount} tokens`);
+      },
+      getBalance: () => balanceRef.current,
+    });
+    const unsubscribe = engine.subscribe(setSession);
 
     return () => {
-      if (interval) clearInterval(interval);
+      unsubscribe();
+      disconnect();
     };
-  }, [isRunning, startTime, tokensCharged, balance, secondsPerToken]);
+  }, [engine]);
+
+  useEffect(() => {
+    if (!isRunning) return;
+
+    const interval = setInterval(() => {
+      setCurrentTime(Date.now());
+      engine.tick().catch(error => console.error('Test session tick failed:', error));
+    }, 1000);
+
+    return () => clearInterval(interval);
+  }, [isRunning, engine]);
 
   const handleStart = () => {
-    setStartTime(Date.now());
     setCurrentTime(Date.now());
-    setTokensCharged(0);
-    setIsRunning(true);
+    engine.start({ appName: 'Timer Test', tokensPerMinute })
+      .catch(error => console.error('Failed to start test session:', error));
   };
 
   const handleStop = () => {
-    setIsRunning(false);
+    engine.stop().catch(error => console.error('Failed to stop test session:', error));
   };
 
-  const handleReset = () => {
-    setIsRunning(false);
-    setStartTime(0);
-    setCurrentTime(0);
-    setTokensCharged(0);
-    setBalance(50);
+  const handleReset = async () => {
+    await engine.stop().catch(error => console.error('Failed to stop test session:', error));
+    setSession(null);
+    setCurrentTime(Date.now());
+    balanceRef.current = STARTING_BALANCE;
+    setBalance(STARTING_BALANCE);
   };
 
-  const elapsed = currentTime - startTime;
+  const elapsed = session ? getRunningMs(session, Math.max(currentTime, session.accruedAt)) : 0;
   const elapsedSeconds = Math.floor(elapsed / 1000);
-  const expectedTokens = Math.floor(elapsed / (secondsPerToken * 1000));
+  // Tokens used so far, whether already flushed to the pretend balance or still pending
+  const pendingTokens = getPendingTokens(session);
+  const tokensCharged = (session?.chargedTokens ?? 0) + pendingTokens;
+  const expectedTokens = Math.min(
+    Math.floor(elapsed / (secondsPerToken * 1000)),
+    tokensCharged + balance - pendingTokens
+  );
 
   return (
     <View style={styles.container}>
@@ -76,7 +107,7 @@ export const TimerTest = () => {
         <Text style={styles.statText}>Time: {elapsedSeconds}s</Text>
         <Text style={styles.statText}>Tokens Charged: {tokensCharged}</Text>
         <Text style={styles.statText}>Expected: {expectedTokens}</Text>
-        <Text style={styles.statText}>Balance: {balance}</Text>
+        <Text style={styles.statText}>Balance: {balance - pendingTokens} ({pendingTokens} pending)</Text>
         <Text style={[
           styles.syncStatus,
           tokensCharged === expectedTokens ? styles.syncGood : styles.syncBad
@@ -88,7 +119,8 @@ export const TimerTest = () => {
       <View style={styles.info}>
         <Text style={styles.infoText}>Rate: {tokensPerMinute} tokens/minute</Text>
         <Text style={styles.infoText}>Interval: 1 token every {secondsPerToken} seconds</Text>
-        <Text style={styles.infoText}>Expected charges at: 12s, 24s, 36s, 48s, 60s...</Text>
+        <Text style={styles.infoText}>Expected tokens at: 12s, 24s, 36s, 48s, 60s...</Text>
+        <Text style={styles.infoText}>Flushed as one spend every minute and on stop</Text>
       </View>
 
       <View style={styles.buttons}>
@@ -0,0 +1,310 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  TextInput,
+  Alert,
+  Modal,
+  Switch,
+  ActivityIndicator,
+} from 'react-native';
+import { TransferSettings } from '../lib/types';
+import { dbHelpers } from '../lib/supabase';
+import { useAuth } from '../context';
+
+interface TransferSettingsFormData {
+  approval_threshold: number;
+  requires_approval: boolean;
+}
+
+interface TransferSettingsFormErrors {
+  approval_threshold?: string;
+}
+
+interface TransferSettingsEditorProps {
+  visible: boolean;
+  childId: string;
+  childName?: string;
+  onClose: () => void;
+  onSaved?: (settings: TransferSettings | null) => void;
+}
+
+/**
+ * Transfer Settings Editor Component
+ * Lets a parent require approval for large transfers a child sends to family members
+ */
+const TransferSettingsEditor = ({
+  visible,
+  childId,
+  childName,
+  onClose,
+  onSaved,
+}: TransferSettingsEditorProps) => {
+  const { user, hasRole } = useAuth();
+
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [formData, setFormData] = useState<TransferSettingsFormData>({
+    approval_threshold: 20,
+    requires_approval: false,
+  });
+  const [formErrors, setFormErrors] = useState<TransferSettingsFormErrors>({});
+
+  // Load the current rule when the editor opens
+  useEffect(() => {
+    if (visible) {
+      loadTransferSettings();
+    }
+  }, [visible, childId]);
+
+  /**
+   * Load the child's existing approval rule into the form
+   */
+  const loadTransferSettings = async () => {
+    try {
+      setIsLoading(true);
+      setFormErrors({});
+
+      const settings = await dbHelpers.getTransferSettings(childId);
+      setFormData(settings
+        ? { approval_threshold: settings.approval_threshold, requires_approval: true }
+        : { approval_threshold: 20, requires_approval: false });
+    } catch (error) {
+      console.error('Failed to load transfer settings:', error);
+      Alert.alert('Error', 'Failed to load transfer settings. Please try again.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  /**
+   * Validate form data
+   */
+  const validateForm = (): boolean => {
+    const errors: TransferSettingsFormErrors = {};
+
+    if (formData.requires_approval) {
+      if (!formData.approval_threshold || formData.approval_threshold < 1) {
+        errors.approval_threshold = 'Threshold must be at least 1 token';
+      } else if (formData.approval_threshold > 1000) {
+        errors.approval_threshold = 'Threshold must be 1000 tokens or less';
+      }
+    }
+
+    setFormErrors(errors);
+    return Object.keys(errors).length === 0;
+  };
+
+  /**
+   * Handle form submission
+   */
+  const handleSubmit = async () => {
+    if (!validateForm()) {
+      return;
+    }
+
+    if (!user) {
+      Alert.alert('Error', 'You must be logged in to manage transfer settings.');
+      return;
+    }
+
+    try {
+      setIsSubmitting(true);
+
+      if (formData.requires_approval) {
+        const savedSettings = await dbHelpers.saveTransferSettings(childId, formData.approval_threshold, user.id);
+        onSaved?.(savedSettings);
+      } else {
+        await dbHelpers.deleteTransferSettings(childId);
+        onSaved?.(null);
+      }
+
+      Alert.alert('Success', 'Transfer settings saved successfully!');
+      onClose();
+    } catch (error) {
+      console.error('Failed to save transfer settings:', error);
+      Alert.alert('Error', 'Failed to save transfer settings. Please try again.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  // Check if user has parent role
+  if (!hasRole('parent')) {
+    return (
+      <Modal visible={visible} animationType="slide" onRequestClose={onClose}>
+        <View style={styles.modalContainer}>
+          <Text style={styles.errorText}>Access denied. Parent account required.</Text>
+        </View>
+      </Modal>
+    );
+  }
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onClose}
+    >
+      <View style={styles.modalContainer}>
+        <View style={styles.modalHeader}>
+          <TouchableOpacity onPress={onClose}>
+            <Text style={styles.cancelButton}>Cancel</Text>
+          </TouchableOpacity>
+          <Text style={styles.modalTitle}>
+            {childName ? `${childName}'s Transfers` : 'Transfer Approval'}
+          </Text>
+          <TouchableOpacity onPress={handleSubmit} disabled={isSubmitting || isLoading}>
+            <Text style={[styles.saveButton, (isSubmitting || isLoading) && styles.saveButtonDisabled]}>
+              {isSubmitting ? 'Saving...' : 'Save'}
+            </Text>
+          </TouchableOpacity>
+        </View>
+
+        {isLoading ? (
+          <View style={styles.loadingContainer}>
+            <ActivityIndicator size="large" color="#00d4ff" />
+            <Text style={styles.loadingText}>Loading transfer settings...</Text>
+          </View>
+        ) : (
+          <ScrollView style={styles.formContainer}>
+            {/* Require approval */}
+            <View style={styles.formGroup}>
+              <View style={styles.switchRow}>
+                <Text style={styles.formLabel}>Require Approval</Text>
+                <Switch
+                  value={formData.requires_approval}
+                  onValueChange={(value) => setFormData(prev => ({ ...prev, requires_approval: value }))}
+                  trackColor={{ false: '#3e3e3e', true: '#00d4ff' }}
+                  thumbColor={formData.requires_approval ? '#ffffff' : '#8892b0'}
+                />
+              </View>
+              <Text style={styles.formHint}>
+                Transfers to siblings and relatives normally go through right away. With approval on,
+                larger transfers wait for you and no tokens move until you approve.
+              </Text>
+            </View>
+
+            {/* Threshold */}
+            {formData.requires_approval && (
+              <View style={styles.formGroup}>
+                <Text style={styles.formLabel}>Approve Transfers Over *</Text>
+                <TextInput
+                  style={[styles.formInput, formErrors.approval_threshold ? styles.formInputError : null]}
+                  value={formData.approval_threshold.toString()}
+                  onChangeText={(text) => {
+                    const num = parseInt(text) || 0;
+                    setFormData(prev => ({ ...prev, approval_threshold: num }));
+                  }}
+                  placeholder="20"
+                  placeholderTextColor="#8892b0"
+                  keyboardType="numeric"
+                  maxLength={4}
+                />
+                {formErrors.approval_threshold && <Text style={styles.errorText}>{formErrors.approval_threshold}</Text>}
+              </View>
+            )}
+          </ScrollView>
+        )}
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  modalContainer: {
+    flex: 1,
+    backgroundColor: '#0a0a0a',
+  },
+
+  // Modal Header Styles
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 15,
+    borderBottomWidth: 1,
+    borderBottomColor: '#1a1a2e',
+    backgroundColor: '#0a0a0a',
+  },
+  modalTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#ffffff',
+  },
+  cancelButton: {
+    fontSize: 16,
+    color: '#8892b0',
+  },
+  saveButton: {
+    fontSize: 16,
+    color: '#00d4ff',
+    fontWeight: '600',
+  },
+  saveButtonDisabled: {
+    color: '#3e3e3e',
+  },
+
+  // Form Styles
+  formContainer: {
+    flex: 1,
+    padding: 20,
+  },
+  formGroup: {
+    marginBottom: 20,
+  },
+  formLabel: {
+    color: '#ffffff',
+    fontSize: 14,
+    fontWeight: '500',
+    marginBottom: 8,
+  },
+  formInput: {
+    backgroundColor: '#1a1a2e',
+    borderWidth: 1,
+    borderColor: '#16213e',
+    borderRadius: 8,
+    paddingHorizontal: 15,
+    paddingVertical: 12,
+    color: '#ffffff',
+    fontSize: 14,
+  },
+  formInputError: {
+    borderColor: '#e74c3c',
+  },
+  switchRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  formHint: {
+    color: '#8892b0',
+    fontSize: 12,
+    marginTop: 5,
+    lineHeight: 16,
+  },
+  errorText: {
+    color: '#e74c3c',
+    fontSize: 12,
+    marginTop: 5,
+  },
+
+  // Loading State
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  loadingText: {
+    color: '#8892b0',
+    fontSize: 16,
+    marginTop: 10,
+  },
+});
+
+export default TransferSettingsEditor;
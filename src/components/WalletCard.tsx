@@ -1,4 +1,4 @@
-import React, { useEffect, useRef } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import {
   View,
   Text,
@@ -8,8 +8,18 @@ import {
   TextStyle,
   Animated,
   Platform,
+  TouchableOpacity,
 } from 'react-native';
 import { useWallet } from '../context/WalletContext';
+import { useAuth } from '../context/AuthContext';
+import { SpendingCapStatus } from '../lib/types';
+import { getGoalProgress, getTotalSaved } from '../lib/goals';
+import useSpendingCaps from '../hooks/useSpendingCaps';
+import useSavingsGoals from '../hooks/useSavingsGoals';
+import useCredit from '../hooks/useCredit';
+import useAppCatalog from '../hooks/useAppCatalog';
+import SavingsGoals from './SavingsGoals';
+import SendTokens from './SendTokens';
 
 const { width: screenWidth } = Dimensions.get('window');
 
@@ -38,7 +48,22 @@ export const WalletCard = ({
   showDetails = true,
   lowBalanceThreshold = 25,
 }: WalletCardProps) => {
-  const { balance, totalEarned, totalSpent, isLoading, offlineStatus } = useWallet();
+  const {
+    balance,
+    totalEarned,
+    totalSpent,
+    isLoading,
+    offlineStatus,
+    dismissRejectedTransaction,
+  } = useWallet();
+  const { hasRole } = useAuth();
+  const { apps } = useAppCatalog();
+  const { statuses: capStatuses } = useSpendingCaps(apps);
+  const { goals, refreshGoals } = useSavingsGoals();
+  const [showSavingsGoals, setShowSavingsGoals] = useState(false);
+  const totalSaved = getTotalSaved(goals);
+  const { creditLine, debt } = useCredit();
+  const [showSendTokens, setShowSendTokens] = useState(false);
 
   // Animation refs
   const pulseAnim = useRef(new Animated.Value(1)).current;
@@ -123,6 +148,9 @@ export const WalletCard = ({
     outputRange: [0.3, 0.8],
   });
 
+  const formatCapRemaining = ({ cap, remaining }: SpendingCapStatus) =>
+    cap.unit === 'tokens' ? `${remaining} tokens left` : `${remaining} min left`;
+
   return (
     <Animated.View
       style={[
@@ -220,6 +248,125 @@ export const WalletCard = ({
         )}
       </View>
 
+      {/* Borrowed tokens still being repaid */}
+      {debt > 0 && (
+        <View style={styles.debtSection}>
+          <View style={styles.capHeader}>
+            <Text style={styles.debtTitle}>💳 BORROWED</Text>
+            <Text style={styles.debtValue}>
+              {debt}{creditLine ? ` / ${creditLine.credit_limit}` : ''} OWED
+            </Text>
+          </View>
+          <Text style={styles.capRemaining}>
+            Repaid automatically from your next allowance or quest rewards
+          </Text>
+        </View>
+      )}
+
+      {/* Daily limits set by a parent */}
+      {capStatuses.length > 0 && (
+        <View style={styles.capsSection}>
+          <Text style={styles.capsTitle}>TODAY'S LIMITS</Text>
+          {capStatuses.map(status => (
+            <View key={status.cap.id} style={styles.capItem}>
+              <View style={styles.capHeader}>
+                <Text style={styles.capName}>
+                  {status.cap.scope === 'total' ? 'All apps' : status.cap.category}
+                </Text>
+                <Text style={[styles.capRemaining, status.reached && styles.capReachedText]}>
+                  {status.reached ? 'Limit reached' : formatCapRemaining(status)}
+                </Text>
+              </View>
+              <View style={styles.capBar}>
+                <View style={[
+                  styles.capFill,
+                  { width: `${Math.min((status.used / status.cap.daily_limit) * 100, 100)}%` },
+                  status.reached && styles.capFillReached,
+                ]} />
+              </View>
+            </View>
+          ))}
+        </View>
+      )}
+
+      {/* Savings goals toward parent-approved rewards */}
+      {hasRole('child') && (
+        <View style={styles.goalsSection}>
+          <Text style={styles.goalsTitle}>
+            SAVINGS GOALS{totalSaved > 0 ? ` · ${totalSaved} SAVED` : ''}
+          </Text>
+          {goals.map(goal => {
+            const progress = getGoalProgress(goal);
+            return (
+              <View key={goal.id} style={styles.capItem}>
+                <View style={styles.capHeader}>
+                  <Text style={styles.capName}>
+                    {goal.reward?.icon ?? '🎁'} {goal.reward?.name ?? 'Reward'}
+                  </Text>
+                  <Text style={[styles.capRemaining, progress.isFunded && styles.goalFundedText]}>
+                    {goal.status === 'requested'
+                      ? 'Waiting for parent'
+                      : `${progress.saved}/${progress.target}`}
+                  </Text>
+                </View>
+                <View style={styles.capBar}>
+                  <View style={[
+                    styles.goalFill,
+                    { width: `${progress.percent}%` },
+                  ]} />
+                </View>
+              </View>
+            );
+          })}
+          <TouchableOpacity
+            style={styles.goalsButton}
+            onPress={() => setShowSavingsGoals(true)}
+          >
+            <Text style={styles.goalsButtonText}>🎁 GOALS & REWARDS</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+
+      {/* Give tokens to a sibling, or gift them to a child in the family */}
+      {balance > 0 && (
+        <TouchableOpacity
+          style={styles.sendButton}
+          onPress={() => setShowSendTokens(true)}
+        >
+          <Text style={styles.sendButtonText}>🤝 SEND TOKENS</Text>
+        </TouchableOpacity>
+      )}
+
+      {/* Offline transactions the server could not apply */}
+      {offlineStatus.rejectedTransactions.length > 0 && (
+        <View style={styles.rejectedSection}>
+          <Text style={styles.rejectedTitle}>
+            ⛔ {offlineStatus.rejectedTransactions.length} OFFLINE {offlineStatus.rejectedTransactions.length === 1 ? 'ITEM' : 'ITEMS'} NOT APPLIED
+          </Text>
+          {offlineStatus.rejectedTransactions.map(rejected => (
+            <View key={rejected.id} style={styles.rejectedItem}>
+              <View style={styles.rejectedInfo}>
+                <Text style={styles.rejectedDescription}>
+                  {rejected.type === 'spend' ? '-' : '+'}{rejected.amount} · {rejected.appName || rejected.description}
+                </Text>
+                <Text style={styles.rejectedReason}>{rejected.reason}</Text>
+                {rejected.shortfall !== undefined && rejected.shortfall > 0 && (
+                  <Text style={styles.rejectedReason}>
+                    Charged {rejected.chargedAmount ?? 0}, {rejected.shortfall} owed. Your parent can see this.
+                  </Text>
+                )}
+              </View>
+              <TouchableOpacity
+                style={styles.rejectedDismiss}
+                onPress={() => dismissRejectedTransaction(rejected.id)}
+              >
+                <Text style={styles.rejectedDismissText}>OK</Text>
+              </TouchableOpacity>
+            </View>
+          ))}
+        </View>
+      )}
+
       {/* Enhanced low balance warning */}
       {isLowBalance && (
         <Animated.View style={[styles.warningSection, {
@@ -252,6 +399,19 @@ export const WalletCard = ({
           </Text>
         </View>
       )}
+
+      <SavingsGoals
+        visible={showSavingsGoals}
+        onClose={() => {
+          setShowSavingsGoals(false);
+          refreshGoals();
+        }}
+      />
+
+      <SendTokens
+        visible={showSendTokens}
+        onClose={() => setShowSendTokens(false)}
+      />
     </Animated.View>
   );
 };
@@ -466,6 +626,203 @@ const styles = StyleSheet.create({
     letterSpacing: 1,
   } as TextStyle,
 
+  capsSection: {
+    borderWidth: 1,
+    borderColor: colors.secondary,
+    borderRadius: 10,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    marginBottom: 12,
+  } as ViewStyle,
+
+  capsTitle: {
+    fontSize: 11,
+    fontWeight: '800',
+    color: colors.secondary,
+    letterSpacing: 1,
+    marginBottom: 6,
+  } as TextStyle,
+
+  capItem: {
+    paddingVertical: 4,
+  } as ViewStyle,
+
+  capHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: 4,
+  } as ViewStyle,
+
+  capName: {
+    fontSize: 13,
+    fontWeight: '700',
+    color: colors.text,
+  } as TextStyle,
+
+  capRemaining: {
+    fontSize: 12,
+    color: colors.textSecondary,
+  } as TextStyle,
+
+  capReachedText: {
+    color: colors.error,
+    fontWeight: '700',
+  } as TextStyle,
+
+  capBar: {
+    height: 4,
+    backgroundColor: '#333',
+    borderRadius: 2,
+    overflow: 'hidden',
+  } as ViewStyle,
+
+  capFill: {
+    height: '100%',
+    backgroundColor: colors.secondary,
+    borderRadius: 2,
+  } as ViewStyle,
+
+  capFillReached: {
+    backgroundColor: colors.error,
+  } as ViewStyle,
+
+  debtSection: {
+    borderWidth: 1,
+    borderColor: colors.accent,
+    borderRadius: 10,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    marginBottom: 12,
+  } as ViewStyle,
+
+  debtTitle: {
+    fontSize: 11,
+    fontWeight: '800',
+    color: colors.accent,
+    letterSpacing: 1,
+  } as TextStyle,
+
+  debtValue: {
+    fontSize: 13,
+    fontWeight: '700',
+    color: colors.accent,
+  } as TextStyle,
+
+  goalsSection: {
+    borderWidth: 1,
+    borderColor: colors.success,
+    borderRadius: 10,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    marginBottom: 12,
+  } as ViewStyle,
+
+  goalsTitle: {
+    fontSize: 11,
+    fontWeight: '800',
+    color: colors.success,
+    letterSpacing: 1,
+    marginBottom: 6,
+  } as TextStyle,
+
+  goalFill: {
+    height: '100%',
+    backgroundColor: colors.success,
+    borderRadius: 2,
+  } as ViewStyle,
+
+  goalFundedText: {
+    color: colors.success,
+    fontWeight: '700',
+  } as TextStyle,
+
+  goalsButton: {
+    alignSelf: 'flex-start',
+    marginTop: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 6,
+    borderWidth: 1,
+    borderColor: colors.success,
+  } as ViewStyle,
+
+  goalsButtonText: {
+    fontSize: 12,
+    fontWeight: '700',
+    color: colors.success,
+    letterSpacing: 1,
+  } as TextStyle,
+
+  sendButton: {
+    alignSelf: 'flex-start',
+    marginBottom: 12,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 6,
+    borderWidth: 1,
+    borderColor: colors.primary,
+  } as ViewStyle,
+
+  sendButtonText: {
+    fontSize: 12,
+    fontWeight: '700',
+    color: colors.primary,
+    letterSpacing: 1,
+  } as TextStyle,
+
+  rejectedSection: {
+    borderWidth: 1,
+    borderColor: colors.error,
+    borderRadius: 10,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    marginBottom: 12,
+  } as ViewStyle,
+
+  rejectedTitle: {
+    fontSize: 11,
+    fontWeight: '800',
+    color: colors.error,
+    letterSpacing: 1,
+    marginBottom: 6,
+  } as TextStyle,
+
+  rejectedItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 6,
+  } as ViewStyle,
+
+  rejectedInfo: {
+    flex: 1,
+  } as ViewStyle,
+
+  rejectedDescription: {
+    fontSize: 13,
+    fontWeight: '700',
+    color: colors.text,
+  } as TextStyle,
+
+  rejectedReason: {
+    fontSize: 11,
+    color: colors.textSecondary,
+    marginTop: 2,
+  } as TextStyle,
+
+  rejectedDismiss: {
+    backgroundColor: colors.error,
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 6,
+    marginLeft: 8,
+  } as ViewStyle,
+
+  rejectedDismissText: {
+    fontSize: 11,
+    fontWeight: '800',
+    color: colors.background,
+  } as TextStyle,
+
   warningSection: {
     backgroundColor: colors.lowBalance,
     paddingHorizontal: 16,
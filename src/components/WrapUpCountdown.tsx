@@ -0,0 +1,127 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, Modal } from 'react-native';
+
+interface WrapUpCountdownProps {
+  visible: boolean;
+  appName: string;
+  remainingMs: number;
+  willLock?: boolean; // The lock screen follows because tokens ran out, rather than a prepaid block ending
+  onStopNow: () => void;
+  onDismiss: () => void;
+}
+
+/**
+ * Wrap-Up Countdown Component
+ * Final countdown before a session ends, so the child can save a game or finish a video
+ */
+const WrapUpCountdown = ({
+  visible,
+  appName,
+  remainingMs,
+  willLock = true,
+  onStopNow,
+  onDismiss,
+}: WrapUpCountdownProps) => {
+  const seconds = Math.max(0, Math.ceil(remainingMs / 1000));
+
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={onDismiss}>
+      <View style={styles.overlay}>
+        <View style={styles.card}>
+          <Text style={styles.title}>⏳ Time to Wrap Up</Text>
+          <Text style={styles.countdown}>{seconds}</Text>
+          <Text style={styles.message}>
+            {appName} ends in {seconds} second{seconds === 1 ? '' : 's'}. Save your progress or find a good place to stop.
+          </Text>
+          {willLock && (
+            <Text style={styles.hint}>Your tokens are running out, so the lock screen comes next.</Text>
+          )}
+
+          <View style={styles.buttonRow}>
+            <TouchableOpacity style={styles.secondaryButton} onPress={onDismiss}>
+              <Text style={styles.secondaryButtonText}>Keep Going</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.primaryButton} onPress={onStopNow}>
+              <Text style={styles.primaryButtonText}>Stop Now</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.7)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 24,
+  },
+  card: {
+    width: '100%',
+    maxWidth: 360,
+    backgroundColor: '#1a1a2e',
+    borderRadius: 16,
+    borderWidth: 2,
+    borderColor: '#ffaa00',
+    padding: 24,
+    alignItems: 'center',
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#ffffff',
+    marginBottom: 12,
+  },
+  countdown: {
+    fontSize: 56,
+    fontWeight: 'bold',
+    color: '#ffaa00',
+    fontFamily: 'monospace',
+    marginBottom: 12,
+  },
+  message: {
+    fontSize: 14,
+    color: '#ffffff',
+    textAlign: 'center',
+    lineHeight: 20,
+  },
+  hint: {
+    fontSize: 12,
+    color: '#8892b0',
+    textAlign: 'center',
+    marginTop: 8,
+  },
+  buttonRow: {
+    flexDirection: 'row',
+    gap: 12,
+    marginTop: 20,
+  },
+  secondaryButton: {
+    paddingHorizontal: 18,
+    paddingVertical: 10,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#8892b0',
+  },
+  secondaryButtonText: {
+    color: '#8892b0',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  primaryButton: {
+    paddingHorizontal: 18,
+    paddingVertical: 10,
+    borderRadius: 8,
+    backgroundColor: '#ff4444',
+  },
+  primaryButtonText: {
+    color: '#ffffff',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+});
+
+export default WrapUpCountdown;
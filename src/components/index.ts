@@ -3,10 +3,23 @@ export { default as WalletCard } from './WalletCard';
 export { default as QuestCam } from './QuestCam';
 export { default as AppLauncher } from './AppLauncher';
 export { default as QuestManagement } from './QuestManagement';
+export { default as AllowanceEditor } from './AllowanceEditor';
+export { default as BalanceAdjustment } from './BalanceAdjustment';
+export { default as CreditLimitEditor } from './CreditLimitEditor';
+export { default as PricingEditor } from './PricingEditor';
+export { default as AppCatalogEditor } from './AppCatalogEditor';
+export { default as ScheduleRuleEditor } from './ScheduleRuleEditor';
+export { default as SpendingCapEditor } from './SpendingCapEditor';
+export { default as RewardsCatalogEditor } from './RewardsCatalogEditor';
+export { default as SavingsGoals } from './SavingsGoals';
+export { default as TransferSettingsEditor } from './TransferSettingsEditor';
+export { default as SendTokens } from './SendTokens';
 export { default as RealTimeClock } from './RealTimeClock';
 export { default as DevRoleSwitcher } from './DevRoleSwitcher';
 export { default as DebugTimer } from './DebugTimer';
-export { default as StableTimer } from './StableTimer';
+export { default as SessionTimer } from './SessionTimer';
+export { default as WrapUpCountdown } from './WrapUpCountdown';
+export { default as StillWatchingPrompt } from './StillWatchingPrompt';
 export { default as TimerTest } from './TimerTest';
 
 // Demo & Presentation Components
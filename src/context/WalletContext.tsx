@@ -1,9 +1,18 @@
 import React, { createContext, useContext, useEffect, useState, ReactNode } from 'react';
 import { RealtimeChannel } from '@supabase/supabase-js';
-import { getSupabaseClient, dbHelpers, realtimeHelpers } from '../lib/supabase';
-import { Transaction, WalletContextType, Profile } from '../lib/types';
+import { getSupabaseClient, dbHelpers, walletHelpers, realtimeHelpers } from '../lib/supabase';
+import {
+  Transaction,
+  WalletContextType,
+  Profile,
+  QuestType,
+  QuestVerification,
+  WalletOperationResult,
+  AppTimeEarnResult,
+} from '../lib/types';
 import { useAuth } from './AuthContext';
 import useOfflineQueue from '../hooks/useOfflineQueue';
+import { isDuplicateTransactionError } from '../lib/offlineQueue';
 import { DataIntegrityService, useDataIntegrity } from '../lib/dataIntegrity';
 import { Alert } from 'react-native';
 
@@ -28,6 +37,7 @@ export const WalletProvider = ({ children }: WalletProviderProps) => {
   const [totalSpent, setTotalSpent] = useState<number>(0);
   const [transactions, setTransactions] = useState<Transaction[]>([]);
   const [isLoading, setIsLoading] = useState(false);
+  const [isLoaded, setIsLoaded] = useState(false);
   const [dataIntegrityChecked, setDataIntegrityChecked] = useState(false);
   
   // Real-time subscription channels
@@ -61,6 +71,7 @@ export const WalletProvider = ({ children }: WalletProviderProps) => {
     if (!profile) return;
 
     try {
+      setIsLoaded(false);
       setIsLoading(true);
 
       // Development mode: Use mock data
@@ -129,6 +140,7 @@ export const WalletProvider = ({ children }: WalletProviderProps) => {
       setDataIntegrityChecked(true);
     } finally {
       setIsLoading(false);
+      setIsLoaded(true);
     }
   };
 
@@ -279,14 +291,30 @@ export const WalletProvider = ({ children }: WalletProviderProps) => {
     setTotalSpent(0);
     setTransactions([]);
     setIsLoading(false);
+    setIsLoaded(false);
     cleanupSubscriptions();
   };
 
   /**
    * Earn tokens and update balance
    * Requirements: 1.3, 1.5, 4.4, 8.1
+   * `pay` calls the RPC that works out what the server pays; `amount` is what the caller expects,
+   * used for the optimistic balance while offline. Queued earns keep what the RPC needs to replay them.
    */
-  const earnTokens = async (amount: number, description: string, proofUrl?: string): Promise<void> => {
+  const earnTokens = async (
+    amount: number,
+    description: string,
+    pay: () => Promise<WalletOperationResult | AppTimeEarnResult>,
+    queueOptions: {
+      proofImageUrl?: string;
+      appName?: string;
+      usageSeconds?: number;
+      sessionId?: string;
+      questTypeId?: string;
+      verifiedBy?: QuestVerification;
+      activeSeconds?: number;
+    }
+  ): Promise<void> => {
     if (!user || !profile) {
       throw new Error('User must be authenticated to earn tokens');
     }
@@ -299,6 +327,8 @@ export const WalletProvider = ({ children }: WalletProviderProps) => {
       throw new Error('Description is required for earning tokens');
     }
 
+    const { proofImageUrl: proofUrl, appName, usageSeconds } = queueOptions;
+
     try {
       setIsLoading(true);
 
@@ -323,6 +353,8 @@ export const WalletProvider = ({ children }: WalletProviderProps) => {
           type: 'earn',
           description: description.trim(),
           proof_image_url: proofUrl,
+          app_name: appName,
+          usage_seconds: usageSeconds,
           timestamp: new Date().toISOString(),
         };
         
@@ -334,49 +366,41 @@ export const WalletProvider = ({ children }: WalletProviderProps) => {
 
       // Check if device is online
       if (offlineQueue.status.isOnline) {
-        // Online: Process transaction immediately
-        const transaction: Omit<Transaction, 'id'> = {
-          user_id: profile.id,
-          amount,
-          type: 'earn',
-          description: description.trim(),
-          proof_image_url: proofUrl,
-          timestamp: new Date().toISOString(),
-        };
-
-        // Insert transaction into database
-        const createdTransaction = await dbHelpers.createTransaction(transaction);
-
-        // Update profile balance and totals
-        const newBalance = profile.balance + amount;
-        const newTotalEarned = profile.total_earned + amount;
-
-        const updatedProfile = await dbHelpers.updateProfile(profile.id, {
-          balance: newBalance,
-          total_earned: newTotalEarned,
-        });
+        // Online: The server works out the amount, writes the ledger row and updates the balance atomically
+        const { transaction: createdTransaction, profile: updatedProfile, repayment } = await pay();
 
         // Update local state immediately (real-time subscription will also update)
+        // The balance already reflects any loan repayment taken out of these earnings
         setBalance(updatedProfile.balance);
         setTotalEarned(updatedProfile.total_earned);
-        setTransactions(prev => [createdTransaction, ...prev]);
+
+        if (!createdTransaction) {
+          // Nothing new to pay, e.g. this time was already paid for
+          return;
+        }
+
+        setTransactions(prev => repayment
+          ? [repayment, createdTransaction, ...prev]
+          : [createdTransaction, ...prev]);
 
         // Refresh the auth profile to keep it in sync
         await refreshProfile();
 
         // Create backup after significant transaction
-        if (amount >= 50) { // Backup for large transactions
-          await createBackup(updatedProfile, [createdTransaction, ...transactions], `Large earn transaction: ${amount} tokens`);
+        if (createdTransaction.amount >= 50) { // Backup for large transactions
+          await createBackup(
+            updatedProfile,
+            [...(repayment ? [repayment] : []), createdTransaction, ...transactions],
+            `Large earn transaction: ${createdTransaction.amount} tokens`
+          );
         }
 
-        console.log(`Earned ${amount} tokens for user ${profile.id}. New balance: ${updatedProfile.balance}`);
+        console.log(`Earned ${createdTransaction.amount} tokens for user ${profile.id}. New balance: ${updatedProfile.balance}`);
       } else {
         // Offline: Queue transaction for later sync
         console.log('Device is offline, queuing earn transaction');
         
-        await offlineQueue.queueTransaction('earn', amount, description.trim(), {
-          proofImageUrl: proofUrl,
-        });
+        await offlineQueue.queueTransaction('earn', amount, description.trim(), queueOptions);
 
         // Update local state optimistically
         const newBalance = balance + amount;
@@ -393,6 +417,8 @@ export const WalletProvider = ({ children }: WalletProviderProps) => {
           type: 'earn',
           description: description.trim(),
           proof_image_url: proofUrl,
+          app_name: appName,
+          usage_seconds: usageSeconds,
           timestamp: new Date().toISOString(),
         };
         
@@ -408,11 +434,53 @@ export const WalletProvider = ({ children }: WalletProviderProps) => {
     }
   };
 
+  /**
+   * Get paid a quest's reward once its photo has been checked
+   * The server pays the quest's own reward, and each quest at most once a day
+   */
+  const completeQuest = (
+    quest: Pick<QuestType, 'id' | 'name' | 'token_reward'>,
+    proofUrl: string,
+    verifiedBy: QuestVerification
+  ): Promise<void> =>
+    earnTokens(
+      quest.token_reward,
+      `Quest completed: ${quest.name} (${verifiedBy === 'parent' ? 'Parent' : 'AI'} verified)`,
+      () => walletHelpers.completeQuest(quest.id, proofUrl, { verifiedBy }),
+      { proofImageUrl: proofUrl, questTypeId: quest.id, verifiedBy }
+    );
+
+  /**
+   * Get paid for time in a Learn & Earn app
+   * Tokens paid by an earning app name the app so its daily earn limit can count them
+   */
+  const earnAppTime = (
+    amount: number,
+    description: string,
+    appName: string,
+    usageSeconds: number,
+    sessionId: string,
+    activeSeconds: number
+  ): Promise<void> =>
+    earnTokens(
+      amount,
+      description,
+      () => walletHelpers.earnAppTime(sessionId, activeSeconds),
+      { appName, usageSeconds, sessionId, activeSeconds }
+    );
+
   /**
    * Spend tokens and update balance
    * Requirements: 2.1, 3.2, 4.4, 8.1
    */
-  const spendTokens = async (amount: number, description: string, appName?: string): Promise<void> => {
+  const spendTokens = async (
+    amount: number,
+    description: string,
+    appName?: string,
+    usageSeconds?: number,
+    sessionId?: string,
+    clientTxnId?: string
+  ): Promise<void> => {
     if (!user || !profile) {
       throw new Error('User must be authenticated to spend tokens');
     }
@@ -425,7 +493,8 @@ export const WalletProvider = ({ children }: WalletProviderProps) => {
       throw new Error('Description is required for spending tokens');
     }
 
-    if (balance < amount) {
+    // A retried spend may already be in the balance; online the server reports that before the balance
+    if (balance < amount && !(clientTxnId && offlineQueue.status.isOnline)) {
       throw new Error(`Insufficient balance. Current balance: ${balance}, Required: ${amount}`);
     }
 
@@ -453,6 +522,7 @@ export const WalletProvider = ({ children }: WalletProviderProps) => {
           type: 'spend',
           description: description.trim(),
           app_name: appName,
+          usage_seconds: usageSeconds,
           timestamp: new Date().toISOString(),
         };
         
@@ -464,27 +534,19 @@ export const WalletProvider = ({ children }: WalletProviderProps) => {
 
       // Check if device is online
       if (offlineQueue.status.isOnline) {
-        // Online: Process transaction immediately
-        const transaction: Omit<Transaction, 'id'> = {
-          user_id: profile.id,
-          amount,
-          type: 'spend',
-          description: description.trim(),
-          app_name: appName,
-          timestamp: new Date().toISOString(),
-        };
-
-        // Insert transaction into database
-        const createdTransaction = await dbHelpers.createTransaction(transaction);
-
-        // Update profile balance and totals
-        const newBalance = profile.balance - amount;
-        const newTotalSpent = profile.total_spent + amount;
-
-        const updatedProfile = await dbHelpers.updateProfile(profile.id, {
-          balance: newBalance,
-          total_spent: newTotalSpent,
-        });
+        // Online: The server validates the balance and records the spend atomically
+        let result: WalletOperationResult;
+        try {
+          result = await walletHelpers.spend(amount, description.trim(), { appName, usageSeconds, sessionId, clientTxnId });
+        } catch (error) {
+          if (clientTxnId && isDuplicateTransactionError(error)) {
+            console.log(`Spend ${clientTxnId} was already recorded`);
+            await refreshBalance();
+            return;
+          }
+          throw error;
+        }
+        const { transaction: createdTransaction, profile: updatedProfile } = result;
 
         // Update local state immediately (real-time subscription will also update)
         setBalance(updatedProfile.balance);
@@ -506,6 +568,9 @@ export const WalletProvider = ({ children }: WalletProviderProps) => {
         
         await offlineQueue.queueTransaction('spend', amount, description.trim(), {
           appName,
+          usageSeconds,
+          sessionId,
+          clientTxnId,
         });
 
         // Update local state optimistically
@@ -523,6 +588,7 @@ export const WalletProvider = ({ children }: WalletProviderProps) => {
           type: 'spend',
           description: description.trim(),
           app_name: appName,
+          usage_seconds: usageSeconds,
           timestamp: new Date().toISOString(),
         };
         
@@ -539,10 +605,17 @@ export const WalletProvider = ({ children }: WalletProviderProps) => {
   };
 
   /**
-   * Refund tokens (essentially earning tokens back due to failed operations)
+   * Refund unused prepaid app time, resolving the tokens given back
    * Requirements: 8.4
+   * The server refunds a prepaid session once, at most the unused share of its block
    */
-  const refundTokens = async (amount: number, description: string): Promise<void> => {
+  const refundTokens = async (
+    amount: number,
+    description: string,
+    appName?: string,
+    usageSeconds?: number,
+    sessionId?: string
+  ): Promise<number> => {
     if (!user || !profile) {
       throw new Error('User must be authenticated to refund tokens');
     }
@@ -558,8 +631,7 @@ export const WalletProvider = ({ children }: WalletProviderProps) => {
     try {
       setIsLoading(true);
 
-      // Refunds are processed as earning transactions with a special description
-      const refundDescription = `REFUND: ${description.trim()}`;
+      const refundDescription = description.trim();
 
       // Development mode: Handle transactions locally without database
       const isDevelopment = process.env.NODE_ENV === 'development' || __DEV__;
@@ -567,82 +639,83 @@ export const WalletProvider = ({ children }: WalletProviderProps) => {
       if (isDevelopment && profile.id === '00000000-0000-0000-0000-000000000123') {
         console.log('Development mode: Processing refund transaction locally');
         
-        // Update local state only
+        // Update local state only (a refund gives back a spend)
         const newBalance = balance + amount;
-        const newTotalEarned = totalEarned + amount;
+        const newTotalSpent = Math.max(totalSpent - amount, 0);
         
         setBalance(newBalance);
-        setTotalEarned(newTotalEarned);
+        setTotalSpent(newTotalSpent);
 
         // Create a mock transaction for local display
         const mockTransaction: Transaction = {
           id: `dev_refund_${Date.now()}`,
           user_id: profile.id,
           amount,
-          type: 'earn', // Refunds are processed as earnings
+          type: 'refund',
           description: refundDescription,
+          app_name: appName,
+          usage_seconds: usageSeconds,
           timestamp: new Date().toISOString(),
         };
         
         setTransactions(prev => [mockTransaction, ...prev]);
 
         console.log(`Development mode: Refunded ${amount} tokens. New balance: ${newBalance}`);
-        return;
+        return amount;
       }
 
       // Check if device is online
       if (offlineQueue.status.isOnline) {
         // Online: Process refund immediately
-        const transaction: Omit<Transaction, 'id'> = {
-          user_id: profile.id,
+        const { transaction: createdTransaction, profile: updatedProfile } = await walletHelpers.refund(
           amount,
-          type: 'earn', // Refunds are processed as earnings
-          description: refundDescription,
-          timestamp: new Date().toISOString(),
-        };
-
-        // Insert transaction into database
-        const createdTransaction = await dbHelpers.createTransaction(transaction);
-
-        // Update profile balance (add back the refunded amount)
-        // Note: We don't update total_earned for refunds as they're not "earned"
-        const newBalance = profile.balance + amount;
-
-        const updatedProfile = await dbHelpers.updateProfile(profile.id, {
-          balance: newBalance,
-        });
+          refundDescription,
+          { appName, usageSeconds, sessionId }
+        );
 
         // Update local state immediately
+        // The server takes refunds off total_spent rather than counting them as earnings
         setBalance(updatedProfile.balance);
+        setTotalSpent(updatedProfile.total_spent);
         setTransactions(prev => [createdTransaction, ...prev]);
 
         // Refresh the auth profile to keep it in sync
         await refreshProfile();
 
-        console.log(`Refunded ${amount} tokens for user ${profile.id}. New balance: ${updatedProfile.balance}`);
+        console.log(`Refunded ${createdTransaction.amount} tokens for user ${profile.id}. New balance: ${updatedProfile.balance}`);
+        return createdTransaction.amount;
       } else {
         // Offline: Queue refund for later sync
         console.log('Device is offline, queuing refund transaction');
         
-        await offlineQueue.queueTransaction('earn', amount, refundDescription, {});
+        await offlineQueue.queueTransaction('refund', amount, refundDescription, {
+          appName,
+          usageSeconds,
+          sessionId,
+        });
 
         // Update local state optimistically
         const newBalance = balance + amount;
+        const newTotalSpent = Math.max(totalSpent - amount, 0);
         setBalance(newBalance);
+        setTotalSpent(newTotalSpent);
 
         // Create a temporary transaction for local display
         const tempTransaction: Transaction = {
           id: `temp_refund_${Date.now()}`,
           user_id: profile.id,
           amount,
-          type: 'earn',
+          type: 'refund',
           description: refundDescription,
+          app_name: appName,
+          usage_seconds: usageSeconds,
           timestamp: new Date().toISOString(),
         };
         
         setTransactions(prev => [tempTransaction, ...prev]);
 
         console.log(`Queued refund transaction for ${amount} tokens (offline mode)`);
+        return amount;
       }
     } catch (error) {
       console.error('Failed to refund tokens:', error);
@@ -697,6 +770,48 @@ export const WalletProvider = ({ children }: WalletProviderProps) => {
     }
   }, [offlineQueue.isInitialized, offlineQueue.status.unsyncedCount, offlineQueue.status.queueLength, profile, refreshBalance]);
 
+  /**
+   * Rejection effect: reload the server balance when offline items are rejected,
+   * since the optimistic local balance included them
+   */
+  useEffect(() => {
+    if (profile && offlineQueue.status.rejectedTransactions.length > 0) {
+      refreshBalance().catch(error => {
+        console.error('Failed to refresh balance after rejected sync:', error);
+      });
+    }
+  }, [offlineQueue.status.rejectedTransactions.length]);
+
+  /**
+   * Allowance effect: claim a due allowance while the app is open
+   * pg_cron normally grants allowances; this covers projects without it
+   */
+  useEffect(() => {
+    const isDevelopment = process.env.NODE_ENV === 'development' || __DEV__;
+    if (!profile || profile.role !== 'child' || (isDevelopment && profile.id === '00000000-0000-0000-0000-000000000123')) {
+      return;
+    }
+
+    const claimAllowance = async () => {
+      try {
+        const granted = await walletHelpers.claimAllowance();
+        if (granted > 0) {
+          console.log(`Allowance granted for user ${profile.id}`);
+          await refreshBalance();
+        }
+      } catch (error) {
+        console.error('Failed to claim allowance:', error);
+      }
+    };
+
+    claimAllowance();
+    const allowanceInterval = setInterval(claimAllowance, 15 * 60 * 1000); // 15 minutes
+
+    return () => {
+      clearInterval(allowanceInterval);
+    };
+  }, [profile?.id]);
+
   /**
    * Cleanup effect: clean up old backups periodically
    */
@@ -729,7 +844,9 @@ export const WalletProvider = ({ children }: WalletProviderProps) => {
     totalSpent,
     transactions,
     isLoading,
-    earnTokens,
+    isLoaded,
+    completeQuest,
+    earnAppTime,
     spendTokens,
     refundTokens,
     refreshBalance,
@@ -738,8 +855,10 @@ export const WalletProvider = ({ children }: WalletProviderProps) => {
       unsyncedCount: offlineQueue.status.unsyncedCount,
       isOnline: offlineQueue.status.isOnline,
       isSyncing: offlineQueue.status.isSyncing,
+      rejectedTransactions: offlineQueue.status.rejectedTransactions,
     },
     syncOfflineTransactions: offlineQueue.syncNow,
+    dismissRejectedTransaction: offlineQueue.dismissRejected,
   };
 
   return (
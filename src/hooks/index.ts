@@ -1,3 +1,16 @@
 // Export custom hooks
-export { default as useAppState } from './useAppState';
-export { default as useOfflineQueue } from './useOfflineQueue';
\ No newline at end of file
+export { default as useSession } from './useSession';
+export { default as useOfflineQueue } from './useOfflineQueue';
+export { default as useAppPricing } from './useAppPricing';
+export { default as useScheduleRules } from './useScheduleRules';
+export { default as useSpendingCaps } from './useSpendingCaps';
+export { default as useEarnAllowance } from './useEarnAllowance';
+export { default as useSavingsGoals } from './useSavingsGoals';
+export { default as useCredit } from './useCredit';
+export { default as useTransfers } from './useTransfers';
+export { default as useSessionRecord } from './useSessionRecord';
+export { default as useSessionWarnings } from './useSessionWarnings';
+export { default as useSessionLease } from './useSessionLease';
+export { default as useWebIdle } from './useWebIdle';
+export { default as useBrowserExtension } from './useBrowserExtension';
+export { default as useAppCatalog } from './useAppCatalog';
\ No newline at end of file
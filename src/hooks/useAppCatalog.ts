@@ -0,0 +1,72 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { buildAppList, catalogHelpers } from '../lib/appCatalog';
+import { AppConfig, CatalogApp } from '../lib/types';
+import { useAuth } from '../context/AuthContext';
+
+interface UseAppCatalogReturn {
+  apps: AppConfig[]; // Apps the family lets children launch
+  catalog: CatalogApp[]; // Catalog rows as stored, including apps turned off
+  isLoading: boolean;
+  refreshCatalog: () => Promise<void>;
+}
+
+/**
+ * Custom hook for the family's app catalog
+ * Shows the cached catalog straight away, then the server's once it loads
+ */
+const useAppCatalog = (): UseAppCatalogReturn => {
+  const { profile } = useAuth();
+  const [catalog, setCatalog] = useState<CatalogApp[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  /**
+   * Load the catalog from the server, falling back to the offline cache
+   */
+  const refreshCatalog = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setCatalog(await catalogHelpers.loadApps());
+    } catch (error) {
+      console.error('Failed to refresh app catalog:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  // Reload the catalog whenever the signed-in profile changes
+  useEffect(() => {
+    if (!profile) {
+      setCatalog([]);
+      setIsLoading(false);
+      return;
+    }
+
+    let cancelled = false;
+    const loadCatalog = async () => {
+      const cached = await catalogHelpers.getCachedApps();
+      if (!cancelled && cached.length > 0) {
+        setCatalog(cached);
+      }
+      await refreshCatalog();
+    };
+    loadCatalog();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [profile?.id, refreshCatalog]);
+
+  // Keep the same array between renders so effects keyed on the app list do not re-run.
+  // Nothing is shown during the first load rather than flashing the built-in apps.
+  const isFirstLoad = isLoading && catalog.length === 0;
+  const apps = useMemo(() => (isFirstLoad ? [] : buildAppList(catalog)), [catalog, isFirstLoad]);
+
+  return {
+    apps,
+    catalog,
+    isLoading,
+    refreshCatalog,
+  };
+};
+
+export default useAppCatalog;
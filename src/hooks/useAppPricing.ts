@@ -0,0 +1,63 @@
+import { useState, useEffect, useCallback } from 'react';
+import { pricingHelpers, resolveTokensPerMinute } from '../lib/pricing';
+import { AppConfig, AppPricingRule } from '../lib/types';
+import { APP_CONFIG } from '../lib/config';
+import { useAuth } from '../context/AuthContext';
+
+interface UseAppPricingReturn {
+  rules: AppPricingRule[];
+  isLoading: boolean;
+  getTokensPerMinute: (app: Pick<AppConfig, 'name' | 'category' | 'tokensPerMinute'>) => number;
+  refreshPricing: () => Promise<void>;
+}
+
+/**
+ * Custom hook for the family's per-app token pricing
+ * Every billing path should charge with getTokensPerMinute so tiles and timers agree
+ */
+const useAppPricing = (defaultRate: number = APP_CONFIG.tokenRate): UseAppPricingReturn => {
+  const { profile } = useAuth();
+  const [rules, setRules] = useState<AppPricingRule[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  /**
+   * Load pricing rules from the server, falling back to the offline cache
+   */
+  const refreshPricing = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setRules(await pricingHelpers.loadRules());
+    } catch (error) {
+      console.error('Failed to refresh app pricing:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  // Reload rates whenever the signed-in profile changes
+  useEffect(() => {
+    if (profile) {
+      refreshPricing();
+    } else {
+      setRules([]);
+      setIsLoading(false);
+    }
+  }, [profile?.id, refreshPricing]);
+
+  /**
+   * Resolve the tokens-per-minute rate for an app
+   */
+  const getTokensPerMinute = useCallback(
+    (app: Pick<AppConfig, 'name' | 'category' | 'tokensPerMinute'>) => resolveTokensPerMinute(app, rules, defaultRate),
+    [rules, defaultRate]
+  );
+
+  return {
+    rules,
+    isLoading,
+    getTokensPerMinute,
+    refreshPricing,
+  };
+};
+
+export default useAppPricing;
@@ -0,0 +1,78 @@
+import { useState, useEffect } from 'react';
+import { Platform } from 'react-native';
+import { getBrowserExtension } from '../lib/browserExtension';
+import { getAppDomains } from '../lib/extensionProtocol';
+import { windowManager } from '../lib/windowManager';
+import { AppConfig } from '../lib/types';
+import { isEntertainmentApp } from '../lib/appClassification';
+import { useWallet } from '../context/WalletContext';
+
+interface UseBrowserExtensionReturn {
+  isConnected: boolean; // The companion extension is installed and answering
+  browsingMs: Record<string, number>; // Time each app's site was the active tab, by app name
+}
+
+/**
+ * Connects the web app to the companion browser extension
+ * While the child is out of tokens every entertainment app's site is blocked: windows the app opened
+ * are closed and, with the extension, the sites are blocked in tabs the child opens too. Free and
+ * Learn & Earn sites stay open. Also reports how long each app's site has been in the active tab.
+ * availableBalance is the balance less usage not yet charged (useSession), and hasPaidTimeLeft is set
+ * while a prepaid block the child already paid for is running. Does nothing on native.
+ */
+const useBrowserExtension = (
+  apps: AppConfig[],
+  availableBalance: number,
+  hasPaidTimeLeft: boolean
+): UseBrowserExtensionReturn => {
+  const { isLoaded } = useWallet();
+  const [bridge] = useState(() => (Platform.OS === 'web' ? getBrowserExtension() : null));
+  const [isConnected, setIsConnected] = useState(() => bridge?.isConnected() ?? false);
+  const [browsingMs, setBrowsingMs] = useState<Record<string, number>>({});
+
+  // Connect once and let the window manager pass blocks on to the extension
+  useEffect(() => {
+    if (!bridge) return;
+
+    bridge.connect();
+    const detach = windowManager.attachDomainBlocker(bridge);
+    const unsubscribe = bridge.subscribe(event => {
+      if (event.type === 'connected' || event.type === 'disconnected') {
+        setIsConnected(bridge.isConnected());
+      }
+      if (event.type === 'tab_activity') {
+        setBrowsingMs(bridge.getBrowsingTime());
+      }
+    });
+
+    return () => {
+      unsubscribe();
+      detach();
+    };
+  }, [bridge]);
+
+  useEffect(() => {
+    bridge?.setApps(apps);
+  }, [bridge, apps]);
+
+  // Block the sites that cost tokens while the balance is empty, and lift the block once tokens are earned.
+  // The balance reads 0 until the wallet has loaded, which is not the same as being out of tokens, and a
+  // prepaid block bought with the last tokens leaves it at 0 while the child still has time paid for.
+  const isOutOfTokens = isLoaded && availableBalance <= 0 && !hasPaidTimeLeft;
+  useEffect(() => {
+    if (Platform.OS !== 'web') return;
+
+    if (isOutOfTokens) {
+      windowManager.blockDomains(getAppDomains(apps.filter(isEntertainmentApp)));
+    } else {
+      windowManager.unblockDomains();
+    }
+  }, [isOutOfTokens, apps]);
+
+  return {
+    isConnected,
+    browsingMs,
+  };
+};
+
+export default useBrowserExtension;
@@ -0,0 +1,81 @@
+import { useState, useEffect, useCallback } from 'react';
+import { dbHelpers, walletHelpers } from '../lib/supabase';
+import { getAvailableCredit, getOutstandingDebt } from '../lib/credit';
+import { CreditLine, Loan } from '../lib/types';
+import { useAuth } from '../context/AuthContext';
+import { useWallet } from '../context/WalletContext';
+
+interface UseCreditReturn {
+  creditLine: CreditLine | null;
+  loans: Loan[];
+  debt: number;
+  availableCredit: number;
+  isLoading: boolean;
+  borrow: (amount: number) => Promise<void>;
+  refreshCredit: () => Promise<void>;
+}
+
+/**
+ * Custom hook for the signed-in child's credit line and outstanding loans
+ * Reloads whenever total earnings change, since income repays loans on the server
+ */
+const useCredit = (): UseCreditReturn => {
+  const { profile } = useAuth();
+  const { totalEarned, refreshBalance } = useWallet();
+  const [creditLine, setCreditLine] = useState<CreditLine | null>(null);
+  const [loans, setLoans] = useState<Loan[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  /**
+   * Load the credit line and loans still being repaid
+   */
+  const refreshCredit = useCallback(async () => {
+    if (!profile) return;
+
+    try {
+      setIsLoading(true);
+      const [loadedCreditLine, loadedLoans] = await Promise.all([
+        dbHelpers.getCreditLine(profile.id),
+        dbHelpers.getOutstandingLoans(profile.id),
+      ]);
+
+      setCreditLine(loadedCreditLine);
+      setLoans(loadedLoans);
+    } catch (error) {
+      console.error('Failed to refresh credit:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [profile?.id]);
+
+  // Reload when the profile changes or income may have repaid a loan
+  useEffect(() => {
+    if (profile) {
+      refreshCredit();
+    } else {
+      setCreditLine(null);
+      setLoans([]);
+      setIsLoading(false);
+    }
+  }, [profile?.id, totalEarned, refreshCredit]);
+
+  /**
+   * Borrow tokens, then refresh the wallet and loans
+   */
+  const borrow = useCallback(async (amount: number) => {
+    await walletHelpers.borrow(amount);
+    await Promise.all([refreshCredit(), refreshBalance()]);
+  }, [refreshCredit, refreshBalance]);
+
+  return {
+    creditLine,
+    loans,
+    debt: getOutstandingDebt(loans),
+    availableCredit: getAvailableCredit(creditLine, loans),
+    isLoading,
+    borrow,
+    refreshCredit,
+  };
+};
+
+export default useCredit;
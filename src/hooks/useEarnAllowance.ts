@@ -0,0 +1,93 @@
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { earnHelpers, getEarnAllowance } from '../lib/appClassification';
+import { AppConfig, Transaction } from '../lib/types';
+import { useAuth } from '../context/AuthContext';
+import { useWallet } from '../context/WalletContext';
+
+// How often today's earnings are re-fetched from the server
+const EARNINGS_REFRESH_INTERVAL = 5 * 60 * 1000;
+
+type EarningApp = Pick<AppConfig, 'name' | 'classification' | 'dailyEarnLimit' | 'timezone'>;
+
+interface UseEarnAllowanceReturn {
+  isLoading: boolean;
+  getAllowance: (app: EarningApp, at?: Date) => number;
+  refreshEarnings: () => Promise<void>;
+}
+
+/**
+ * Custom hook for what each Learn & Earn app can still pay the signed-in child today
+ * Earnings combine the server's app earns since the last fetch with earns made in this session,
+ * so the wallet's recent-transaction window never hides part of the day. The server applies the
+ * same limits when it pays; this lets the app show them and stop crediting once they are reached.
+ * getAllowance is stable and always reads the latest earnings, so timers can call it from intervals.
+ */
+const useEarnAllowance = (): UseEarnAllowanceReturn => {
+  const { profile } = useAuth();
+  const { transactions } = useWallet();
+  const [recentEarnings, setRecentEarnings] = useState<Transaction[]>([]);
+  const [loadedAt, setLoadedAt] = useState(0);
+  const [isLoading, setIsLoading] = useState(true);
+  const earningsRef = useRef<Transaction[]>([]);
+
+  /**
+   * Load today's app earnings from the server
+   */
+  const refreshEarnings = useCallback(async () => {
+    if (!profile) return;
+
+    try {
+      setIsLoading(true);
+      setRecentEarnings(await earnHelpers.loadRecentEarnings(profile.id));
+      setLoadedAt(Date.now());
+    } catch (error) {
+      // Offline: keep counting from the last fetch plus this session's earns
+      console.error('Failed to load recent earnings:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [profile?.id]);
+
+  // Reload whenever the signed-in profile changes, then keep earnings fresh
+  useEffect(() => {
+    if (!profile) {
+      setRecentEarnings([]);
+      setLoadedAt(0);
+      setIsLoading(false);
+      return;
+    }
+
+    refreshEarnings();
+    const interval = setInterval(refreshEarnings, EARNINGS_REFRESH_INTERVAL);
+    return () => clearInterval(interval);
+  }, [profile?.id, refreshEarnings]);
+
+  const earnings = useMemo(() => {
+    // Earns recorded after the last fetch are only in the wallet's local list
+    const knownIds = new Set(recentEarnings.map(transaction => transaction.id));
+    const newEarnings = transactions.filter(
+      transaction =>
+        !knownIds.has(transaction.id) && new Date(transaction.timestamp).getTime() >= loadedAt
+    );
+
+    return [...recentEarnings, ...newEarnings];
+  }, [recentEarnings, transactions, loadedAt]);
+
+  earningsRef.current = earnings;
+
+  /**
+   * Tokens an app can still pay out today; 0 for apps that do not earn
+   */
+  const getAllowance = useCallback(
+    (app: EarningApp, at: Date = new Date()) => getEarnAllowance(app, earningsRef.current, at),
+    []
+  );
+
+  return {
+    isLoading,
+    getAllowance,
+    refreshEarnings,
+  };
+};
+
+export default useEarnAllowance;
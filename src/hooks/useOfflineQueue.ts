@@ -1,6 +1,7 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
 import { AppState, AppStateStatus } from 'react-native';
-import { offlineQueueManager, networkHelpers } from '../lib/offlineQueue';
+import { offlineQueueManager, networkHelpers, queueHelpers } from '../lib/offlineQueue';
+import { DeadLetterTransaction, QueuedTransactionType, QuestVerification, SyncResult } from '../lib/types';
 import { useAuth } from '../context/AuthContext';
 
 interface OfflineQueueStatus {
@@ -9,20 +10,28 @@ interface OfflineQueueStatus {
   lastSync: string | null;
   isOnline: boolean;
   isSyncing: boolean;
+  rejectedTransactions: DeadLetterTransaction[];
 }
 
 interface UseOfflineQueueReturn {
   status: OfflineQueueStatus;
   queueTransaction: (
-    type: 'earn' | 'spend',
+    type: QueuedTransactionType,
     amount: number,
     description: string,
     options?: {
       proofImageUrl?: string;
       appName?: string;
+      usageSeconds?: number;
+      sessionId?: string;
+      questTypeId?: string;
+      verifiedBy?: QuestVerification;
+      activeSeconds?: number;
+      clientTxnId?: string;
     }
   ) => Promise<string>;
-  syncNow: () => Promise<{ success: number; failed: number }>;
+  syncNow: () => Promise<SyncResult>;
+  dismissRejected: (transactionId: string) => Promise<void>;
   refreshStatus: () => Promise<void>;
   isInitialized: boolean;
 }
@@ -38,6 +47,7 @@ const useOfflineQueue = (): UseOfflineQueueReturn => {
     lastSync: null,
     isOnline: true,
     isSyncing: false,
+    rejectedTransactions: [],
   });
   const [isInitialized, setIsInitialized] = useState(false);
 
@@ -60,6 +70,7 @@ const useOfflineQueue = (): UseOfflineQueueReturn => {
           unsyncedCount: queueStatus.unsyncedCount,
           lastSync: queueStatus.lastSync,
           isOnline: queueStatus.isOnline,
+          rejectedTransactions: queueStatus.rejectedTransactions,
         }));
       }
     } catch (error) {
@@ -96,12 +107,18 @@ const useOfflineQueue = (): UseOfflineQueueReturn => {
    * Queue a transaction for offline sync
    */
   const queueTransaction = useCallback(async (
-    type: 'earn' | 'spend',
+    type: QueuedTransactionType,
     amount: number,
     description: string,
     options?: {
       proofImageUrl?: string;
       appName?: string;
+      usageSeconds?: number;
+      sessionId?: string;
+      questTypeId?: string;
+      verifiedBy?: QuestVerification;
+      activeSeconds?: number;
+      clientTxnId?: string;
     }
   ): Promise<string> => {
     try {
@@ -133,14 +150,14 @@ const useOfflineQueue = (): UseOfflineQueueReturn => {
   /**
    * Manually trigger synchronization
    */
-  const syncNow = useCallback(async (): Promise<{ success: number; failed: number }> => {
+  const syncNow = useCallback(async (): Promise<SyncResult> => {
     if (!profile?.id) {
       throw new Error('User must be authenticated to sync transactions');
     }
 
     if (status.isSyncing) {
       console.log('Sync already in progress, skipping');
-      return { success: 0, failed: 0 };
+      return { success: 0, failed: 0, rejected: 0 };
     }
 
     try {
@@ -153,7 +170,7 @@ const useOfflineQueue = (): UseOfflineQueueReturn => {
       // Refresh status after sync
       await refreshStatus();
       
-      console.log(`Sync completed: ${results.success} success, ${results.failed} failed`);
+      console.log(`Sync completed: ${results.success} success, ${results.failed} failed, ${results.rejected} rejected`);
       return results;
     } catch (error) {
       console.error('Manual sync failed:', error);
@@ -165,6 +182,14 @@ const useOfflineQueue = (): UseOfflineQueueReturn => {
     }
   }, [profile?.id, status.isSyncing, refreshStatus]);
 
+  /**
+   * Dismiss a rejected transaction after the child has seen it
+   */
+  const dismissRejected = useCallback(async (transactionId: string): Promise<void> => {
+    await queueHelpers.dismissDeadLetter(transactionId);
+    await refreshStatus();
+  }, [refreshStatus]);
+
   /**
    * Handle app state changes for background sync
    */
@@ -273,6 +298,7 @@ const useOfflineQueue = (): UseOfflineQueueReturn => {
     status,
     queueTransaction,
     syncNow,
+    dismissRejected,
     refreshStatus,
     isInitialized,
   };
@@ -0,0 +1,125 @@
+import { useState, useEffect, useCallback } from 'react';
+import { dbHelpers, walletHelpers } from '../lib/supabase';
+import { Reward, RewardRedemption, SavingsGoal } from '../lib/types';
+import { useAuth } from '../context/AuthContext';
+import { useWallet } from '../context/WalletContext';
+
+// Decided requests shown to the child alongside their goals
+const RECENT_REDEMPTION_LIMIT = 5;
+
+interface UseSavingsGoalsReturn {
+  goals: SavingsGoal[];
+  rewards: Reward[];
+  redemptions: RewardRedemption[];
+  isLoading: boolean;
+  startGoal: (rewardId: string) => Promise<void>;
+  deposit: (goalId: string, amount: number) => Promise<void>;
+  withdraw: (goalId: string, amount: number) => Promise<void>;
+  cancelGoal: (goalId: string) => Promise<void>;
+  requestReward: (goalId: string) => Promise<void>;
+  refreshGoals: () => Promise<void>;
+}
+
+/**
+ * Custom hook for the signed-in child's savings goals and the family's reward catalog
+ * Every operation reloads goals, and those that move tokens also refresh the wallet balance
+ */
+const useSavingsGoals = (): UseSavingsGoalsReturn => {
+  const { profile } = useAuth();
+  const { refreshBalance } = useWallet();
+  const [goals, setGoals] = useState<SavingsGoal[]>([]);
+  const [rewards, setRewards] = useState<Reward[]>([]);
+  const [redemptions, setRedemptions] = useState<RewardRedemption[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  /**
+   * Load goals, the reward catalog and recent requests
+   */
+  const refreshGoals = useCallback(async () => {
+    if (!profile) return;
+
+    try {
+      setIsLoading(true);
+      const [loadedGoals, loadedRewards, loadedRedemptions] = await Promise.all([
+        dbHelpers.getSavingsGoals(profile.id),
+        dbHelpers.getRewards(),
+        dbHelpers.getRewardRedemptions(profile.id),
+      ]);
+
+      setGoals(loadedGoals);
+      setRewards(loadedRewards.filter(reward => reward.is_active));
+      setRedemptions(loadedRedemptions.slice(0, RECENT_REDEMPTION_LIMIT));
+    } catch (error) {
+      console.error('Failed to refresh savings goals:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [profile?.id]);
+
+  // Reload whenever the signed-in profile changes
+  useEffect(() => {
+    if (profile) {
+      refreshGoals();
+    } else {
+      setGoals([]);
+      setRewards([]);
+      setRedemptions([]);
+      setIsLoading(false);
+    }
+  }, [profile?.id, refreshGoals]);
+
+  /**
+   * Start saving toward a reward
+   */
+  const startGoal = useCallback(async (rewardId: string) => {
+    await walletHelpers.startGoal(rewardId);
+    await refreshGoals();
+  }, [refreshGoals]);
+
+  /**
+   * Lock tokens from the balance into a goal
+   */
+  const deposit = useCallback(async (goalId: string, amount: number) => {
+    await walletHelpers.depositToGoal(goalId, amount);
+    await Promise.all([refreshGoals(), refreshBalance()]);
+  }, [refreshGoals, refreshBalance]);
+
+  /**
+   * Return saved tokens from a goal to the balance
+   */
+  const withdraw = useCallback(async (goalId: string, amount: number) => {
+    await walletHelpers.withdrawFromGoal(goalId, amount);
+    await Promise.all([refreshGoals(), refreshBalance()]);
+  }, [refreshGoals, refreshBalance]);
+
+  /**
+   * Close a goal and return everything saved in it
+   */
+  const cancelGoal = useCallback(async (goalId: string) => {
+    await walletHelpers.cancelGoal(goalId);
+    await Promise.all([refreshGoals(), refreshBalance()]);
+  }, [refreshGoals, refreshBalance]);
+
+  /**
+   * Ask a parent for a fully saved goal's reward
+   */
+  const requestReward = useCallback(async (goalId: string) => {
+    await walletHelpers.requestRedemption(goalId);
+    await refreshGoals();
+  }, [refreshGoals]);
+
+  return {
+    goals,
+    rewards,
+    redemptions,
+    isLoading,
+    startGoal,
+    deposit,
+    withdraw,
+    cancelGoal,
+    requestReward,
+    refreshGoals,
+  };
+};
+
+export default useSavingsGoals;
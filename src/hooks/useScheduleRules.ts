@@ -0,0 +1,87 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { scheduleHelpers, evaluateSchedule } from '../lib/schedule';
+import { ScheduleRule, ScheduleStatus } from '../lib/types';
+import { useAuth } from '../context/AuthContext';
+
+// How often the displayed status is re-evaluated so curfews start and end on time
+const STATUS_REFRESH_INTERVAL = 30000;
+
+interface UseScheduleRulesReturn {
+  rules: ScheduleRule[];
+  status: ScheduleStatus;
+  isLoading: boolean;
+  evaluateNow: () => ScheduleStatus;
+  getMultiplierAt: (at: number) => number;
+  refreshRules: () => Promise<void>;
+}
+
+/**
+ * Custom hook for the family's time-of-day schedule rules
+ * evaluateNow and getMultiplierAt are stable and always read the latest rules, so the session engine can call them
+ */
+const useScheduleRules = (): UseScheduleRulesReturn => {
+  const { profile } = useAuth();
+  const [rules, setRules] = useState<ScheduleRule[]>([]);
+  const [status, setStatus] = useState<ScheduleStatus>(() => evaluateSchedule([]));
+  const [isLoading, setIsLoading] = useState(true);
+  const rulesRef = useRef<ScheduleRule[]>([]);
+
+  /**
+   * Evaluate the latest rules at the current time
+   */
+  const evaluateNow = useCallback(() => evaluateSchedule(rulesRef.current), []);
+
+  /**
+   * Rate multiplier the latest rules apply at a moment (epoch ms)
+   */
+  const getMultiplierAt = useCallback(
+    (at: number) => evaluateSchedule(rulesRef.current, new Date(at)).multiplier,
+    []
+  );
+
+  /**
+   * Load schedule rules from the server, falling back to the offline cache
+   */
+  const refreshRules = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      const loadedRules = await scheduleHelpers.loadRules();
+      rulesRef.current = loadedRules;
+      setRules(loadedRules);
+      setStatus(evaluateSchedule(loadedRules));
+    } catch (error) {
+      console.error('Failed to refresh schedule rules:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  // Reload rules whenever the signed-in profile changes
+  useEffect(() => {
+    if (profile) {
+      refreshRules();
+    } else {
+      rulesRef.current = [];
+      setRules([]);
+      setStatus(evaluateSchedule([]));
+      setIsLoading(false);
+    }
+  }, [profile?.id, refreshRules]);
+
+  // Keep the status current as windows open and close
+  useEffect(() => {
+    const interval = setInterval(() => setStatus(evaluateNow()), STATUS_REFRESH_INTERVAL);
+    return () => clearInterval(interval);
+  }, [evaluateNow]);
+
+  return {
+    rules,
+    status,
+    isLoading,
+    evaluateNow,
+    getMultiplierAt,
+    refreshRules,
+  };
+};
+
+export default useScheduleRules;
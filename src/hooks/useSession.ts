@@ -0,0 +1,228 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { AppState, AppStateStatus } from 'react-native';
+import {
+  sessionEngine,
+  getRunningMs,
+  getPrepaidRemainingMs,
+  getPendingTokens,
+  hasPaidTimeLeft,
+  getSessionClassification,
+} from '../lib/sessionEngine';
+import { getSessionTimeLeftMs } from '../lib/sessionWarnings';
+import { trustedClock, SERVER_TIME_SYNC_INTERVAL_MS } from '../lib/trustedClock';
+import { AppConfig, UsageSession } from '../lib/types';
+import { walletHelpers } from '../lib/supabase';
+import { useWallet } from '../context/WalletContext';
+import useScheduleRules from './useScheduleRules';
+import useSpendingCaps from './useSpendingCaps';
+import useEarnAllowance from './useEarnAllowance';
+
+// How often a running session is billed and the elapsed time redrawn
+const TICK_INTERVAL = 1000;
+
+interface UseSessionReturn {
+  session: UsageSession | null; // Open session, or the last stopped one
+  isActive: boolean;
+  elapsedMs: number;
+  remainingMs: number | null; // Time left in a prepaid block; null for metered sessions
+  hasPaidTimeLeft: boolean; // The open session is a prepaid block with time left
+  pendingTokens: number; // Used but not yet flushed to the wallet
+  availableBalance: number; // Wallet balance less pending tokens, what the child really has left
+  timeLeftMs: number | null; // Running time before the balance or prepaid block runs out
+  startSession: (
+    app: Pick<AppConfig, 'name' | 'category' | 'classification'>,
+    tokensPerMinute: number, // Earn rate for earning apps
+    prepaidMinutes?: number
+  ) => Promise<UsageSession>;
+  pauseSession: () => Promise<void>;
+  resumeSession: () => Promise<void>;
+  stopSession: () => Promise<UsageSession | null>; // Resolves the ended session
+}
+
+/**
+ * React binding for the shared session engine
+ * Connects the engine to the wallet, schedule rules, spending caps and daily earn limits, restores a session left
+ * running when the app closed, and ticks while a session runs. The trusted clock is synced with
+ * the server before restoring, on returning to the app and every few minutes while running. onSessionEnd is called once
+ * when the engine ends a session (the child pressed stop, a curfew or cap hit, tokens ran out or a
+ * prepaid block was used up).
+ */
+const useSession = (
+  apps: AppConfig[],
+  onSessionEnd?: (session: UsageSession) => void
+): UseSessionReturn => {
+  const { balance, spendTokens, refundTokens, earnAppTime } = useWallet();
+  const { evaluateNow, getMultiplierAt } = useScheduleRules();
+  const { getReachedCap } = useSpendingCaps(apps);
+  const { getAllowance } = useEarnAllowance();
+  const [session, setSession] = useState<UsageSession | null>(() => sessionEngine.getSession());
+  const [now, setNow] = useState(() => trustedClock.now());
+
+  // The engine calls back from timers, so it reads the latest wallet state through refs
+  const balanceRef = useRef(balance);
+  const appsRef = useRef(apps);
+  const spendTokensRef = useRef(spendTokens);
+  const refundTokensRef = useRef(refundTokens);
+  const earnAppTimeRef = useRef(earnAppTime);
+  const onSessionEndRef = useRef(onSessionEnd);
+  const lastStatusRef = useRef(session?.status);
+  balanceRef.current = balance;
+  appsRef.current = apps;
+  spendTokensRef.current = spendTokens;
+  refundTokensRef.current = refundTokens;
+  earnAppTimeRef.current = earnAppTime;
+  onSessionEndRef.current = onSessionEnd;
+
+  // Connect the wallet and rule checks, then pick up any session persisted before a restart
+  useEffect(() => {
+    const disconnect = sessionEngine.setHandlers({
+      open: async (current) => {
+        await walletHelpers.openAppSession(current);
+      },
+      charge: ({ sessionId, amount, description, appName, usageSeconds, clientTxnId }) =>
+        spendTokensRef.current(amount, description, appName, usageSeconds, sessionId, clientTxnId),
+      refund: ({ sessionId, amount, description, appName, usageSeconds }) =>
+        refundTokensRef.current(amount, description, appName, usageSeconds, sessionId),
+      earn: ({ sessionId, amount, description, appName, usageSeconds, activeSeconds }) =>
+        earnAppTimeRef.current(amount, description, appName, usageSeconds, sessionId, activeSeconds),
+      getBalance: () => balanceRef.current,
+      getMultiplier: getMultiplierAt,
+      getStopReason: (current) => {
+        if (evaluateNow().blocked) return 'schedule';
+        // Caps limit spending, so only entertainment apps hit them. A prepaid block already counts
+        // toward today's caps and was sized to fit them at launch.
+        if (
+          getSessionClassification(current) === 'entertainment' &&
+          current.mode !== 'prepaid' &&
+          getReachedCap({ category: current.category })
+        ) return 'cap';
+        return null;
+      },
+      getEarnAllowance: (current, at) => {
+        // The server stops paying for an app taken out of the catalog mid-session
+        const app = appsRef.current.find(candidate => candidate.name === current.appName);
+        return app ? getAllowance(app, new Date(at)) : 0;
+      },
+    });
+
+    // Bill the time spent away on server time; restore goes ahead on the device clock if offline
+    trustedClock.sync()
+      .then(() => sessionEngine.restore())
+      .catch(error => console.error('Failed to restore session:', error));
+
+    return disconnect;
+  }, [evaluateNow, getMultiplierAt, getReachedCap, getAllowance]);
+
+  // Mirror engine changes and report sessions the engine ended
+  useEffect(() => {
+    return sessionEngine.subscribe(next => {
+      const previousStatus = lastStatusRef.current;
+      lastStatusRef.current = next?.status;
+      setSession(next);
+      setNow(trustedClock.now());
+
+      if (next?.status === 'stopped' && previousStatus && previousStatus !== 'stopped') {
+        onSessionEndRef.current?.(next);
+      }
+    });
+  }, []);
+
+  // Bill and redraw every second while running
+  useEffect(() => {
+    if (session?.status !== 'running') return;
+
+    const interval = setInterval(() => {
+      setNow(trustedClock.now());
+      sessionEngine.tick().catch(error => console.error('Session tick failed:', error));
+    }, TICK_INTERVAL);
+
+    return () => clearInterval(interval);
+  }, [session?.status]);
+
+  // Keep trusted time anchored to the server while billing
+  useEffect(() => {
+    if (session?.status !== 'running') return;
+
+    const interval = setInterval(() => {
+      trustedClock.sync();
+    }, SERVER_TIME_SYNC_INTERVAL_MS);
+
+    return () => clearInterval(interval);
+  }, [session?.status]);
+
+  // Catch up as soon as the child returns from the launched app, and flush buffered charges
+  // when leaving for it in case the app is not reopened for a while
+  useEffect(() => {
+    const subscription = AppState.addEventListener('change', (nextAppState: AppStateStatus) => {
+      if (nextAppState === 'active') {
+        trustedClock.sync()
+          .then(() => sessionEngine.tick())
+          .catch(error => console.error('Session tick failed:', error));
+      } else if (nextAppState === 'background') {
+        sessionEngine.flush().catch(error => console.error('Session flush failed:', error));
+      }
+    });
+
+    return () => subscription?.remove();
+  }, []);
+
+  /**
+   * Start billing an app at a rate locked in now, or buy a block of minutes up front
+   * Earning apps credit tokensPerMinute instead and free apps ignore it
+   */
+  const startSession = useCallback(
+    (
+      app: Pick<AppConfig, 'name' | 'category' | 'classification'>,
+      tokensPerMinute: number,
+      prepaidMinutes?: number
+    ) =>
+      sessionEngine.start({
+        appName: app.name,
+        category: app.category,
+        classification: app.classification,
+        tokensPerMinute,
+        prepaidMinutes,
+      }),
+    []
+  );
+
+  /**
+   * Pause billing without ending the session
+   */
+  const pauseSession = useCallback(async () => {
+    await sessionEngine.pause();
+  }, []);
+
+  /**
+   * Resume a paused session
+   */
+  const resumeSession = useCallback(async () => {
+    await sessionEngine.resume();
+  }, []);
+
+  /**
+   * End the session, charging whole tokens owed and refunding unused prepaid time
+   */
+  const stopSession = useCallback(() => sessionEngine.stop('user'), []);
+
+  const pendingTokens = getPendingTokens(session);
+  const availableBalance = Math.max(0, balance - pendingTokens);
+  const at = session ? Math.max(now, session.accruedAt) : now;
+
+  return {
+    session,
+    isActive: !!session && session.status !== 'stopped',
+    elapsedMs: session ? getRunningMs(session, at) : 0,
+    remainingMs: session ? getPrepaidRemainingMs(session, at) : null,
+    hasPaidTimeLeft: hasPaidTimeLeft(session, at),
+    pendingTokens,
+    availableBalance,
+    timeLeftMs: session ? getSessionTimeLeftMs(session, availableBalance, getMultiplierAt(at), at) : null,
+    startSession,
+    pauseSession,
+    resumeSession,
+    stopSession,
+  };
+};
+
+export default useSession;
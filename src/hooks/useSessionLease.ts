@@ -0,0 +1,134 @@
+import { useEffect, useRef, useCallback } from 'react';
+import { RealtimeChannel } from '@supabase/supabase-js';
+import { getSupabaseClient, realtimeHelpers, walletHelpers } from '../lib/supabase';
+import { sessionEngine } from '../lib/sessionEngine';
+import { HEARTBEAT_INTERVAL_MS } from '../lib/appSessions';
+import { networkHelpers } from '../lib/offlineQueue';
+import {
+  LEASE_DURATION_SECONDS,
+  getDeviceId,
+  getDeviceLabel,
+  getLeaseHolder,
+  isLeaseConflict,
+} from '../lib/sessionLease';
+import { UsageSession } from '../lib/types';
+import { useAuth } from '../context/AuthContext';
+
+interface UseSessionLeaseReturn {
+  claimLease: (takeover?: boolean) => Promise<string | null>;
+  releaseLease: () => Promise<void>;
+}
+
+/**
+ * Keeps this device's claim on the child's session lease (lib/sessionLease.ts)
+ * claimLease is called before a session starts and resolves the holder's name when another device
+ * has a live session. While a session is open the lease is renewed every heartbeat; if another
+ * device takes it over (seen via realtime, or when a renewal is refused) the session here is
+ * stopped as 'taken_over'. The lease is released when the session ends, or by releaseLease when a
+ * session fails to start after claiming it.
+ * Offline devices cannot check the lease, so they start anyway and claim it once back online.
+ */
+const useSessionLease = (session: UsageSession | null): UseSessionLeaseReturn => {
+  const { profile } = useAuth();
+  const sessionRef = useRef(session);
+  sessionRef.current = session;
+
+  /**
+   * Claim the lease, or take it from another device; returns who holds it if refused
+   */
+  const claimLease = useCallback(async (takeover: boolean = false): Promise<string | null> => {
+    try {
+      if (!(await networkHelpers.isOnline())) return null;
+
+      const current = sessionRef.current;
+      await walletHelpers.acquireSessionLease(await getDeviceId(), getDeviceLabel(), {
+        clientSessionId: current && current.status !== 'stopped' ? current.id : undefined,
+        takeover,
+        leaseSeconds: LEASE_DURATION_SECONDS,
+      });
+      return null;
+    } catch (error) {
+      if (isLeaseConflict(error)) {
+        return getLeaseHolder(error);
+      }
+
+      // The lease guards against double use but must not block play when the server is unreachable
+      console.error('Failed to claim session lease:', error);
+      return null;
+    }
+  }, []);
+
+  /**
+   * Hand the lease back so another device can start a session
+   */
+  const releaseLease = useCallback(async (): Promise<void> => {
+    try {
+      await walletHelpers.releaseSessionLease(await getDeviceId());
+    } catch (error) {
+      console.error('Failed to release session lease:', error);
+    }
+  }, []);
+
+  /**
+   * Stop the session here because another device took the lease
+   */
+  const stopTakenOver = useCallback(() => {
+    sessionEngine.stop('taken_over').catch(error => console.error('Failed to stop taken-over session:', error));
+  }, []);
+
+  const isOpen = !!session && session.status !== 'stopped';
+  const sessionId = session?.id;
+
+  // Renew while the session is open, starting straight away so the lease names this session
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const renew = async () => {
+      if (await claimLease()) {
+        stopTakenOver();
+      }
+    };
+
+    renew();
+    const interval = setInterval(renew, HEARTBEAT_INTERVAL_MS);
+
+    return () => clearInterval(interval);
+  }, [isOpen, sessionId, claimLease, stopTakenOver]);
+
+  // Stop as soon as another device takes the lease
+  useEffect(() => {
+    if (!isOpen || !profile) return;
+
+    let channel: RealtimeChannel | null = null;
+    let cancelled = false;
+
+    getDeviceId()
+      .then(deviceId => {
+        if (cancelled) return;
+        channel = realtimeHelpers.subscribeToSessionLease(profile.id, lease => {
+          if (lease.device_id !== deviceId) {
+            stopTakenOver();
+          }
+        });
+      })
+      .catch(error => console.error('Failed to watch session lease:', error));
+
+    return () => {
+      cancelled = true;
+      if (channel) {
+        getSupabaseClient().removeChannel(channel);
+      }
+    };
+  }, [isOpen, profile?.id, stopTakenOver]);
+
+  // Hand the lease back once the session here ends on its own
+  useEffect(() => {
+    if (!session || session.status !== 'stopped' || session.stopReason === 'taken_over') return;
+
+    releaseLease();
+  }, [session?.id, session?.status, releaseLease]);
+
+  return { claimLease, releaseLease };
+};
+
+export default useSessionLease;
@@ -0,0 +1,101 @@
+import { useEffect, useRef, useCallback } from 'react';
+import { walletHelpers } from '../lib/supabase';
+import { getRunningMs } from '../lib/sessionEngine';
+import { HEARTBEAT_INTERVAL_MS } from '../lib/appSessions';
+import { trustedClock } from '../lib/trustedClock';
+import { UsageSession } from '../lib/types';
+
+/**
+ * Keeps the server-side record of the current app session (app_sessions) in step with the
+ * session engine: opened when the session starts, sent a heartbeat while it is open and closed
+ * with the engine's stop reason. Failures are logged and retried on the next heartbeat; if the
+ * device stays offline the server closes the record as stale. Clock tampering noticed by the
+ * trusted clock is reported against the open session so parents can see it.
+ */
+const useSessionRecord = (session: UsageSession | null): void => {
+  const sessionRef = useRef(session);
+  const openedIdsRef = useRef<Set<string>>(new Set());
+  const closedIdsRef = useRef<Set<string>>(new Set());
+  sessionRef.current = session;
+
+  const getActiveSeconds = (current: UsageSession) =>
+    Math.floor(getRunningMs(current, Math.max(trustedClock.now(), current.accruedAt)) / 1000);
+
+  /**
+   * Open the record once; opening again after a failure is harmless on the server
+   */
+  const ensureOpen = useCallback(async (current: UsageSession): Promise<boolean> => {
+    if (openedIdsRef.current.has(current.id)) return true;
+
+    try {
+      await walletHelpers.openAppSession(current);
+      openedIdsRef.current.add(current.id);
+      return true;
+    } catch (error) {
+      console.error('Failed to open app session record:', error);
+      return false;
+    }
+  }, []);
+
+  // Open when a session starts and close when the engine ends it
+  useEffect(() => {
+    if (!session) return;
+
+    if (session.status !== 'stopped') {
+      ensureOpen(session);
+      return;
+    }
+
+    if (closedIdsRef.current.has(session.id)) return;
+    closedIdsRef.current.add(session.id);
+
+    const close = async () => {
+      if (!(await ensureOpen(session))) return;
+
+      try {
+        await walletHelpers.closeAppSession(session.id, session.stopReason ?? 'user', getActiveSeconds(session));
+      } catch (error) {
+        console.error('Failed to close app session record:', error);
+      }
+    };
+    close();
+  }, [session?.id, session?.status, ensureOpen]);
+
+  // Heartbeat while the session is open, paused included, so the server does not close it as stale
+  const isOpen = !!session && session.status !== 'stopped';
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const interval = setInterval(async () => {
+      const current = sessionRef.current;
+      if (!current || current.status === 'stopped') return;
+      if (!(await ensureOpen(current))) return;
+
+      try {
+        await walletHelpers.heartbeatAppSession(current.id, getActiveSeconds(current));
+      } catch (error) {
+        console.error('App session heartbeat failed:', error);
+      }
+    }, HEARTBEAT_INTERVAL_MS);
+
+    return () => clearInterval(interval);
+  }, [isOpen, ensureOpen]);
+
+  // Tell parents when the device clock is moved, naming the session it was moved during
+  useEffect(() => {
+    return trustedClock.subscribe(async ({ kind, skewMs }) => {
+      const current = sessionRef.current;
+      const sessionId = current && current.status !== 'stopped' && (await ensureOpen(current))
+        ? current.id
+        : undefined;
+
+      try {
+        await walletHelpers.reportClockEvent(kind, Math.round(skewMs / 1000), sessionId);
+      } catch (error) {
+        console.error('Failed to report clock event:', error);
+      }
+    });
+  }, [ensureOpen]);
+};
+
+export default useSessionRecord;
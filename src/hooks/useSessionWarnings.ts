@@ -0,0 +1,115 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { Platform } from 'react-native';
+import {
+  DEFAULT_WARNING_SETTINGS,
+  WRAP_UP_SECONDS,
+  describeTimeLeft,
+  getCrossedThresholds,
+  isWrappingUp,
+  warningSettingsHelpers,
+} from '../lib/sessionWarnings';
+import { SessionWarningSettings, UsageSession } from '../lib/types';
+
+interface UseSessionWarningsReturn {
+  warning: string | null; // Latest warning for the banner, until dismissed or the session ends
+  wrapUpMs: number | null; // Countdown before the session ends; null outside the wrap-up
+  settings: SessionWarningSettings;
+  dismissWarning: () => void;
+}
+
+/**
+ * Warns the child as a running session nears its end
+ * Each threshold in the child's settings fires once per session as a banner and, when enabled, a
+ * notification; the last WRAP_UP_SECONDS are a countdown. Settings are reloaded whenever a new
+ * session starts, so changes made in SettingsScreen apply from the next session.
+ */
+const useSessionWarnings = (
+  session: UsageSession | null,
+  timeLeftMs: number | null
+): UseSessionWarningsReturn => {
+  const [settings, setSettings] = useState<SessionWarningSettings>(DEFAULT_WARNING_SETTINGS);
+  const [warning, setWarning] = useState<string | null>(null);
+  const warnedRef = useRef<{ sessionId: string | null; thresholds: number[]; wrapUp: boolean }>({
+    sessionId: null,
+    thresholds: [],
+    wrapUp: false,
+  });
+
+  const sessionId = session?.id ?? null;
+  const isRunning = session?.status === 'running';
+
+  // Start each session with fresh settings and nothing warned
+  useEffect(() => {
+    warnedRef.current = { sessionId, thresholds: [], wrapUp: false };
+    setWarning(null);
+    if (!sessionId) return;
+
+    let cancelled = false;
+    warningSettingsHelpers.load().then(loaded => {
+      if (cancelled) return;
+      setSettings(loaded);
+      // Browsers only ask from a tap in SettingsScreen; devices ask once, the first time it matters
+      if (loaded.notify && Platform.OS !== 'web') {
+        warningSettingsHelpers.requestPermission();
+      }
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [sessionId]);
+
+  // Clear the banner once the session ends
+  useEffect(() => {
+    if (session?.status === 'stopped') {
+      setWarning(null);
+    }
+  }, [session?.status]);
+
+  // Warn on each threshold reached, and once as the wrap-up countdown begins
+  useEffect(() => {
+    if (!session || !isRunning || timeLeftMs === null) return;
+    const warned = warnedRef.current;
+
+    if (isWrappingUp(timeLeftMs)) {
+      if (!warned.wrapUp) {
+        warned.wrapUp = true;
+        if (settings.notify) {
+          warningSettingsHelpers.notify(
+            'Time to wrap up',
+            `${session.appName} ends in ${Math.ceil(timeLeftMs / 1000)} seconds. Save your progress!`
+          );
+        }
+      }
+      return;
+    }
+
+    if (!settings.enabled) return;
+
+    const crossed = getCrossedThresholds(timeLeftMs, settings.thresholdMinutes, warned.thresholds);
+    if (crossed.length === 0) return;
+
+    warned.thresholds = [...warned.thresholds, ...crossed];
+    const message = describeTimeLeft(session.appName, timeLeftMs, session.mode === 'prepaid');
+    setWarning(message);
+    if (settings.notify) {
+      warningSettingsHelpers.notify('Screen time running low', message);
+    }
+  }, [session, isRunning, timeLeftMs, settings]);
+
+  /**
+   * Hide the banner; later thresholds still show it again
+   */
+  const dismissWarning = useCallback(() => {
+    setWarning(null);
+  }, []);
+
+  return {
+    warning,
+    wrapUpMs: isRunning && isWrappingUp(timeLeftMs) ? Math.min(timeLeftMs!, WRAP_UP_SECONDS * 1000) : null,
+    settings,
+    dismissWarning,
+  };
+};
+
+export default useSessionWarnings;
@@ -0,0 +1,102 @@
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { capsHelpers, evaluateSpendingCaps, findReachedCap } from '../lib/caps';
+import { AppConfig, SpendingCap, SpendingCapStatus, Transaction } from '../lib/types';
+import { useAuth } from '../context/AuthContext';
+import { useWallet } from '../context/WalletContext';
+
+// How often today's spending is re-fetched from the server
+const SPENDING_REFRESH_INTERVAL = 5 * 60 * 1000;
+
+interface UseSpendingCapsReturn {
+  caps: SpendingCap[];
+  statuses: SpendingCapStatus[];
+  isLoading: boolean;
+  getReachedCap: (app: Pick<AppConfig, 'category'>) => SpendingCapStatus | null;
+  refreshCaps: () => Promise<void>;
+}
+
+/**
+ * Custom hook for the signed-in child's daily spending caps
+ * Usage combines the server's spending since the last fetch with spends made in this
+ * session (including offline ones), so caps apply as soon as tokens are charged.
+ * getReachedCap is stable and always reads the latest usage, so timers can call it from intervals.
+ */
+const useSpendingCaps = (apps: AppConfig[]): UseSpendingCapsReturn => {
+  const { profile } = useAuth();
+  const { transactions } = useWallet();
+  const [caps, setCaps] = useState<SpendingCap[]>([]);
+  const [recentSpending, setRecentSpending] = useState<Transaction[]>([]);
+  const [loadedAt, setLoadedAt] = useState(0);
+  const [isLoading, setIsLoading] = useState(true);
+  const statusesRef = useRef<SpendingCapStatus[]>([]);
+
+  /**
+   * Load caps (with offline fallback) and today's spending from the server
+   */
+  const refreshCaps = useCallback(async () => {
+    if (!profile) return;
+
+    try {
+      setIsLoading(true);
+      setCaps(await capsHelpers.loadCaps(profile.id));
+
+      try {
+        setRecentSpending(await capsHelpers.loadRecentSpending(profile.id));
+        setLoadedAt(Date.now());
+      } catch (error) {
+        // Offline: keep counting from the last fetch plus this session's spends
+        console.error('Failed to load recent spending for caps:', error);
+      }
+    } catch (error) {
+      console.error('Failed to refresh spending caps:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [profile?.id]);
+
+  // Reload caps whenever the signed-in profile changes, then keep spending fresh
+  useEffect(() => {
+    if (!profile) {
+      setCaps([]);
+      setRecentSpending([]);
+      setLoadedAt(0);
+      setIsLoading(false);
+      return;
+    }
+
+    refreshCaps();
+    const interval = setInterval(refreshCaps, SPENDING_REFRESH_INTERVAL);
+    return () => clearInterval(interval);
+  }, [profile?.id, refreshCaps]);
+
+  const statuses = useMemo(() => {
+    // Spends recorded after the last fetch are only in the wallet's local list
+    const knownIds = new Set(recentSpending.map(transaction => transaction.id));
+    const newSpending = transactions.filter(
+      transaction =>
+        !knownIds.has(transaction.id) && new Date(transaction.timestamp).getTime() >= loadedAt
+    );
+
+    return evaluateSpendingCaps(caps, [...recentSpending, ...newSpending], apps);
+  }, [caps, recentSpending, transactions, loadedAt, apps]);
+
+  statusesRef.current = statuses;
+
+  /**
+   * Find a reached cap that stops an app from being used, if any
+   */
+  const getReachedCap = useCallback(
+    (app: Pick<AppConfig, 'category'>) => findReachedCap(statusesRef.current, app),
+    []
+  );
+
+  return {
+    caps,
+    statuses,
+    isLoading,
+    getReachedCap,
+    refreshCaps,
+  };
+};
+
+export default useSpendingCaps;
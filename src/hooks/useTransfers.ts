@@ -0,0 +1,86 @@
+import { useState, useEffect, useCallback } from 'react';
+import { dbHelpers, walletHelpers } from '../lib/supabase';
+import { FamilyMember, TokenTransfer, TransferResult, TransferSettings } from '../lib/types';
+import { useAuth } from '../context/AuthContext';
+import { useWallet } from '../context/WalletContext';
+
+// Sent and received transfers shown alongside the send form
+const RECENT_TRANSFER_LIMIT = 10;
+
+interface UseTransfersReturn {
+  members: FamilyMember[];
+  transfers: TokenTransfer[];
+  settings: TransferSettings | null;
+  isLoading: boolean;
+  send: (toUserId: string, amount: number, note?: string) => Promise<TransferResult>;
+  refreshTransfers: () => Promise<void>;
+}
+
+/**
+ * Custom hook for sending tokens to family members
+ * Loads who the signed-in user can send to, their recent transfers and any approval rule
+ */
+const useTransfers = (): UseTransfersReturn => {
+  const { profile } = useAuth();
+  const { refreshBalance } = useWallet();
+  const [members, setMembers] = useState<FamilyMember[]>([]);
+  const [transfers, setTransfers] = useState<TokenTransfer[]>([]);
+  const [settings, setSettings] = useState<TransferSettings | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  /**
+   * Load family members, recent transfers and the approval rule
+   */
+  const refreshTransfers = useCallback(async () => {
+    if (!profile) return;
+
+    try {
+      setIsLoading(true);
+      const [loadedMembers, loadedTransfers, loadedSettings] = await Promise.all([
+        walletHelpers.getFamilyMembers(),
+        dbHelpers.getTokenTransfers(profile.id),
+        dbHelpers.getTransferSettings(profile.id),
+      ]);
+
+      setMembers(loadedMembers);
+      setTransfers(loadedTransfers.slice(0, RECENT_TRANSFER_LIMIT));
+      setSettings(loadedSettings);
+    } catch (error) {
+      console.error('Failed to refresh transfers:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [profile?.id]);
+
+  // Reload whenever the signed-in profile changes
+  useEffect(() => {
+    if (profile) {
+      refreshTransfers();
+    } else {
+      setMembers([]);
+      setTransfers([]);
+      setSettings(null);
+      setIsLoading(false);
+    }
+  }, [profile?.id, refreshTransfers]);
+
+  /**
+   * Send tokens, then refresh the wallet and transfer list
+   */
+  const send = useCallback(async (toUserId: string, amount: number, note?: string) => {
+    const result = await walletHelpers.transfer(toUserId, amount, note);
+    await Promise.all([refreshTransfers(), refreshBalance()]);
+    return result;
+  }, [refreshTransfers, refreshBalance]);
+
+  return {
+    members,
+    transfers,
+    settings,
+    isLoading,
+    send,
+    refreshTransfers,
+  };
+};
+
+export default useTransfers;
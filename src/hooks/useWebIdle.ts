@@ -0,0 +1,155 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { Platform } from 'react-native';
+import { sessionEngine } from '../lib/sessionEngine';
+import { warningSettingsHelpers } from '../lib/sessionWarnings';
+import {
+  DEFAULT_WEB_IDLE_SETTINGS,
+  STILL_WATCHING_GRACE_SECONDS,
+  getWindowIdleAction,
+  isStillWatchingDue,
+  webIdleSettingsHelpers,
+} from '../lib/webIdle';
+import { windowManager } from '../lib/windowManager';
+import { UsageSession, WebIdlePauseReason, WebIdleSettings } from '../lib/types';
+
+// How often a running session checks whether to ask "Still watching?"
+const CHECK_INTERVAL = 1000;
+
+interface UseWebIdleReturn {
+  pauseReason: WebIdlePauseReason | null; // Why the session is paused, when the child did not pause it
+  stillWatchingDeadline: number | null; // When an unanswered "Still watching?" pauses the session
+  settings: WebIdleSettings;
+  confirmStillWatching: () => void;
+}
+
+/**
+ * Stops billing a web session nobody is using
+ * Follows the session's app window (lib/windowManager.ts): the session pauses while the window is
+ * in the background and resumes when the child goes back, if the settings allow. After the set
+ * number of running minutes it asks "Still watching?" and pauses if nobody answers. Does nothing
+ * on native, where apps do not open in managed windows.
+ */
+const useWebIdle = (session: UsageSession | null): UseWebIdleReturn => {
+  const [settings, setSettings] = useState<WebIdleSettings>(DEFAULT_WEB_IDLE_SETTINGS);
+  const [pauseReason, setPauseReason] = useState<WebIdlePauseReason | null>(null);
+  const [stillWatchingDeadline, setStillWatchingDeadline] = useState<number | null>(null);
+  const confirmedAtRef = useRef(Date.now());
+
+  // Window events arrive from outside React, so they read the latest state through refs
+  const settingsRef = useRef(settings);
+  const pauseReasonRef = useRef(pauseReason);
+  const deadlineRef = useRef(stillWatchingDeadline);
+  settingsRef.current = settings;
+  pauseReasonRef.current = pauseReason;
+  deadlineRef.current = stillWatchingDeadline;
+
+  const isWeb = Platform.OS === 'web';
+  const sessionId = session?.id ?? null;
+  const status = session?.status;
+
+  // Start each session with fresh settings
+  useEffect(() => {
+    if (!isWeb || !sessionId) return;
+
+    let cancelled = false;
+    webIdleSettingsHelpers.load().then(loaded => {
+      if (!cancelled) setSettings(loaded);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isWeb, sessionId]);
+
+  // Running again counts as the child being there; anything but an idle pause clears its reason
+  useEffect(() => {
+    if (status === 'running') {
+      confirmedAtRef.current = Date.now();
+    }
+    if (status !== 'paused') {
+      setPauseReason(null);
+    }
+    if (status !== 'running') {
+      setStillWatchingDeadline(null);
+    }
+  }, [sessionId, status]);
+
+  /**
+   * Pause the session for the child, remembering why so only an 'away' pause resumes itself
+   */
+  const pauseForIdle = useCallback(async (reason: WebIdlePauseReason) => {
+    const current = sessionEngine.getSession();
+    if (current?.id !== sessionId || current.status !== 'running') return;
+
+    setPauseReason(reason);
+    try {
+      await sessionEngine.pause();
+    } catch (error) {
+      console.error('Failed to pause idle session:', error);
+    }
+  }, [sessionId]);
+
+  // Follow this session's app window
+  useEffect(() => {
+    if (!isWeb || !sessionId) return;
+
+    return windowManager.subscribe(sessionId, event => {
+      if (event.type === 'focused') {
+        confirmedAtRef.current = Date.now();
+      }
+
+      const action = getWindowIdleAction(
+        event.type,
+        settingsRef.current,
+        sessionEngine.getSession()?.status,
+        pauseReasonRef.current
+      );
+      if (action === 'pause') {
+        pauseForIdle('away');
+      } else if (action === 'resume') {
+        sessionEngine.resume().catch(error => console.error('Failed to resume session:', error));
+      }
+    });
+  }, [isWeb, sessionId, pauseForIdle]);
+
+  // Ask "Still watching?" once due, and pause when the answer does not come in time
+  useEffect(() => {
+    if (!isWeb || status !== 'running' || settings.stillWatchingMinutes <= 0) return;
+
+    const interval = setInterval(() => {
+      const now = Date.now();
+
+      if (deadlineRef.current === null) {
+        if (isStillWatchingDue(confirmedAtRef.current, now, settings.stillWatchingMinutes)) {
+          setStillWatchingDeadline(now + STILL_WATCHING_GRACE_SECONDS * 1000);
+          warningSettingsHelpers.notify(
+            'Still watching?',
+            `Go back to the Attention Wallet within ${STILL_WATCHING_GRACE_SECONDS} seconds or your session pauses.`
+          );
+        }
+      } else if (now >= deadlineRef.current) {
+        setStillWatchingDeadline(null);
+        pauseForIdle('no_answer');
+      }
+    }, CHECK_INTERVAL);
+
+    return () => clearInterval(interval);
+  }, [isWeb, status, settings.stillWatchingMinutes, pauseForIdle]);
+
+  /**
+   * The child answered "Still watching?"; count again from now
+   */
+  const confirmStillWatching = useCallback(() => {
+    confirmedAtRef.current = Date.now();
+    setStillWatchingDeadline(null);
+  }, []);
+
+  return {
+    pauseReason,
+    stillWatchingDeadline,
+    settings,
+    confirmStillWatching,
+  };
+};
+
+export default useWebIdle;
@@ -0,0 +1,135 @@
+/**
+ * App Catalog Tests
+ * Verify that the family's catalog becomes the launcher's app list, with offline fallback
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { buildAppList, catalogHelpers, getAppCategories, toAppConfig } from '../appCatalog';
+import { ENTERTAINMENT_APPS } from '../config';
+import { dbHelpers } from '../supabase';
+import { CatalogApp } from '../types';
+
+jest.mock('../supabase', () => ({
+  dbHelpers: {
+    getCatalogApps: jest.fn(),
+  },
+}));
+
+const catalogApp = (overrides: Partial<CatalogApp>): CatalogApp => ({
+  id: 'app-1',
+  parent_id: 'parent-1',
+  name: 'Minecraft',
+  icon: '⛏️',
+  package_name: 'com.mojang.minecraftpe',
+  deep_link: 'minecraft://',
+  web_url: null,
+  category: 'Gaming',
+  classification: 'entertainment',
+  tokens_per_minute: null,
+  is_enabled: true,
+  ...overrides,
+});
+
+describe('App Catalog', () => {
+  describe('buildAppList', () => {
+    it('should use the built-in apps when the family has no catalog', () => {
+      expect(buildAppList([])).toBe(ENTERTAINMENT_APPS);
+    });
+
+    it('should turn catalog rows into launchable apps', () => {
+      expect(buildAppList([catalogApp({ tokens_per_minute: 7 })])).toEqual([{
+        name: 'Minecraft',
+        icon: '⛏️',
+        packageName: 'com.mojang.minecraftpe',
+        deepLink: 'minecraft://',
+        webUrl: undefined,
+        category: 'Gaming',
+        classification: 'entertainment',
+        tokensPerMinute: 7,
+        dailyEarnLimit: undefined,
+        timezone: 'UTC',
+      }]);
+    });
+
+    it('should hide apps a parent turned off', () => {
+      const apps = buildAppList([
+        catalogApp({ id: 'app-1', name: 'Minecraft' }),
+        catalogApp({ id: 'app-2', name: 'TikTok', category: 'Social', is_enabled: false }),
+      ]);
+
+      expect(apps.map(app => app.name)).toEqual(['Minecraft']);
+    });
+
+    it('should merge an app listed by several linked parents', () => {
+      const apps = buildAppList([
+        catalogApp({ id: 'app-1', parent_id: 'parent-1', tokens_per_minute: 4 }),
+        catalogApp({ id: 'app-2', parent_id: 'parent-2', name: 'minecraft ', tokens_per_minute: 9 }),
+        catalogApp({ id: 'app-3', parent_id: 'parent-2', name: 'Roblox', is_enabled: false }),
+        catalogApp({ id: 'app-4', parent_id: 'parent-1', name: 'Roblox' }),
+      ]);
+
+      expect(apps).toHaveLength(1);
+      expect(apps[0]).toMatchObject({ name: 'Minecraft', tokensPerMinute: 9 });
+    });
+
+    it('should keep the strictest settings for a Learn & Earn app listed by several parents', () => {
+      const duolingo = { name: 'Duolingo', category: 'Learning', classification: 'earning' as const };
+      const apps = buildAppList([
+        catalogApp({
+          id: 'app-1', parent_id: 'parent-1', ...duolingo, tokens_per_minute: 3, daily_earn_limit: 20, timezone: 'Europe/London',
+        }),
+        catalogApp({
+          id: 'app-2', parent_id: 'parent-2', ...duolingo, tokens_per_minute: 1, daily_earn_limit: 60, timezone: 'America/New_York',
+        }),
+        catalogApp({ id: 'app-3', parent_id: 'parent-1', name: 'Khan Academy', category: 'Learning', classification: 'free' }),
+        catalogApp({ id: 'app-4', parent_id: 'parent-2', name: 'Khan Academy', category: 'Learning', classification: 'earning' }),
+      ]);
+
+      expect(apps.find(app => app.name === 'Duolingo')).toMatchObject({
+        classification: 'earning',
+        tokensPerMinute: 1,
+        dailyEarnLimit: 20,
+        timezone: 'America/New_York',
+      });
+      expect(apps.find(app => app.name === 'Khan Academy')?.classification).toBe('free');
+    });
+  });
+
+  it('should list each category once', () => {
+    const apps = [
+      toAppConfig(catalogApp({ name: 'Minecraft' })),
+      toAppConfig(catalogApp({ name: 'Spotify', category: 'Music' })),
+      toAppConfig(catalogApp({ name: 'Roblox' })),
+    ];
+
+    expect(getAppCategories(apps)).toEqual(['Gaming', 'Music']);
+  });
+
+  describe('catalogHelpers', () => {
+    let storage: Record<string, string>;
+
+    beforeEach(() => {
+      storage = {};
+      (AsyncStorage.getItem as jest.Mock).mockImplementation((key: string) => Promise.resolve(storage[key] ?? null));
+      (AsyncStorage.setItem as jest.Mock).mockImplementation((key: string, value: string) => {
+        storage[key] = value;
+        return Promise.resolve();
+      });
+      (dbHelpers.getCatalogApps as jest.Mock).mockReset();
+      jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('should fall back to the last loaded catalog when offline', async () => {
+      const apps = [catalogApp({})];
+      (dbHelpers.getCatalogApps as jest.Mock).mockResolvedValueOnce(apps);
+      expect(await catalogHelpers.loadApps()).toEqual(apps);
+
+      (dbHelpers.getCatalogApps as jest.Mock).mockRejectedValueOnce(new Error('Network request failed'));
+      expect(await catalogHelpers.loadApps()).toEqual(apps);
+    });
+  });
+});
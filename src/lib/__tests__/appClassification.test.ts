@@ -0,0 +1,93 @@
+/**
+ * App Classification Tests
+ * Verify which apps cost tokens and how much an earning app can still pay out today
+ */
+
+import {
+  earnHelpers,
+  getAppClassification,
+  getEarnAllowance,
+  getEarnedToday,
+  isEntertainmentApp,
+} from '../appClassification';
+import { dbHelpers } from '../supabase';
+import { AppConfig, Transaction } from '../types';
+
+jest.mock('../supabase', () => ({
+  dbHelpers: {
+    getAppEarningsSince: jest.fn(),
+  },
+}));
+
+const NOON = new Date(Date.UTC(2026, 0, 5, 12, 0, 0));
+
+const duolingo: AppConfig = {
+  name: 'Duolingo',
+  category: 'Learning',
+  classification: 'earning',
+  dailyEarnLimit: 10,
+};
+
+const transaction = (overrides: Partial<Transaction>): Transaction => ({
+  id: 'txn-1',
+  user_id: 'child-1',
+  amount: 4,
+  type: 'earn',
+  description: 'Duolingo learning (240s)',
+  app_name: 'Duolingo',
+  timestamp: new Date(Date.UTC(2026, 0, 5, 9, 0, 0)).toISOString(),
+  ...overrides,
+});
+
+describe('App Classification', () => {
+  it('should treat apps without a classification as entertainment', () => {
+    expect(getAppClassification({})).toBe('entertainment');
+    expect(isEntertainmentApp({})).toBe(true);
+    expect(isEntertainmentApp(duolingo)).toBe(false);
+  });
+
+  it('should count only what the app paid since midnight', () => {
+    const transactions = [
+      transaction({ id: 'txn-1' }),
+      transaction({ id: 'txn-2', app_name: 'duolingo ', amount: 2 }),
+      transaction({ id: 'txn-3', timestamp: new Date(Date.UTC(2026, 0, 4, 20, 0, 0)).toISOString() }),
+      transaction({ id: 'txn-4', app_name: 'Khan Academy' }),
+      transaction({ id: 'txn-5', type: 'spend', app_name: 'Duolingo' }),
+    ];
+
+    expect(getEarnedToday(duolingo, transactions, NOON)).toBe(6);
+  });
+
+  it('should start the day at midnight in the app\'s timezone', () => {
+    // 20:00 UTC on the 4th is still the 4th in UTC but already the 5th in Tokyo
+    const transactions = [
+      transaction({ id: 'txn-1' }),
+      transaction({ id: 'txn-2', amount: 2, timestamp: new Date(Date.UTC(2026, 0, 4, 20, 0, 0)).toISOString() }),
+    ];
+
+    expect(getEarnedToday({ ...duolingo, timezone: 'Asia/Tokyo' }, transactions, NOON)).toBe(6);
+    expect(getEarnedToday(duolingo, transactions, NOON)).toBe(4);
+  });
+
+  it('should load the last 24 hours of app earnings', async () => {
+    (dbHelpers.getAppEarningsSince as jest.Mock).mockResolvedValueOnce([]);
+    await earnHelpers.loadRecentEarnings('child-1', NOON);
+
+    expect(dbHelpers.getAppEarningsSince).toHaveBeenCalledWith('child-1', '2026-01-04T12:00:00.000Z');
+  });
+
+  describe('getEarnAllowance', () => {
+    it('should leave what is left of the daily earn limit', () => {
+      expect(getEarnAllowance(duolingo, [transaction({ amount: 7 })], NOON)).toBe(3);
+      expect(getEarnAllowance(duolingo, [transaction({ amount: 12 })], NOON)).toBe(0);
+    });
+
+    it('should use the default limit when the family did not set one', () => {
+      expect(getEarnAllowance({ name: 'Duolingo', classification: 'earning' }, [], NOON)).toBe(30);
+    });
+
+    it('should never pay for apps that do not earn', () => {
+      expect(getEarnAllowance({ ...duolingo, classification: 'free' }, [], NOON)).toBe(0);
+    });
+  });
+});
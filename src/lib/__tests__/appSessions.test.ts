@@ -0,0 +1,103 @@
+/**
+ * App Session Record Tests
+ * Verify session durations and summaries shown to parents
+ */
+
+import {
+  describeAppSession,
+  formatSessionDuration,
+  getAppSessionDuration,
+  isAppSessionLive,
+} from '../appSessions';
+import { AppSession } from '../types';
+
+const START = Date.UTC(2026, 0, 5, 16, 0, 0);
+const at = (seconds: number) => new Date(START + seconds * 1000).toISOString();
+
+const appSession = (overrides: Partial<AppSession>): AppSession => ({
+  id: 'session-1',
+  child_id: 'child-1',
+  client_session_id: 'offline_1',
+  app_name: 'YouTube',
+  category: 'Entertainment',
+  tokens_per_minute: 5,
+  started_at: at(0),
+  last_heartbeat_at: at(0),
+  ended_at: null,
+  active_seconds: 0,
+  tokens_charged: 0,
+  end_reason: null,
+  ...overrides,
+});
+
+describe('App Session Records', () => {
+  describe('isAppSessionLive', () => {
+    it('should treat an open session with a recent heartbeat as live', () => {
+      const session = appSession({ last_heartbeat_at: at(600) });
+
+      expect(isAppSessionLive(session, START + 630 * 1000)).toBe(true);
+      expect(isAppSessionLive(session, START + 900 * 1000)).toBe(false);
+    });
+
+    it('should never treat a closed session as live', () => {
+      const session = appSession({ last_heartbeat_at: at(60), ended_at: at(60), end_reason: 'user' });
+
+      expect(isAppSessionLive(session, START + 60 * 1000)).toBe(false);
+    });
+  });
+
+  describe('getAppSessionDuration', () => {
+    it('should measure a closed session from start to end', () => {
+      const session = appSession({ ended_at: at(750), end_reason: 'user', last_heartbeat_at: at(720) });
+
+      expect(getAppSessionDuration(session)).toBe(750);
+    });
+
+    it('should measure a live session up to now', () => {
+      const session = appSession({ last_heartbeat_at: at(300) });
+
+      expect(getAppSessionDuration(session, START + 320 * 1000)).toBe(320);
+    });
+
+    it('should stop counting at the last heartbeat once the session goes quiet', () => {
+      const session = appSession({ last_heartbeat_at: at(300) });
+
+      expect(getAppSessionDuration(session, START + 3600 * 1000)).toBe(300);
+    });
+  });
+
+  describe('describeAppSession', () => {
+    it('should summarize duration, pauses, cost and why it ended', () => {
+      const session = appSession({
+        ended_at: at(900),
+        end_reason: 'insufficient_balance',
+        active_seconds: 600,
+        tokens_charged: 50,
+      });
+
+      expect(describeAppSession(session)).toBe('15m 0s (5m 0s paused) · 50 tokens · Ran out of tokens');
+    });
+
+    it('should show a session closed for missing heartbeats as lost contact', () => {
+      const session = appSession({ ended_at: at(45), end_reason: 'stale', active_seconds: 45, tokens_charged: 3 });
+
+      expect(describeAppSession(session)).toBe('45s · 3 tokens · Lost contact');
+    });
+
+    it('should show what a Learn & Earn session paid the child', () => {
+      const session = appSession({
+        classification: 'earning',
+        ended_at: at(600),
+        end_reason: 'user',
+        active_seconds: 600,
+        tokens_earned: 10,
+      });
+
+      expect(describeAppSession(session)).toBe('10m 0s · +10 tokens earned · Stopped');
+    });
+  });
+
+  it('should format long sessions in hours and minutes', () => {
+    expect(formatSessionDuration(3900)).toBe('1h 5m');
+  });
+});
@@ -0,0 +1,136 @@
+/**
+ * Browser Extension Tests
+ * Verify the companion extension protocol against the mock extension
+ */
+
+import { EXTENSION_PING_INTERVAL_MS, ExtensionBridge, ExtensionEvent } from '../browserExtension';
+import {
+  getAppDomains,
+  getDomain,
+  matchAppForDomain,
+  parseExtensionMessage,
+} from '../extensionProtocol';
+import { MockExtension } from '../mockExtension';
+import { AppConfig } from '../types';
+
+const apps: AppConfig[] = [
+  { name: 'YouTube', webUrl: 'https://youtube.com', category: 'video' },
+  { name: 'Spotify', webUrl: 'https://open.spotify.com', category: 'music' },
+  { name: 'Minecraft', category: 'games' },
+];
+
+/**
+ * Bridge connected to a mock extension, with a clock the test moves
+ */
+const connect = () => {
+  const clock = { now: 0 };
+  const extension = new MockExtension();
+  const bridge = new ExtensionBridge(extension.getTransport(), { apps, now: () => clock.now });
+  const events: ExtensionEvent[] = [];
+  bridge.subscribe(event => events.push(event));
+  bridge.connect();
+
+  return { clock, extension, bridge, events };
+};
+
+describe('Browser Extension', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe('extensionProtocol', () => {
+    it('should read the site of an app URL', () => {
+      expect(getDomain('https://www.YouTube.com/watch?v=1')).toBe('youtube.com');
+      expect(getDomain('https://open.spotify.com:443/track')).toBe('open.spotify.com');
+      expect(getDomain('not a url')).toBeNull();
+    });
+
+    it('should attribute subdomains to the app that owns the site', () => {
+      expect(matchAppForDomain('m.youtube.com', apps)?.name).toBe('YouTube');
+      expect(matchAppForDomain('spotify.com', apps)).toBeNull();
+      expect(matchAppForDomain('notyoutube.com', apps)).toBeNull();
+    });
+
+    it('should list the sites of apps that have one', () => {
+      expect(getAppDomains(apps)).toEqual(['youtube.com', 'open.spotify.com']);
+    });
+
+    it('should ignore messages that are not from the extension', () => {
+      expect(parseExtensionMessage({ source: 'aether-wallet', protocolVersion: 1, message: { type: 'pong' } })).toBeNull();
+      expect(parseExtensionMessage({ source: 'aether-extension', protocolVersion: 2, message: { type: 'pong' } })).toBeNull();
+      expect(parseExtensionMessage({ source: 'aether-extension', protocolVersion: 1, message: { type: 'tab_activity', domain: 7 } })).toBeNull();
+      expect(parseExtensionMessage('hello')).toBeNull();
+    });
+  });
+
+  describe('ExtensionBridge', () => {
+    it('should connect once the extension answers hello', () => {
+      const { bridge, events } = connect();
+
+      expect(bridge.isConnected()).toBe(true);
+      expect(events).toEqual([{ type: 'connected', extensionVersion: 'mock-1.0.0' }]);
+    });
+
+    it('should block sites and hear about attempts to open them', () => {
+      const { bridge, extension, events } = connect();
+
+      bridge.setBlockedDomains(['youtube.com']);
+      extension.visit('www.youtube.com');
+
+      expect(extension.getBlockedDomains()).toEqual(['youtube.com']);
+      expect(extension.getActiveDomain()).toBeNull();
+      expect(events).toContainEqual({ type: 'blocked_attempt', domain: 'youtube.com', appName: 'YouTube' });
+    });
+
+    it('should close a blocked site that is already open', () => {
+      const { bridge, extension } = connect();
+      extension.visit('youtube.com');
+
+      bridge.setBlockedDomains(['youtube.com']);
+
+      expect(extension.getActiveDomain()).toBeNull();
+    });
+
+    it('should send the blocklist again when the extension reloads', () => {
+      const { bridge, extension } = connect();
+      bridge.setBlockedDomains(['youtube.com']);
+
+      extension.reload();
+
+      expect(extension.getBlockedDomains()).toEqual(['youtube.com']);
+      bridge.disconnect();
+    });
+
+    it('should add up how long each app site is the active tab', () => {
+      const { clock, extension, bridge } = connect();
+
+      extension.visit('youtube.com');
+      clock.now += 5 * 60000;
+      extension.visit('open.spotify.com');
+      clock.now += 60000;
+      extension.visit('example.com');
+      clock.now += 60000;
+      extension.visit('m.youtube.com');
+      clock.now += 30000;
+
+      expect(bridge.getBrowsingTime()).toEqual({ YouTube: 5.5 * 60000, Spotify: 60000 });
+      bridge.disconnect();
+    });
+
+    it('should notice an extension that stops answering', () => {
+      const { clock, extension, bridge, events } = connect();
+
+      extension.goSilent();
+      clock.now += 3 * EXTENSION_PING_INTERVAL_MS;
+      jest.advanceTimersByTime(3 * EXTENSION_PING_INTERVAL_MS);
+
+      expect(bridge.isConnected()).toBe(false);
+      expect(events.map(event => event.type)).toEqual(['connected', 'disconnected']);
+      bridge.disconnect();
+    });
+  });
+});
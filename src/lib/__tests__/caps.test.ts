@@ -0,0 +1,183 @@
+/**
+ * Spending Cap Tests
+ * Verify that today's usage is measured from the ledger per cap, category and timezone
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  capsHelpers,
+  evaluateSpendingCaps,
+  findReachedCap,
+  getCapStatus,
+  getDayStart,
+  getRemainingCapMinutes,
+} from '../caps';
+import { dbHelpers } from '../supabase';
+import { AppConfig, SpendingCap, Transaction } from '../types';
+
+jest.mock('../supabase', () => ({
+  dbHelpers: {
+    getSpendingCaps: jest.fn(),
+    getSpendingSince: jest.fn(),
+  },
+}));
+
+const apps: AppConfig[] = [
+  { name: 'YouTube', icon: '📺', category: 'Video' },
+  { name: 'TikTok', icon: '🎭', category: 'Social' },
+  { name: 'Instagram', icon: '📸', category: 'Social' },
+];
+
+const cap = (overrides: Partial<SpendingCap>): SpendingCap => ({
+  id: 'cap-1',
+  child_id: 'child-1',
+  scope: 'total',
+  category: null,
+  unit: 'tokens',
+  daily_limit: 150,
+  timezone: 'UTC',
+  is_active: true,
+  ...overrides,
+});
+
+let nextId = 0;
+const spend = (timestamp: string, amount: number, appName?: string, usageSeconds?: number): Transaction => ({
+  id: `txn-${nextId++}`,
+  user_id: 'child-1',
+  amount,
+  type: 'spend',
+  description: `${appName} usage`,
+  app_name: appName,
+  usage_seconds: usageSeconds,
+  timestamp: `2024-01-01T${timestamp}Z`,
+});
+
+const now = new Date('2024-01-01T18:00:00Z');
+
+describe('Spending Caps', () => {
+  describe('getDayStart', () => {
+    it('should start the day at local midnight in the cap timezone', () => {
+      expect(getDayStart('UTC', now).toISOString()).toBe('2024-01-01T00:00:00.000Z');
+      // 18:00 UTC is 13:00 in New York, whose midnight was 05:00 UTC
+      expect(getDayStart('America/New_York', now).toISOString()).toBe('2024-01-01T05:00:00.000Z');
+    });
+  });
+
+  describe('getCapStatus', () => {
+    it('should count only today\'s spends, less refunds, against a total token cap', () => {
+      const transactions = [
+        spend('17:00:00', 100, 'YouTube'),
+        spend('16:00:00', 40, 'TikTok'),
+        { ...spend('16:30:00', 10), type: 'refund' as const },
+        { ...spend('12:00:00', 500, 'YouTube'), timestamp: '2023-12-31T23:00:00Z' },
+      ];
+
+      expect(getCapStatus(cap({}), transactions, apps, now)).toMatchObject({
+        used: 130,
+        remaining: 20,
+        reached: false,
+      });
+    });
+
+    it('should give back tokens and minutes of unused prepaid time to the app\'s caps', () => {
+      const transactions = [
+        spend('16:00:00', 150, 'TikTok', 1800),
+        { ...spend('16:10:00', 100, 'TikTok', 1200), type: 'refund' as const },
+      ];
+      const socialMinutes = cap({ scope: 'category', category: 'Social', unit: 'minutes', daily_limit: 30 });
+
+      expect(getCapStatus(socialMinutes, transactions, apps, now)).toMatchObject({ used: 10, reached: false });
+      expect(getCapStatus(cap({}), transactions, apps, now)).toMatchObject({ used: 50 });
+    });
+
+    it('should count minutes of apps in the capped category only', () => {
+      const socialMinutes = cap({ scope: 'category', category: 'social', unit: 'minutes', daily_limit: 60 });
+      const transactions = [
+        spend('10:00:00', 150, 'TikTok', 1800),
+        spend('11:00:00', 150, 'instagram', 1800),
+        spend('12:00:00', 150, 'YouTube', 1800),
+      ];
+
+      expect(getCapStatus(socialMinutes, transactions, apps, now)).toMatchObject({
+        used: 60,
+        remaining: 0,
+        reached: true,
+      });
+    });
+
+    it('should use the cap timezone to decide which spends are today\'s', () => {
+      // 03:00 UTC is still yesterday evening in New York
+      const transactions = [spend('03:00:00', 100, 'YouTube'), spend('17:00:00', 20, 'YouTube')];
+
+      expect(getCapStatus(cap({ timezone: 'America/New_York' }), transactions, apps, now).used).toBe(20);
+    });
+  });
+
+  describe('findReachedCap', () => {
+    it('should only block apps the reached cap applies to', () => {
+      const statuses = evaluateSpendingCaps(
+        [
+          cap({ id: 'cap-1', daily_limit: 500 }),
+          cap({ id: 'cap-2', scope: 'category', category: 'Social', unit: 'minutes', daily_limit: 30 }),
+          cap({ id: 'cap-3', daily_limit: 10, is_active: false }),
+        ],
+        [spend('10:00:00', 150, 'TikTok', 1800)],
+        apps,
+        now
+      );
+
+      expect(statuses).toHaveLength(2);
+      expect(findReachedCap(statuses, { category: 'Social' })?.cap.id).toBe('cap-2');
+      expect(findReachedCap(statuses, { category: 'Video' })).toBeNull();
+    });
+  });
+
+  describe('getRemainingCapMinutes', () => {
+    it('should allow the fewest minutes left under any cap that applies', () => {
+      const statuses = evaluateSpendingCaps(
+        [
+          cap({ id: 'cap-1', daily_limit: 200 }),
+          cap({ id: 'cap-2', scope: 'category', category: 'Social', unit: 'minutes', daily_limit: 45 }),
+        ],
+        [spend('10:00:00', 50, 'TikTok', 600)],
+        apps,
+        now
+      );
+
+      // 150 tokens left at 5/min is 30 minutes; Social has 35 minutes left
+      expect(getRemainingCapMinutes(statuses, { category: 'Social' }, 5)).toBe(30);
+      expect(getRemainingCapMinutes(statuses, { category: 'Social' }, 2)).toBe(35);
+      expect(getRemainingCapMinutes([], { category: 'Social' }, 5)).toBeNull();
+    });
+  });
+
+  describe('capsHelpers', () => {
+    let storage: Record<string, string>;
+
+    beforeEach(() => {
+      storage = {};
+      (AsyncStorage.getItem as jest.Mock).mockImplementation((key: string) => Promise.resolve(storage[key] ?? null));
+      (AsyncStorage.setItem as jest.Mock).mockImplementation((key: string, value: string) => {
+        storage[key] = value;
+        return Promise.resolve();
+      });
+      (dbHelpers.getSpendingCaps as jest.Mock).mockReset();
+    });
+
+    it('should fall back to the last loaded caps when offline', async () => {
+      const caps = [cap({})];
+      (dbHelpers.getSpendingCaps as jest.Mock).mockResolvedValueOnce(caps);
+      expect(await capsHelpers.loadCaps('child-1')).toEqual(caps);
+
+      (dbHelpers.getSpendingCaps as jest.Mock).mockRejectedValueOnce(new Error('Network request failed'));
+      expect(await capsHelpers.loadCaps('child-1')).toEqual(caps);
+    });
+
+    it('should load the last 24 hours of spending', async () => {
+      (dbHelpers.getSpendingSince as jest.Mock).mockResolvedValueOnce([]);
+      await capsHelpers.loadRecentSpending('child-1', now);
+
+      expect(dbHelpers.getSpendingSince).toHaveBeenCalledWith('child-1', '2023-12-31T18:00:00.000Z');
+    });
+  });
+});
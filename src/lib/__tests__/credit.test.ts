@@ -0,0 +1,43 @@
+/**
+ * Token Loan Tests
+ * Verify outstanding debt, remaining credit and the amounts offered on the lock screen
+ */
+
+import { getAvailableCredit, getBorrowOptions, getOutstandingDebt } from '../credit';
+import { CreditLine } from '../types';
+
+const creditLine = (overrides: Partial<CreditLine>): CreditLine => ({
+  id: 'credit-1',
+  child_id: 'child-1',
+  credit_limit: 50,
+  is_active: true,
+  ...overrides,
+});
+
+describe('Token Loans', () => {
+  describe('getAvailableCredit', () => {
+    it('should subtract what is still owed from the credit limit', () => {
+      const loans = [{ outstanding: 20 }, { outstanding: 5 }];
+
+      expect(getOutstandingDebt(loans)).toBe(25);
+      expect(getAvailableCredit(creditLine({}), loans)).toBe(25);
+      expect(getAvailableCredit(creditLine({ credit_limit: 20 }), loans)).toBe(0);
+    });
+
+    it('should not offer credit without an active credit line', () => {
+      expect(getAvailableCredit(null, [])).toBe(0);
+      expect(getAvailableCredit(creditLine({ is_active: false }), [])).toBe(0);
+    });
+  });
+
+  describe('getBorrowOptions', () => {
+    it('should offer the exact shortfall and larger steps within the available credit', () => {
+      expect(getBorrowOptions(3, 30)).toEqual([3, 10, 25]);
+      expect(getBorrowOptions(10, 50)).toEqual([10, 25, 50]);
+    });
+
+    it('should offer nothing when the credit cannot cover the shortfall', () => {
+      expect(getBorrowOptions(5, 4)).toEqual([]);
+    });
+  });
+});
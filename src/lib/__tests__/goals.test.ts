@@ -0,0 +1,63 @@
+/**
+ * Savings Goal Tests
+ * Verify goal progress, deposit limits and when a reward can be requested
+ */
+
+import { canRequestReward, getGoalProgress, getMaxDeposit, getTotalSaved } from '../goals';
+import { SavingsGoal } from '../types';
+
+const goal = (overrides: Partial<SavingsGoal>): SavingsGoal => ({
+  id: 'goal-1',
+  child_id: 'child-1',
+  reward_id: 'reward-1',
+  target_amount: 1000,
+  saved_amount: 0,
+  status: 'active',
+  ...overrides,
+});
+
+describe('Savings Goals', () => {
+  describe('getGoalProgress', () => {
+    it('should only report 100% once the goal is fully saved', () => {
+      expect(getGoalProgress(goal({ saved_amount: 999 }))).toEqual({
+        saved: 999,
+        target: 1000,
+        remaining: 1,
+        percent: 99,
+        isFunded: false,
+      });
+      expect(getGoalProgress(goal({ saved_amount: 1000 }))).toMatchObject({ percent: 100, isFunded: true });
+    });
+  });
+
+  describe('getMaxDeposit', () => {
+    it('should limit deposits to the balance and what the goal still needs', () => {
+      expect(getMaxDeposit(goal({ saved_amount: 900 }), 500)).toBe(100);
+      expect(getMaxDeposit(goal({ saved_amount: 100 }), 50)).toBe(50);
+      expect(getMaxDeposit(goal({ saved_amount: 100 }), -20)).toBe(0);
+    });
+
+    it('should not allow deposits once a goal is waiting for a parent', () => {
+      expect(getMaxDeposit(goal({ saved_amount: 1000, status: 'requested' }), 500)).toBe(0);
+    });
+  });
+
+  describe('canRequestReward', () => {
+    it('should only allow requests for fully saved active goals', () => {
+      expect(canRequestReward(goal({ saved_amount: 1000 }))).toBe(true);
+      expect(canRequestReward(goal({ saved_amount: 400 }))).toBe(false);
+      expect(canRequestReward(goal({ saved_amount: 1000, status: 'requested' }))).toBe(false);
+    });
+  });
+
+  describe('getTotalSaved', () => {
+    it('should count tokens locked in open goals only', () => {
+      expect(getTotalSaved([
+        goal({ id: 'goal-1', saved_amount: 300 }),
+        goal({ id: 'goal-2', saved_amount: 1000, status: 'requested' }),
+        goal({ id: 'goal-3', saved_amount: 1000, status: 'redeemed' }),
+        goal({ id: 'goal-4', saved_amount: 0, status: 'cancelled' }),
+      ])).toBe(1300);
+    });
+  });
+});
@@ -0,0 +1,235 @@
+/**
+ * Offline Sync Tests
+ * Verify that replaying the offline queue applies each transaction exactly once
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { queueHelpers, syncHelpers } from '../offlineQueue';
+import { walletHelpers } from '../supabase';
+
+jest.mock('react-native', () => ({
+  Platform: { OS: 'web' },
+}));
+
+jest.mock('../supabase', () => ({
+  walletHelpers: {
+    completeQuest: jest.fn(),
+    earnAppTime: jest.fn(),
+    spend: jest.fn(),
+    refund: jest.fn(),
+    recordOverdraft: jest.fn(),
+  },
+}));
+
+describe('Offline Sync', () => {
+  let storage: Record<string, string>;
+
+  beforeEach(() => {
+    storage = {};
+    (AsyncStorage.getItem as jest.Mock).mockImplementation((key: string) => Promise.resolve(storage[key] ?? null));
+    (AsyncStorage.setItem as jest.Mock).mockImplementation((key: string, value: string) => {
+      storage[key] = value;
+      return Promise.resolve();
+    });
+    (walletHelpers.completeQuest as jest.Mock).mockReset();
+    (walletHelpers.earnAppTime as jest.Mock).mockReset();
+    (walletHelpers.spend as jest.Mock).mockReset();
+    (walletHelpers.refund as jest.Mock).mockReset();
+    (walletHelpers.recordOverdraft as jest.Mock).mockReset();
+  });
+
+  it('should send the queue id as the client transaction id', async () => {
+    const queueId = await queueHelpers.enqueue({
+      type: 'spend',
+      amount: 5,
+      description: 'YouTube usage',
+      timestamp: '2024-01-01T00:00:00.000Z',
+      appName: 'YouTube',
+    });
+    (walletHelpers.spend as jest.Mock).mockResolvedValue({ transaction: { id: 'txn-1' }, profile: {} });
+
+    const results = await syncHelpers.syncTransactions('child-1');
+
+    expect(results).toEqual({ success: 1, failed: 0, rejected: 0 });
+    expect(walletHelpers.spend).toHaveBeenCalledWith(5, 'YouTube usage', expect.objectContaining({
+      clientTxnId: queueId,
+    }));
+  });
+
+  it('should queue a spend with its own id once however often it is retried', async () => {
+    const spend = {
+      type: 'spend' as const,
+      amount: 3,
+      description: 'YouTube usage (36s)',
+      timestamp: '2024-01-01T00:00:00.000Z',
+      sessionId: 'session-1',
+    };
+    await queueHelpers.enqueue(spend, 'session-1:3');
+    const queueId = await queueHelpers.enqueue(spend, 'session-1:3');
+    (walletHelpers.spend as jest.Mock).mockResolvedValue({ transaction: { id: 'txn-1' }, profile: {} });
+
+    await syncHelpers.syncTransactions('child-1');
+
+    expect(queueId).toBe('session-1:3');
+    expect(walletHelpers.spend).toHaveBeenCalledTimes(1);
+    expect(walletHelpers.spend).toHaveBeenCalledWith(3, 'YouTube usage (36s)', expect.objectContaining({
+      clientTxnId: 'session-1:3',
+    }));
+  });
+
+  it('should replay queued refunds through the refund RPC', async () => {
+    const queueId = await queueHelpers.enqueue({
+      type: 'refund',
+      amount: 5,
+      description: 'Refund for failed YouTube launch',
+      timestamp: '2024-01-01T00:00:00.000Z',
+    });
+    (walletHelpers.refund as jest.Mock).mockResolvedValue({ transaction: { id: 'txn-1', type: 'refund' }, profile: {} });
+
+    const results = await syncHelpers.syncTransactions('child-1');
+
+    expect(results).toEqual({ success: 1, failed: 0, rejected: 0 });
+    expect(walletHelpers.refund).toHaveBeenCalledWith(5, 'Refund for failed YouTube launch', {
+      timestamp: '2024-01-01T00:00:00.000Z',
+      clientTxnId: queueId,
+    });
+    expect(walletHelpers.completeQuest).not.toHaveBeenCalled();
+  });
+
+  it('should replay a quest completion by quest id so the server pays its reward', async () => {
+    const queueId = await queueHelpers.enqueue({
+      type: 'earn',
+      amount: 10,
+      description: 'Quest completed: Make Bed (AI verified)',
+      timestamp: '2024-01-01T00:00:00.000Z',
+      proofImageUrl: 'photo.jpg',
+      questTypeId: 'quest-1',
+      verifiedBy: 'ai',
+    });
+    (walletHelpers.completeQuest as jest.Mock).mockResolvedValue({ transaction: { id: 'txn-1', type: 'earn' }, profile: {} });
+
+    const results = await syncHelpers.syncTransactions('child-1');
+
+    expect(results).toEqual({ success: 1, failed: 0, rejected: 0 });
+    expect(walletHelpers.completeQuest).toHaveBeenCalledWith('quest-1', 'photo.jpg', {
+      verifiedBy: 'ai',
+      timestamp: '2024-01-01T00:00:00.000Z',
+      clientTxnId: queueId,
+    });
+  });
+
+  it('should replay Learn & Earn time by session and running time', async () => {
+    const queueId = await queueHelpers.enqueue({
+      type: 'earn',
+      amount: 2,
+      description: 'Duolingo learning (120s)',
+      timestamp: '2024-01-01T00:00:00.000Z',
+      appName: 'Duolingo',
+      usageSeconds: 60,
+      sessionId: 'session-1',
+      activeSeconds: 120,
+    });
+    // The session was already paid for this time, so there is nothing new to pay
+    (walletHelpers.earnAppTime as jest.Mock).mockResolvedValue({ transaction: null, profile: {} });
+
+    const results = await syncHelpers.syncTransactions('child-1');
+
+    expect(results).toEqual({ success: 1, failed: 0, rejected: 0 });
+    expect(walletHelpers.earnAppTime).toHaveBeenCalledWith('session-1', 120, {
+      timestamp: '2024-01-01T00:00:00.000Z',
+      clientTxnId: queueId,
+    });
+  });
+
+  it('should dead-letter a queued earn with no quest or session to verify', async () => {
+    const queueId = await queueHelpers.enqueue({
+      type: 'earn',
+      amount: 99,
+      description: 'Free tokens',
+      timestamp: '2024-01-01T00:00:00.000Z',
+    });
+
+    const results = await syncHelpers.syncTransactions('child-1');
+
+    expect(results).toEqual({ success: 0, failed: 0, rejected: 1 });
+    expect(walletHelpers.completeQuest).not.toHaveBeenCalled();
+    expect(walletHelpers.earnAppTime).not.toHaveBeenCalled();
+    expect(await queueHelpers.getDeadLetters()).toEqual([
+      expect.objectContaining({ id: queueId, reason: 'The server could not accept this transaction' }),
+    ]);
+  });
+
+  it('should treat an already-recorded transaction as synced', async () => {
+    await queueHelpers.enqueue({
+      type: 'earn',
+      amount: 10,
+      description: 'Make Bed',
+      timestamp: '2024-01-01T00:00:00.000Z',
+      proofImageUrl: 'photo.jpg',
+      questTypeId: 'quest-1',
+    });
+    (walletHelpers.completeQuest as jest.Mock).mockRejectedValue({ code: '23505', message: 'already recorded' });
+
+    const results = await syncHelpers.syncTransactions('child-1');
+
+    expect(results).toEqual({ success: 1, failed: 0, rejected: 0 });
+    expect(await queueHelpers.getUnsyncedTransactions()).toHaveLength(0);
+  });
+
+  it('should keep other failures in the queue for retry', async () => {
+    await queueHelpers.enqueue({
+      type: 'earn',
+      amount: 10,
+      description: 'Make Bed',
+      timestamp: '2024-01-01T00:00:00.000Z',
+      proofImageUrl: 'photo.jpg',
+      questTypeId: 'quest-1',
+    });
+    (walletHelpers.completeQuest as jest.Mock).mockRejectedValue(new Error('Network request failed'));
+
+    const results = await syncHelpers.syncTransactions('child-1');
+
+    expect(results).toEqual({ success: 0, failed: 1, rejected: 0 });
+    expect(await queueHelpers.getUnsyncedTransactions()).toHaveLength(1);
+  });
+
+  it('should record an overdraft and dead-letter a spend rejected for insufficient balance', async () => {
+    const queueId = await queueHelpers.enqueue({
+      type: 'spend',
+      amount: 8,
+      description: 'YouTube usage',
+      timestamp: '2024-01-01T00:00:00.000Z',
+      appName: 'YouTube',
+    });
+    (walletHelpers.spend as jest.Mock).mockRejectedValue({
+      code: 'P0001',
+      message: 'Insufficient balance. Current balance: 5, Required: 8',
+    });
+    (walletHelpers.recordOverdraft as jest.Mock).mockResolvedValue({
+      transaction: { id: 'txn-1', amount: 5 },
+      exception: { id: 'exception-1', charged_amount: 5, shortfall: 3 },
+      profile: { balance: 0 },
+    });
+
+    const results = await syncHelpers.syncTransactions('child-1');
+
+    expect(results).toEqual({ success: 0, failed: 0, rejected: 1 });
+    expect(walletHelpers.recordOverdraft).toHaveBeenCalledWith(8, 'YouTube usage', expect.objectContaining({
+      clientTxnId: queueId,
+    }));
+    expect(await queueHelpers.getQueue()).toHaveLength(0);
+
+    const deadLetters = await queueHelpers.getDeadLetters();
+    expect(deadLetters).toHaveLength(1);
+    expect(deadLetters[0]).toEqual(expect.objectContaining({
+      id: queueId,
+      chargedAmount: 5,
+      shortfall: 3,
+      exceptionId: 'exception-1',
+    }));
+
+    // Rejected items are final and not retried on the next sync
+    const nextResults = await syncHelpers.syncTransactions('child-1');
+    expect(nextResults).toEqual({ success: 0, failed: 0, rejected: 0 });
+  });
+});
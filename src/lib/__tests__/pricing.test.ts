@@ -0,0 +1,89 @@
+/**
+ * App Pricing Tests
+ * Verify that every app resolves to the family's rate, with offline fallback
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { pricingHelpers, resolveTokensPerMinute } from '../pricing';
+import { dbHelpers } from '../supabase';
+import { AppPricingRule } from '../types';
+
+jest.mock('../supabase', () => ({
+  dbHelpers: {
+    getAppPricing: jest.fn(),
+  },
+}));
+
+const rule = (overrides: Partial<AppPricingRule>): AppPricingRule => ({
+  id: 'rule-1',
+  parent_id: 'parent-1',
+  scope: 'category',
+  target_name: 'Video',
+  tokens_per_minute: 8,
+  ...overrides,
+});
+
+describe('App Pricing', () => {
+  describe('resolveTokensPerMinute', () => {
+    const youtube = { name: 'YouTube', category: 'Video' };
+    const spotify = { name: 'Spotify', category: 'Music' };
+
+    it('should use the default rate when the family has no rules', () => {
+      expect(resolveTokensPerMinute(youtube, [])).toBe(5);
+      expect(resolveTokensPerMinute(youtube, [], 3)).toBe(3);
+    });
+
+    it('should use the category rate for apps in that category', () => {
+      const rules = [rule({ tokens_per_minute: 6 })];
+
+      expect(resolveTokensPerMinute(youtube, rules)).toBe(6);
+      expect(resolveTokensPerMinute({ name: 'Netflix', category: 'Video' }, rules)).toBe(6);
+      expect(resolveTokensPerMinute(spotify, rules)).toBe(5);
+    });
+
+    it('should use the catalog price over the category rate', () => {
+      const rules = [rule({ tokens_per_minute: 6 })];
+
+      expect(resolveTokensPerMinute({ ...youtube, tokensPerMinute: 8 }, rules)).toBe(8);
+      expect(resolveTokensPerMinute({ ...youtube, tokensPerMinute: 3 }, rules)).toBe(3);
+    });
+
+    it('should match categories regardless of case', () => {
+      const rules = [rule({ target_name: 'music', tokens_per_minute: 2 })];
+
+      expect(resolveTokensPerMinute(spotify, rules)).toBe(2);
+    });
+
+    it('should use the highest rate when linked parents disagree', () => {
+      const rules = [
+        rule({ id: 'rule-1', parent_id: 'parent-1', tokens_per_minute: 4 }),
+        rule({ id: 'rule-2', parent_id: 'parent-2', tokens_per_minute: 9 }),
+      ];
+
+      expect(resolveTokensPerMinute(youtube, rules)).toBe(9);
+    });
+  });
+
+  describe('pricingHelpers', () => {
+    let storage: Record<string, string>;
+
+    beforeEach(() => {
+      storage = {};
+      (AsyncStorage.getItem as jest.Mock).mockImplementation((key: string) => Promise.resolve(storage[key] ?? null));
+      (AsyncStorage.setItem as jest.Mock).mockImplementation((key: string, value: string) => {
+        storage[key] = value;
+        return Promise.resolve();
+      });
+      (dbHelpers.getAppPricing as jest.Mock).mockReset();
+    });
+
+    it('should fall back to the last loaded rules when offline', async () => {
+      const rules = [rule({})];
+      (dbHelpers.getAppPricing as jest.Mock).mockResolvedValueOnce(rules);
+      expect(await pricingHelpers.loadRules()).toEqual(rules);
+
+      (dbHelpers.getAppPricing as jest.Mock).mockRejectedValueOnce(new Error('Network request failed'));
+      expect(await pricingHelpers.loadRules()).toEqual(rules);
+    });
+  });
+});
@@ -0,0 +1,125 @@
+/**
+ * Schedule Rule Tests
+ * Verify time-of-day multipliers and curfews, including windows that cross midnight
+ */
+
+import { evaluateSchedule, getScheduledTokens, isRuleActiveAt, formatRuleTime } from '../schedule';
+import { ScheduleRule } from '../types';
+
+jest.mock('../supabase', () => ({
+  dbHelpers: {
+    getScheduleRules: jest.fn(),
+  },
+}));
+
+const rule = (overrides: Partial<ScheduleRule>): ScheduleRule => ({
+  id: 'rule-1',
+  parent_id: 'parent-1',
+  name: 'Evening double rate',
+  days_of_week: [0, 1, 2, 3, 4, 5, 6],
+  start_time: '20:00',
+  end_time: '21:00',
+  action: 'multiplier',
+  multiplier: 2,
+  timezone: 'UTC',
+  is_active: true,
+  ...overrides,
+});
+
+// School nights are Sunday to Thursday; the curfew runs 9pm to 7am
+const curfew = rule({
+  id: 'rule-2',
+  name: 'School-night curfew',
+  days_of_week: [0, 1, 2, 3, 4],
+  start_time: '21:00',
+  end_time: '07:00',
+  action: 'block',
+  multiplier: null,
+});
+
+// 2024-01-01 was a Monday
+const at = (isoTime: string) => new Date(`2024-01-${isoTime}Z`);
+
+describe('Schedule Rules', () => {
+  describe('isRuleActiveAt', () => {
+    it('should apply a same-day window only between its start and end', () => {
+      const evening = rule({});
+
+      expect(isRuleActiveAt(evening, at('01T19:59:00'))).toBe(false);
+      expect(isRuleActiveAt(evening, at('01T20:00:00'))).toBe(true);
+      expect(isRuleActiveAt(evening, at('01T21:00:00'))).toBe(false);
+    });
+
+    it('should carry an overnight window into the next morning', () => {
+      // Monday night into Tuesday morning
+      expect(isRuleActiveAt(curfew, at('01T22:30:00'))).toBe(true);
+      expect(isRuleActiveAt(curfew, at('02T06:59:00'))).toBe(true);
+      expect(isRuleActiveAt(curfew, at('02T07:00:00'))).toBe(false);
+    });
+
+    it('should not start a school-night curfew on Friday or Saturday', () => {
+      // Friday night, then Saturday morning
+      expect(isRuleActiveAt(curfew, at('05T22:00:00'))).toBe(false);
+      expect(isRuleActiveAt(curfew, at('06T06:00:00'))).toBe(false);
+      // Thursday night's curfew still covers Friday morning
+      expect(isRuleActiveAt(curfew, at('05T06:00:00'))).toBe(true);
+    });
+
+    it('should evaluate the window in the rule timezone', () => {
+      const newYorkEvening = rule({ timezone: 'America/New_York' });
+
+      // 01:30 UTC on Tuesday is 20:30 on Monday in New York
+      expect(isRuleActiveAt(newYorkEvening, at('02T01:30:00'))).toBe(true);
+      expect(isRuleActiveAt(newYorkEvening, at('01T20:30:00'))).toBe(false);
+    });
+
+    it('should ignore paused rules', () => {
+      expect(isRuleActiveAt({ ...curfew, is_active: false }, at('01T22:30:00'))).toBe(false);
+    });
+  });
+
+  describe('evaluateSchedule', () => {
+    it('should report no restrictions outside every window', () => {
+      const status = evaluateSchedule([rule({}), curfew], at('01T12:00:00'));
+
+      expect(status).toEqual({ blocked: false, blockingRule: null, multiplier: 1, activeRules: [] });
+    });
+
+    it('should block during a curfew even when a multiplier also applies', () => {
+      const lateRate = rule({ id: 'rule-3', start_time: '20:00', end_time: '23:00', multiplier: 3 });
+      const status = evaluateSchedule([lateRate, curfew], at('01T21:30:00'));
+
+      expect(status.blocked).toBe(true);
+      expect(status.blockingRule?.id).toBe('rule-2');
+    });
+
+    it('should use the highest multiplier when windows overlap', () => {
+      const status = evaluateSchedule(
+        [rule({ multiplier: 2 }), rule({ id: 'rule-3', multiplier: 1.5 })],
+        at('01T20:30:00')
+      );
+
+      expect(status.multiplier).toBe(2);
+    });
+  });
+
+  describe('getScheduledTokens', () => {
+    it('should bill each minute at the multiplier in effect', () => {
+      // 19:50 to 20:10: ten minutes at 5/min, ten minutes at 10/min
+      const tokens = getScheduledTokens(
+        [rule({})],
+        5,
+        at('01T19:50:00').getTime(),
+        at('01T20:10:00').getTime()
+      );
+
+      expect(tokens).toBe(150);
+    });
+  });
+
+  it('should format rule times for children', () => {
+    expect(formatRuleTime('07:00:00')).toBe('7:00 AM');
+    expect(formatRuleTime('21:30')).toBe('9:30 PM');
+    expect(formatRuleTime('00:05')).toBe('12:05 AM');
+  });
+});
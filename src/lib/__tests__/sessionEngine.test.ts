@@ -0,0 +1,597 @@
+/**
+ * Session Engine Tests
+ * Verify that charges follow wall-clock running time, survive restarts and respect the balance
+ */
+
+import {
+  SessionEngine,
+  SessionCharge,
+  SessionCredit,
+  SessionStorage,
+  accrueTokens,
+  getPendingTokens,
+  getPrepaidCost,
+  hasPaidTimeLeft,
+} from '../sessionEngine';
+
+// Minute-aligned start so charges land on predictable boundaries
+const START = Date.UTC(2026, 0, 5, 16, 0, 0);
+
+const createMemoryStorage = (): SessionStorage & { items: Map<string, string> } => {
+  const items = new Map<string, string>();
+  return {
+    items,
+    getItem: async (key) => items.get(key) ?? null,
+    setItem: async (key, value) => {
+      items.set(key, value);
+    },
+    removeItem: async (key) => {
+      items.delete(key);
+    },
+  };
+};
+
+const createHarness = (balance = 100, storage = createMemoryStorage()) => {
+  const clock = { now: START };
+  const charges: SessionCharge[] = [];
+  const refunds: SessionCharge[] = [];
+  const wallet = { balance };
+  const engine = new SessionEngine({ storage, now: () => clock.now });
+
+  engine.setHandlers({
+    charge: async (charge) => {
+      charges.push(charge);
+      wallet.balance -= charge.amount;
+    },
+    refund: async (refund) => {
+      refunds.push(refund);
+      wallet.balance += refund.amount;
+      return refund.amount;
+    },
+    getBalance: () => wallet.balance,
+  });
+
+  const advance = (ms: number) => {
+    clock.now += ms;
+  };
+  const totalCharged = () => charges.reduce((sum, charge) => sum + charge.amount, 0);
+
+  return { engine, storage, clock, charges, refunds, wallet, advance, totalCharged };
+};
+
+describe('Session Engine', () => {
+  describe('accrueTokens', () => {
+    it('should give the same total however the span is split', () => {
+      const whole = accrueTokens(5, START, START + 150000);
+      const split = accrueTokens(5, START, START + 7000) +
+        accrueTokens(5, START + 7000, START + 61000) +
+        accrueTokens(5, START + 61000, START + 150000);
+
+      expect(whole).toBeCloseTo(12.5);
+      expect(split).toBeCloseTo(whole);
+    });
+
+    it('should apply the multiplier in effect for each minute', () => {
+      const doubleSecondMinute = (at: number) => (at >= START + 60000 ? 2 : 1);
+
+      expect(accrueTokens(5, START, START + 120000, doubleSecondMinute)).toBeCloseTo(15);
+    });
+  });
+
+  describe('charging', () => {
+    it('should charge the same whether it ticks every second or once', async () => {
+      const frequent = createHarness();
+      await frequent.engine.start({ appName: 'YouTube', tokensPerMinute: 5 });
+      for (let second = 0; second < 90; second++) {
+        frequent.advance(1000);
+        await frequent.engine.tick();
+      }
+      await frequent.engine.stop();
+
+      const rare = createHarness();
+      await rare.engine.start({ appName: 'YouTube', tokensPerMinute: 5 });
+      rare.advance(90000);
+      await rare.engine.tick();
+      await rare.engine.stop();
+
+      expect(frequent.totalCharged()).toBe(7);
+      expect(rare.totalCharged()).toBe(7);
+    });
+
+    it('should charge only whole tokens when stopped', async () => {
+      const { engine, advance, totalCharged } = createHarness();
+      await engine.start({ appName: 'YouTube', tokensPerMinute: 5 });
+
+      advance(23000);
+      const stopped = await engine.stop();
+
+      expect(totalCharged()).toBe(1);
+      expect(stopped?.status).toBe('stopped');
+      expect(stopped?.stopReason).toBe('user');
+    });
+
+    it('should not bill time spent paused', async () => {
+      const { engine, advance, totalCharged } = createHarness();
+      await engine.start({ appName: 'YouTube', tokensPerMinute: 5 });
+
+      advance(60000);
+      await engine.pause();
+      advance(10 * 60000);
+      await engine.tick();
+      await engine.resume();
+      advance(60000);
+      const stopped = await engine.stop();
+
+      expect(totalCharged()).toBe(10);
+      expect(stopped?.activeMs).toBe(120000);
+    });
+
+    it('should charge what the balance covers and stop when tokens run out', async () => {
+      const { engine, advance, wallet, totalCharged } = createHarness(3);
+      await engine.start({ appName: 'YouTube', tokensPerMinute: 5 });
+
+      advance(60000);
+      const session = await engine.tick();
+
+      expect(totalCharged()).toBe(3);
+      expect(wallet.balance).toBe(0);
+      expect(session?.status).toBe('stopped');
+      expect(session?.stopReason).toBe('insufficient_balance');
+    });
+
+    it('should stop without charging again when a charge fails', async () => {
+      const { engine, advance } = createHarness();
+      const charge = jest.fn().mockRejectedValue(new Error('offline'));
+      engine.setHandlers({ charge, getBalance: () => 100 });
+      jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+      await engine.start({ appName: 'YouTube', tokensPerMinute: 5 });
+      advance(60000);
+      const session = await engine.tick();
+
+      expect(charge).toHaveBeenCalledTimes(1);
+      expect(session?.stopReason).toBe('charge_failed');
+      expect(session?.chargedTokens).toBe(0);
+    });
+
+    it('should stop for a rule without charging past it', async () => {
+      const { engine, advance, totalCharged } = createHarness();
+      let blocked = false;
+      engine.setHandlers({
+        charge: async () => undefined,
+        getBalance: () => 100,
+        getStopReason: () => (blocked ? 'schedule' : null),
+      });
+
+      await engine.start({ appName: 'YouTube', tokensPerMinute: 5 });
+      advance(30000);
+      blocked = true;
+      const session = await engine.tick();
+
+      expect(session?.stopReason).toBe('schedule');
+      expect(totalCharged()).toBe(0);
+    });
+  });
+
+  describe('batching', () => {
+    it('should flush one spend per minute however often it ticks', async () => {
+      const { engine, advance, charges } = createHarness();
+      await engine.start({ appName: 'YouTube', tokensPerMinute: 5 });
+
+      for (let second = 0; second < 180; second++) {
+        advance(1000);
+        await engine.tick();
+      }
+
+      expect(charges.map(charge => charge.amount)).toEqual([5, 5, 5]);
+      expect(charges.map(charge => charge.usageSeconds)).toEqual([60, 60, 60]);
+    });
+
+    it('should keep the displayed balance exact between flushes', async () => {
+      const { engine, advance, wallet, charges } = createHarness();
+      await engine.start({ appName: 'YouTube', tokensPerMinute: 5 });
+
+      advance(30000);
+      const session = await engine.tick();
+
+      expect(charges).toHaveLength(0);
+      expect(getPendingTokens(session)).toBe(2);
+      expect(wallet.balance - getPendingTokens(session)).toBe(98);
+    });
+
+    it('should flush early once pending tokens use up the balance', async () => {
+      const { engine, advance, charges } = createHarness(2);
+      await engine.start({ appName: 'YouTube', tokensPerMinute: 5 });
+
+      advance(24000);
+      const session = await engine.tick();
+
+      expect(charges).toHaveLength(1);
+      expect(charges[0].amount).toBe(2);
+      expect(session?.status).toBe('running');
+    });
+
+    it('should flush pending tokens on demand and when paused', async () => {
+      const { engine, advance, charges } = createHarness();
+      await engine.start({ appName: 'YouTube', tokensPerMinute: 5 });
+
+      advance(12000);
+      await engine.flush();
+      advance(24000);
+      const paused = await engine.pause();
+
+      expect(charges.map(charge => charge.amount)).toEqual([1, 2]);
+      expect(getPendingTokens(paused)).toBe(0);
+    });
+
+    it('should flush tokens accrued before a crash exactly once on restore', async () => {
+      const storage = createMemoryStorage();
+      const before = createHarness(100, storage);
+      await before.engine.start({ appName: 'YouTube', tokensPerMinute: 5 });
+      before.advance(36000);
+      await before.engine.tick();
+      expect(before.charges).toHaveLength(0);
+
+      // Killed before the flush; the accrued tokens were persisted with the session
+      const after = createHarness(100, storage);
+      after.clock.now = before.clock.now;
+      await after.engine.restore();
+      await after.engine.tick();
+
+      expect(after.charges).toHaveLength(1);
+      expect(after.charges[0]).toMatchObject({ amount: 3, usageSeconds: 36 });
+
+      // A second restart finds the flush already recorded and charges nothing more
+      const again = createHarness(100, storage);
+      again.clock.now = after.clock.now;
+      await again.engine.restore();
+
+      expect(again.charges).toHaveLength(0);
+    });
+
+    it('should resend a flush under the same id after a crash between charge and save', async () => {
+      const storage = createMemoryStorage();
+      const before = createHarness(100, storage);
+      let savedAtCrash = new Map<string, string>();
+      before.engine.setHandlers({
+        charge: async (charge) => {
+          before.charges.push(charge);
+          // Killed once the spend was sent, before the charged session was saved
+          savedAtCrash = new Map(storage.items);
+        },
+        getBalance: () => before.wallet.balance,
+      });
+      await before.engine.start({ appName: 'YouTube', tokensPerMinute: 5 });
+      before.advance(36000);
+      await before.engine.flush();
+
+      const restarted = createMemoryStorage();
+      savedAtCrash.forEach((value, key) => restarted.items.set(key, value));
+      const after = createHarness(100, restarted);
+      after.clock.now = before.clock.now;
+      const restored = await after.engine.restore();
+
+      // The wallet recognises the id and does not charge it again
+      expect(before.charges[0].clientTxnId).toBeDefined();
+      expect(after.charges).toHaveLength(1);
+      expect(after.charges[0]).toMatchObject({ amount: 3, clientTxnId: before.charges[0].clientTxnId });
+      expect(restored?.chargedTokens).toBe(3);
+      expect(restored?.pendingCharge).toBeNull();
+    });
+  });
+
+  describe('prepaid blocks', () => {
+    it('should price a block at the multipliers scheduled over it', () => {
+      const doubleAfterTenMinutes = (at: number) => (at >= START + 10 * 60000 ? 2 : 1);
+
+      expect(getPrepaidCost(5, 15, START)).toBe(75);
+      expect(getPrepaidCost(5, 15, START, doubleAfterTenMinutes)).toBe(100);
+      expect(getPrepaidCost(0.1, 1, START)).toBe(1);
+    });
+
+    it('should charge the block once up front and nothing while it runs', async () => {
+      const { engine, advance, charges } = createHarness();
+      await engine.start({ appName: 'YouTube', tokensPerMinute: 5, prepaidMinutes: 15 });
+
+      for (let minute = 0; minute < 10; minute++) {
+        advance(60000);
+        await engine.tick();
+      }
+
+      expect(charges).toHaveLength(1);
+      expect(charges[0]).toMatchObject({ amount: 75, usageSeconds: 900 });
+    });
+
+    it('should refund the unused part when stopped early', async () => {
+      const { engine, advance, refunds, wallet } = createHarness();
+      await engine.start({ appName: 'YouTube', tokensPerMinute: 5, prepaidMinutes: 15 });
+
+      advance(5 * 60000 + 5000);
+      const stopped = await engine.stop();
+
+      // 5m05s used rounds up to 26 tokens, leaving 49 of 75 to refund
+      expect(refunds).toHaveLength(1);
+      expect(refunds[0]).toMatchObject({ amount: 49, usageSeconds: 595 });
+      expect(stopped?.refundedTokens).toBe(49);
+      expect(wallet.balance).toBe(100 - 26);
+    });
+
+    it('should charge and refund the block against the session opened on the server', async () => {
+      // Like resolve_app_session, the server links a spend only to a session it has a record of
+      const serverCharged = new Map<string, number>();
+      const clock = { now: START };
+      const engine = new SessionEngine({ storage: createMemoryStorage(), now: () => clock.now });
+      engine.setHandlers({
+        open: async (session) => {
+          serverCharged.set(session.id, serverCharged.get(session.id) ?? 0);
+        },
+        charge: async ({ sessionId, amount }) => {
+          if (serverCharged.has(sessionId)) {
+            serverCharged.set(sessionId, serverCharged.get(sessionId)! + amount);
+          }
+        },
+        refund: async ({ sessionId, amount }) => {
+          const charged = serverCharged.get(sessionId) ?? 0;
+          if (charged <= 0) throw new Error('Nothing left to refund for this session');
+          serverCharged.set(sessionId, charged - Math.min(amount, charged));
+          return Math.min(amount, charged);
+        },
+        getBalance: () => 100,
+      });
+
+      const started = await engine.start({ appName: 'YouTube', tokensPerMinute: 5, prepaidMinutes: 15 });
+      expect(serverCharged.get(started.id)).toBe(75);
+
+      clock.now += 5 * 60000 + 5000;
+      const stopped = await engine.stop();
+
+      expect(stopped?.refundedTokens).toBe(49);
+      expect(serverCharged.get(started.id)).toBe(26);
+    });
+
+    it('should record the refund the wallet gave back, not the one it asked for', async () => {
+      const { engine, advance } = createHarness();
+      engine.setHandlers({
+        charge: async () => undefined,
+        // The server counts paused time as used, so it can give back less
+        refund: async () => 40,
+        getBalance: () => 100,
+      });
+      await engine.start({ appName: 'YouTube', tokensPerMinute: 5, prepaidMinutes: 15 });
+
+      advance(60000);
+      const stopped = await engine.stop();
+
+      expect(stopped?.refundedTokens).toBe(40);
+    });
+
+    it('should record no refund when the wallet refuses it', async () => {
+      const { engine, advance } = createHarness();
+      engine.setHandlers({
+        charge: async () => undefined,
+        refund: async () => {
+          throw new Error('Nothing left to refund for this session');
+        },
+        getBalance: () => 100,
+      });
+      await engine.start({ appName: 'YouTube', tokensPerMinute: 5, prepaidMinutes: 15 });
+
+      advance(60000);
+      const stopped = await engine.stop();
+
+      expect(stopped?.refundedTokens).toBe(0);
+    });
+
+    it('should not charge a block whose session could not be opened on the server', async () => {
+      const { engine } = createHarness();
+      const charge = jest.fn();
+      engine.setHandlers({
+        open: async () => {
+          throw new Error('Network request failed');
+        },
+        charge,
+        getBalance: () => 100,
+      });
+
+      await expect(
+        engine.start({ appName: 'YouTube', tokensPerMinute: 5, prepaidMinutes: 15 })
+      ).rejects.toThrow('Network request failed');
+      expect(charge).not.toHaveBeenCalled();
+      expect(engine.getSession()).toBeNull();
+    });
+
+    it('should end when the block is used up, even if nobody ticked', async () => {
+      const { engine, advance, refunds } = createHarness();
+      await engine.start({ appName: 'YouTube', tokensPerMinute: 5, prepaidMinutes: 15 });
+      await engine.pause();
+      advance(60 * 60000);
+      await engine.resume();
+
+      advance(20 * 60000);
+      const session = await engine.tick();
+
+      expect(session?.stopReason).toBe('time_up');
+      expect(session?.activeMs).toBe(15 * 60000);
+      expect(refunds).toHaveLength(0);
+    });
+
+    it('should keep the time of a block bought with the last tokens', async () => {
+      const { engine, clock, advance, wallet } = createHarness(75);
+      const session = await engine.start({ appName: 'YouTube', tokensPerMinute: 5, prepaidMinutes: 15 });
+
+      expect(wallet.balance).toBe(0);
+      expect(getPendingTokens(session)).toBe(0);
+      expect(hasPaidTimeLeft(session, clock.now)).toBe(true);
+
+      advance(10 * 60000);
+      await engine.pause();
+      expect(hasPaidTimeLeft(engine.getSession(), clock.now)).toBe(true);
+
+      await engine.resume();
+      advance(5 * 60000);
+      const ended = await engine.tick();
+      expect(ended?.stopReason).toBe('time_up');
+      expect(hasPaidTimeLeft(ended, clock.now)).toBe(false);
+    });
+
+    it('should refuse a block the balance cannot cover', async () => {
+      const { engine, charges } = createHarness(50);
+
+      await expect(
+        engine.start({ appName: 'YouTube', tokensPerMinute: 5, prepaidMinutes: 15 })
+      ).rejects.toThrow('costs 75 tokens');
+      expect(charges).toHaveLength(0);
+      expect(engine.getSession()).toBeNull();
+    });
+  });
+
+  describe('learn & earn', () => {
+    // Earning handlers with a schedule multiplier in effect and an empty wallet, neither of which should matter
+    const connectEarnings = (engine: SessionEngine, dailyEarnLimit: number | null = null) => {
+      const credits: SessionCredit[] = [];
+      const charge = jest.fn();
+      const earned = () => credits.reduce((sum, credit) => sum + credit.amount, 0);
+      engine.setHandlers({
+        charge,
+        earn: async (credit) => {
+          credits.push(credit);
+        },
+        getBalance: () => 0,
+        getMultiplier: () => 2,
+        getEarnAllowance: () => (dailyEarnLimit === null ? null : dailyEarnLimit - earned()),
+      });
+
+      return { credits, charge, earned };
+    };
+
+    it('should credit an earning app at its own rate, once a minute', async () => {
+      const { engine, advance } = createHarness(0);
+      const { credits, charge } = connectEarnings(engine);
+
+      await engine.start({ appName: 'Duolingo', classification: 'earning', tokensPerMinute: 2 });
+      advance(90000);
+      await engine.tick();
+      advance(15000);
+
+      expect(getPendingTokens(engine.getSession())).toBe(0);
+
+      const stopped = await engine.stop();
+
+      expect(charge).not.toHaveBeenCalled();
+      expect(credits.map(credit => credit.amount)).toEqual([3]);
+      expect(credits[0]).toMatchObject({ appName: 'Duolingo', usageSeconds: 90 });
+      expect(stopped?.earnedTokens).toBe(3);
+      expect(stopped?.stopReason).toBe('user');
+    });
+
+    it('should stop paying at the daily earn limit without paying the rest later', async () => {
+      const { engine, advance } = createHarness(0);
+      const { earned } = connectEarnings(engine, 5);
+
+      await engine.start({ appName: 'Duolingo', classification: 'earning', tokensPerMinute: 2 });
+      advance(5 * 60000);
+      await engine.tick();
+      advance(60000);
+      const running = await engine.tick();
+
+      expect(earned()).toBe(5);
+      expect(running?.status).toBe('running');
+      expect(running?.earnedTokens).toBe(5);
+      expect(running?.chargedTokens).toBe(12);
+    });
+
+    it('should retry a credit that failed', async () => {
+      const { engine, advance } = createHarness(0);
+      const earn = jest.fn()
+        .mockRejectedValueOnce(new Error('offline'))
+        .mockResolvedValue(undefined);
+      engine.setHandlers({ charge: jest.fn(), earn, getBalance: () => 0 });
+      jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+      await engine.start({ appName: 'Duolingo', classification: 'earning', tokensPerMinute: 1 });
+      advance(60000);
+      const failed = await engine.tick();
+      advance(1000);
+      const retried = await engine.tick();
+
+      expect(failed?.status).toBe('running');
+      expect(earn).toHaveBeenCalledTimes(2);
+      expect(retried?.earnedTokens).toBe(1);
+    });
+
+    it('should run a free app without charging, even with an empty wallet', async () => {
+      const { engine, advance, totalCharged } = createHarness(0);
+
+      await engine.start({ appName: 'Calculator', classification: 'free', tokensPerMinute: 0 });
+      advance(10 * 60000);
+      await engine.tick();
+      const stopped = await engine.stop();
+
+      expect(totalCharged()).toBe(0);
+      expect(stopped?.accruedTokens).toBe(0);
+      expect(stopped?.stopReason).toBe('user');
+    });
+
+    it('should not sell prepaid time for apps that do not cost tokens', async () => {
+      const { engine } = createHarness();
+
+      await expect(
+        engine.start({ appName: 'Duolingo', classification: 'earning', tokensPerMinute: 1, prepaidMinutes: 15 })
+      ).rejects.toThrow('Only entertainment apps can be prepaid');
+    });
+  });
+
+  describe('persistence', () => {
+    it('should bill the time since a restart when restoring a running session', async () => {
+      const storage = createMemoryStorage();
+      const before = createHarness(100, storage);
+      await before.engine.start({ appName: 'YouTube', tokensPerMinute: 5 });
+      before.advance(30000);
+      await before.engine.tick();
+      expect(before.totalCharged()).toBe(0);
+
+      // The app was killed; a fresh engine picks the session up five minutes later
+      const after = createHarness(100, storage);
+      after.clock.now = before.clock.now + 5 * 60000;
+      const restored = await after.engine.restore();
+
+      expect(restored?.status).toBe('running');
+      expect(after.charges).toHaveLength(1);
+      expect(after.totalCharged()).toBe(27);
+      expect(restored?.chargedTokens).toBe(27);
+    });
+
+    it('should not restore a paused session as running', async () => {
+      const storage = createMemoryStorage();
+      const before = createHarness(100, storage);
+      await before.engine.start({ appName: 'YouTube', tokensPerMinute: 5 });
+      before.advance(60000);
+      await before.engine.pause();
+
+      const after = createHarness(100, storage);
+      after.clock.now = before.clock.now + 60 * 60000;
+      const restored = await after.engine.restore();
+
+      expect(restored?.status).toBe('paused');
+      expect(after.totalCharged()).toBe(0);
+    });
+
+    it('should clear storage when a session stops', async () => {
+      const { engine, storage } = createHarness();
+      await engine.start({ appName: 'YouTube', tokensPerMinute: 5 });
+      expect(storage.items.size).toBe(1);
+
+      await engine.stop();
+
+      expect(storage.items.size).toBe(0);
+      await expect(engine.start({ appName: 'Netflix', tokensPerMinute: 5 })).resolves.toBeTruthy();
+    });
+
+    it('should refuse to start a second session', async () => {
+      const { engine } = createHarness();
+      await engine.start({ appName: 'YouTube', tokensPerMinute: 5 });
+
+      await expect(engine.start({ appName: 'Netflix', tokensPerMinute: 5 })).rejects.toThrow('already active');
+    });
+  });
+});
@@ -0,0 +1,67 @@
+/**
+ * Session Lease Tests
+ * Verify the device identity and conflict handling used to keep one session per child
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  describeLeaseConflict,
+  getDeviceId,
+  getDeviceLabel,
+  getLeaseHolder,
+  isLeaseConflict,
+} from '../sessionLease';
+
+jest.mock('react-native', () => ({
+  Platform: { OS: 'web' },
+}));
+
+describe('Session Leases', () => {
+  describe('getDeviceId', () => {
+    it('should create an id once and keep using it', async () => {
+      const storage: Record<string, string> = {};
+      (AsyncStorage.getItem as jest.Mock).mockImplementation((key: string) => Promise.resolve(storage[key] ?? null));
+      (AsyncStorage.setItem as jest.Mock).mockImplementation((key: string, value: string) => {
+        storage[key] = value;
+        return Promise.resolve();
+      });
+
+      const first = await getDeviceId();
+      const second = await getDeviceId();
+
+      expect(first).toMatch(/^device_/);
+      expect(second).toBe(first);
+      expect(Object.values(storage)).toEqual([first]);
+    });
+  });
+
+  describe('lease conflicts', () => {
+    const conflict = {
+      code: '55P03',
+      message: 'An app session is already running on an Android device',
+      details: 'an Android device',
+    };
+
+    it('should recognise the error raised for a live lease held elsewhere', () => {
+      expect(isLeaseConflict(conflict)).toBe(true);
+      expect(isLeaseConflict({ code: '23505' })).toBe(false);
+      expect(isLeaseConflict(new Error('Network request failed'))).toBe(false);
+    });
+
+    it('should name the device holding the lease', () => {
+      expect(getLeaseHolder(conflict)).toBe('an Android device');
+      expect(getLeaseHolder({ code: '55P03' })).toBe('another device');
+    });
+
+    it('should explain that taking over stops the other session', () => {
+      expect(describeLeaseConflict('an Android device', 'YouTube')).toBe(
+        'You already have a session running on an Android device. Take over to play YouTube here instead; ' +
+        'the other session stops and only this one uses your tokens.'
+      );
+    });
+  });
+
+  it('should label a browser as such', () => {
+    expect(getDeviceLabel()).toBe('a web browser');
+  });
+});
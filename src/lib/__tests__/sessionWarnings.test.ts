@@ -0,0 +1,176 @@
+/**
+ * Session Warning Tests
+ * Verify how much time a session has left and when the child is warned
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as Notifications from 'expo-notifications';
+import { Vibration } from 'react-native';
+import {
+  DEFAULT_WARNING_SETTINGS,
+  describeTimeLeft,
+  getCrossedThresholds,
+  getSessionTimeLeftMs,
+  isWrappingUp,
+  parseWarningThresholds,
+  warningSettingsHelpers,
+} from '../sessionWarnings';
+import { UsageSession } from '../types';
+
+jest.mock('react-native', () => ({
+  Platform: { OS: 'android' },
+  Vibration: { vibrate: jest.fn() },
+}));
+
+jest.mock('expo-notifications', () => ({
+  AndroidImportance: { HIGH: 5 },
+  setNotificationChannelAsync: jest.fn(() => Promise.resolve(null)),
+  getPermissionsAsync: jest.fn(),
+  requestPermissionsAsync: jest.fn(),
+  scheduleNotificationAsync: jest.fn(() => Promise.resolve('attention-wallet-session')),
+}));
+
+const START = Date.UTC(2026, 0, 5, 16, 0, 0);
+const MINUTE_MS = 60000;
+
+const usageSession = (overrides: Partial<UsageSession> = {}): UsageSession => ({
+  id: 'session-1',
+  appName: 'YouTube',
+  category: 'video',
+  tokensPerMinute: 5,
+  mode: 'metered',
+  prepaidMs: null,
+  status: 'running',
+  startedAt: START,
+  runningSince: START,
+  activeMs: 0,
+  accruedTokens: 0,
+  accruedAt: START,
+  chargedTokens: 0,
+  chargedMs: 0,
+  ...overrides,
+});
+
+describe('Session Warnings', () => {
+  describe('getSessionTimeLeftMs', () => {
+    it('should run until a token accrues that the balance cannot cover', () => {
+      // 10 tokens cover two minutes; the eleventh token stops the session at 2m12s
+      expect(getSessionTimeLeftMs(usageSession(), 10, 1, START)).toBe(132000);
+    });
+
+    it('should count the partly accrued token against the time left', () => {
+      const session = usageSession({ accruedTokens: 2.5, accruedAt: START + 30000 });
+
+      expect(getSessionTimeLeftMs(session, 10, 1, START + 33000)).toBe(123000);
+    });
+
+    it('should shorten the time left while a rate multiplier applies', () => {
+      expect(getSessionTimeLeftMs(usageSession(), 10, 2, START)).toBe(66000);
+    });
+
+    it('should use the end of the block for prepaid sessions', () => {
+      const session = usageSession({ mode: 'prepaid', prepaidMs: 15 * MINUTE_MS, chargedTokens: 75 });
+
+      expect(getSessionTimeLeftMs(session, 0, 1, START + 10 * MINUTE_MS)).toBe(5 * MINUTE_MS);
+    });
+
+    it('should have nothing left to count for a stopped session', () => {
+      expect(getSessionTimeLeftMs(usageSession({ status: 'stopped' }), 10, 1, START)).toBeNull();
+    });
+
+    it('should never run out for an app that earns tokens', () => {
+      expect(getSessionTimeLeftMs(usageSession({ classification: 'earning' }), 0, 1, START)).toBeNull();
+    });
+  });
+
+  describe('getCrossedThresholds', () => {
+    const thresholds = [5, 2, 1];
+
+    it('should report each threshold once', () => {
+      expect(getCrossedThresholds(4.5 * MINUTE_MS, thresholds, [])).toEqual([5]);
+      expect(getCrossedThresholds(4 * MINUTE_MS, thresholds, [5])).toEqual([]);
+      expect(getCrossedThresholds(2 * MINUTE_MS, thresholds, [5])).toEqual([2]);
+    });
+
+    it('should report every threshold passed at once, e.g. starting with little time left', () => {
+      expect(getCrossedThresholds(90000, thresholds, [])).toEqual([5, 2]);
+    });
+
+    it('should leave the last seconds to the wrap-up countdown', () => {
+      expect(isWrappingUp(30000)).toBe(true);
+      expect(isWrappingUp(31000)).toBe(false);
+      expect(getCrossedThresholds(20000, thresholds, [5, 2])).toEqual([]);
+    });
+  });
+
+  describe('describeTimeLeft', () => {
+    it('should say what is running out', () => {
+      expect(describeTimeLeft('YouTube', 2 * MINUTE_MS)).toBe('About 2 minutes of YouTube left on your tokens');
+      expect(describeTimeLeft('Netflix', 50000, true)).toBe('About 1 minute of Netflix left in your time block');
+    });
+  });
+
+  describe('parseWarningThresholds', () => {
+    it('should sort minutes largest first and drop repeats', () => {
+      expect(parseWarningThresholds('1, 5 2,5')).toEqual([5, 2, 1]);
+      expect(parseWarningThresholds('  ')).toEqual([]);
+    });
+
+    it('should reject values that are not whole minutes in range', () => {
+      expect(() => parseWarningThresholds('5, 1.5')).toThrow('whole minutes');
+      expect(() => parseWarningThresholds('0')).toThrow('whole minutes');
+      expect(() => parseWarningThresholds('90')).toThrow('whole minutes');
+      expect(() => parseWarningThresholds('soon')).toThrow('whole minutes');
+    });
+  });
+
+  describe('warningSettingsHelpers', () => {
+    it('should fall back to the defaults when nothing is saved', async () => {
+      (AsyncStorage.getItem as jest.Mock).mockResolvedValueOnce(null);
+
+      await expect(warningSettingsHelpers.load()).resolves.toEqual(DEFAULT_WARNING_SETTINGS);
+    });
+
+    it('should fill in settings missing from an older save', async () => {
+      (AsyncStorage.getItem as jest.Mock).mockResolvedValueOnce(JSON.stringify({ thresholdMinutes: [10] }));
+
+      await expect(warningSettingsHelpers.load()).resolves.toEqual({
+        enabled: true,
+        thresholdMinutes: [10],
+        notify: true,
+      });
+    });
+
+    it('should show a local notification and vibrate on devices', () => {
+      warningSettingsHelpers.notify('Screen time running low', 'About 2 minutes of YouTube left');
+
+      expect(Vibration.vibrate).toHaveBeenCalledTimes(1);
+      expect(Notifications.scheduleNotificationAsync).toHaveBeenCalledWith({
+        identifier: 'attention-wallet-session',
+        content: { title: 'Screen time running low', body: 'About 2 minutes of YouTube left' },
+        trigger: { channelId: 'session-warnings' },
+      });
+    });
+
+    it('should ask for notification permission on devices only when it can still be given', async () => {
+      (Notifications.getPermissionsAsync as jest.Mock)
+        .mockResolvedValueOnce({ granted: true, canAskAgain: true })
+        .mockResolvedValueOnce({ granted: false, canAskAgain: true })
+        .mockResolvedValueOnce({ granted: false, canAskAgain: false });
+      (Notifications.requestPermissionsAsync as jest.Mock).mockResolvedValueOnce({ granted: true });
+
+      await expect(warningSettingsHelpers.requestPermission()).resolves.toBe(true);
+      expect(Notifications.requestPermissionsAsync).not.toHaveBeenCalled();
+
+      await expect(warningSettingsHelpers.requestPermission()).resolves.toBe(true);
+      expect(Notifications.requestPermissionsAsync).toHaveBeenCalledTimes(1);
+
+      await expect(warningSettingsHelpers.requestPermission()).resolves.toBe(false);
+      expect(Notifications.requestPermissionsAsync).toHaveBeenCalledTimes(1);
+      expect(Notifications.setNotificationChannelAsync).toHaveBeenCalledWith('session-warnings', {
+        name: 'Session warnings',
+        importance: Notifications.AndroidImportance.HIGH,
+      });
+    });
+  });
+});
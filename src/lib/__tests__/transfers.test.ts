@@ -0,0 +1,68 @@
+/**
+ * Family Transfer Tests
+ * Verify approval thresholds, transfer direction and member labels
+ */
+
+import {
+  getFamilyMemberLabel,
+  getPendingOutgoing,
+  getTransferDirection,
+  needsTransferApproval,
+} from '../transfers';
+import { TokenTransfer } from '../types';
+
+const transfer = (overrides: Partial<TokenTransfer>): TokenTransfer => ({
+  id: 'transfer-1',
+  from_user_id: 'child-1',
+  to_user_id: 'child-2',
+  amount: 10,
+  status: 'completed',
+  requested_at: '2024-01-01T10:00:00Z',
+  ...overrides,
+});
+
+describe('Family Transfers', () => {
+  describe('needsTransferApproval', () => {
+    it('should hold a child\'s transfer only above their threshold', () => {
+      const settings = { approval_threshold: 20 };
+
+      expect(needsTransferApproval(20, 'child', settings)).toBe(false);
+      expect(needsTransferApproval(21, 'child', settings)).toBe(true);
+      expect(needsTransferApproval(500, 'child', null)).toBe(false);
+    });
+
+    it('should never hold a gift from a parent', () => {
+      expect(needsTransferApproval(500, 'parent', { approval_threshold: 1 })).toBe(false);
+    });
+  });
+
+  describe('getTransferDirection', () => {
+    it('should report each side of the same transfer', () => {
+      expect(getTransferDirection(transfer({}), 'child-1')).toBe('sent');
+      expect(getTransferDirection(transfer({}), 'child-2')).toBe('received');
+    });
+  });
+
+  describe('getPendingOutgoing', () => {
+    it('should list only pending transfers the user sent, oldest first', () => {
+      const transfers = [
+        transfer({ id: 'late', status: 'pending', requested_at: '2024-01-02T10:00:00Z' }),
+        transfer({ id: 'incoming', status: 'pending', from_user_id: 'child-2', to_user_id: 'child-1' }),
+        transfer({ id: 'done' }),
+        transfer({ id: 'early', status: 'pending' }),
+      ];
+
+      expect(getPendingOutgoing(transfers, 'child-1').map(t => t.id)).toEqual(['early', 'late']);
+    });
+  });
+
+  describe('getFamilyMemberLabel', () => {
+    it('should name members by relation and short id', () => {
+      expect(getFamilyMemberLabel({
+        member_id: '1a2b3c4d-0000-0000-0000-000000000000',
+        member_role: 'child',
+        relation: 'sibling',
+      })).toBe('Sibling 1a2b3c4d');
+    });
+  });
+});
@@ -0,0 +1,156 @@
+/**
+ * Trusted Clock Tests
+ * Verify that billing time follows the server and a monotonic timer rather than the device clock
+ */
+
+import { ClockTamperEvent, TrustedClock, describeClockEvent } from '../trustedClock';
+
+jest.mock('../supabase', () => ({
+  walletHelpers: {
+    getServerTime: jest.fn(),
+  },
+}));
+
+const SERVER_NOW = Date.UTC(2026, 0, 5, 16, 0, 0);
+const MINUTE_MS = 60000;
+
+/**
+ * Device with a settable wall clock, a monotonic timer and a server that answers instantly
+ */
+const createDevice = (wallOffsetMs = 0) => {
+  const device = {
+    mono: 1000,
+    wall: SERVER_NOW + wallOffsetMs,
+    server: SERVER_NOW,
+    // Let real time pass: every clock moves together
+    advance: (ms: number) => {
+      device.mono += ms;
+      device.wall += ms;
+      device.server += ms;
+    },
+  };
+  const fetchServerTime = jest.fn(() => Promise.resolve(device.server));
+  const clock = new TrustedClock({
+    wallClock: () => device.wall,
+    monotonic: () => device.mono,
+    fetchServerTime,
+  });
+  const events: ClockTamperEvent[] = [];
+  clock.subscribe(event => events.push(event));
+
+  return { device, clock, events, fetchServerTime };
+};
+
+describe('TrustedClock', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should follow the server clock once synced, whatever the device clock says', async () => {
+    const { device, clock } = createDevice(-3 * 60 * MINUTE_MS);
+
+    await expect(clock.sync()).resolves.toBe(true);
+    expect(clock.isSynced()).toBe(true);
+    expect(clock.now()).toBe(SERVER_NOW);
+
+    device.advance(MINUTE_MS);
+    expect(clock.now()).toBe(SERVER_NOW + MINUTE_MS);
+  });
+
+  it('should keep counting when the device clock is set back, and report it', async () => {
+    const { device, clock, events } = createDevice();
+    await clock.sync();
+
+    device.advance(MINUTE_MS);
+    device.wall -= 60 * MINUTE_MS;
+    device.advance(MINUTE_MS);
+
+    expect(clock.now()).toBe(SERVER_NOW + 2 * MINUTE_MS);
+    expect(events).toEqual([{ kind: 'clock_set_back', skewMs: -60 * MINUTE_MS }]);
+  });
+
+  it('should ignore small differences between the device clock and the timer', async () => {
+    const { device, clock, events } = createDevice();
+    await clock.sync();
+
+    device.advance(MINUTE_MS);
+    device.wall -= 2000;
+
+    expect(clock.now()).toBe(SERVER_NOW + MINUTE_MS);
+    expect(events).toEqual([]);
+  });
+
+  it('should not bill a forward jump until the server confirms it', async () => {
+    const { device, clock, events, fetchServerTime } = createDevice();
+    await clock.sync();
+
+    // The child moves the clock forward: nothing extra is billed and the server agrees
+    device.wall += 30 * MINUTE_MS;
+    expect(clock.now()).toBe(SERVER_NOW);
+    expect(fetchServerTime).toHaveBeenCalledTimes(2);
+    await clock.sync();
+    expect(clock.now()).toBe(SERVER_NOW);
+    expect(events).toEqual([{ kind: 'clock_skew', skewMs: 30 * MINUTE_MS }]);
+  });
+
+  it('should bill time the monotonic timer missed while asleep once the server confirms it', async () => {
+    const { device, clock, events } = createDevice();
+    await clock.sync();
+
+    // Asleep: the wall clock and the server move on, the monotonic timer does not
+    device.wall += 10 * MINUTE_MS;
+    device.server += 10 * MINUTE_MS;
+    clock.now();
+    await clock.sync();
+
+    expect(clock.now()).toBe(SERVER_NOW + 10 * MINUTE_MS);
+    expect(events).toEqual([]);
+  });
+
+  it('should never go backwards when the server is behind the time already issued', async () => {
+    const { device, clock } = createDevice();
+    device.advance(MINUTE_MS);
+    const issued = clock.now();
+
+    device.server -= 10000;
+    await clock.sync();
+
+    expect(clock.now()).toBe(issued);
+    device.advance(20000);
+    expect(clock.now()).toBe(issued + 10000);
+  });
+
+  it('should report a wrong device clock once, and again only if it moves further', async () => {
+    const { device, clock, events } = createDevice(-60 * MINUTE_MS);
+
+    await clock.sync();
+    await clock.sync();
+    expect(events).toEqual([{ kind: 'clock_skew', skewMs: -60 * MINUTE_MS }]);
+
+    device.wall -= 60 * MINUTE_MS;
+    await clock.sync();
+    expect(events.map(event => event.skewMs)).toEqual([-60 * MINUTE_MS, -120 * MINUTE_MS]);
+  });
+
+  it('should carry on with the device clock when the server cannot be reached', async () => {
+    const { device, clock, fetchServerTime } = createDevice();
+    fetchServerTime.mockRejectedValueOnce(new Error('Network request failed'));
+
+    await expect(clock.sync()).resolves.toBe(false);
+    expect(clock.isSynced()).toBe(false);
+    device.advance(MINUTE_MS);
+    expect(clock.now()).toBe(SERVER_NOW + MINUTE_MS);
+  });
+
+  describe('describeClockEvent', () => {
+    it('should say how the clock was changed', () => {
+      expect(describeClockEvent('clock_set_back', -3900)).toBe('Device clock was set back 1h 5m');
+      expect(describeClockEvent('clock_skew', 1800)).toBe('Device clock was 30m ahead of the real time');
+      expect(describeClockEvent('clock_skew', -7200)).toBe('Device clock was 2h behind the real time');
+    });
+  });
+});
@@ -0,0 +1,111 @@
+/**
+ * Wallet Security Tests
+ * Verify that a child session has no path to change its own token balance
+ * other than the server-side wallet RPCs. The database itself is checked by
+ * database/tests/wallet_security_test.sql against Postgres (npm run test:db).
+ */
+
+import { createClient } from '@supabase/supabase-js';
+import { dbHelpers, walletHelpers } from '../supabase';
+import { ProfileUpdate } from '../types';
+
+jest.mock('../config', () => ({
+  SUPABASE_CONFIG: { url: 'https://test.supabase.co', anonKey: 'test-anon-key' },
+  validateConfig: () => true,
+}));
+
+describe('Wallet Security', () => {
+  const update = jest.fn();
+  const insert = jest.fn();
+  const rpc = jest.fn();
+  const from = jest.fn();
+
+  beforeAll(() => {
+    const query = {
+      update: update.mockReturnThis(),
+      insert: insert.mockReturnThis(),
+      eq: jest.fn().mockReturnThis(),
+      select: jest.fn().mockReturnThis(),
+      single: jest.fn(() => Promise.resolve({ data: { id: 'child-1' }, error: null })),
+    };
+    from.mockReturnValue(query);
+
+    (createClient as jest.Mock).mockReturnValue({ from, rpc });
+  });
+
+  beforeEach(() => {
+    update.mockClear();
+    insert.mockClear();
+    rpc.mockReset();
+    from.mockClear();
+  });
+
+  describe('Client helpers', () => {
+    it('should strip balance and role fields from profile updates', async () => {
+      // Not a valid ProfileUpdate: a tampered client could still send these fields at runtime
+      const tamperedUpdate = {
+        balance: 99999,
+        total_earned: 99999,
+        total_spent: 0,
+        role: 'parent',
+      };
+
+      await dbHelpers.updateProfile('child-1', tamperedUpdate as unknown as ProfileUpdate);
+
+      expect(from).toHaveBeenCalledWith('profiles');
+      expect(update).toHaveBeenCalledWith({});
+    });
+
+    it('should pay quests through the wallet RPC by quest id, not amount', async () => {
+      rpc.mockResolvedValue({
+        data: {
+          transaction: { id: 'txn-1', amount: 10, type: 'earn' },
+          profile: { id: 'child-1', balance: 10 },
+        },
+        error: null,
+      });
+
+      const result = await walletHelpers.completeQuest('quest-1', 'photo.jpg', { verifiedBy: 'parent' });
+
+      expect(rpc).toHaveBeenCalledWith('wallet_complete_quest', expect.objectContaining({
+        p_quest_type_id: 'quest-1',
+        p_proof_image_url: 'photo.jpg',
+        p_verified_by: 'parent',
+      }));
+      expect(rpc.mock.calls[0][1]).not.toHaveProperty('p_amount');
+      expect(from).not.toHaveBeenCalled();
+      expect(result.profile.balance).toBe(10);
+    });
+
+    it('should surface server rejections from the wallet RPC', async () => {
+      rpc.mockResolvedValue({
+        data: null,
+        error: { message: 'Insufficient balance. Current balance: 0, Required: 5' },
+      });
+
+      await expect(walletHelpers.spend(5, 'YouTube usage')).rejects.toEqual(
+        expect.objectContaining({ message: expect.stringContaining('Insufficient balance') })
+      );
+    });
+
+    it('should send parent adjustments with a signed amount and reason', async () => {
+      rpc.mockResolvedValue({
+        data: {
+          transaction: { id: 'txn-1', amount: 5, type: 'penalty', created_by: 'parent-1' },
+          profile: { id: 'child-1', balance: 15 },
+        },
+        error: null,
+      });
+
+      const result = await walletHelpers.adjustBalance('child-1', -5, 'Screen time after bedtime');
+
+      expect(rpc).toHaveBeenCalledWith('wallet_adjust_balance', {
+        p_child_id: 'child-1',
+        p_amount: -5,
+        p_reason: 'Screen time after bedtime',
+      });
+      expect(from).not.toHaveBeenCalled();
+      expect(result.transaction.type).toBe('penalty');
+    });
+  });
+});
@@ -0,0 +1,75 @@
+/**
+ * Web Idle Tests
+ * Verify when a web session pauses for an idle child and when it resumes by itself
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  DEFAULT_WEB_IDLE_SETTINGS,
+  describeIdlePause,
+  getWindowIdleAction,
+  isStillWatchingDue,
+  webIdleSettingsHelpers,
+} from '../webIdle';
+
+const MINUTE_MS = 60000;
+
+describe('Web Idle', () => {
+  describe('getWindowIdleAction', () => {
+    const settings = { pauseWhenAway: true, stillWatchingMinutes: 30 };
+
+    it('should pause a running session when its window goes to the background', () => {
+      expect(getWindowIdleAction('blurred', settings, 'running', null)).toBe('pause');
+      expect(getWindowIdleAction('blurred', settings, 'paused', null)).toBeNull();
+    });
+
+    it('should keep charging when the policy says so', () => {
+      expect(getWindowIdleAction('blurred', { ...settings, pauseWhenAway: false }, 'running', null)).toBeNull();
+    });
+
+    it('should resume only sessions paused for being away', () => {
+      expect(getWindowIdleAction('focused', settings, 'paused', 'away')).toBe('resume');
+      expect(getWindowIdleAction('focused', settings, 'paused', null)).toBeNull();
+      expect(getWindowIdleAction('focused', settings, 'paused', 'no_answer')).toBeNull();
+    });
+
+    it('should leave other window events to the launcher', () => {
+      expect(getWindowIdleAction('closed_by_user', settings, 'running', null)).toBeNull();
+    });
+  });
+
+  describe('isStillWatchingDue', () => {
+    it('should ask once the set running time has passed since the child was last seen', () => {
+      expect(isStillWatchingDue(0, 29 * MINUTE_MS, 30)).toBe(false);
+      expect(isStillWatchingDue(0, 30 * MINUTE_MS, 30)).toBe(true);
+    });
+
+    it('should never ask when the prompt is off', () => {
+      expect(isStillWatchingDue(0, 600 * MINUTE_MS, 0)).toBe(false);
+    });
+  });
+
+  it('should explain why the session paused', () => {
+    expect(describeIdlePause('away', 'YouTube')).toBe(
+      'Paused while YouTube is in the background. It resumes when you go back.'
+    );
+    expect(describeIdlePause('no_answer', 'YouTube')).toContain('Still watching?');
+  });
+
+  describe('webIdleSettingsHelpers', () => {
+    it('should fall back to the defaults when nothing is saved', async () => {
+      (AsyncStorage.getItem as jest.Mock).mockResolvedValueOnce(null);
+
+      await expect(webIdleSettingsHelpers.load()).resolves.toEqual(DEFAULT_WEB_IDLE_SETTINGS);
+    });
+
+    it('should keep saved choices', async () => {
+      (AsyncStorage.getItem as jest.Mock).mockResolvedValueOnce(JSON.stringify({ pauseWhenAway: false }));
+
+      await expect(webIdleSettingsHelpers.load()).resolves.toEqual({
+        pauseWhenAway: false,
+        stillWatchingMinutes: 30,
+      });
+    });
+  });
+});
@@ -0,0 +1,195 @@
+/**
+ * Window Manager Tests
+ * Verify that each managed window reports its own events to its own listeners
+ */
+
+import { WindowEvent, WindowHost, WindowManager } from '../windowManager';
+
+interface FakeWindow {
+  closed: boolean;
+  opener: unknown;
+  focus: jest.Mock;
+  close: jest.Mock;
+}
+
+const createFakeWindow = (): FakeWindow => {
+  const fake: FakeWindow = {
+    closed: false,
+    opener: {},
+    focus: jest.fn(),
+    close: jest.fn(() => {
+      fake.closed = true;
+    }),
+  };
+  return fake;
+};
+
+/**
+ * Browser window that opens fake windows, or none while the popup blocker is on
+ */
+const createHost = () => {
+  const focusListeners = new Set<() => void>();
+  const blurListeners = new Set<() => void>();
+  const opened: FakeWindow[] = [];
+  let blockPopups = false;
+
+  const host: WindowHost = {
+    open: jest.fn(() => {
+      if (blockPopups) return null;
+      const fake = createFakeWindow();
+      opened.push(fake);
+      return fake as unknown as Window;
+    }),
+    addEventListener: (type, listener) => {
+      (type === 'focus' ? focusListeners : blurListeners).add(listener);
+    },
+    removeEventListener: (type, listener) => {
+      (type === 'focus' ? focusListeners : blurListeners).delete(listener);
+    },
+  };
+
+  return {
+    host,
+    opened,
+    blockPopups: () => {
+      blockPopups = true;
+    },
+    focusHost: () => focusListeners.forEach(listener => listener()),
+    blurHost: () => blurListeners.forEach(listener => listener()),
+    listenerCount: () => focusListeners.size + blurListeners.size,
+  };
+};
+
+const types = (events: WindowEvent[]) => events.map(event => event.type);
+
+describe('WindowManager', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  it('should keep a close handler for each window when two apps are open', async () => {
+    const { host, opened } = createHost();
+    const manager = new WindowManager(host);
+    const youtubeEvents: WindowEvent[] = [];
+    const netflixEvents: WindowEvent[] = [];
+
+    await manager.openWindow('YouTube', 'https://youtube.com', { windowId: 'session-1', onEvent: e => youtubeEvents.push(e) });
+    await manager.openWindow('Netflix', 'https://netflix.com', { windowId: 'session-2', onEvent: e => netflixEvents.push(e) });
+
+    opened[0].closed = true;
+    jest.advanceTimersByTime(1000);
+
+    expect(youtubeEvents.map(event => [event.type, event.appName])).toContainEqual(['closed_by_user', 'YouTube']);
+    expect(types(netflixEvents)).not.toContain('closed_by_user');
+    expect(manager.getActiveWindows()).toEqual(['session-2']);
+    manager.cleanup();
+  });
+
+  it('should report opening and focus, and cut the opened page off from this one', async () => {
+    const { host, opened } = createHost();
+    const manager = new WindowManager(host);
+    const events: WindowEvent[] = [];
+
+    const windowId = await manager.openWindow('YouTube', 'https://youtube.com', { onEvent: e => events.push(e) });
+
+    expect(windowId).toEqual(expect.any(String));
+    expect(types(events)).toEqual(['opened', 'focused']);
+    expect(opened[0].opener).toBeNull();
+    manager.cleanup();
+  });
+
+  it('should follow the child between this window and the app window', async () => {
+    const { host, focusHost, blurHost } = createHost();
+    const manager = new WindowManager(host);
+    const events: WindowEvent[] = [];
+    await manager.openWindow('YouTube', 'https://youtube.com', { windowId: 'session-1', onEvent: e => events.push(e) });
+
+    focusHost();
+    blurHost();
+
+    expect(types(events)).toEqual(['opened', 'focused', 'blurred', 'focused']);
+    manager.cleanup();
+  });
+
+  it('should report a window closed by the app as closed by the system and stop watching', async () => {
+    const { host, opened, listenerCount } = createHost();
+    const manager = new WindowManager(host);
+    const events: WindowEvent[] = [];
+    await manager.openWindow('YouTube', 'https://youtube.com', { windowId: 'session-1', onEvent: e => events.push(e) });
+
+    expect(manager.closeWindow('session-1')).toBe(true);
+    jest.advanceTimersByTime(1000);
+
+    expect(opened[0].close).toHaveBeenCalled();
+    expect(types(events)).toEqual(['opened', 'focused', 'closed_by_system']);
+    expect(listenerCount()).toBe(0);
+    expect(jest.getTimerCount()).toBe(0);
+  });
+
+  it('should replace an app window opened again, closing the first', async () => {
+    const { host, opened } = createHost();
+    const manager = new WindowManager(host);
+    const firstEvents: WindowEvent[] = [];
+    await manager.openWindow('YouTube', 'https://youtube.com', { windowId: 'session-1', onEvent: e => firstEvents.push(e) });
+
+    await manager.openWindow('YouTube', 'https://youtube.com', { windowId: 'session-2' });
+
+    expect(opened[0].closed).toBe(true);
+    expect(types(firstEvents)).toContain('closed_by_system');
+    expect(manager.getActiveWindows()).toEqual(['session-2']);
+    manager.cleanup();
+  });
+
+  it('should report a window stopped by the popup blocker', async () => {
+    const { host, blockPopups } = createHost();
+    const manager = new WindowManager(host);
+    const events: WindowEvent[] = [];
+    blockPopups();
+
+    await expect(
+      manager.openWindow('YouTube', 'https://youtube.com', { windowId: 'session-1', onEvent: e => events.push(e) })
+    ).resolves.toBeNull();
+
+    expect(events).toEqual([expect.objectContaining({ type: 'blocked', windowId: 'session-1', appName: 'YouTube' })]);
+    expect(jest.getTimerCount()).toBe(0);
+  });
+
+  it('should close windows on blocked sites and pass the block to the extension', async () => {
+    const { host, opened } = createHost();
+    const manager = new WindowManager(host);
+    const blocker = { isConnected: () => true, setBlockedDomains: jest.fn() };
+    manager.attachDomainBlocker(blocker);
+    await manager.openWindow('YouTube', 'https://www.youtube.com/watch', { windowId: 'session-1' });
+    await manager.openWindow('Wikipedia', 'https://wikipedia.org', { windowId: 'session-2' });
+
+    expect(manager.blockDomains(['youtube.com'])).toBe(true);
+
+    expect(opened[0].closed).toBe(true);
+    expect(manager.getActiveWindows()).toEqual(['session-2']);
+    expect(blocker.setBlockedDomains).toHaveBeenLastCalledWith(['youtube.com']);
+
+    manager.unblockDomains();
+    expect(blocker.setBlockedDomains).toHaveBeenLastCalledWith([]);
+    manager.cleanup();
+  });
+
+  it('should send every window event to listeners of all windows', async () => {
+    const { host } = createHost();
+    const manager = new WindowManager(host);
+    const events: WindowEvent[] = [];
+    const unsubscribe = manager.subscribeAll(e => events.push(e));
+
+    await manager.openWindow('YouTube', 'https://youtube.com', { windowId: 'session-1' });
+    unsubscribe();
+    manager.closeWindow('session-1');
+
+    expect(types(events)).toEqual(['opened', 'focused']);
+  });
+});
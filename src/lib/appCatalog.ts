@@ -0,0 +1,148 @@
+/**
+ * App catalog for the Attention Wallet system
+ * Turns the family's catalog rows into the apps children can launch, with an offline cache
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { AppClassification, AppConfig, CatalogApp } from './types';
+import { ENTERTAINMENT_APPS } from './config';
+import { safeJsonParse } from './utils';
+import { dbHelpers } from './supabase';
+import { getAppClassification } from './appClassification';
+
+// Last catalog fetched from the server, so the launcher shows the family's apps while offline
+const CATALOG_CACHE_KEY = '@attention_wallet:app_catalog';
+
+// Fields a parent edits for one catalog app
+export type CatalogAppInput = Omit<CatalogApp, 'id' | 'parent_id' | 'created_at' | 'updated_at'>;
+
+// Most restrictive first: an app one parent charges for is not free, and a free app does not earn
+const CLASSIFICATION_ORDER: AppClassification[] = ['entertainment', 'free', 'earning'];
+
+const normalizeName = (name: string): string => name.trim().toLowerCase();
+
+const getNumbers = (values: Array<number | null | undefined>): number[] =>
+  values.filter((value): value is number => typeof value === 'number');
+
+/**
+ * Convert a catalog row into the app config the launcher and billing use
+ */
+export const toAppConfig = (app: CatalogApp): AppConfig => ({
+  name: app.name,
+  packageName: app.package_name ?? undefined,
+  deepLink: app.deep_link ?? undefined,
+  webUrl: app.web_url ?? undefined,
+  icon: app.icon ?? undefined,
+  category: app.category,
+  classification: getAppClassification(app),
+  tokensPerMinute: app.tokens_per_minute ?? undefined,
+  dailyEarnLimit: app.daily_earn_limit ?? undefined,
+  timezone: app.timezone,
+});
+
+/**
+ * Convert a built-in app into catalog fields, e.g. to start a family's catalog from the defaults
+ */
+export const toCatalogAppInput = (app: AppConfig): CatalogAppInput => ({
+  name: app.name,
+  icon: app.icon ?? null,
+  package_name: app.packageName ?? null,
+  deep_link: app.deepLink ?? null,
+  web_url: app.webUrl ?? null,
+  category: app.category,
+  classification: getAppClassification(app),
+  tokens_per_minute: app.tokensPerMinute ?? null,
+  daily_earn_limit: app.dailyEarnLimit ?? null,
+  timezone: app.timezone,
+  is_enabled: true,
+});
+
+/**
+ * Build the list of apps a child can launch from the catalog rows visible to them
+ * A family without a catalog gets the built-in apps. When several linked parents list the same app,
+ * it is shown only if none of them turned it off and the strictest setting wins: the most restrictive
+ * classification, the highest price, and for earning apps the lowest earn rate and daily limit.
+ * The server pays earning apps on the same terms (get_earning_app_terms in rls_policies.sql).
+ */
+export const buildAppList = (catalog: CatalogApp[]): AppConfig[] => {
+  if (catalog.length === 0) {
+    return ENTERTAINMENT_APPS;
+  }
+
+  const byName = new Map<string, CatalogApp[]>();
+  for (const app of catalog) {
+    const key = normalizeName(app.name);
+    byName.set(key, [...(byName.get(key) ?? []), app]);
+  }
+
+  return Array.from(byName.values())
+    .filter(entries => entries.every(entry => entry.is_enabled))
+    .map(entries => {
+      const classification = CLASSIFICATION_ORDER.find(candidate =>
+        entries.some(entry => getAppClassification(entry) === candidate)
+      )!;
+      const matching = entries.filter(entry => getAppClassification(entry) === classification);
+      const rates = getNumbers(matching.map(entry => entry.tokens_per_minute));
+      const earnLimits = getNumbers(matching.map(entry => entry.daily_earn_limit));
+      const pickRate = classification === 'earning' ? Math.min : Math.max;
+
+      return {
+        ...toAppConfig(matching[0]),
+        classification,
+        tokensPerMinute: rates.length > 0 ? pickRate(...rates) : undefined,
+        dailyEarnLimit: classification === 'earning' && earnLimits.length > 0 ? Math.min(...earnLimits) : undefined,
+        // The first in code-unit order, as the server picks it
+        timezone: matching.map(entry => entry.timezone ?? 'UTC').sort()[0],
+      };
+    });
+};
+
+/**
+ * Categories used by a list of apps, in the order they first appear
+ */
+export const getAppCategories = (apps: AppConfig[]): string[] =>
+  Array.from(new Set(apps.map(app => app.category)));
+
+/**
+ * App catalog loading with an offline cache
+ */
+export const catalogHelpers = {
+  /**
+   * Get the catalog cached from the last successful load
+   */
+  getCachedApps: async (): Promise<CatalogApp[]> => {
+    try {
+      const cached = await AsyncStorage.getItem(CATALOG_CACHE_KEY);
+      return cached ? safeJsonParse<CatalogApp[]>(cached, []) : [];
+    } catch (error) {
+      console.error('Failed to get cached app catalog:', error);
+      return [];
+    }
+  },
+
+  /**
+   * Load the catalog apps visible to the current user and refresh the cache
+   * Falls back to the cached catalog when the server cannot be reached
+   */
+  loadApps: async (): Promise<CatalogApp[]> => {
+    try {
+      const apps = await dbHelpers.getCatalogApps();
+      await AsyncStorage.setItem(CATALOG_CACHE_KEY, JSON.stringify(apps));
+      return apps;
+    } catch (error) {
+      console.error('Failed to load app catalog, using cached apps:', error);
+      return catalogHelpers.getCachedApps();
+    }
+  },
+
+  /**
+   * Clear the cached catalog (e.g. on sign out)
+   */
+  clearCache: async (): Promise<void> => {
+    try {
+      await AsyncStorage.removeItem(CATALOG_CACHE_KEY);
+    } catch (error) {
+      console.error('Failed to clear cached app catalog:', error);
+    }
+  },
+};
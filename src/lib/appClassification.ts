@@ -0,0 +1,94 @@
+/**
+ * App classification for the Attention Wallet system
+ * Entertainment apps cost tokens, free apps cost nothing and earning apps (Learn & Earn) pay the
+ * child tokens while used, up to a daily earn limit per app
+ */
+
+import { AppClassification, AppConfig, Transaction } from './types';
+import { APP_CONFIG } from './config';
+import { getDayStart } from './caps';
+import { dbHelpers } from './supabase';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const APP_CLASSIFICATION_LABELS: Record<AppClassification, string> = {
+  entertainment: 'Entertainment',
+  free: 'Free',
+  earning: 'Learn & Earn',
+};
+
+/**
+ * How an app's time is treated; apps without a classification are entertainment
+ */
+export const getAppClassification = (app: Pick<AppConfig, 'classification'>): AppClassification =>
+  app.classification ?? 'entertainment';
+
+/**
+ * Whether an app costs tokens, and so is subject to the balance, pricing and spending caps
+ */
+export const isEntertainmentApp = (app: Pick<AppConfig, 'classification'>): boolean =>
+  getAppClassification(app) === 'entertainment';
+
+/**
+ * Tokens per minute an earning app pays
+ */
+export const getEarnRate = (app: Pick<AppConfig, 'tokensPerMinute'>): number =>
+  app.tokensPerMinute ?? APP_CONFIG.earnRate;
+
+/**
+ * Most tokens an earning app pays out per day
+ */
+export const getDailyEarnLimit = (app: Pick<AppConfig, 'dailyEarnLimit'>): number =>
+  app.dailyEarnLimit ?? APP_CONFIG.dailyEarnLimit;
+
+/**
+ * Midnight that starts an earning app's day, in the timezone its daily earn limit resets in
+ * The server (wallet_earn_app_time) uses the same boundary; apps without a timezone reset at UTC midnight
+ */
+export const getEarnDayStart = (app: Pick<AppConfig, 'timezone'>, at: Date = new Date()): Date =>
+  getDayStart(app.timezone ?? 'UTC', at);
+
+/**
+ * Tokens an app has paid out since its day started, from the earns recorded with its name
+ */
+export const getEarnedToday = (
+  app: Pick<AppConfig, 'name' | 'timezone'>,
+  transactions: Transaction[],
+  at: Date = new Date()
+): number => {
+  const dayStart = getEarnDayStart(app, at).getTime();
+  const key = app.name.trim().toLowerCase();
+
+  return transactions
+    .filter(transaction =>
+      transaction.type === 'earn' &&
+      transaction.app_name?.trim().toLowerCase() === key &&
+      new Date(transaction.timestamp).getTime() >= dayStart
+    )
+    .reduce((total, transaction) => total + transaction.amount, 0);
+};
+
+/**
+ * Tokens an app can still pay out today; always 0 for apps that do not earn
+ */
+export const getEarnAllowance = (
+  app: Pick<AppConfig, 'name' | 'classification' | 'dailyEarnLimit' | 'timezone'>,
+  transactions: Transaction[],
+  at: Date = new Date()
+): number => {
+  if (getAppClassification(app) !== 'earning') {
+    return 0;
+  }
+
+  return Math.max(0, getDailyEarnLimit(app) - getEarnedToday(app, transactions, at));
+};
+
+export const earnHelpers = {
+  /**
+   * Load the app earnings that can count towards today's earn limits
+   * Covers the last 24 hours so every app timezone's current day is included
+   */
+  loadRecentEarnings: async (userId: string, at: Date = new Date()): Promise<Transaction[]> => {
+    return dbHelpers.getAppEarningsSince(userId, new Date(at.getTime() - DAY_MS).toISOString());
+  },
+};
@@ -0,0 +1,73 @@
+/**
+ * App session records for the Attention Wallet system
+ * Server-side copies of each session (app_sessions) so parents can see how long it really lasted
+ */
+
+import { AppSession, AppSessionEndReason } from './types';
+
+// How often an open session tells the server it is still running
+export const HEARTBEAT_INTERVAL_MS = 30000;
+
+// Matches the default of close_stale_app_sessions (database/schema.sql)
+export const STALE_SESSION_AFTER_MS = 2 * 60 * 1000;
+
+export const APP_SESSION_END_LABELS: Record<AppSessionEndReason, string> = {
+  user: 'Stopped',
+  insufficient_balance: 'Ran out of tokens',
+  schedule: 'Stopped by schedule',
+  cap: 'Daily limit reached',
+  charge_failed: 'Charge failed',
+  time_up: 'Time block used up',
+  taken_over: 'Moved to another device',
+  stale: 'Lost contact',
+};
+
+/**
+ * Whether a session is still running: not closed and heard from recently
+ */
+export const isAppSessionLive = (session: AppSession, now: number = Date.now()): boolean =>
+  !session.ended_at && now - new Date(session.last_heartbeat_at).getTime() <= STALE_SESSION_AFTER_MS;
+
+/**
+ * Wall-clock length of a session in seconds, pauses included
+ * A session that stopped sending heartbeats is counted up to its last one
+ */
+export const getAppSessionDuration = (session: AppSession, now: number = Date.now()): number => {
+  const end = session.ended_at
+    ? new Date(session.ended_at).getTime()
+    : isAppSessionLive(session, now) ? now : new Date(session.last_heartbeat_at).getTime();
+
+  return Math.max(0, Math.floor((end - new Date(session.started_at).getTime()) / 1000));
+};
+
+/**
+ * Format seconds as "1h 5m", "12m 30s" or "45s"
+ */
+export const formatSessionDuration = (seconds: number): string => {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  const remainder = seconds % 60;
+
+  if (hours > 0) return `${hours}h ${minutes}m`;
+  if (minutes > 0) return `${minutes}m ${remainder}s`;
+  return `${remainder}s`;
+};
+
+/**
+ * One-line summary of a session for the parent dashboard
+ * Learn & Earn sessions show what they paid the child rather than what they cost
+ */
+export const describeAppSession = (session: AppSession, now: number = Date.now()): string => {
+  const duration = formatSessionDuration(getAppSessionDuration(session, now));
+  const status = isAppSessionLive(session, now)
+    ? 'In progress'
+    : APP_SESSION_END_LABELS[session.end_reason ?? 'stale'];
+  const paused = getAppSessionDuration(session, now) - session.active_seconds;
+  const pausedNote = paused >= 60 ? ` (${formatSessionDuration(paused)} paused)` : '';
+
+  const tokens = session.classification === 'earning'
+    ? `+${session.tokens_earned ?? 0} tokens earned`
+    : session.classification === 'free' ? 'Free' : `${session.tokens_charged} tokens`;
+
+  return `${duration}${pausedNote} · ${tokens} · ${status}`;
+};
@@ -0,0 +1,312 @@
+/**
+ * Browser extension bridge for the Attention Wallet system
+ * Talks to the companion extension over the protocol in lib/extensionProtocol.ts: says hello,
+ * keeps the connection alive with pings, sends the list of sites to block and follows the
+ * child's active tab, adding up how long each app's site (AppConfig.webUrl) was in use.
+ */
+
+import {
+  AppToExtensionMessage,
+  BlockReason,
+  ExtensionToAppMessage,
+  matchAppForDomain,
+  parseExtensionMessage,
+  wrapAppMessage,
+} from './extensionProtocol';
+import { AppConfig } from './types';
+
+// How often the app pings the extension; a connection silent for two pings is treated as lost
+export const EXTENSION_PING_INTERVAL_MS = 15000;
+
+export interface ExtensionTransport {
+  send: (data: unknown) => void;
+  subscribe: (listener: (data: unknown) => void) => () => void;
+  close: () => void;
+}
+
+export type ExtensionEvent =
+  | { type: 'connected'; extensionVersion: string }
+  | { type: 'disconnected' }
+  | { type: 'tab_activity'; domain: string | null; appName: string | null }
+  | { type: 'blocked_attempt'; domain: string; appName: string | null };
+
+type ExtensionListener = (event: ExtensionEvent) => void;
+
+export interface ExtensionBridgeOptions {
+  apps?: AppConfig[];
+  now?: () => number;
+}
+
+/**
+ * Transport for an extension content script in this page, which relays over window.postMessage
+ */
+export const createPostMessageTransport = (target: Window): ExtensionTransport => ({
+  send: (data) => target.postMessage(data, target.location?.origin ?? '*'),
+  subscribe: (listener) => {
+    const handleMessage = (event: MessageEvent) => {
+      // Only the page itself (where the content script runs) may speak for the extension
+      if (event.source !== target) return;
+      listener(event.data);
+    };
+    target.addEventListener('message', handleMessage);
+    return () => target.removeEventListener('message', handleMessage);
+  },
+  close: () => undefined,
+});
+
+/**
+ * Transport for a companion running on this computer, e.g. ws://127.0.0.1:38217
+ * Messages sent before the socket opens are queued
+ */
+export const createWebSocketTransport = (url: string): ExtensionTransport => {
+  const socket = new WebSocket(url);
+  const pending: string[] = [];
+  const listeners = new Set<(data: unknown) => void>();
+
+  socket.onopen = () => {
+    pending.splice(0).forEach(data => socket.send(data));
+  };
+  socket.onmessage = (event: MessageEvent) => {
+    const data = typeof event.data === 'string' ? safeParse(event.data) : null;
+    if (data !== null) listeners.forEach(listener => listener(data));
+  };
+  socket.onerror = (error) => {
+    console.error('Browser extension socket error:', error);
+  };
+
+  return {
+    send: (data) => {
+      const serialized = JSON.stringify(data);
+      if (socket.readyState === WebSocket.OPEN) {
+        socket.send(serialized);
+      } else {
+        pending.push(serialized);
+      }
+    },
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    close: () => socket.close(),
+  };
+};
+
+/**
+ * Parse a socket message, or null if it is not JSON
+ */
+const safeParse = (data: string): unknown => {
+  try {
+    return JSON.parse(data);
+  } catch {
+    return null;
+  }
+};
+
+export class ExtensionBridge {
+  private transport: ExtensionTransport;
+  private apps: AppConfig[];
+  private now: () => number;
+  private listeners = new Set<ExtensionListener>();
+  private unsubscribeTransport: (() => void) | null = null;
+  private pingInterval: ReturnType<typeof setInterval> | null = null;
+  private connected = false;
+  private lastHeardAt = 0;
+  private blockedDomains: string[] = [];
+  private blockReason: BlockReason | null = null;
+  private activeApp: { name: string; since: number } | null = null;
+  private browsingMs: Record<string, number> = {};
+
+  constructor(transport: ExtensionTransport, options: ExtensionBridgeOptions = {}) {
+    this.transport = transport;
+    this.apps = options.apps ?? [];
+    this.now = options.now ?? Date.now;
+  }
+
+  /**
+   * Start listening and say hello; the extension answers with its own hello once installed
+   */
+  connect(): void {
+    if (this.unsubscribeTransport) return;
+
+    this.unsubscribeTransport = this.transport.subscribe(data => this.handleData(data));
+    this.send({ type: 'hello' });
+
+    this.pingInterval = setInterval(() => {
+      if (this.connected && this.now() - this.lastHeardAt > 2 * EXTENSION_PING_INTERVAL_MS) {
+        this.setDisconnected();
+      }
+      this.send({ type: 'ping' });
+    }, EXTENSION_PING_INTERVAL_MS);
+  }
+
+  /**
+   * Stop listening and close the transport
+   */
+  disconnect(): void {
+    if (this.pingInterval) {
+      clearInterval(this.pingInterval);
+      this.pingInterval = null;
+    }
+    this.unsubscribeTransport?.();
+    this.unsubscribeTransport = null;
+    this.transport.close();
+    this.setDisconnected();
+  }
+
+  /**
+   * Whether an extension has answered and is still answering
+   */
+  isConnected(): boolean {
+    return this.connected;
+  }
+
+  /**
+   * Apps whose sites browsing time is attributed to
+   */
+  setApps(apps: AppConfig[]): void {
+    this.apps = apps;
+  }
+
+  /**
+   * Tell the extension which sites to block; an empty list unblocks everything
+   * The list is kept and sent again whenever the extension (re)connects
+   */
+  setBlockedDomains(domains: string[], reason: BlockReason | null = domains.length > 0 ? 'out_of_tokens' : null): void {
+    this.blockedDomains = [...domains];
+    this.blockReason = reason;
+    this.send({ type: 'set_blocklist', domains: this.blockedDomains, reason });
+  }
+
+  /**
+   * Sites currently blocked
+   */
+  getBlockedDomains(): string[] {
+    return [...this.blockedDomains];
+  }
+
+  /**
+   * Time each app's site has been the active tab, including the current stretch
+   */
+  getBrowsingTime(): Record<string, number> {
+    const totals = { ...this.browsingMs };
+    if (this.activeApp) {
+      totals[this.activeApp.name] = (totals[this.activeApp.name] ?? 0) + this.now() - this.activeApp.since;
+    }
+    return totals;
+  }
+
+  /**
+   * Listen for connection changes, tab activity and blocked attempts; returns an unsubscribe function
+   */
+  subscribe(listener: ExtensionListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Handle one message from the transport, ignoring anything that is not the extension's
+   */
+  private handleData(data: unknown): void {
+    const message = parseExtensionMessage(data);
+    if (!message) return;
+
+    this.lastHeardAt = this.now();
+    this.handleMessage(message);
+  }
+
+  /**
+   * Act on a message from the extension
+   */
+  private handleMessage(message: ExtensionToAppMessage): void {
+    switch (message.type) {
+      case 'hello':
+        // A new or reloaded extension starts with no blocklist
+        this.connected = true;
+        this.send({ type: 'set_blocklist', domains: this.blockedDomains, reason: this.blockReason });
+        this.emit({ type: 'connected', extensionVersion: message.extensionVersion });
+        break;
+      case 'tab_activity': {
+        const app = message.domain ? matchAppForDomain(message.domain, this.apps) : null;
+        this.switchActiveApp(app?.name ?? null);
+        this.emit({ type: 'tab_activity', domain: message.domain, appName: app?.name ?? null });
+        break;
+      }
+      case 'blocked_attempt':
+        this.emit({
+          type: 'blocked_attempt',
+          domain: message.domain,
+          appName: matchAppForDomain(message.domain, this.apps)?.name ?? null,
+        });
+        break;
+      case 'pong':
+        // Answering again after going quiet: shake hands so the blocklist is sent again
+        if (!this.connected) this.send({ type: 'hello' });
+        break;
+    }
+  }
+
+  /**
+   * Close the current stretch of browsing time and start one for the new app, if any
+   */
+  private switchActiveApp(appName: string | null): void {
+    const now = this.now();
+
+    if (this.activeApp) {
+      if (this.activeApp.name === appName) return;
+      this.browsingMs[this.activeApp.name] = (this.browsingMs[this.activeApp.name] ?? 0) + now - this.activeApp.since;
+    }
+    this.activeApp = appName ? { name: appName, since: now } : null;
+  }
+
+  /**
+   * Stop counting browsing time and report the extension gone, once
+   */
+  private setDisconnected(): void {
+    this.switchActiveApp(null);
+    if (!this.connected) return;
+
+    this.connected = false;
+    this.emit({ type: 'disconnected' });
+  }
+
+  /**
+   * Send a message to the extension; fails quietly when nothing is listening
+   */
+  private send(message: AppToExtensionMessage): void {
+    try {
+      this.transport.send(wrapAppMessage(message));
+    } catch (error) {
+      console.error('Failed to message browser extension:', error);
+    }
+  }
+
+  /**
+   * Notify listeners, keeping one failing listener from affecting the rest
+   */
+  private emit(event: ExtensionEvent): void {
+    this.listeners.forEach(listener => {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error('Browser extension listener failed:', error);
+      }
+    });
+  }
+}
+
+let sharedBridge: ExtensionBridge | null = null;
+
+/**
+ * The app's bridge to an extension in this page, created on first use; null off the web
+ */
+export const getBrowserExtension = (): ExtensionBridge | null => {
+  if (sharedBridge) return sharedBridge;
+  if (typeof window === 'undefined' || typeof window.postMessage !== 'function') return null;
+
+  sharedBridge = new ExtensionBridge(createPostMessageTransport(window));
+  return sharedBridge;
+};
@@ -0,0 +1,217 @@
+/**
+ * Spending caps for the Attention Wallet system
+ * Measures today's consumption from the ledger against each child's daily caps
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { AppConfig, SpendingCap, SpendingCapStatus, Transaction } from './types';
+import { safeJsonParse } from './utils';
+import { dbHelpers } from './supabase';
+
+// Last caps fetched from the server, so limits still apply while offline
+const CAPS_CACHE_KEY = '@attention_wallet:spending_caps';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Get the moment local midnight began in a timezone
+ * Falls back to the device clock when the timezone is not recognised
+ */
+export const getDayStart = (timezone: string, at: Date = new Date()): Date => {
+  try {
+    const parts = new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+      hourCycle: 'h23',
+    }).formatToParts(at);
+    const part = (type: string) => Number(parts.find(p => p.type === type)?.value ?? 0);
+    const elapsedToday = ((part('hour') % 24) * 3600 + part('minute') * 60 + part('second')) * 1000;
+
+    return new Date(at.getTime() - elapsedToday - at.getMilliseconds());
+  } catch {
+    const localMidnight = new Date(at);
+    localMidnight.setHours(0, 0, 0, 0);
+    return localMidnight;
+  }
+};
+
+/**
+ * Look up an app's category by name, ignoring case
+ */
+export const getAppCategory = (appName: string | undefined, apps: AppConfig[]): string | null => {
+  if (!appName) return null;
+
+  const key = appName.trim().toLowerCase();
+  return apps.find(app => app.name.toLowerCase() === key)?.category ?? null;
+};
+
+/**
+ * Check whether a cap limits an app
+ */
+export const capAppliesTo = (cap: SpendingCap, app: Pick<AppConfig, 'category'>): boolean =>
+  cap.scope === 'total' || cap.category?.toLowerCase() === app.category.toLowerCase();
+
+/**
+ * Measure today's usage against one cap
+ * Spends count in full. Refunds of unused prepaid time carry their app and give back both tokens
+ * and minutes; other refunds carry no app and give tokens back to total caps only.
+ * Minute caps count the app time recorded on each spend. wallet_spend counts the same way on the
+ * server (find_reached_spending_cap) and refuses new app time once a cap is reached.
+ */
+export const getCapStatus = (
+  cap: SpendingCap,
+  transactions: Transaction[],
+  apps: AppConfig[],
+  at: Date = new Date()
+): SpendingCapStatus => {
+  const dayStart = getDayStart(cap.timezone, at).getTime();
+  let tokens = 0;
+  let seconds = 0;
+
+  for (const transaction of transactions) {
+    const time = new Date(transaction.timestamp).getTime();
+    if (time < dayStart) continue;
+
+    const isRefund = transaction.type === 'refund';
+    if (!isRefund && transaction.type !== 'spend') continue;
+
+    if (isRefund && !transaction.app_name) {
+      if (cap.scope === 'total') tokens -= transaction.amount;
+      continue;
+    }
+
+    const category = getAppCategory(transaction.app_name, apps);
+    if (cap.scope === 'category' && (!category || !capAppliesTo(cap, { category }))) continue;
+
+    const sign = isRefund ? -1 : 1;
+    tokens += sign * transaction.amount;
+    seconds += sign * (transaction.usage_seconds ?? 0);
+  }
+
+  const used = cap.unit === 'tokens' ? Math.max(0, tokens) : Math.floor(Math.max(0, seconds) / 60);
+
+  return {
+    cap,
+    used,
+    remaining: Math.max(0, cap.daily_limit - used),
+    reached: used >= cap.daily_limit,
+  };
+};
+
+/**
+ * Measure today's usage against every active cap
+ */
+export const evaluateSpendingCaps = (
+  caps: SpendingCap[],
+  transactions: Transaction[],
+  apps: AppConfig[],
+  at: Date = new Date()
+): SpendingCapStatus[] =>
+  caps.filter(cap => cap.is_active).map(cap => getCapStatus(cap, transactions, apps, at));
+
+/**
+ * Find a reached cap that stops an app from being used, if any
+ */
+export const findReachedCap = (
+  statuses: SpendingCapStatus[],
+  app: Pick<AppConfig, 'category'>
+): SpendingCapStatus | null =>
+  statuses.find(status => status.reached && capAppliesTo(status.cap, app)) ?? null;
+
+/**
+ * Most whole minutes of an app today's caps still allow at a token rate; null when no cap applies
+ * Used to size prepaid blocks so buying one never runs past a cap
+ */
+export const getRemainingCapMinutes = (
+  statuses: SpendingCapStatus[],
+  app: Pick<AppConfig, 'category'>,
+  tokensPerMinute: number
+): number | null => {
+  let minutes: number | null = null;
+
+  for (const status of statuses) {
+    if (!capAppliesTo(status.cap, app)) continue;
+
+    const allowed = status.cap.unit === 'minutes'
+      ? status.remaining
+      : Math.floor(status.remaining / tokensPerMinute);
+    minutes = minutes === null ? allowed : Math.min(minutes, allowed);
+  }
+
+  return minutes;
+};
+
+/**
+ * Short label for a cap, e.g. "Social: 60 min/day" or "All apps: 150 tokens/day"
+ */
+export const describeSpendingCap = (cap: SpendingCap): string => {
+  const target = cap.scope === 'total' ? 'All apps' : cap.category;
+  const unit = cap.unit === 'tokens' ? 'tokens' : 'min';
+
+  return `${target}: ${cap.daily_limit} ${unit}/day`;
+};
+
+/**
+ * Child-facing explanation of a reached cap
+ */
+export const describeCapReached = (status: SpendingCapStatus): string => {
+  const { cap } = status;
+  const amount = cap.unit === 'tokens' ? `${cap.daily_limit} tokens` : `${cap.daily_limit} minutes`;
+  const target = cap.scope === 'total' ? 'apps' : `${cap.category} apps`;
+
+  return `You've used today's ${amount} of ${target}. It resets at midnight.`;
+};
+
+/**
+ * Cap and usage loading with an offline cache
+ */
+export const capsHelpers = {
+  /**
+   * Get the spending caps cached from the last successful load
+   */
+  getCachedCaps: async (): Promise<SpendingCap[]> => {
+    try {
+      const cached = await AsyncStorage.getItem(CAPS_CACHE_KEY);
+      return cached ? safeJsonParse<SpendingCap[]>(cached, []) : [];
+    } catch (error) {
+      console.error('Failed to get cached spending caps:', error);
+      return [];
+    }
+  },
+
+  /**
+   * Load a child's spending caps and refresh the cache
+   * Falls back to the cached caps when the server cannot be reached
+   */
+  loadCaps: async (childId: string): Promise<SpendingCap[]> => {
+    try {
+      const caps = await dbHelpers.getSpendingCaps(childId);
+      await AsyncStorage.setItem(CAPS_CACHE_KEY, JSON.stringify(caps));
+      return caps;
+    } catch (error) {
+      console.error('Failed to load spending caps, using cached caps:', error);
+      return capsHelpers.getCachedCaps();
+    }
+  },
+
+  /**
+   * Load the spends and refunds that can count towards today's caps
+   * Covers the last 24 hours so every cap timezone's current day is included
+   */
+  loadRecentSpending: async (userId: string, at: Date = new Date()): Promise<Transaction[]> => {
+    return dbHelpers.getSpendingSince(userId, new Date(at.getTime() - DAY_MS).toISOString());
+  },
+
+  /**
+   * Clear the cached spending caps (e.g. on sign out)
+   */
+  clearCache: async (): Promise<void> => {
+    try {
+      await AsyncStorage.removeItem(CAPS_CACHE_KEY);
+    } catch (error) {
+      console.error('Failed to clear cached spending caps:', error);
+    }
+  },
+};
@@ -1,3 +1,5 @@
+import { AppConfig } from './types';
+
 // Supabase configuration (for backward compatibility)
 export const SUPABASE_CONFIG = {
   url: process.env.EXPO_PUBLIC_SUPABASE_URL || '',
@@ -25,10 +27,13 @@ export const GEMINI_CONFIG = {
 
 // App configuration
 export const APP_CONFIG = {
-  tokenRate: 5, // 5 tokens per minute
+  tokenRate: 5, // Default tokens per minute for apps without a family pricing rule
   minConfidenceScore: 70, // Minimum AI confidence for quest validation
   maxRetries: 3, // Maximum retry attempts for API calls
   syncInterval: 30000, // 30 seconds for offline sync attempts
+  prepaidBlockMinutes: [15, 30, 60], // Blocks a child can buy up front instead of paying as they go
+  earnRate: 1, // Default tokens per minute paid by earning apps
+  dailyEarnLimit: 30, // Default most tokens one earning app pays out per day
 };
 
 // Validation functions
@@ -49,22 +54,15 @@ export const validateConfig = (): boolean => {
   return true;
 };
 
-// Entertainment apps configuration
-export const ENTERTAINMENT_APPS: Array<{
-  name: string;
-  packageName?: string;
-  deepLink?: string;
-  webUrl?: string;
-  icon: string;
-  category: string;
-}> = [
+// Built-in apps, used until a family sets up its own app catalog
+export const ENTERTAINMENT_APPS: AppConfig[] = [
   {
     name: 'YouTube',
     packageName: 'com.google.android.youtube',
-    deepLink: 'youtube://',
+    deepLink: 'vnd.youtube://',
     webUrl: 'https://youtube.com',
     icon: '📺',
-    category: 'video',
+    category: 'Video',
   },
   {
     name: 'Netflix',
@@ -72,7 +70,7 @@ export const ENTERTAINMENT_APPS: Array<{
     deepLink: 'nflx://',
     webUrl: 'https://netflix.com',
     icon: '🎬',
-    category: 'video',
+    category: 'Video',
   },
   {
     name: 'Spotify',
@@ -80,15 +78,15 @@ export const ENTERTAINMENT_APPS: Array<{
     deepLink: 'spotify://',
     webUrl: 'https://open.spotify.com',
     icon: '🎵',
-    category: 'music',
+    category: 'Music',
   },
   {
     name: 'TikTok',
     packageName: 'com.zhiliaoapp.musically',
-    deepLink: 'tiktok://',
+    deepLink: 'snssdk1233://',
     webUrl: 'https://tiktok.com',
     icon: '🎭',
-    category: 'social',
+    category: 'Social',
   },
   {
     name: 'Instagram',
@@ -96,7 +94,7 @@ export const ENTERTAINMENT_APPS: Array<{
     deepLink: 'instagram://',
     webUrl: 'https://instagram.com',
     icon: '📸',
-    category: 'social',
+    category: 'Social',
   },
   {
     name: 'Discord',
@@ -104,6 +102,40 @@ export const ENTERTAINMENT_APPS: Array<{
     deepLink: 'discord://',
     webUrl: 'https://discord.com/app',
     icon: '💬',
-    category: 'social',
+    category: 'Social',
+  },
+  {
+    name: 'Twitch',
+    packageName: 'tv.twitch.android.app',
+    deepLink: 'twitch://',
+    webUrl: 'https://twitch.tv',
+    icon: '🎮',
+    category: 'Gaming',
+  },
+  {
+    name: 'Roblox',
+    packageName: 'com.roblox.client',
+    deepLink: 'roblox-player://',
+    webUrl: 'https://roblox.com',
+    icon: '🎯',
+    category: 'Gaming',
+  },
+  {
+    name: 'Duolingo',
+    packageName: 'com.duolingo',
+    deepLink: 'duolingo://',
+    webUrl: 'https://www.duolingo.com',
+    icon: '🦉',
+    category: 'Learning',
+    classification: 'earning',
+  },
+  {
+    name: 'Khan Academy',
+    packageName: 'org.khanacademy.android',
+    deepLink: 'khanacademy://',
+    webUrl: 'https://www.khanacademy.org',
+    icon: '📚',
+    category: 'Learning',
+    classification: 'earning',
   },
-];
\ No newline at end of file
+];
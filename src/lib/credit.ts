@@ -0,0 +1,37 @@
+/**
+ * Token loans for the Attention Wallet system
+ * Debt and remaining credit for children who may borrow against future income
+ */
+
+import { CreditLine, Loan } from './types';
+
+// Borrowing amounts offered besides the exact shortfall
+const BORROW_STEPS = [10, 25, 50];
+
+/**
+ * Total tokens still owed across a child's loans
+ */
+export const getOutstandingDebt = (loans: Pick<Loan, 'outstanding'>[]): number =>
+  loans.reduce((sum, loan) => sum + loan.outstanding, 0);
+
+/**
+ * Tokens that can still be borrowed; 0 without an active credit line
+ */
+export const getAvailableCredit = (creditLine: CreditLine | null, loans: Pick<Loan, 'outstanding'>[]): number => {
+  if (!creditLine || !creditLine.is_active) return 0;
+
+  return Math.max(0, creditLine.credit_limit - getOutstandingDebt(loans));
+};
+
+/**
+ * Amounts to offer a child who is `needed` tokens short, smallest first
+ * Empty when the available credit cannot cover the shortfall
+ */
+export const getBorrowOptions = (needed: number, available: number): number[] => {
+  const minimum = Math.max(1, Math.ceil(needed));
+  if (available < minimum) return [];
+
+  return Array.from(new Set([minimum, ...BORROW_STEPS]))
+    .filter(amount => amount >= minimum && amount <= available)
+    .sort((a, b) => a - b);
+};
@@ -7,6 +7,7 @@ import AsyncStorage from '@react-native-async-storage/async-storage';
 import { Alert } from 'react-native';
 import { Profile, Transaction } from './types';
 import { DataCorruptionHandler, DataCorruptionError } from './errorHandling';
+import { isCreditTransaction } from './utils';
 
 export interface DataBackup {
   timestamp: string;
@@ -303,12 +304,18 @@ export class DataIntegrityService {
 
     try {
       // Calculate expected balance from transactions
-      const earnTransactions = transactions.filter(t => t.type === 'earn');
-      const spendTransactions = transactions.filter(t => t.type === 'spend');
+      // Mirror update_profile_balance: earn/allowance are income, refunds reduce
+      // total_spent, and adjustments/penalties, goal transfers, loans and family transfers only move the balance
+      const sumOf = (...types: Transaction['type'][]) => transactions
+        .filter(t => types.includes(t.type))
+        .reduce((sum, t) => sum + t.amount, 0);
       
-      const totalEarned = earnTransactions.reduce((sum, t) => sum + t.amount, 0);
-      const totalSpent = spendTransactions.reduce((sum, t) => sum + t.amount, 0);
-      const expectedBalance = totalEarned - totalSpent;
+      const totalEarned = sumOf('earn', 'allowance');
+      const totalSpent = Math.max(sumOf('spend') - sumOf('refund'), 0);
+      const expectedBalance = transactions.reduce(
+        (sum, t) => sum + (isCreditTransaction(t.type) ? t.amount : -t.amount),
+        0
+      );
 
       // Check balance consistency
       if (Math.abs(profile.balance - expectedBalance) > 0.01) { // Allow for small floating point errors
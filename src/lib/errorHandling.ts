@@ -5,6 +5,8 @@
 
 import { Alert } from 'react-native';
 import { AppConfig } from './types';
+import { ENTERTAINMENT_APPS } from './config';
+import { TRANSACTION_TYPE_LABELS } from './utils';
 
 export interface ErrorRecoveryOptions {
   showAlert?: boolean;
@@ -37,27 +39,6 @@ export interface DataCorruptionError extends Error {
  * App Launch Error Handling
  */
 export class AppLaunchErrorHandler {
-  private static alternativeApps: Record<string, AppConfig[]> = {
-    'Video': [
-      { name: 'YouTube', packageName: 'com.google.android.youtube', deepLink: 'youtube://', webUrl: 'https://youtube.com', icon: '📺', category: 'Video' },
-      { name: 'Netflix', packageName: 'com.netflix.mediaclient', deepLink: 'nflx://', webUrl: 'https://netflix.com', icon: '🎬', category: 'Video' },
-      { name: 'Twitch', packageName: 'tv.twitch.android.app', deepLink: 'twitch://', webUrl: 'https://twitch.tv', icon: '🎮', category: 'Video' },
-    ],
-    'Music': [
-      { name: 'Spotify', packageName: 'com.spotify.music', deepLink: 'spotify://', webUrl: 'https://open.spotify.com', icon: '🎵', category: 'Music' },
-      { name: 'YouTube Music', packageName: 'com.google.android.apps.youtube.music', deepLink: 'youtubemusic://', webUrl: 'https://music.youtube.com', icon: '🎶', category: 'Music' },
-    ],
-    'Social': [
-      { name: 'Instagram', packageName: 'com.instagram.android', deepLink: 'instagram://', webUrl: 'https://instagram.com', icon: '📸', category: 'Social' },
-      { name: 'TikTok', packageName: 'com.zhiliaoapp.musically', deepLink: 'snssdk1233://', webUrl: 'https://tiktok.com', icon: '🎭', category: 'Social' },
-      { name: 'Discord', packageName: 'com.discord', deepLink: 'discord://', webUrl: 'https://discord.com/app', icon: '💬', category: 'Social' },
-    ],
-    'Gaming': [
-      { name: 'Roblox', packageName: 'com.roblox.client', deepLink: 'roblox://', webUrl: 'https://roblox.com', icon: '🎯', category: 'Gaming' },
-      { name: 'Twitch', packageName: 'tv.twitch.android.app', deepLink: 'twitch://', webUrl: 'https://twitch.tv', icon: '🎮', category: 'Gaming' },
-    ],
-  };
-
   static createAppLaunchError(
     type: AppLaunchError['type'],
     appName: string,
@@ -75,7 +56,8 @@ export class AppLaunchErrorHandler {
   static async handleAppLaunchError(
     error: AppLaunchError,
     refundTokens: (amount: number, description: string) => Promise<void>,
-    options: ErrorRecoveryOptions = {}
+    options: ErrorRecoveryOptions = {},
+    apps: AppConfig[] = ENTERTAINMENT_APPS // The family's app catalog, to suggest alternatives from
   ): Promise<void> {
     const {
       showAlert = true,
@@ -104,7 +86,7 @@ export class AppLaunchErrorHandler {
     }
 
     if (showAlert) {
-      const alternatives = suggestAlternatives ? this.getAlternativeApps(error.appName) : [];
+      const alternatives = suggestAlternatives ? this.getAlternativeApps(error.appName, apps) : [];
       
       let message = this.getErrorMessage(error);
       
@@ -143,21 +125,20 @@ export class AppLaunchErrorHandler {
     }
   }
 
-  private static getAlternativeApps(failedAppName: string): AppConfig[] {
-    // Find the category of the failed app and suggest alternatives
-    for (const [category, apps] of Object.entries(this.alternativeApps)) {
-      const failedApp = apps.find(app => app.name === failedAppName);
-      if (failedApp) {
-        return apps.filter(app => app.name !== failedAppName);
-      }
+  private static getAlternativeApps(failedAppName: string, apps: AppConfig[]): AppConfig[] {
+    const otherApps = apps.filter(app => app.name !== failedAppName);
+
+    // Suggest other apps in the failed app's category
+    const failedApp = apps.find(app => app.name === failedAppName);
+    const sameCategory = otherApps.filter(app => app.category === failedApp?.category);
+    if (sameCategory.length > 0) {
+      return sameCategory;
     }
     
-    // If no specific category found, return popular alternatives
-    return [
-      this.alternativeApps.Video[0], // YouTube
-      this.alternativeApps.Music[0], // Spotify
-      this.alternativeApps.Social[0], // Instagram
-    ].filter(app => app.name !== failedAppName);
+    // If no specific category found, suggest one app from each category
+    return otherApps.filter((app, index) =>
+      otherApps.findIndex(other => other.category === app.category) === index
+    );
   }
 
   private static showAlternatives(alternatives: AppConfig[]): void {
@@ -481,7 +462,7 @@ export class DataCorruptionHandler {
       );
     }
 
-    if (!['earn', 'spend'].includes(transaction.type)) {
+    if (!Object.keys(TRANSACTION_TYPE_LABELS).includes(transaction.type)) {
       return this.createDataCorruptionError(
         'TRANSACTION_CORRUPTION',
         'Transaction type is invalid',
@@ -0,0 +1,117 @@
+/**
+ * Companion browser extension protocol for the Attention Wallet system
+ * On web the app can only close windows it opened itself, so a companion extension does the
+ * enforcement: it reports which site the child's active tab shows and blocks the sites it is
+ * told to. Messages travel in a versioned envelope over window.postMessage (from the
+ * extension's content script) or a WebSocket (from a local companion); see
+ * EXTENSION_PROTOCOL.md for the message reference.
+ */
+
+import { AppConfig } from './types';
+
+export const EXTENSION_PROTOCOL_VERSION = 1;
+
+// Envelope sources, so each side ignores its own messages and unrelated postMessage traffic
+export const APP_MESSAGE_SOURCE = 'aether-wallet';
+export const EXTENSION_MESSAGE_SOURCE = 'aether-extension';
+
+export type BlockReason = 'out_of_tokens';
+
+// Sent by the app
+export type AppToExtensionMessage =
+  | { type: 'hello' }
+  | { type: 'set_blocklist'; domains: string[]; reason: BlockReason | null } // An empty list unblocks
+  | { type: 'ping' };
+
+// Sent by the extension
+export type ExtensionToAppMessage =
+  | { type: 'hello'; extensionVersion: string }
+  | { type: 'tab_activity'; domain: string | null } // Site in the focused tab; null when the browser is not in use
+  | { type: 'blocked_attempt'; domain: string } // The child opened a blocked site
+  | { type: 'pong' };
+
+export interface ExtensionEnvelope<T> {
+  source: string;
+  protocolVersion: number;
+  message: T;
+}
+
+/**
+ * Wrap a message from the app for the extension
+ */
+export const wrapAppMessage = (message: AppToExtensionMessage): ExtensionEnvelope<AppToExtensionMessage> => ({
+  source: APP_MESSAGE_SOURCE,
+  protocolVersion: EXTENSION_PROTOCOL_VERSION,
+  message,
+});
+
+const isString = (value: unknown): value is string => typeof value === 'string';
+
+/**
+ * Read a message from the extension, or null for anything else: other sources, other protocol
+ * versions and malformed messages are ignored rather than trusted
+ */
+export const parseExtensionMessage = (data: unknown): ExtensionToAppMessage | null => {
+  if (typeof data !== 'object' || data === null) return null;
+
+  const envelope = data as Partial<ExtensionEnvelope<Record<string, unknown>>>;
+  if (envelope.source !== EXTENSION_MESSAGE_SOURCE || envelope.protocolVersion !== EXTENSION_PROTOCOL_VERSION) {
+    return null;
+  }
+
+  const message = envelope.message;
+  if (typeof message !== 'object' || message === null) return null;
+
+  switch (message.type) {
+    case 'hello':
+      return isString(message.extensionVersion) ? { type: 'hello', extensionVersion: message.extensionVersion } : null;
+    case 'tab_activity':
+      if (message.domain === null) return { type: 'tab_activity', domain: null };
+      return isString(message.domain) ? { type: 'tab_activity', domain: normalizeDomain(message.domain) } : null;
+    case 'blocked_attempt':
+      return isString(message.domain) ? { type: 'blocked_attempt', domain: normalizeDomain(message.domain) } : null;
+    case 'pong':
+      return { type: 'pong' };
+    default:
+      return null;
+  }
+};
+
+/**
+ * Lower-case a host name and drop a leading "www."
+ */
+export const normalizeDomain = (domain: string): string =>
+  domain.trim().toLowerCase().replace(/^www\./, '');
+
+/**
+ * Site of a URL, e.g. "youtube.com" for https://www.youtube.com/watch; null if it has none
+ */
+export const getDomain = (url: string): string | null => {
+  const match = /^[a-z][a-z0-9+.-]*:\/\/(?:[^@/?#]*@)?([^/:?#]+)/i.exec(url.trim());
+  return match ? normalizeDomain(match[1]) : null;
+};
+
+/**
+ * Whether a site is an app's site or one of its subdomains, e.g. m.youtube.com for youtube.com
+ */
+export const isDomainOf = (domain: string, appDomain: string): boolean =>
+  domain === appDomain || domain.endsWith(`.${appDomain}`);
+
+/**
+ * App whose webUrl covers a site, so browsing time on it counts toward that app
+ */
+export const matchAppForDomain = (domain: string, apps: AppConfig[]): AppConfig | null =>
+  apps.find(app => {
+    const appDomain = app.webUrl ? getDomain(app.webUrl) : null;
+    return appDomain !== null && isDomainOf(normalizeDomain(domain), appDomain);
+  }) ?? null;
+
+/**
+ * Sites of every app with a webUrl, the list blocked when the child runs out of tokens
+ */
+export const getAppDomains = (apps: AppConfig[]): string[] =>
+  Array.from(new Set(
+    apps
+      .map(app => (app.webUrl ? getDomain(app.webUrl) : null))
+      .filter((domain): domain is string => domain !== null)
+  ));
@@ -0,0 +1,52 @@
+/**
+ * Savings goals for the Attention Wallet system
+ * Progress and deposit limits for tokens locked toward real-world rewards
+ */
+
+import { SavingsGoal } from './types';
+
+export interface GoalProgress {
+  saved: number;
+  target: number;
+  remaining: number;
+  percent: number; // 0-100, rounded down so a goal only shows 100% when fully saved
+  isFunded: boolean;
+}
+
+/**
+ * Summarise how far a goal has been saved
+ */
+export const getGoalProgress = (goal: Pick<SavingsGoal, 'saved_amount' | 'target_amount'>): GoalProgress => {
+  const remaining = Math.max(0, goal.target_amount - goal.saved_amount);
+
+  return {
+    saved: goal.saved_amount,
+    target: goal.target_amount,
+    remaining,
+    percent: Math.min(100, Math.floor((goal.saved_amount / goal.target_amount) * 100)),
+    isFunded: remaining === 0,
+  };
+};
+
+/**
+ * Most tokens that can be deposited right now: what the goal still needs, up to the balance
+ */
+export const getMaxDeposit = (goal: SavingsGoal, balance: number): number => {
+  if (goal.status !== 'active') return 0;
+
+  return Math.max(0, Math.min(balance, getGoalProgress(goal).remaining));
+};
+
+/**
+ * Check whether a child can ask a parent for the goal's reward
+ */
+export const canRequestReward = (goal: SavingsGoal): boolean =>
+  goal.status === 'active' && getGoalProgress(goal).isFunded;
+
+/**
+ * Total tokens locked in a child's open goals
+ */
+export const getTotalSaved = (goals: SavingsGoal[]): number =>
+  goals
+    .filter(goal => goal.status === 'active' || goal.status === 'requested')
+    .reduce((sum, goal) => sum + goal.saved_amount, 0);
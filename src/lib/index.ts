@@ -27,15 +27,107 @@ export * from './gemini';
 // Export offline queue management
 export * from './offlineQueue';
 
+// Export app pricing
+export * from './pricing';
+
+// Export app catalog
+export * from './appCatalog';
+
+// Export app classification
+export * from './appClassification';
+
+// Export schedule rules
+export * from './schedule';
+
+// Export spending caps
+export * from './caps';
+
+// Export savings goals
+export * from './goals';
+
+// Export token loans
+export * from './credit';
+
+// Export family transfers
+export * from './transfers';
+
+// Export session engine
+export * from './sessionEngine';
+
+// Export app session records
+export * from './appSessions';
+
+// Export session warnings
+export * from './sessionWarnings';
+
+// Export session leases
+export * from './sessionLease';
+
+// Export trusted clock
+export * from './trustedClock';
+
+// Export web idle handling
+export * from './webIdle';
+
+// Export companion browser extension support
+export * from './extensionProtocol';
+export * from './browserExtension';
+
 // Re-export commonly used types for convenience
 export type {
   Profile,
+  ProfileUpdate,
   Transaction,
+  TransactionType,
+  QueuedTransactionType,
+  WalletOperationResult,
+  WalletException,
+  OverdraftResult,
+  Allowance,
+  AllowanceCadence,
+  AppPricingRule,
+  AppPricingScope,
+  CatalogApp,
+  AppClassification,
+  ScheduleRule,
+  ScheduleRuleAction,
+  ScheduleStatus,
+  SpendingCap,
+  SpendingCapScope,
+  SpendingCapUnit,
+  SpendingCapStatus,
+  Reward,
+  SavingsGoal,
+  SavingsGoalStatus,
+  RewardRedemption,
+  RewardRedemptionStatus,
+  GoalOperationResult,
+  CreditLine,
+  Loan,
+  BorrowResult,
+  TransferSettings,
+  TokenTransfer,
+  TokenTransferStatus,
+  TransferResult,
+  FamilyMember,
   QuestType,
-  AppUsageSession,
+  UsageSession,
+  UsageSessionStatus,
+  UsageSessionStopReason,
+  UsageSessionMode,
+  AppSession,
+  AppSessionEndReason,
+  SessionLease,
+  SessionWarningSettings,
+  WebIdleSettings,
+  WebIdlePauseReason,
+  ClockEvent,
+  ClockEventKind,
   WalletContextType,
   AuthContextType,
   AIVerificationResult,
   AppConfig,
   QueuedTransaction,
+  DeadLetterTransaction,
+  SyncResult,
 } from './types';
\ No newline at end of file
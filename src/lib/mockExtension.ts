@@ -0,0 +1,162 @@
+/**
+ * Mock companion extension for the Attention Wallet system
+ * Plays the extension's side of lib/extensionProtocol.ts in memory, for tests and for trying
+ * enforcement without installing anything: it answers hello and ping, keeps the blocklist it is
+ * sent, and reports the sites the child "visits", refusing blocked ones like the real extension.
+ */
+
+import { ExtensionTransport } from './browserExtension';
+import {
+  AppToExtensionMessage,
+  ExtensionEnvelope,
+  EXTENSION_MESSAGE_SOURCE,
+  EXTENSION_PROTOCOL_VERSION,
+  ExtensionToAppMessage,
+  APP_MESSAGE_SOURCE,
+  isDomainOf,
+  normalizeDomain,
+} from './extensionProtocol';
+
+export class MockExtension {
+  private appListeners = new Set<(data: unknown) => void>();
+  private blockedDomains: string[] = [];
+  private activeDomain: string | null = null;
+  private responsive = true;
+  private readonly extensionVersion: string;
+
+  constructor(extensionVersion: string = 'mock-1.0.0') {
+    this.extensionVersion = extensionVersion;
+  }
+
+  /**
+   * Transport for the app's ExtensionBridge, delivering messages synchronously
+   */
+  getTransport(): ExtensionTransport {
+    return {
+      send: (data) => this.receive(data),
+      subscribe: (listener) => {
+        this.appListeners.add(listener);
+        return () => {
+          this.appListeners.delete(listener);
+        };
+      },
+      close: () => this.appListeners.clear(),
+    };
+  }
+
+  /**
+   * Announce the extension, as it does when installed or reloaded
+   */
+  install(): void {
+    this.post({ type: 'hello', extensionVersion: this.extensionVersion });
+  }
+
+  /**
+   * Reload the extension, which forgets its blocklist until the app sends it again
+   */
+  reload(): void {
+    this.blockedDomains = [];
+    this.install();
+  }
+
+  /**
+   * The child opens a site in the active tab; blocked sites are refused and reported
+   */
+  visit(domain: string): void {
+    const normalized = normalizeDomain(domain);
+
+    if (this.isBlocked(normalized)) {
+      this.post({ type: 'blocked_attempt', domain: normalized });
+      this.setActiveDomain(null);
+      return;
+    }
+
+    this.setActiveDomain(normalized);
+  }
+
+  /**
+   * The child switches away from the browser
+   */
+  leaveBrowser(): void {
+    this.setActiveDomain(null);
+  }
+
+  /**
+   * Stop answering, as when the extension is disabled or removed
+   */
+  goSilent(): void {
+    this.responsive = false;
+  }
+
+  /**
+   * Sites the extension is blocking
+   */
+  getBlockedDomains(): string[] {
+    return [...this.blockedDomains];
+  }
+
+  /**
+   * Site in the active tab, if any
+   */
+  getActiveDomain(): string | null {
+    return this.activeDomain;
+  }
+
+  /**
+   * Handle a message from the app
+   */
+  private receive(data: unknown): void {
+    if (!this.responsive) return;
+
+    const envelope = data as Partial<ExtensionEnvelope<AppToExtensionMessage>>;
+    if (envelope?.source !== APP_MESSAGE_SOURCE || envelope.protocolVersion !== EXTENSION_PROTOCOL_VERSION) return;
+    const message = envelope.message;
+    if (!message) return;
+
+    switch (message.type) {
+      case 'hello':
+        this.install();
+        break;
+      case 'ping':
+        this.post({ type: 'pong' });
+        break;
+      case 'set_blocklist':
+        this.blockedDomains = message.domains.map(normalizeDomain);
+        // A site already open is closed as soon as it is blocked
+        if (this.activeDomain && this.isBlocked(this.activeDomain)) {
+          this.visit(this.activeDomain);
+        }
+        break;
+    }
+  }
+
+  /**
+   * Whether a site is on the blocklist, subdomains included
+   */
+  private isBlocked(domain: string): boolean {
+    return this.blockedDomains.some(blocked => isDomainOf(domain, blocked));
+  }
+
+  /**
+   * Report the active tab's site when it changes
+   */
+  private setActiveDomain(domain: string | null): void {
+    if (this.activeDomain === domain) return;
+    this.activeDomain = domain;
+    this.post({ type: 'tab_activity', domain });
+  }
+
+  /**
+   * Send a message to the app, as the content script would
+   */
+  private post(message: ExtensionToAppMessage): void {
+    if (!this.responsive) return;
+
+    const envelope: ExtensionEnvelope<ExtensionToAppMessage> = {
+      source: EXTENSION_MESSAGE_SOURCE,
+      protocolVersion: EXTENSION_PROTOCOL_VERSION,
+      message,
+    };
+    this.appListeners.forEach(listener => listener(envelope));
+  }
+}
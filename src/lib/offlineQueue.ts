@@ -6,17 +6,56 @@
 
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { Platform } from 'react-native';
-import { QueuedTransaction, Transaction, Profile } from './types';
+import {
+  QueuedTransaction,
+  QueuedTransactionType,
+  QuestVerification,
+  DeadLetterTransaction,
+  Transaction,
+  SyncResult,
+  WalletOperationResult,
+  AppTimeEarnResult,
+} from './types';
 import { generateOfflineId, safeJsonParse } from './utils';
-import { dbHelpers } from './supabase';
+import { walletHelpers } from './supabase';
 
 // Storage keys for AsyncStorage
 const STORAGE_KEYS = {
   QUEUE: '@attention_wallet:offline_queue',
+  DEAD_LETTER: '@attention_wallet:dead_letter',
   LAST_SYNC: '@attention_wallet:last_sync',
   NETWORK_STATUS: '@attention_wallet:network_status',
 } as const;
 
+// Postgres error code raised when a client_txn_id has already been recorded
+const UNIQUE_VIOLATION_CODE = '23505';
+
+// Postgres error code raised when a balance CHECK constraint would be violated
+const CHECK_VIOLATION_CODE = '23514';
+
+// Postgres error code raised when the caller may not make this change (e.g. a refund of another session)
+const INSUFFICIENT_PRIVILEGE_CODE = '42501';
+
+// Earns queued before the server worked out what they pay carry neither a quest nor a session
+const UNVERIFIABLE_EARN_MESSAGE = 'Earn has no quest or app session to verify';
+
+// Server messages for earns and refunds that will never be accepted however often they are replayed
+const INVALID_TRANSACTION_MESSAGES = [
+  'Token amount must be positive',
+  'Description is required',
+  UNVERIFIABLE_EARN_MESSAGE,
+  'Quest not found',
+  'already been completed today',
+  'Only Learn & Earn apps pay for time used',
+  'Nothing left to refund',
+];
+
+// Child-facing explanations for transactions the server will never accept
+const REJECTION_REASONS = {
+  INSUFFICIENT_BALANCE: 'Not enough tokens when this was synced',
+  INVALID_TRANSACTION: 'The server could not accept this transaction',
+} as const;
+
 // Network connectivity check configuration
 const CONNECTIVITY_CONFIG = {
   CHECK_URL: 'https://www.google.com/generate_204', // Google's connectivity check endpoint (mobile only)
@@ -103,15 +142,23 @@ export const queueHelpers = {
   /**
    * Add transaction to offline queue
    */
-  enqueue: async (transaction: Omit<QueuedTransaction, 'id' | 'synced'>): Promise<string> => {
+  enqueue: async (
+    transaction: Omit<QueuedTransaction, 'id' | 'synced'>,
+    id: string = generateOfflineId()
+  ): Promise<string> => {
     try {
       const queuedTransaction: QueuedTransaction = {
         ...transaction,
-        id: generateOfflineId(),
+        id,
         synced: false,
       };
 
+      // The caller's own id was already queued by an earlier attempt of the same transaction
       const existingQueue = await queueHelpers.getQueue();
+      if (existingQueue.some(queued => queued.id === id)) {
+        return id;
+      }
+
       const updatedQueue = [...existingQueue, queuedTransaction];
 
       await AsyncStorage.setItem(STORAGE_KEYS.QUEUE, JSON.stringify(updatedQueue));
@@ -185,6 +232,68 @@ export const queueHelpers = {
     }
   },
 
+  /**
+   * Move a transaction the server rejected out of the queue into the dead-letter list
+   */
+  moveToDeadLetter: async (
+    transactionId: string,
+    details: Pick<DeadLetterTransaction, 'reason' | 'chargedAmount' | 'shortfall' | 'exceptionId'>
+  ): Promise<void> => {
+    try {
+      const queue = await queueHelpers.getQueue();
+      const rejected = queue.find(transaction => transaction.id === transactionId);
+      if (!rejected) {
+        return;
+      }
+
+      const deadLetters = await queueHelpers.getDeadLetters();
+      const deadLetter: DeadLetterTransaction = {
+        ...rejected,
+        ...details,
+        rejectedAt: new Date().toISOString(),
+      };
+
+      // Write the dead letter first so a crash in between never loses the record
+      await AsyncStorage.setItem(STORAGE_KEYS.DEAD_LETTER, JSON.stringify([...deadLetters, deadLetter]));
+      await AsyncStorage.setItem(
+        STORAGE_KEYS.QUEUE,
+        JSON.stringify(queue.filter(transaction => transaction.id !== transactionId))
+      );
+      console.log('Transaction moved to dead-letter list:', transactionId, details.reason);
+    } catch (error) {
+      console.error('Failed to move transaction to dead-letter list:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Get transactions the server rejected
+   */
+  getDeadLetters: async (): Promise<DeadLetterTransaction[]> => {
+    try {
+      const deadLetterData = await AsyncStorage.getItem(STORAGE_KEYS.DEAD_LETTER);
+      return safeJsonParse(deadLetterData || '[]', []);
+    } catch (error) {
+      console.error('Failed to get dead-letter transactions:', error);
+      return [];
+    }
+  },
+
+  /**
+   * Remove a rejected transaction once the child has seen it
+   */
+  dismissDeadLetter: async (transactionId: string): Promise<void> => {
+    try {
+      const deadLetters = await queueHelpers.getDeadLetters();
+      await AsyncStorage.setItem(
+        STORAGE_KEYS.DEAD_LETTER,
+        JSON.stringify(deadLetters.filter(transaction => transaction.id !== transactionId))
+      );
+    } catch (error) {
+      console.error('Failed to dismiss dead-letter transaction:', error);
+    }
+  },
+
   /**
    * Clear entire offline queue (use with caution)
    */
@@ -198,6 +307,35 @@ export const queueHelpers = {
   },
 };
 
+/**
+ * Check whether a sync error means the transaction already exists on the server
+ */
+export const isDuplicateTransactionError = (error: unknown): boolean => {
+  return typeof error === 'object' && error !== null && (error as { code?: string }).code === UNIQUE_VIOLATION_CODE;
+};
+
+/**
+ * Classify a sync error as a permanent server rejection
+ * Returns the child-facing reason, or null if the error is transient and worth retrying
+ */
+const getRejectionReason = (error: unknown): string | null => {
+  if (typeof error !== 'object' || error === null) {
+    return null;
+  }
+
+  const { code, message = '' } = error as { code?: string; message?: string };
+
+  if (code === CHECK_VIOLATION_CODE || message.includes('Insufficient balance')) {
+    return REJECTION_REASONS.INSUFFICIENT_BALANCE;
+  }
+
+  if (code === INSUFFICIENT_PRIVILEGE_CODE || INVALID_TRANSACTION_MESSAGES.some(invalid => message.includes(invalid))) {
+    return REJECTION_REASONS.INVALID_TRANSACTION;
+  }
+
+  return null;
+};
+
 /**
  * Synchronization helpers
  */
@@ -205,8 +343,8 @@ export const syncHelpers = {
   /**
    * Sync all unsynced transactions to the server
    */
-  syncTransactions: async (userId: string): Promise<{ success: number; failed: number }> => {
-    const results = { success: 0, failed: 0 };
+  syncTransactions: async (userId: string): Promise<SyncResult> => {
+    const results: SyncResult = { success: 0, failed: 0, rejected: 0 };
 
     try {
       // Check network connectivity first
@@ -226,6 +364,30 @@ export const syncHelpers = {
           await queueHelpers.markAsSynced(queuedTransaction.id);
           results.success++;
         } catch (error) {
+          if (isDuplicateTransactionError(error)) {
+            // A previous attempt reached the server before the app could mark it synced
+            console.log(`Transaction ${queuedTransaction.id} was already recorded on the server`);
+            await queueHelpers.markAsSynced(queuedTransaction.id);
+            results.success++;
+            continue;
+          }
+
+          const rejectionReason = getRejectionReason(error);
+          if (rejectionReason) {
+            try {
+              const applied = await syncHelpers.reconcileRejectedTransaction(queuedTransaction, rejectionReason);
+              if (applied) {
+                results.success++;
+              } else {
+                results.rejected++;
+              }
+            } catch (reconcileError) {
+              console.error(`Failed to reconcile transaction ${queuedTransaction.id}:`, reconcileError);
+              results.failed++;
+            }
+            continue;
+          }
+
           console.error(`Failed to sync transaction ${queuedTransaction.id}:`, error);
           results.failed++;
         }
@@ -239,7 +401,7 @@ export const syncHelpers = {
       // Update last sync timestamp
       await AsyncStorage.setItem(STORAGE_KEYS.LAST_SYNC, new Date().toISOString());
 
-      console.log(`Sync completed: ${results.success} success, ${results.failed} failed`);
+      console.log(`Sync completed: ${results.success} success, ${results.failed} failed, ${results.rejected} rejected`);
       return results;
     } catch (error) {
       console.error('Sync process failed:', error);
@@ -249,28 +411,53 @@ export const syncHelpers = {
 
   /**
    * Sync a single queued transaction to the server
+   * Uses the wallet RPCs so the server applies the balance change atomically
    */
-  syncSingleTransaction: async (queuedTransaction: QueuedTransaction, userId: string): Promise<Transaction> => {
+  syncSingleTransaction: async (queuedTransaction: QueuedTransaction, userId: string): Promise<Transaction | null> => {
     try {
-      // Convert queued transaction to database transaction format
-      const dbTransaction: Omit<Transaction, 'id'> = {
-        user_id: userId,
-        amount: queuedTransaction.amount,
-        type: queuedTransaction.type,
-        description: queuedTransaction.description,
-        timestamp: queuedTransaction.timestamp,
-        proof_image_url: queuedTransaction.proofImageUrl,
-        app_name: queuedTransaction.appName,
-      };
-
-      // Create transaction in database
-      const createdTransaction = await dbHelpers.createTransaction(dbTransaction);
-
-      // Handle profile balance updates based on transaction type
-      await syncHelpers.updateProfileBalance(userId, queuedTransaction);
+      const { amount, description, timestamp, id: clientTxnId } = queuedTransaction;
+      let result: WalletOperationResult | AppTimeEarnResult;
+
+      switch (queuedTransaction.type) {
+        case 'earn':
+          // The server works out what an earn pays, so only a quest or an app session can be replayed
+          if (queuedTransaction.questTypeId && queuedTransaction.proofImageUrl) {
+            result = await walletHelpers.completeQuest(queuedTransaction.questTypeId, queuedTransaction.proofImageUrl, {
+              verifiedBy: queuedTransaction.verifiedBy,
+              timestamp,
+              clientTxnId,
+            });
+          } else if (queuedTransaction.sessionId && queuedTransaction.activeSeconds !== undefined) {
+            result = await walletHelpers.earnAppTime(queuedTransaction.sessionId, queuedTransaction.activeSeconds, {
+              timestamp,
+              clientTxnId,
+            });
+          } else {
+            throw new Error(UNVERIFIABLE_EARN_MESSAGE);
+          }
+          break;
+        case 'spend':
+          result = await walletHelpers.spend(amount, description, {
+            appName: queuedTransaction.appName,
+            usageSeconds: queuedTransaction.usageSeconds,
+            sessionId: queuedTransaction.sessionId,
+            timestamp,
+            clientTxnId,
+          });
+          break;
+        case 'refund':
+          result = await walletHelpers.refund(amount, description, {
+            appName: queuedTransaction.appName,
+            usageSeconds: queuedTransaction.usageSeconds,
+            sessionId: queuedTransaction.sessionId,
+            timestamp,
+            clientTxnId,
+          });
+          break;
+      }
 
-      console.log(`Successfully synced transaction: ${queuedTransaction.id} -> ${createdTransaction.id}`);
-      return createdTransaction;
+      console.log(`Successfully synced transaction for user ${userId}: ${queuedTransaction.id} -> ${result.transaction?.id ?? 'nothing to pay'}`);
+      return result.transaction;
     } catch (error) {
       console.error('Failed to sync single transaction:', error);
       throw error;
@@ -278,40 +465,46 @@ export const syncHelpers = {
   },
 
   /**
-   * Update profile balance after syncing transaction
-   * Implements server-side precedence for conflict resolution
+   * Reconcile a queued transaction the server permanently rejected
+   * Offline spends that hit insufficient balance are charged what is left and the
+   * shortfall is recorded server-side; everything else goes straight to the dead-letter list.
+   * Returns true if the transaction ended up fully applied after all.
    */
-  updateProfileBalance: async (userId: string, transaction: QueuedTransaction): Promise<void> => {
+  reconcileRejectedTransaction: async (queuedTransaction: QueuedTransaction, reason: string): Promise<boolean> => {
+    if (queuedTransaction.type !== 'spend' || reason !== REJECTION_REASONS.INSUFFICIENT_BALANCE) {
+      await queueHelpers.moveToDeadLetter(queuedTransaction.id, { reason });
+      return false;
+    }
+
     try {
-      // Get current profile from server (server-side precedence)
-      const currentProfile = await dbHelpers.getProfile(userId);
-      if (!currentProfile) {
-        throw new Error('Profile not found');
-      }
+      const result = await walletHelpers.recordOverdraft(queuedTransaction.amount, queuedTransaction.description, {
+        appName: queuedTransaction.appName,
+        usageSeconds: queuedTransaction.usageSeconds,
+        sessionId: queuedTransaction.sessionId,
+        timestamp: queuedTransaction.timestamp,
+        clientTxnId: queuedTransaction.id,
+        reason,
+      });
 
-      // Calculate new balance and totals
-      let newBalance = currentProfile.balance;
-      let newTotalEarned = currentProfile.total_earned;
-      let newTotalSpent = currentProfile.total_spent;
-
-      if (transaction.type === 'earn') {
-        newBalance += transaction.amount;
-        newTotalEarned += transaction.amount;
-      } else if (transaction.type === 'spend') {
-        newBalance -= transaction.amount;
-        newTotalSpent += transaction.amount;
+      if (!result.exception) {
+        // Balance caught up in the meantime, so the whole spend was charged
+        await queueHelpers.markAsSynced(queuedTransaction.id);
+        return true;
       }
 
-      // Update profile with new values
-      await dbHelpers.updateProfile(userId, {
-        balance: newBalance,
-        total_earned: newTotalEarned,
-        total_spent: newTotalSpent,
+      await queueHelpers.moveToDeadLetter(queuedTransaction.id, {
+        reason,
+        chargedAmount: result.exception.charged_amount,
+        shortfall: result.exception.shortfall,
+        exceptionId: result.exception.id,
       });
-
-      console.log(`Profile balance updated for user ${userId}: ${currentProfile.balance} -> ${newBalance}`);
+      return false;
     } catch (error) {
-      console.error('Failed to update profile balance:', error);
+      if (isDuplicateTransactionError(error)) {
+        // Reconciled on an earlier attempt that did not get to update the queue
+        await queueHelpers.moveToDeadLetter(queuedTransaction.id, { reason });
+        return false;
+      }
       throw error;
     }
   },
@@ -319,7 +512,7 @@ export const syncHelpers = {
   /**
    * Sync with exponential backoff retry logic
    */
-  syncWithRetry: async (userId: string, maxRetries: number = CONNECTIVITY_CONFIG.MAX_RETRIES): Promise<{ success: number; failed: number }> => {
+  syncWithRetry: async (userId: string, maxRetries: number = CONNECTIVITY_CONFIG.MAX_RETRIES): Promise<SyncResult> => {
     let attempt = 0;
     let lastError: Error | null = null;
 
@@ -328,7 +521,8 @@ export const syncHelpers = {
         const results = await syncHelpers.syncTransactions(userId);
         
         // If we had some success or no transactions to sync, consider it successful
-        if (results.success > 0 || (results.success === 0 && results.failed === 0)) {
+        // Rejected transactions are final and never retried
+        if (results.success > 0 || results.rejected > 0 || results.failed === 0) {
           return results;
         }
 
@@ -392,12 +586,18 @@ export const offlineQueueManager = {
    * Queue a transaction for offline sync
    */
   queueTransaction: async (
-    type: 'earn' | 'spend',
+    type: QueuedTransactionType,
     amount: number,
     description: string,
     options?: {
       proofImageUrl?: string;
       appName?: string;
+      usageSeconds?: number;
+      sessionId?: string;
+      questTypeId?: string;
+      verifiedBy?: QuestVerification;
+      activeSeconds?: number;
+      clientTxnId?: string; // Queue under this id, so the server drops it if an online attempt landed
     }
   ): Promise<string> => {
     const transaction = {
@@ -407,15 +607,20 @@ export const offlineQueueManager = {
       timestamp: new Date().toISOString(),
       proofImageUrl: options?.proofImageUrl,
       appName: options?.appName,
+      usageSeconds: options?.usageSeconds,
+      sessionId: options?.sessionId,
+      questTypeId: options?.questTypeId,
+      verifiedBy: options?.verifiedBy,
+      activeSeconds: options?.activeSeconds,
     };
 
-    return await queueHelpers.enqueue(transaction);
+    return await queueHelpers.enqueue(transaction, options?.clientTxnId);
   },
 
   /**
    * Attempt to sync all queued transactions
    */
-  sync: async (userId: string): Promise<{ success: number; failed: number }> => {
+  sync: async (userId: string): Promise<SyncResult> => {
     return await syncHelpers.syncWithRetry(userId);
   },
 
@@ -427,13 +632,15 @@ export const offlineQueueManager = {
     unsyncedCount: number;
     lastSync: string | null;
     isOnline: boolean;
+    rejectedTransactions: DeadLetterTransaction[];
   }> => {
     try {
-      const [queue, unsynced, lastSync, isOnline] = await Promise.all([
+      const [queue, unsynced, lastSync, isOnline, rejectedTransactions] = await Promise.all([
         queueHelpers.getQueue(),
         queueHelpers.getUnsyncedTransactions(),
         syncHelpers.getLastSyncTime(),
         networkHelpers.isOnline(),
+        queueHelpers.getDeadLetters(),
       ]);
 
       return {
@@ -441,6 +648,7 @@ export const offlineQueueManager = {
         unsyncedCount: unsynced.length,
         lastSync,
         isOnline,
+        rejectedTransactions,
       };
     } catch (error) {
       console.error('Failed to get queue status:', error);
@@ -449,6 +657,7 @@ export const offlineQueueManager = {
         unsyncedCount: 0,
         lastSync: null,
         isOnline: false,
+        rejectedTransactions: [],
       };
     }
   },
@@ -460,6 +669,7 @@ export const offlineQueueManager = {
     try {
       await Promise.all([
         queueHelpers.clearQueue(),
+        AsyncStorage.removeItem(STORAGE_KEYS.DEAD_LETTER),
         AsyncStorage.removeItem(STORAGE_KEYS.LAST_SYNC),
         AsyncStorage.removeItem(STORAGE_KEYS.NETWORK_STATUS),
       ]);
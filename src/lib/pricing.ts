@@ -0,0 +1,77 @@
+/**
+ * App pricing for the Attention Wallet system
+ * Resolves the per-minute token rate for an app from the family's pricing rules
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { AppConfig, AppPricingRule } from './types';
+import { APP_CONFIG } from './config';
+import { safeJsonParse } from './utils';
+import { dbHelpers } from './supabase';
+
+// Last rules fetched from the server, so billing uses family rates while offline
+const PRICING_CACHE_KEY = '@attention_wallet:app_pricing';
+
+const normalizeName = (name: string): string => name.trim().toLowerCase();
+
+/**
+ * Resolve the tokens-per-minute rate for an app
+ * The app's catalog price is its only per-app rate; unpriced apps use their category's rule, then the
+ * default rate. When several linked parents price the same category, the highest rate wins.
+ */
+export const resolveTokensPerMinute = (
+  app: Pick<AppConfig, 'name' | 'category' | 'tokensPerMinute'>,
+  rules: AppPricingRule[],
+  defaultRate: number = APP_CONFIG.tokenRate
+): number => {
+  const categoryRates = rules
+    .filter(rule => rule.scope === 'category' && normalizeName(rule.target_name) === normalizeName(app.category))
+    .map(rule => rule.tokens_per_minute);
+  const categoryRate = categoryRates.length > 0 ? Math.max(...categoryRates) : null;
+
+  return app.tokensPerMinute ?? categoryRate ?? defaultRate;
+};
+
+/**
+ * Pricing rule loading with an offline cache
+ */
+export const pricingHelpers = {
+  /**
+   * Get the pricing rules cached from the last successful load
+   */
+  getCachedRules: async (): Promise<AppPricingRule[]> => {
+    try {
+      const cached = await AsyncStorage.getItem(PRICING_CACHE_KEY);
+      return cached ? safeJsonParse<AppPricingRule[]>(cached, []) : [];
+    } catch (error) {
+      console.error('Failed to get cached app pricing:', error);
+      return [];
+    }
+  },
+
+  /**
+   * Load the pricing rules visible to the current user and refresh the cache
+   * Falls back to the cached rules when the server cannot be reached
+   */
+  loadRules: async (): Promise<AppPricingRule[]> => {
+    try {
+      const rules = await dbHelpers.getAppPricing();
+      await AsyncStorage.setItem(PRICING_CACHE_KEY, JSON.stringify(rules));
+      return rules;
+    } catch (error) {
+      console.error('Failed to load app pricing, using cached rates:', error);
+      return pricingHelpers.getCachedRules();
+    }
+  },
+
+  /**
+   * Clear the cached pricing rules (e.g. on sign out)
+   */
+  clearCache: async (): Promise<void> => {
+    try {
+      await AsyncStorage.removeItem(PRICING_CACHE_KEY);
+    } catch (error) {
+      console.error('Failed to clear cached app pricing:', error);
+    }
+  },
+};
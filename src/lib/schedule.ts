@@ -0,0 +1,172 @@
+/**
+ * Schedule rules for the Attention Wallet system
+ * Evaluates the family's time-of-day rules: rate multipliers and curfew blocks
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { ScheduleRule, ScheduleStatus } from './types';
+import { safeJsonParse } from './utils';
+import { dbHelpers } from './supabase';
+
+// Last rules fetched from the server, so curfews still apply while offline
+const SCHEDULE_CACHE_KEY = '@attention_wallet:schedule_rules';
+
+const MINUTES_PER_DAY = 24 * 60;
+
+const WEEKDAY_INDEX: Record<string, number> = { Sun: 0, Mon: 1, Tue: 2, Wed: 3, Thu: 4, Fri: 5, Sat: 6 };
+
+/**
+ * Convert an HH:MM[:SS] time to minutes after midnight
+ */
+const toMinutes = (time: string): number => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+/**
+ * Get the weekday and minutes after midnight for a moment in the rule's timezone
+ * Falls back to the device clock when the timezone is not recognised
+ */
+const getLocalClock = (at: Date, timezone: string): { dayOfWeek: number; minutes: number } => {
+  try {
+    const parts = new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      weekday: 'short',
+      hour: '2-digit',
+      minute: '2-digit',
+      hourCycle: 'h23',
+    }).formatToParts(at);
+    const part = (type: string) => parts.find(p => p.type === type)?.value ?? '';
+
+    return {
+      dayOfWeek: WEEKDAY_INDEX[part('weekday')],
+      minutes: (Number(part('hour')) % 24) * 60 + Number(part('minute')),
+    };
+  } catch {
+    return { dayOfWeek: at.getDay(), minutes: at.getHours() * 60 + at.getMinutes() };
+  }
+};
+
+/**
+ * Check whether a rule's window covers a moment
+ * A window that ends before it starts runs past midnight into the next day
+ */
+export const isRuleActiveAt = (rule: ScheduleRule, at: Date): boolean => {
+  if (!rule.is_active) return false;
+
+  const { dayOfWeek, minutes } = getLocalClock(at, rule.timezone);
+  const start = toMinutes(rule.start_time);
+  const end = toMinutes(rule.end_time);
+  const startsOn = (day: number) => rule.days_of_week.includes(day);
+
+  if (start < end) {
+    return startsOn(dayOfWeek) && minutes >= start && minutes < end;
+  }
+
+  const previousDay = (dayOfWeek + 6) % 7;
+  return (startsOn(dayOfWeek) && minutes >= start) || (startsOn(previousDay) && minutes < end);
+};
+
+/**
+ * Evaluate every rule at a moment
+ * Any active block wins; otherwise the highest active multiplier applies (1 when none are active)
+ */
+export const evaluateSchedule = (rules: ScheduleRule[], at: Date = new Date()): ScheduleStatus => {
+  const activeRules = rules.filter(rule => isRuleActiveAt(rule, at));
+  const blockingRule = activeRules.find(rule => rule.action === 'block') ?? null;
+  const multipliers = activeRules
+    .filter(rule => rule.action === 'multiplier' && rule.multiplier)
+    .map(rule => Number(rule.multiplier));
+
+  return {
+    blocked: blockingRule !== null,
+    blockingRule,
+    multiplier: multipliers.length > 0 ? Math.max(...multipliers) : 1,
+    activeRules,
+  };
+};
+
+/**
+ * Total tokens for usage between two moments, applying the multiplier in effect each minute
+ * Whole minutes only; live sessions are billed by the session engine, which also counts partial minutes
+ */
+export const getScheduledTokens = (
+  rules: ScheduleRule[],
+  tokensPerMinute: number,
+  startTime: number,
+  endTime: number
+): number => {
+  const elapsedMinutes = Math.floor((endTime - startTime) / 60000);
+  let tokens = 0;
+
+  for (let minute = 0; minute < elapsedMinutes; minute++) {
+    tokens += tokensPerMinute * evaluateSchedule(rules, new Date(startTime + minute * 60000)).multiplier;
+  }
+
+  return Math.round(tokens);
+};
+
+/**
+ * Format an HH:MM[:SS] rule time for display, e.g. "7:00 AM"
+ */
+export const formatRuleTime = (time: string): string => {
+  const minutes = toMinutes(time) % MINUTES_PER_DAY;
+  const hours = Math.floor(minutes / 60);
+  const suffix = hours < 12 ? 'AM' : 'PM';
+  const displayHours = hours % 12 === 0 ? 12 : hours % 12;
+
+  return `${displayHours}:${(minutes % 60).toString().padStart(2, '0')} ${suffix}`;
+};
+
+/**
+ * Child-facing explanation of why entertainment is blocked right now
+ */
+export const describeScheduleBlock = (status: ScheduleStatus): string | null => {
+  if (!status.blockingRule) return null;
+
+  return `${status.blockingRule.name}: entertainment is unavailable until ${formatRuleTime(status.blockingRule.end_time)}.`;
+};
+
+/**
+ * Schedule rule loading with an offline cache
+ */
+export const scheduleHelpers = {
+  /**
+   * Get the schedule rules cached from the last successful load
+   */
+  getCachedRules: async (): Promise<ScheduleRule[]> => {
+    try {
+      const cached = await AsyncStorage.getItem(SCHEDULE_CACHE_KEY);
+      return cached ? safeJsonParse<ScheduleRule[]>(cached, []) : [];
+    } catch (error) {
+      console.error('Failed to get cached schedule rules:', error);
+      return [];
+    }
+  },
+
+  /**
+   * Load the schedule rules visible to the current user and refresh the cache
+   * Falls back to the cached rules when the server cannot be reached
+   */
+  loadRules: async (): Promise<ScheduleRule[]> => {
+    try {
+      const rules = await dbHelpers.getScheduleRules();
+      await AsyncStorage.setItem(SCHEDULE_CACHE_KEY, JSON.stringify(rules));
+      return rules;
+    } catch (error) {
+      console.error('Failed to load schedule rules, using cached rules:', error);
+      return scheduleHelpers.getCachedRules();
+    }
+  },
+
+  /**
+   * Clear the cached schedule rules (e.g. on sign out)
+   */
+  clearCache: async (): Promise<void> => {
+    try {
+      await AsyncStorage.removeItem(SCHEDULE_CACHE_KEY);
+    } catch (error) {
+      console.error('Failed to clear cached schedule rules:', error);
+    }
+  },
+};
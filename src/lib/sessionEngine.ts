@@ -0,0 +1,699 @@
+/**
+ * Session engine for the Attention Wallet system
+ * The single place app usage is billed: start, pause, resume and stop a session, persisted to
+ * AsyncStorage so it survives the app being backgrounded or killed. Charges are derived from
+ * running time on the trusted clock (lib/trustedClock.ts), so how often tick() runs never changes
+ * what is billed and moving the device clock does not either. Metered charges are buffered and
+ * flushed as one spend per minute, and on pause, stop, backgrounding and restore.
+ * A prepaid session is charged for a block of minutes at start instead, ends when the block is
+ * used up and refunds the unused part if stopped early. Its server record is opened before the block
+ * is charged, so the spend and any refund belong to it. Free apps run without charges, and earning
+ * apps credit the tokens they accrue instead, up to what is left of the app's daily earn limit.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { trustedClock } from './trustedClock';
+import { AppClassification, UsageSession, UsageSessionStopReason } from './types';
+import { generateOfflineId, safeJsonParse } from './utils';
+
+const STORAGE_KEY = '@attention_wallet:usage_session';
+
+const MINUTE_MS = 60000;
+
+// Longest a metered session holds owed tokens before flushing them as one spend
+export const FLUSH_INTERVAL_MS = MINUTE_MS;
+
+// Absorbs floating point drift so 12s at 5 tokens/minute is exactly 1 token, not 0.9999
+const ACCRUAL_EPSILON = 1e-9;
+
+export interface SessionStorage {
+  getItem: (key: string) => Promise<string | null>;
+  setItem: (key: string, value: string) => Promise<void>;
+  removeItem: (key: string) => Promise<void>;
+}
+
+// A spend the engine asks the wallet to record
+export interface SessionCharge {
+  sessionId: string;
+  appName: string;
+  amount: number;
+  usageSeconds: number;
+  description: string;
+  clientTxnId?: string; // Set on spends; sending it again must not charge twice
+}
+
+// Unused prepaid time the engine asks the wallet to give back; usageSeconds is the unused time
+export type SessionRefund = SessionCharge;
+
+// Tokens an earning app asks the wallet to credit for the time used. The server pays the
+// session's running time so far (activeSeconds), so amount is what the engine expects to be paid
+export interface SessionCredit extends SessionCharge {
+  activeSeconds: number;
+}
+
+// Supplied by the React binding (hooks/useSession.ts) so the engine stays free of UI state
+export interface SessionEngineHandlers {
+  open?: (session: UsageSession) => Promise<void>; // Record the session on the server before a prepaid block is charged
+  charge: (charge: SessionCharge) => Promise<void>;
+  refund?: (refund: SessionRefund) => Promise<number>; // Resolves the tokens given back, which the server may lower
+  earn?: (credit: SessionCredit) => Promise<void>;
+  getBalance: () => number;
+  getMultiplier?: (at: number) => number; // Schedule rate multiplier in effect at a moment
+  getStopReason?: (session: UsageSession, now: number) => UsageSessionStopReason | null;
+  getEarnAllowance?: (session: UsageSession, now: number) => number | null; // Tokens left to earn today; null for no limit
+}
+
+export interface StartSessionOptions {
+  appName: string;
+  category?: string;
+  classification?: AppClassification; // Defaults to entertainment
+  tokensPerMinute: number; // Earn rate for earning apps; ignored for free apps
+  prepaidMinutes?: number; // Buy this many minutes up front instead of paying as you go
+}
+
+export interface SessionEngineOptions {
+  storage?: SessionStorage;
+  now?: () => number;
+}
+
+export type SessionListener = (session: UsageSession | null) => void;
+
+/**
+ * How a session's time is treated; sessions persisted before app classes are entertainment
+ */
+export const getSessionClassification = (session: UsageSession): AppClassification =>
+  session.classification ?? 'entertainment';
+
+/**
+ * Running time of a session up to `now`, excluding paused stretches
+ */
+export const getRunningMs = (session: UsageSession, now: number): number =>
+  session.activeMs + (session.runningSince !== null ? Math.max(0, now - session.runningSince) : 0);
+
+/**
+ * Fractional tokens for running from `from` to `to`
+ * Time is split on wall-clock minute boundaries and each piece uses the multiplier in effect
+ * at its start, so the total is the same however the span is divided into ticks
+ */
+export const accrueTokens = (
+  tokensPerMinute: number,
+  from: number,
+  to: number,
+  getMultiplier: (at: number) => number = () => 1
+): number => {
+  let tokens = 0;
+  let cursor = from;
+
+  while (cursor < to) {
+    const pieceEnd = Math.min(to, (Math.floor(cursor / MINUTE_MS) + 1) * MINUTE_MS);
+    tokens += ((pieceEnd - cursor) / MINUTE_MS) * tokensPerMinute * getMultiplier(cursor);
+    cursor = pieceEnd;
+  }
+
+  return tokens;
+};
+
+/**
+ * Whole tokens accrued but not yet charged; partial tokens are never billed
+ */
+export const getOwedTokens = (session: UsageSession): number =>
+  Math.max(0, Math.floor(session.accruedTokens + ACCRUAL_EPSILON) - session.chargedTokens);
+
+/**
+ * Whole tokens a session has used but not yet flushed to the wallet
+ * Subtract from the wallet balance to show what the child really has left; earning apps owe nothing
+ */
+export const getPendingTokens = (session: UsageSession | null): number =>
+  session &&
+  session.status !== 'stopped' &&
+  session.mode !== 'prepaid' &&
+  getSessionClassification(session) === 'entertainment'
+    ? getOwedTokens(session)
+    : 0;
+
+/**
+ * Price of a prepaid block starting at `from`, at the multipliers scheduled over the block
+ * A started token is charged in full, and every block costs at least one token
+ */
+export const getPrepaidCost = (
+  tokensPerMinute: number,
+  prepaidMinutes: number,
+  from: number,
+  getMultiplier?: (at: number) => number
+): number =>
+  Math.max(1, Math.ceil(
+    accrueTokens(tokensPerMinute, from, from + prepaidMinutes * MINUTE_MS, getMultiplier) - ACCRUAL_EPSILON
+  ));
+
+/**
+ * Prepaid tokens used so far, rounded up like the block price; never more than was paid
+ */
+export const getUsedPrepaidTokens = (session: UsageSession): number =>
+  Math.min(session.chargedTokens, Math.ceil(session.accruedTokens - ACCRUAL_EPSILON));
+
+/**
+ * Running time left in a prepaid block; null for metered sessions
+ */
+export const getPrepaidRemainingMs = (session: UsageSession, now: number): number | null =>
+  session.mode === 'prepaid'
+    ? Math.max(0, (session.prepaidMs ?? 0) - getRunningMs(session, now))
+    : null;
+
+/**
+ * Whether an open session still has paid time to run, even with the wallet empty
+ * A prepaid block can spend the last tokens, and that time is the child's until it runs out
+ */
+export const hasPaidTimeLeft = (session: UsageSession | null, now: number): boolean =>
+  !!session && session.status !== 'stopped' && (getPrepaidRemainingMs(session, now) ?? 0) > 0;
+
+export class SessionEngine {
+  private session: UsageSession | null = null;
+  private handlers: SessionEngineHandlers | null = null;
+  private listeners: Set<SessionListener> = new Set();
+  private queue: Promise<unknown> = Promise.resolve();
+  private storage: SessionStorage;
+  private now: () => number;
+
+  constructor(options: SessionEngineOptions = {}) {
+    this.storage = options.storage ?? AsyncStorage;
+    this.now = options.now ?? Date.now;
+  }
+
+  /**
+   * Connect the wallet and rule checks; without handlers time still accrues but nothing is charged
+   * Returns a function that disconnects these handlers if they are still the active ones
+   */
+  setHandlers(handlers: SessionEngineHandlers): () => void {
+    this.handlers = handlers;
+    return () => {
+      if (this.handlers === handlers) {
+        this.handlers = null;
+      }
+    };
+  }
+
+  /**
+   * Listen for session changes; returns an unsubscribe function
+   */
+  subscribe(listener: SessionListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Current session, including the last stopped one until a new session starts
+   */
+  getSession(): UsageSession | null {
+    return this.session ? { ...this.session } : null;
+  }
+
+  /**
+   * Load a session persisted before the app was closed and bill the time since
+   * A session that was running kept running while the app was away
+   */
+  restore(): Promise<UsageSession | null> {
+    return this.enqueue(async () => {
+      if (this.session && this.session.status !== 'stopped') {
+        return this.settle();
+      }
+
+      try {
+        const stored = await this.storage.getItem(STORAGE_KEY);
+        const session = stored ? safeJsonParse<UsageSession | null>(stored, null) : null;
+
+        if (!session || session.status === 'stopped') {
+          return this.getSession();
+        }
+
+        this.session = session;
+      } catch (error) {
+        console.error('Failed to restore usage session:', error);
+        return this.getSession();
+      }
+
+      // Tokens accrued before the app was killed are flushed straight away
+      return this.settle(true);
+    });
+  }
+
+  /**
+   * Start a new session; only one can be open at a time
+   */
+  start(options: StartSessionOptions): Promise<UsageSession> {
+    return this.enqueue(async () => {
+      if (this.session && this.session.status !== 'stopped') {
+        throw new Error(`${this.session.appName} session is already active. Stop it first.`);
+      }
+
+      if (!options.appName.trim()) {
+        throw new Error('App name is required to start a session');
+      }
+
+      const classification = options.classification ?? 'entertainment';
+      if (classification !== 'free' && !(options.tokensPerMinute > 0)) {
+        throw new Error('Token rate must be positive');
+      }
+
+      const isPrepaid = options.prepaidMinutes !== undefined;
+      if (isPrepaid && !(options.prepaidMinutes! > 0)) {
+        throw new Error('Prepaid time must be positive');
+      }
+
+      if (isPrepaid && classification !== 'entertainment') {
+        throw new Error('Only entertainment apps can be prepaid');
+      }
+
+      const now = this.now();
+      const session: UsageSession = {
+        id: generateOfflineId(),
+        appName: options.appName.trim(),
+        category: options.category ?? '',
+        classification,
+        tokensPerMinute: classification === 'free' ? 0 : options.tokensPerMinute,
+        mode: isPrepaid ? 'prepaid' : 'metered',
+        prepaidMs: isPrepaid ? options.prepaidMinutes! * MINUTE_MS : null,
+        status: 'running',
+        startedAt: now,
+        runningSince: now,
+        activeMs: 0,
+        accruedTokens: 0,
+        accruedAt: now,
+        chargedTokens: 0,
+        chargedMs: 0,
+        flushedAt: now,
+        refundedTokens: 0,
+        earnedTokens: 0,
+      };
+
+      if (isPrepaid) {
+        await this.chargePrepaid(session, options.prepaidMinutes!, now);
+      }
+
+      this.session = session;
+      await this.persist();
+      this.notify();
+
+      return { ...session };
+    });
+  }
+
+  /**
+   * Stop billing without ending the session
+   */
+  pause(): Promise<UsageSession | null> {
+    return this.enqueue(async () => {
+      const settled = await this.settle(true);
+      const session = this.session;
+
+      if (!session || session.status !== 'running') {
+        return settled;
+      }
+
+      session.activeMs = getRunningMs(session, session.accruedAt);
+      session.runningSince = null;
+      session.status = 'paused';
+
+      await this.persist();
+      this.notify();
+
+      return { ...session };
+    });
+  }
+
+  /**
+   * Continue billing a paused session from now
+   */
+  resume(): Promise<UsageSession | null> {
+    return this.enqueue(async () => {
+      const session = this.session;
+
+      if (!session || session.status !== 'paused') {
+        return this.getSession();
+      }
+
+      const now = this.now();
+      session.runningSince = now;
+      session.accruedAt = now;
+      session.status = 'running';
+
+      await this.persist();
+      this.notify();
+
+      return { ...session };
+    });
+  }
+
+  /**
+   * End the session, charging whole tokens owed up to now
+   */
+  stop(reason: UsageSessionStopReason = 'user'): Promise<UsageSession | null> {
+    return this.enqueue(() => this.finish(reason));
+  }
+
+  /**
+   * Bring the session up to date: accrue, check schedule and caps, and charge what is owed
+   */
+  tick(): Promise<UsageSession | null> {
+    return this.enqueue(() => this.settle());
+  }
+
+  /**
+   * Settle now and charge everything owed without waiting for the flush interval
+   * Called when the app is backgrounded, since it may not get another chance
+   */
+  flush(): Promise<UsageSession | null> {
+    return this.enqueue(() => this.settle(true));
+  }
+
+  /**
+   * Run operations one at a time so overlapping ticks cannot double charge
+   */
+  private enqueue<T>(operation: () => Promise<T>): Promise<T> {
+    const result = this.queue.then(operation, operation);
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+
+  /**
+   * Accrue running time up to now at the multiplier in effect each minute
+   * A prepaid session accrues only until its block is used up. Multipliers raise prices, so earning
+   * apps always accrue at their own rate.
+   */
+  private accrue(session: UsageSession, now: number): void {
+    let until = now;
+    if (session.mode === 'prepaid' && session.runningSince !== null) {
+      until = Math.min(now, session.runningSince + (session.prepaidMs ?? 0) - session.activeMs);
+    }
+
+    if (session.status !== 'running' || until <= session.accruedAt) {
+      return;
+    }
+
+    session.accruedTokens += accrueTokens(
+      session.tokensPerMinute,
+      session.accruedAt,
+      until,
+      getSessionClassification(session) === 'entertainment' ? this.handlers?.getMultiplier : undefined
+    );
+    session.accruedAt = until;
+  }
+
+  private async settle(flush = false): Promise<UsageSession | null> {
+    const session = this.session;
+
+    if (!session || session.status !== 'running') {
+      return this.getSession();
+    }
+
+    const now = this.now();
+    this.accrue(session, now);
+
+    if (session.mode === 'prepaid' && getRunningMs(session, now) >= (session.prepaidMs ?? 0)) {
+      return this.finish('time_up');
+    }
+
+    if (!this.handlers) {
+      await this.persist();
+      this.notify();
+      return { ...session };
+    }
+
+    const stopReason = this.handlers.getStopReason?.(session, now);
+    if (stopReason) {
+      return this.finish(stopReason);
+    }
+
+    // Prepaid time was paid for at start
+    if (session.mode === 'prepaid') {
+      await this.persist();
+      this.notify();
+      return { ...session };
+    }
+
+    // Free apps cost nothing; earning apps pay the child instead of charging
+    if (getSessionClassification(session) !== 'entertainment') {
+      await this.creditEarned(session, now, flush);
+      await this.persist();
+      this.notify();
+      return { ...session };
+    }
+
+    const outcome = await this.chargeOwed(session, now, flush);
+    if (outcome !== 'charged') {
+      return this.finish(outcome);
+    }
+
+    await this.persist();
+    this.notify();
+
+    return { ...session };
+  }
+
+  /**
+   * Charge for a prepaid block before the session starts; throws if the balance cannot cover it
+   * The server refunds only spends linked to a session it has, so the session is opened there first
+   */
+  private async chargePrepaid(session: UsageSession, prepaidMinutes: number, now: number): Promise<void> {
+    if (!this.handlers) {
+      throw new Error('Prepaid time cannot be bought while the wallet is unavailable');
+    }
+
+    const cost = getPrepaidCost(session.tokensPerMinute, prepaidMinutes, now, this.handlers.getMultiplier);
+    const balance = this.handlers.getBalance();
+    if (cost > balance) {
+      throw new Error(`${prepaidMinutes} minutes of ${session.appName} costs ${cost} tokens. You have ${balance}.`);
+    }
+
+    await this.handlers.open?.(session);
+    await this.handlers.charge({
+      sessionId: session.id,
+      appName: session.appName,
+      amount: cost,
+      usageSeconds: prepaidMinutes * 60,
+      description: `${session.appName} prepaid ${prepaidMinutes} min`,
+      clientTxnId: `${session.id}:${cost}`,
+    });
+
+    session.chargedTokens = cost;
+    session.chargedMs = session.prepaidMs ?? 0;
+  }
+
+  /**
+   * Give back the prepaid tokens a session stopped before using
+   * A failed refund is logged; the ended session records only what the wallet gave back
+   */
+  private async refundUnused(session: UsageSession): Promise<void> {
+    const unused = session.chargedTokens - getUsedPrepaidTokens(session);
+    if (unused <= 0 || !this.handlers?.refund) {
+      return;
+    }
+
+    const unusedSeconds = Math.round(Math.max(0, (session.prepaidMs ?? 0) - session.activeMs) / 1000);
+
+    try {
+      session.refundedTokens = await this.handlers.refund({
+        sessionId: session.id,
+        appName: session.appName,
+        amount: unused,
+        usageSeconds: unusedSeconds,
+        description: `${session.appName} unused prepaid time (${unusedSeconds}s)`,
+      });
+    } catch (error) {
+      console.error('Failed to refund unused prepaid time:', error);
+    }
+  }
+
+  /**
+   * Charge whole tokens owed as one spend; when the balance cannot cover them, charge what it can
+   * Unless forced, owed tokens wait until the flush interval has passed or they use up the balance.
+   * The flush is persisted before it is sent, so one a crash interrupted is sent again first.
+   */
+  private async chargeOwed(
+    session: UsageSession,
+    now: number,
+    force = true
+  ): Promise<'charged' | 'insufficient_balance' | 'charge_failed'> {
+    if (!this.handlers) {
+      return 'charged';
+    }
+
+    if (session.pendingCharge && !(await this.sendPendingCharge(session))) {
+      return 'charge_failed';
+    }
+
+    const owed = getOwedTokens(session);
+    if (owed === 0) {
+      return 'charged';
+    }
+
+    const balance = Math.max(0, this.handlers.getBalance());
+    const flushedAt = session.flushedAt ?? session.startedAt;
+    if (!force && owed < balance && now - flushedAt < FLUSH_INTERVAL_MS) {
+      return 'charged';
+    }
+    const amount = Math.min(owed, balance);
+    const runningMs = getRunningMs(session, now);
+
+    if (amount > 0) {
+      session.pendingCharge = {
+        clientTxnId: `${session.id}:${session.chargedTokens + amount}`,
+        amount,
+        usageSeconds: Math.round((runningMs - session.chargedMs) / 1000),
+        description: `${session.appName} usage (${Math.floor(runningMs / 1000)}s)`,
+        chargedMs: runningMs,
+        flushedAt: now,
+      };
+      await this.persist();
+
+      if (!(await this.sendPendingCharge(session))) {
+        return 'charge_failed';
+      }
+    }
+
+    return amount < owed ? 'insufficient_balance' : 'charged';
+  }
+
+  /**
+   * Send the session's pending flush and count it as charged once the wallet has it
+   * A failed flush is dropped, since the session then ends without charging it again
+   */
+  private async sendPendingCharge(session: UsageSession): Promise<boolean> {
+    const pending = session.pendingCharge;
+    if (!pending || !this.handlers) {
+      return true;
+    }
+
+    try {
+      await this.handlers.charge({
+        sessionId: session.id,
+        appName: session.appName,
+        amount: pending.amount,
+        usageSeconds: pending.usageSeconds,
+        description: pending.description,
+        clientTxnId: pending.clientTxnId,
+      });
+    } catch (error) {
+      console.error('Failed to charge usage session:', error);
+      session.pendingCharge = null;
+      return false;
+    }
+
+    session.chargedTokens += pending.amount;
+    session.chargedMs = pending.chargedMs;
+    session.flushedAt = pending.flushedAt;
+    session.pendingCharge = null;
+    return true;
+  }
+
+  /**
+   * Credit whole tokens an earning app has accrued as one earn, up to what is left of today's limit
+   * Tokens past the limit are dropped rather than paid later, so the rest of the session is free time.
+   * A failed credit is logged and retried on the next flush.
+   */
+  private async creditEarned(session: UsageSession, now: number, force = true): Promise<void> {
+    const owed = getOwedTokens(session);
+    if (owed === 0 || !this.handlers?.earn) {
+      return;
+    }
+
+    const flushedAt = session.flushedAt ?? session.startedAt;
+    if (!force && now - flushedAt < FLUSH_INTERVAL_MS) {
+      return;
+    }
+
+    const allowance = this.handlers.getEarnAllowance?.(session, now) ?? null;
+    const amount = allowance === null ? owed : Math.max(0, Math.min(owed, allowance));
+    const runningMs = getRunningMs(session, now);
+
+    if (amount > 0) {
+      try {
+        await this.handlers.earn({
+          sessionId: session.id,
+          appName: session.appName,
+          amount,
+          usageSeconds: Math.round((runningMs - session.chargedMs) / 1000),
+          description: `${session.appName} learning (${Math.floor(runningMs / 1000)}s)`,
+          activeSeconds: Math.floor(runningMs / 1000),
+        });
+      } catch (error) {
+        console.error('Failed to credit earning session:', error);
+        return;
+      }
+
+      session.earnedTokens = (session.earnedTokens ?? 0) + amount;
+    }
+
+    session.chargedTokens += owed;
+    session.chargedMs = runningMs;
+    session.flushedAt = now;
+  }
+
+  private async finish(reason: UsageSessionStopReason): Promise<UsageSession | null> {
+    const session = this.session;
+
+    if (!session || session.status === 'stopped') {
+      return this.getSession();
+    }
+
+    const now = this.now();
+    let stopReason = reason;
+
+    if (session.status === 'running') {
+      this.accrue(session, now);
+
+      // Earning apps credit what they accrued. A failed or partly covered charge already tried to
+      // bill this time; prepaid time is already paid
+      if (getSessionClassification(session) !== 'entertainment') {
+        await this.creditEarned(session, now);
+      } else if (session.mode !== 'prepaid' && reason !== 'charge_failed' && reason !== 'insufficient_balance') {
+        const outcome = await this.chargeOwed(session, now);
+        if (outcome === 'charge_failed') {
+          stopReason = outcome;
+        }
+      }
+    }
+
+    const runningMs = getRunningMs(session, now);
+    session.activeMs = session.mode === 'prepaid' ? Math.min(runningMs, session.prepaidMs ?? 0) : runningMs;
+    session.runningSince = null;
+    session.status = 'stopped';
+    session.stoppedAt = now;
+    session.stopReason = stopReason;
+
+    if (session.mode === 'prepaid') {
+      await this.refundUnused(session);
+    }
+
+    try {
+      await this.storage.removeItem(STORAGE_KEY);
+    } catch (error) {
+      console.error('Failed to clear usage session:', error);
+    }
+
+    this.notify();
+
+    return { ...session };
+  }
+
+  private async persist(): Promise<void> {
+    if (!this.session) return;
+
+    try {
+      await this.storage.setItem(STORAGE_KEY, JSON.stringify(this.session));
+    } catch (error) {
+      console.error('Failed to persist usage session:', error);
+    }
+  }
+
+  private notify(): void {
+    const snapshot = this.getSession();
+    this.listeners.forEach(listener => listener(snapshot));
+  }
+}
+
+// Shared engine used by the app; tests create their own with an in-memory storage and clock
+export const sessionEngine = new SessionEngine({ now: () => trustedClock.now() });
+
+export default sessionEngine;
@@ -0,0 +1,80 @@
+/**
+ * Session leases for the Attention Wallet system
+ * A child may run app sessions on one device at a time. Before a session starts the device
+ * claims the child's lease (session_leases), renews it with each heartbeat and releases it when
+ * the session ends; another device can only take a live lease by taking over.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Platform } from 'react-native';
+import { generateOfflineId } from './utils';
+
+const DEVICE_ID_KEY = '@attention_wallet:device_id';
+
+// Postgres error code acquire_session_lease raises while another device holds the lease
+const LOCK_NOT_AVAILABLE_CODE = '55P03';
+
+// How long a lease lasts without renewal; matches the stale-session cutoff (lib/appSessions.ts)
+export const LEASE_DURATION_SECONDS = 120;
+
+let cachedDeviceId: string | null = null;
+
+/**
+ * Id for this install, created on first use and kept in local storage
+ */
+export const getDeviceId = async (): Promise<string> => {
+  if (cachedDeviceId) return cachedDeviceId;
+
+  try {
+    const stored = await AsyncStorage.getItem(DEVICE_ID_KEY);
+    if (stored) {
+      cachedDeviceId = stored;
+      return stored;
+    }
+
+    const created = generateOfflineId().replace(/^offline_/, 'device_');
+    await AsyncStorage.setItem(DEVICE_ID_KEY, created);
+    cachedDeviceId = created;
+    return created;
+  } catch (error) {
+    console.error('Failed to load device id:', error);
+    throw error;
+  }
+};
+
+/**
+ * Name shown to the child when this device holds the lease, e.g. "a web browser"
+ */
+export const getDeviceLabel = (): string => {
+  switch (Platform.OS) {
+    case 'web':
+      return 'a web browser';
+    case 'android':
+      return 'an Android device';
+    case 'ios':
+      return 'an iPhone or iPad';
+    default:
+      return 'another device';
+  }
+};
+
+/**
+ * Whether an error means another device holds a live lease
+ */
+export const isLeaseConflict = (error: unknown): boolean =>
+  typeof error === 'object' && error !== null && (error as { code?: string }).code === LOCK_NOT_AVAILABLE_CODE;
+
+/**
+ * Device named by a lease conflict error
+ */
+export const getLeaseHolder = (error: unknown): string => {
+  const details = typeof error === 'object' && error !== null ? (error as { details?: string }).details : undefined;
+  return details?.trim() || 'another device';
+};
+
+/**
+ * Message explaining why a session cannot start here
+ */
+export const describeLeaseConflict = (holder: string, appName: string): string =>
+  `You already have a session running on ${holder}. Take over to play ${appName} here instead; ` +
+  `the other session stops and only this one uses your tokens.`;
@@ -0,0 +1,204 @@
+/**
+ * Session warnings for the Attention Wallet system
+ * Works out how long the current session can keep running and when to warn the child, so an
+ * app winds down with warnings and a short wrap-up countdown instead of cutting off
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as Notifications from 'expo-notifications';
+import { Platform, Vibration } from 'react-native';
+import { SessionWarningSettings, UsageSession } from './types';
+import { safeJsonParse } from './utils';
+import { getPrepaidRemainingMs, getSessionClassification } from './sessionEngine';
+
+const SETTINGS_KEY = '@attention_wallet:session_warnings';
+
+// One notification per session at a time; a newer warning replaces the last
+const NOTIFICATION_ID = 'attention-wallet-session';
+
+// Android channel for session warnings, set up when permission is asked for
+const NOTIFICATION_CHANNEL_ID = 'session-warnings';
+
+const MINUTE_MS = 60000;
+
+// Countdown shown before the session ends and the lock screen takes over
+export const WRAP_UP_SECONDS = 30;
+
+export const MAX_WARNING_MINUTES = 60;
+
+export const DEFAULT_WARNING_SETTINGS: SessionWarningSettings = {
+  enabled: true,
+  thresholdMinutes: [5, 2, 1],
+  notify: true,
+};
+
+/**
+ * Running time left before the engine ends a session, or null when nothing limits it
+ * A prepaid session runs to the end of its block. A metered session stops once a token accrues
+ * that the balance cannot cover, so the partly accrued token counts against what is left.
+ * Free and earning apps never run out of tokens.
+ * availableBalance is the wallet balance less tokens not yet flushed (see useSession).
+ */
+export const getSessionTimeLeftMs = (
+  session: UsageSession,
+  availableBalance: number,
+  multiplier: number,
+  now: number
+): number | null => {
+  if (session.status === 'stopped' || getSessionClassification(session) !== 'entertainment') {
+    return null;
+  }
+
+  if (session.mode === 'prepaid') {
+    return getPrepaidRemainingMs(session, now);
+  }
+
+  const tokensPerMinute = session.tokensPerMinute * multiplier;
+  if (!(tokensPerMinute > 0)) {
+    return null;
+  }
+
+  const sinceAccrued = session.status === 'running' ? Math.max(0, now - session.accruedAt) : 0;
+  const accrued = session.accruedTokens + (sinceAccrued / MINUTE_MS) * tokensPerMinute;
+  const partialToken = accrued - Math.floor(accrued);
+  const tokensLeft = Math.max(0, availableBalance) + 1 - partialToken;
+
+  return Math.max(0, Math.round((tokensLeft / tokensPerMinute) * MINUTE_MS));
+};
+
+/**
+ * Thresholds the session has reached that have not been warned about yet
+ * Time inside the wrap-up countdown is left to the countdown
+ */
+export const getCrossedThresholds = (
+  timeLeftMs: number,
+  thresholdMinutes: number[],
+  warned: number[]
+): number[] => {
+  if (isWrappingUp(timeLeftMs)) {
+    return [];
+  }
+
+  return thresholdMinutes.filter(minutes => timeLeftMs <= minutes * MINUTE_MS && !warned.includes(minutes));
+};
+
+/**
+ * Whether a session is in its final wrap-up countdown
+ */
+export const isWrappingUp = (timeLeftMs: number | null): boolean =>
+  timeLeftMs !== null && timeLeftMs <= WRAP_UP_SECONDS * 1000;
+
+/**
+ * Warning text such as "About 2 minutes of YouTube left"
+ */
+export const describeTimeLeft = (appName: string, timeLeftMs: number, isPrepaid = false): string => {
+  const minutes = Math.max(1, Math.round(timeLeftMs / MINUTE_MS));
+  const reason = isPrepaid ? 'in your time block' : 'on your tokens';
+
+  return `About ${minutes} minute${minutes === 1 ? '' : 's'} of ${appName} left ${reason}`;
+};
+
+/**
+ * Parse thresholds typed in settings, e.g. "5, 2, 1"
+ * Returns whole minutes, largest first without repeats; throws on anything else
+ */
+export const parseWarningThresholds = (text: string): number[] => {
+  const parts = text.split(/[\s,]+/).filter(part => part.length > 0);
+  const minutes = parts.map(Number);
+
+  if (minutes.some(value => !Number.isInteger(value) || value < 1 || value > MAX_WARNING_MINUTES)) {
+    throw new Error(`Warning times must be whole minutes from 1 to ${MAX_WARNING_MINUTES}`);
+  }
+
+  return Array.from(new Set(minutes)).sort((a, b) => b - a);
+};
+
+/**
+ * Warning settings storage and notification delivery
+ */
+export const warningSettingsHelpers = {
+  /**
+   * Get the saved warning settings, or the defaults
+   */
+  load: async (): Promise<SessionWarningSettings> => {
+    try {
+      const stored = await AsyncStorage.getItem(SETTINGS_KEY);
+      const saved = stored ? safeJsonParse<Partial<SessionWarningSettings>>(stored, {}) : {};
+      return { ...DEFAULT_WARNING_SETTINGS, ...saved };
+    } catch (error) {
+      console.error('Failed to load session warning settings:', error);
+      return DEFAULT_WARNING_SETTINGS;
+    }
+  },
+
+  /**
+   * Save warning settings on this device
+   */
+  save: async (settings: SessionWarningSettings): Promise<void> => {
+    try {
+      await AsyncStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+    } catch (error) {
+      console.error('Failed to save session warning settings:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Ask for permission to show notifications; resolves whether they are allowed
+   * Browser notifications on web, local notifications on iOS and Android
+   */
+  requestPermission: async (): Promise<boolean> => {
+    if (Platform.OS !== 'web') {
+      try {
+        if (Platform.OS === 'android') {
+          await Notifications.setNotificationChannelAsync(NOTIFICATION_CHANNEL_ID, {
+            name: 'Session warnings',
+            importance: Notifications.AndroidImportance.HIGH,
+          });
+        }
+
+        const current = await Notifications.getPermissionsAsync();
+        if (current.granted || !current.canAskAgain) return current.granted;
+        return (await Notifications.requestPermissionsAsync()).granted;
+      } catch (error) {
+        console.error('Failed to request notification permission:', error);
+        return false;
+      }
+    }
+    if (typeof Notification === 'undefined') return false;
+    if (Notification.permission !== 'default') return Notification.permission === 'granted';
+
+    try {
+      return (await Notification.requestPermission()) === 'granted';
+    } catch (error) {
+      console.error('Failed to request notification permission:', error);
+      return false;
+    }
+  },
+
+  /**
+   * Alert the child outside the app: a browser notification on web, a local notification and a
+   * vibration on devices. Shows nothing where permission was not given.
+   */
+  notify: (title: string, body: string): void => {
+    try {
+      if (Platform.OS !== 'web') {
+        Vibration.vibrate();
+        Notifications.scheduleNotificationAsync({
+          identifier: NOTIFICATION_ID,
+          content: { title, body },
+          trigger: Platform.OS === 'android' ? { channelId: NOTIFICATION_CHANNEL_ID } : null,
+        }).catch(error => {
+          console.error('Failed to send session warning notification:', error);
+        });
+        return;
+      }
+
+      if (typeof Notification !== 'undefined' && Notification.permission === 'granted') {
+        new Notification(title, { body, tag: 'attention-wallet-session' });
+      }
+    } catch (error) {
+      console.error('Failed to send session warning notification:', error);
+    }
+  },
+};
@@ -5,7 +5,54 @@
 
 import { createClient, SupabaseClient, User, Session } from '@supabase/supabase-js';
 import { SUPABASE_CONFIG, validateConfig } from './config';
-import { Profile, Transaction, QuestType } from './types';
+import {
+  Profile,
+  ProfileUpdate,
+  ProtectedProfileField,
+  Transaction,
+  QuestType,
+  QuestVerification,
+  WalletOperationResult,
+  AppTimeEarnResult,
+  WalletException,
+  OverdraftResult,
+  Allowance,
+  AppPricingRule,
+  CatalogApp,
+  ScheduleRule,
+  SpendingCap,
+  Reward,
+  SavingsGoal,
+  RewardRedemption,
+  RewardRedemptionStatus,
+  GoalOperationResult,
+  CreditLine,
+  Loan,
+  BorrowResult,
+  TransferSettings,
+  TokenTransfer,
+  TokenTransferStatus,
+  TransferResult,
+  FamilyMember,
+  AppSession,
+  ClockEvent,
+  ClockEventKind,
+  SessionLease,
+  UsageSession,
+  UsageSessionStopReason,
+} from './types';
+
+// Profile columns never sent from the client; the database also rejects
+// direct changes to role and balances (see guard_profile_protected_columns)
+const PROTECTED_PROFILE_FIELDS: readonly ProtectedProfileField[] = [
+  'id',
+  'role',
+  'balance',
+  'total_earned',
+  'total_spent',
+  'created_at',
+  'updated_at',
+];
 
 // Initialize Supabase client
 let supabase: SupabaseClient | null = null;
@@ -208,17 +255,24 @@ export const dbHelpers = {
 
   /**
    * Update user profile
+   * Only non-protected fields are sent; balances must go through walletHelpers
    */
-  updateProfile: async (userId: string, updates: Partial<Profile>): Promise<Profile> => {
+  updateProfile: async (userId: string, updates: ProfileUpdate): Promise<Profile> => {
     const client = getSupabaseClient();
     
     try {
+      const safeUpdates: Record<string, unknown> = {};
+      for (const [field, value] of Object.entries(updates)) {
+        if (PROTECTED_PROFILE_FIELDS.includes(field as ProtectedProfileField)) {
+          console.warn(`Ignoring protected profile field in update: ${field}`);
+          continue;
+        }
+        safeUpdates[field] = value;
+      }
+
       const { data, error } = await client
         .from('profiles')
-        .update({
-          ...updates,
-          updated_at: new Date().toISOString(),
-        })
+        .update(safeUpdates)
         .eq('id', userId)
         .select()
         .single();
@@ -267,288 +321,1635 @@ export const dbHelpers = {
   },
 
   /**
-   * Create a new transaction
+   * Get a user's spends and refunds since a moment, without a row limit
+   * Used to measure today's usage against spending caps
    */
-  createTransaction: async (transaction: Omit<Transaction, 'id'>): Promise<Transaction> => {
+  getSpendingSince: async (userId: string, since: string): Promise<Transaction[]> => {
     const client = getSupabaseClient();
     
     try {
       const { data, error } = await client
         .from('transactions')
-        .insert(transaction)
-        .select()
-        .single();
+        .select('*')
+        .eq('user_id', userId)
+        .in('type', ['spend', 'refund'])
+        .gte('timestamp', since)
+        .order('timestamp', { ascending: false });
 
       if (error) {
-        console.error('Create transaction error:', error);
+        console.error('Get spending error:', error);
         throw error;
       }
 
-      return data;
+      return data || [];
     } catch (error) {
-      console.error('Create transaction failed:', error);
+      console.error('Get spending failed:', error);
       throw error;
     }
   },
 
   /**
-   * Get active quest types
+   * Get a user's earns from apps since a moment, without a row limit
+   * Used to measure what each Learn & Earn app has paid today against its daily earn limit
    */
-  getActiveQuestTypes: async (): Promise<QuestType[]> => {
+  getAppEarningsSince: async (userId: string, since: string): Promise<Transaction[]> => {
     const client = getSupabaseClient();
     
     try {
       const { data, error } = await client
-        .from('quest_types')
+        .from('transactions')
         .select('*')
-        .eq('is_active', true)
-        .order('name');
+        .eq('user_id', userId)
+        .eq('type', 'earn')
+        .not('app_name', 'is', null)
+        .gte('timestamp', since)
+        .order('timestamp', { ascending: false });
 
       if (error) {
-        console.error('Get quest types error:', error);
+        console.error('Get app earnings error:', error);
         throw error;
       }
 
       return data || [];
     } catch (error) {
-      console.error('Get quest types failed:', error);
+      console.error('Get app earnings failed:', error);
       throw error;
     }
   },
 
   /**
-   * Get all child profiles (for parent dashboard)
-   * In a production app, this would filter by parent-child relationships
+   * Get wallet exceptions (overdrafts from offline spends) for a user
    */
-  getChildProfiles: async (): Promise<Profile[]> => {
+  getWalletExceptions: async (userId: string, includeResolved: boolean = false): Promise<WalletException[]> => {
     const client = getSupabaseClient();
     
     try {
-      const { data, error } = await client
-        .from('profiles')
+      let query = client
+        .from('wallet_exceptions')
         .select('*')
-        .eq('role', 'child')
-        .order('created_at', { ascending: false });
+        .eq('user_id', userId)
+        .order('occurred_at', { ascending: false });
+
+      if (!includeResolved) {
+        query = query.is('resolved_at', null);
+      }
+
+      const { data, error } = await query;
 
       if (error) {
-        console.error('Get child profiles error:', error);
+        console.error('Get wallet exceptions error:', error);
         throw error;
       }
 
       return data || [];
     } catch (error) {
-      console.error('Get child profiles failed:', error);
+      console.error('Get wallet exceptions failed:', error);
       throw error;
     }
   },
 
   /**
-   * Get all quest types (including inactive ones for management)
+   * Mark a wallet exception as reviewed by a parent
    */
-  getAllQuestTypes: async (): Promise<QuestType[]> => {
+  resolveWalletException: async (exceptionId: string, parentId: string): Promise<WalletException> => {
     const client = getSupabaseClient();
     
     try {
       const { data, error } = await client
-        .from('quest_types')
+        .from('wallet_exceptions')
+        .update({
+          resolved_at: new Date().toISOString(),
+          resolved_by: parentId,
+        })
+        .eq('id', exceptionId)
+        .select()
+        .single();
+
+      if (error) {
+        console.error('Resolve wallet exception error:', error);
+        throw error;
+      }
+
+      return data;
+    } catch (error) {
+      console.error('Resolve wallet exception failed:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Get the allowance configured for a child, if any
+   */
+  getAllowance: async (childId: string): Promise<Allowance | null> => {
+    const client = getSupabaseClient();
+    
+    try {
+      const { data, error } = await client
+        .from('allowances')
         .select('*')
-        .order('name');
+        .eq('child_id', childId)
+        .maybeSingle();
 
       if (error) {
-        console.error('Get all quest types error:', error);
+        console.error('Get allowance error:', error);
         throw error;
       }
 
-      return data || [];
+      return data;
     } catch (error) {
-      console.error('Get all quest types failed:', error);
+      console.error('Get allowance failed:', error);
       throw error;
     }
   },
 
   /**
-   * Create a new quest type
+   * Create or update a child's allowance (parent only)
    */
-  createQuestType: async (questType: Omit<QuestType, 'id' | 'created_by'>, createdBy: string): Promise<QuestType> => {
+  saveAllowance: async (
+    childId: string,
+    allowance: Omit<Allowance, 'id' | 'child_id' | 'created_by' | 'created_at' | 'updated_at'>,
+    parentId: string
+  ): Promise<Allowance> => {
     const client = getSupabaseClient();
     
     try {
       const { data, error } = await client
-        .from('quest_types')
-        .insert({
-          ...questType,
-          created_by: createdBy,
-        })
+        .from('allowances')
+        .upsert(
+          {
+            ...allowance,
+            day_of_week: allowance.cadence === 'weekly' ? allowance.day_of_week : null,
+            child_id: childId,
+            created_by: parentId,
+          },
+          { onConflict: 'child_id' }
+        )
         .select()
         .single();
 
       if (error) {
-        console.error('Create quest type error:', error);
+        console.error('Save allowance error:', error);
         throw error;
       }
 
       return data;
     } catch (error) {
-      console.error('Create quest type failed:', error);
+      console.error('Save allowance failed:', error);
       throw error;
     }
   },
 
   /**
-   * Update an existing quest type
+   * Get the credit line configured for a child, if any
    */
-  updateQuestType: async (questId: string, updates: Partial<Omit<QuestType, 'id' | 'created_by'>>): Promise<QuestType> => {
+  getCreditLine: async (childId: string): Promise<CreditLine | null> => {
     const client = getSupabaseClient();
     
     try {
       const { data, error } = await client
-        .from('quest_types')
-        .update({
-          ...updates,
-          updated_at: new Date().toISOString(),
-        })
-        .eq('id', questId)
+        .from('credit_lines')
+        .select('*')
+        .eq('child_id', childId)
+        .maybeSingle();
+
+      if (error) {
+        console.error('Get credit line error:', error);
+        throw error;
+      }
+
+      return data;
+    } catch (error) {
+      console.error('Get credit line failed:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Create or update a child's credit line (parent only)
+   * Lowering the limit below what is already owed only stops new borrowing
+   */
+  saveCreditLine: async (
+    childId: string,
+    creditLine: Pick<CreditLine, 'credit_limit' | 'is_active'>,
+    parentId: string
+  ): Promise<CreditLine> => {
+    const client = getSupabaseClient();
+    
+    try {
+      const { data, error } = await client
+        .from('credit_lines')
+        .upsert(
+          {
+            ...creditLine,
+            child_id: childId,
+            created_by: parentId,
+          },
+          { onConflict: 'child_id' }
+        )
         .select()
         .single();
 
       if (error) {
-        console.error('Update quest type error:', error);
+        console.error('Save credit line error:', error);
         throw error;
       }
 
       return data;
     } catch (error) {
-      console.error('Update quest type failed:', error);
+      console.error('Save credit line failed:', error);
       throw error;
     }
   },
 
   /**
-   * Delete a quest type (soft delete by setting is_active to false)
+   * Get a child's loans that are not fully repaid, oldest first (the order they are repaid in)
    */
-  deleteQuestType: async (questId: string): Promise<void> => {
+  getOutstandingLoans: async (childId: string): Promise<Loan[]> => {
     const client = getSupabaseClient();
     
     try {
-      const { error } = await client
-        .from('quest_types')
-        .update({
-          is_active: false,
-          updated_at: new Date().toISOString(),
-        })
-        .eq('id', questId);
+      const { data, error } = await client
+        .from('loans')
+        .select('*')
+        .eq('child_id', childId)
+        .gt('outstanding', 0)
+        .order('borrowed_at');
 
       if (error) {
-        console.error('Delete quest type error:', error);
+        console.error('Get outstanding loans error:', error);
         throw error;
       }
+
+      return data || [];
     } catch (error) {
-      console.error('Delete quest type failed:', error);
+      console.error('Get outstanding loans failed:', error);
       throw error;
     }
   },
 
   /**
-   * Permanently delete a quest type (hard delete)
+   * Get a child's most recent app sessions, newest first
    */
-  permanentlyDeleteQuestType: async (questId: string): Promise<void> => {
+  getAppSessions: async (childId: string, limit: number = 20): Promise<AppSession[]> => {
     const client = getSupabaseClient();
     
     try {
-      const { error } = await client
-        .from('quest_types')
-        .delete()
-        .eq('id', questId);
+      const { data, error } = await client
+        .from('app_sessions')
+        .select('*')
+        .eq('child_id', childId)
+        .order('started_at', { ascending: false })
+        .limit(limit);
 
       if (error) {
-        console.error('Permanently delete quest type error:', error);
+        console.error('Get app sessions error:', error);
         throw error;
       }
+
+      return data || [];
     } catch (error) {
-      console.error('Permanently delete quest type failed:', error);
+      console.error('Get app sessions failed:', error);
       throw error;
     }
   },
-};
 
-/**
- * Real-time subscription helpers
- */
-export const realtimeHelpers = {
   /**
-   * Subscribe to profile changes
+   * Get the device clock problems reported for a child, newest first
    */
-  subscribeToProfile: (userId: string, callback: (profile: Profile) => void) => {
+  getClockEvents: async (childId: string, limit: number = 10): Promise<ClockEvent[]> => {
     const client = getSupabaseClient();
     
-    return client
-      .channel(`profile-${userId}`)
-      .on(
-        'postgres_changes',
-        {
-          event: 'UPDATE',
-          schema: 'public',
-          table: 'profiles',
-          filter: `id=eq.${userId}`,
-        },
-        (payload) => {
-          callback(payload.new as Profile);
-        }
-      )
-      .subscribe();
+    try {
+      const { data, error } = await client
+        .from('clock_events')
+        .select('*')
+        .eq('child_id', childId)
+        .order('detected_at', { ascending: false })
+        .limit(limit);
+
+      if (error) {
+        console.error('Get clock events error:', error);
+        throw error;
+      }
+
+      return data || [];
+    } catch (error) {
+      console.error('Get clock events failed:', error);
+      throw error;
+    }
   },
 
   /**
-   * Subscribe to transaction changes
+   * Get a child's transfer approval rule, if any
    */
-  subscribeToTransactions: (userId: string, callback: (transaction: Transaction) => void) => {
+  getTransferSettings: async (childId: string): Promise<TransferSettings | null> => {
     const client = getSupabaseClient();
     
-    return client
-      .channel(`transactions-${userId}`)
-      .on(
-        'postgres_changes',
-        {
-          event: 'INSERT',
-          schema: 'public',
-          table: 'transactions',
-          filter: `user_id=eq.${userId}`,
-        },
-        (payload) => {
-          callback(payload.new as Transaction);
-        }
-      )
-      .subscribe();
+    try {
+      const { data, error } = await client
+        .from('transfer_settings')
+        .select('*')
+        .eq('child_id', childId)
+        .maybeSingle();
+
+      if (error) {
+        console.error('Get transfer settings error:', error);
+        throw error;
+      }
+
+      return data;
+    } catch (error) {
+      console.error('Get transfer settings failed:', error);
+      throw error;
+    }
   },
-};
 
-/**
- * Create user profile after signup
- */
-const createUserProfile = async (userId: string, role: 'parent' | 'child'): Promise<Profile> => {
-  const client = getSupabaseClient();
-  
-  try {
-    const { data, error } = await client
-      .from('profiles')
-      .insert({
-        id: userId,
-        role,
-        balance: 0,
-        total_earned: 0,
-        total_spent: 0,
-      })
-      .select()
-      .single();
+  /**
+   * Create or update a child's transfer approval threshold (parent only)
+   */
+  saveTransferSettings: async (
+    childId: string,
+    approvalThreshold: number,
+    parentId: string
+  ): Promise<TransferSettings> => {
+    const client = getSupabaseClient();
+    
+    try {
+      const { data, error } = await client
+        .from('transfer_settings')
+        .upsert(
+          {
+            child_id: childId,
+            approval_threshold: approvalThreshold,
+            created_by: parentId,
+          },
+          { onConflict: 'child_id' }
+        )
+        .select()
+        .single();
 
-    if (error) {
-      console.error('Create profile error:', error);
+      if (error) {
+        console.error('Save transfer settings error:', error);
+        throw error;
+      }
+
+      return data;
+    } catch (error) {
+      console.error('Save transfer settings failed:', error);
       throw error;
     }
+  },
 
-    return data;
-  } catch (error) {
-    console.error('Create profile failed:', error);
+  /**
+   * Remove a child's transfer approval rule so their transfers complete immediately (parent only)
+   */
+  deleteTransferSettings: async (childId: string): Promise<void> => {
+    const client = getSupabaseClient();
+    
+    try {
+      const { error } = await client
+        .from('transfer_settings')
+        .delete()
+        .eq('child_id', childId);
+
+      if (error) {
+        console.error('Delete transfer settings error:', error);
+        throw error;
+      }
+    } catch (error) {
+      console.error('Delete transfer settings failed:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Get transfers a user sent or received, newest first, optionally filtered by status
+   */
+  getTokenTransfers: async (userId: string, status?: TokenTransferStatus): Promise<TokenTransfer[]> => {
+    const client = getSupabaseClient();
+    
+    try {
+      let query = client
+        .from('token_transfers')
+        .select('*')
+        .or(`from_user_id.eq.${userId},to_user_id.eq.${userId}`)
+        .order('requested_at', { ascending: false });
+
+      if (status) {
+        query = query.eq('status', status);
+      }
+
+      const { data, error } = await query;
+
+      if (error) {
+        console.error('Get token transfers error:', error);
+        throw error;
+      }
+
+      return data || [];
+    } catch (error) {
+      console.error('Get token transfers failed:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Get app pricing rules
+   * Without a parent id, returns every rule visible to the current user (their linked parents' rules)
+   */
+  getAppPricing: async (parentId?: string): Promise<AppPricingRule[]> => {
+    const client = getSupabaseClient();
+    
+    try {
+      let query = client
+        .from('app_pricing')
+        .select('*')
+        .order('scope')
+        .order('target_name');
+
+      if (parentId) {
+        query = query.eq('parent_id', parentId);
+      }
+
+      const { data, error } = await query;
+
+      if (error) {
+        console.error('Get app pricing error:', error);
+        throw error;
+      }
+
+      return data || [];
+    } catch (error) {
+      console.error('Get app pricing failed:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Create or update the rate for one category (parent only)
+   */
+  saveAppPricingRule: async (
+    parentId: string,
+    rule: Pick<AppPricingRule, 'scope' | 'target_name' | 'tokens_per_minute'>
+  ): Promise<AppPricingRule> => {
+    const client = getSupabaseClient();
+    
+    try {
+      const { data, error } = await client
+        .from('app_pricing')
+        .upsert(
+          {
+            ...rule,
+            target_name: rule.target_name.trim(),
+            parent_id: parentId,
+          },
+          { onConflict: 'parent_id,scope,target_name' }
+        )
+        .select()
+        .single();
+
+      if (error) {
+        console.error('Save app pricing error:', error);
+        throw error;
+      }
+
+      return data;
+    } catch (error) {
+      console.error('Save app pricing failed:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Remove a pricing rule so the category falls back to the default rate (parent only)
+   */
+  deleteAppPricingRule: async (ruleId: string): Promise<void> => {
+    const client = getSupabaseClient();
+    
+    try {
+      const { error } = await client
+        .from('app_pricing')
+        .delete()
+        .eq('id', ruleId);
+
+      if (error) {
+        console.error('Delete app pricing error:', error);
+        throw error;
+      }
+    } catch (error) {
+      console.error('Delete app pricing failed:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Get catalog apps
+   * Without a parent id, returns every app visible to the current user (their linked parents' catalogs)
+   */
+  getCatalogApps: async (parentId?: string): Promise<CatalogApp[]> => {
+    const client = getSupabaseClient();
+    
+    try {
+      let query = client
+        .from('apps')
+        .select('*')
+        .order('name');
+
+      if (parentId) {
+        query = query.eq('parent_id', parentId);
+      }
+
+      const { data, error } = await query;
+
+      if (error) {
+        console.error('Get catalog apps error:', error);
+        throw error;
+      }
+
+      return data || [];
+    } catch (error) {
+      console.error('Get catalog apps failed:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Add an app to the catalog, or update it when an app id is given (parent only)
+   */
+  saveCatalogApp: async (
+    parentId: string,
+    app: Omit<CatalogApp, 'id' | 'parent_id' | 'created_at' | 'updated_at'>,
+    appId?: string
+  ): Promise<CatalogApp> => {
+    const client = getSupabaseClient();
+    
+    try {
+      const row = {
+        ...app,
+        name: app.name.trim(),
+        category: app.category.trim(),
+        icon: app.icon?.trim() || null,
+        package_name: app.package_name?.trim() || null,
+        deep_link: app.deep_link?.trim() || null,
+        web_url: app.web_url?.trim() || null,
+        tokens_per_minute: app.tokens_per_minute ?? null,
+        daily_earn_limit: app.classification === 'earning' ? app.daily_earn_limit ?? null : null,
+        timezone: app.timezone?.trim() || 'UTC',
+        parent_id: parentId,
+      };
+
+      const { data, error } = appId
+        ? await client.from('apps').update(row).eq('id', appId).select().single()
+        : await client.from('apps').insert(row).select().single();
+
+      if (error) {
+        console.error('Save catalog app error:', error);
+        throw error;
+      }
+
+      return data;
+    } catch (error) {
+      console.error('Save catalog app failed:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Add several apps to the catalog at once, skipping names already in it (parent only)
+   */
+  addCatalogApps: async (
+    parentId: string,
+    apps: Array<Omit<CatalogApp, 'id' | 'parent_id' | 'created_at' | 'updated_at'>>
+  ): Promise<void> => {
+    const client = getSupabaseClient();
+    
+    try {
+      const { error } = await client
+        .from('apps')
+        .upsert(
+          apps.map(app => ({ ...app, parent_id: parentId })),
+          { onConflict: 'parent_id,name', ignoreDuplicates: true }
+        );
+
+      if (error) {
+        console.error('Add catalog apps error:', error);
+        throw error;
+      }
+    } catch (error) {
+      console.error('Add catalog apps failed:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Remove an app from the catalog (parent only)
+   */
+  deleteCatalogApp: async (appId: string): Promise<void> => {
+    const client = getSupabaseClient();
+    
+    try {
+      const { error } = await client
+        .from('apps')
+        .delete()
+        .eq('id', appId);
+
+      if (error) {
+        console.error('Delete catalog app error:', error);
+        throw error;
+      }
+    } catch (error) {
+      console.error('Delete catalog app failed:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Get schedule rules
+   * Without a parent id, returns every rule visible to the current user (their linked parents' rules)
+   */
+  getScheduleRules: async (parentId?: string): Promise<ScheduleRule[]> => {
+    const client = getSupabaseClient();
+    
+    try {
+      let query = client
+        .from('schedule_rules')
+        .select('*')
+        .order('start_time');
+
+      if (parentId) {
+        query = query.eq('parent_id', parentId);
+      }
+
+      const { data, error } = await query;
+
+      if (error) {
+        console.error('Get schedule rules error:', error);
+        throw error;
+      }
+
+      return data || [];
+    } catch (error) {
+      console.error('Get schedule rules failed:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Create a schedule rule, or update it when a rule id is given (parent only)
+   */
+  saveScheduleRule: async (
+    parentId: string,
+    rule: Omit<ScheduleRule, 'id' | 'parent_id' | 'created_at' | 'updated_at'>,
+    ruleId?: string
+  ): Promise<ScheduleRule> => {
+    const client = getSupabaseClient();
+    
+    try {
+      const row = {
+        ...rule,
+        name: rule.name.trim(),
+        multiplier: rule.action === 'multiplier' ? rule.multiplier : null,
+        parent_id: parentId,
+      };
+
+      const { data, error } = ruleId
+        ? await client.from('schedule_rules').update(row).eq('id', ruleId).select().single()
+        : await client.from('schedule_rules').insert(row).select().single();
+
+      if (error) {
+        console.error('Save schedule rule error:', error);
+        throw error;
+      }
+
+      return data;
+    } catch (error) {
+      console.error('Save schedule rule failed:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Delete a schedule rule (parent only)
+   */
+  deleteScheduleRule: async (ruleId: string): Promise<void> => {
+    const client = getSupabaseClient();
+    
+    try {
+      const { error } = await client
+        .from('schedule_rules')
+        .delete()
+        .eq('id', ruleId);
+
+      if (error) {
+        console.error('Delete schedule rule error:', error);
+        throw error;
+      }
+    } catch (error) {
+      console.error('Delete schedule rule failed:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Get the spending caps configured for a child
+   */
+  getSpendingCaps: async (childId: string): Promise<SpendingCap[]> => {
+    const client = getSupabaseClient();
+    
+    try {
+      const { data, error } = await client
+        .from('spending_caps')
+        .select('*')
+        .eq('child_id', childId)
+        .order('scope', { ascending: false })
+        .order('category');
+
+      if (error) {
+        console.error('Get spending caps error:', error);
+        throw error;
+      }
+
+      return data || [];
+    } catch (error) {
+      console.error('Get spending caps failed:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Create a spending cap for a child, or update it when a cap id is given (parent only)
+   */
+  saveSpendingCap: async (
+    childId: string,
+    cap: Omit<SpendingCap, 'id' | 'child_id' | 'created_by' | 'created_at' | 'updated_at'>,
+    parentId: string,
+    capId?: string
+  ): Promise<SpendingCap> => {
+    const client = getSupabaseClient();
+    
+    try {
+      const row = {
+        ...cap,
+        category: cap.scope === 'category' ? cap.category?.trim() : null,
+        child_id: childId,
+        created_by: parentId,
+      };
+
+      const { data, error } = capId
+        ? await client.from('spending_caps').update(row).eq('id', capId).select().single()
+        : await client.from('spending_caps').insert(row).select().single();
+
+      if (error) {
+        console.error('Save spending cap error:', error);
+        throw error;
+      }
+
+      return data;
+    } catch (error) {
+      console.error('Save spending cap failed:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Delete a spending cap (parent only)
+   */
+  deleteSpendingCap: async (capId: string): Promise<void> => {
+    const client = getSupabaseClient();
+    
+    try {
+      const { error } = await client
+        .from('spending_caps')
+        .delete()
+        .eq('id', capId);
+
+      if (error) {
+        console.error('Delete spending cap error:', error);
+        throw error;
+      }
+    } catch (error) {
+      console.error('Delete spending cap failed:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Get reward catalog entries
+   * Without a parent id, returns every reward visible to the current user (their linked parents' catalogs)
+   */
+  getRewards: async (parentId?: string): Promise<Reward[]> => {
+    const client = getSupabaseClient();
+    
+    try {
+      let query = client
+        .from('rewards')
+        .select('*')
+        .order('token_cost');
+
+      if (parentId) {
+        query = query.eq('parent_id', parentId);
+      }
+
+      const { data, error } = await query;
+
+      if (error) {
+        console.error('Get rewards error:', error);
+        throw error;
+      }
+
+      return data || [];
+    } catch (error) {
+      console.error('Get rewards failed:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Create a reward, or update it when a reward id is given (parent only)
+   */
+  saveReward: async (
+    parentId: string,
+    reward: Omit<Reward, 'id' | 'parent_id' | 'created_at' | 'updated_at'>,
+    rewardId?: string
+  ): Promise<Reward> => {
+    const client = getSupabaseClient();
+    
+    try {
+      const row = {
+        ...reward,
+        name: reward.name.trim(),
+        description: reward.description?.trim() || null,
+        parent_id: parentId,
+      };
+
+      const { data, error } = rewardId
+        ? await client.from('rewards').update(row).eq('id', rewardId).select().single()
+        : await client.from('rewards').insert(row).select().single();
+
+      if (error) {
+        console.error('Save reward error:', error);
+        throw error;
+      }
+
+      return data;
+    } catch (error) {
+      console.error('Save reward failed:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Delete a reward (parent only)
+   * Fails while a child has a savings goal for it; hide the reward instead
+   */
+  deleteReward: async (rewardId: string): Promise<void> => {
+    const client = getSupabaseClient();
+    
+    try {
+      const { error } = await client
+        .from('rewards')
+        .delete()
+        .eq('id', rewardId);
+
+      if (error) {
+        console.error('Delete reward error:', error);
+        throw error;
+      }
+    } catch (error) {
+      console.error('Delete reward failed:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Get a child's open savings goals (active or awaiting a parent's decision), with their rewards
+   */
+  getSavingsGoals: async (childId: string): Promise<SavingsGoal[]> => {
+    const client = getSupabaseClient();
+    
+    try {
+      const { data, error } = await client
+        .from('savings_goals')
+        .select('*, reward:rewards(*)')
+        .eq('child_id', childId)
+        .in('status', ['active', 'requested'])
+        .order('created_at');
+
+      if (error) {
+        console.error('Get savings goals error:', error);
+        throw error;
+      }
+
+      return data || [];
+    } catch (error) {
+      console.error('Get savings goals failed:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Get a child's reward requests, newest first, optionally filtered by status
+   */
+  getRewardRedemptions: async (childId: string, status?: RewardRedemptionStatus): Promise<RewardRedemption[]> => {
+    const client = getSupabaseClient();
+    
+    try {
+      let query = client
+        .from('reward_redemptions')
+        .select('*, reward:rewards(*)')
+        .eq('child_id', childId)
+        .order('requested_at', { ascending: false });
+
+      if (status) {
+        query = query.eq('status', status);
+      }
+
+      const { data, error } = await query;
+
+      if (error) {
+        console.error('Get reward redemptions error:', error);
+        throw error;
+      }
+
+      return data || [];
+    } catch (error) {
+      console.error('Get reward redemptions failed:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Get active quest types
+   */
+  getActiveQuestTypes: async (): Promise<QuestType[]> => {
+    const client = getSupabaseClient();
+    
+    try {
+      const { data, error } = await client
+        .from('quest_types')
+        .select('*')
+        .eq('is_active', true)
+        .order('name');
+
+      if (error) {
+        console.error('Get quest types error:', error);
+        throw error;
+      }
+
+      return data || [];
+    } catch (error) {
+      console.error('Get quest types failed:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Get all child profiles (for parent dashboard)
+   * In a production app, this would filter by parent-child relationships
+   */
+  getChildProfiles: async (): Promise<Profile[]> => {
+    const client = getSupabaseClient();
+    
+    try {
+      const { data, error } = await client
+        .from('profiles')
+        .select('*')
+        .eq('role', 'child')
+        .order('created_at', { ascending: false });
+
+      if (error) {
+        console.error('Get child profiles error:', error);
+        throw error;
+      }
+
+      return data || [];
+    } catch (error) {
+      console.error('Get child profiles failed:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Get all quest types (including inactive ones for management)
+   */
+  getAllQuestTypes: async (): Promise<QuestType[]> => {
+    const client = getSupabaseClient();
+    
+    try {
+      const { data, error } = await client
+        .from('quest_types')
+        .select('*')
+        .order('name');
+
+      if (error) {
+        console.error('Get all quest types error:', error);
+        throw error;
+      }
+
+      return data || [];
+    } catch (error) {
+      console.error('Get all quest types failed:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Create a new quest type
+   */
+  createQuestType: async (questType: Omit<QuestType, 'id' | 'created_by'>, createdBy: string): Promise<QuestType> => {
+    const client = getSupabaseClient();
+    
+    try {
+      const { data, error } = await client
+        .from('quest_types')
+        .insert({
+          ...questType,
+          created_by: createdBy,
+        })
+        .select()
+        .single();
+
+      if (error) {
+        console.error('Create quest type error:', error);
+        throw error;
+      }
+
+      return data;
+    } catch (error) {
+      console.error('Create quest type failed:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Update an existing quest type
+   */
+  updateQuestType: async (questId: string, updates: Partial<Omit<QuestType, 'id' | 'created_by'>>): Promise<QuestType> => {
+    const client = getSupabaseClient();
+    
+    try {
+      const { data, error } = await client
+        .from('quest_types')
+        .update({
+          ...updates,
+          updated_at: new Date().toISOString(),
+        })
+        .eq('id', questId)
+        .select()
+        .single();
+
+      if (error) {
+        console.error('Update quest type error:', error);
+        throw error;
+      }
+
+      return data;
+    } catch (error) {
+      console.error('Update quest type failed:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Delete a quest type (soft delete by setting is_active to false)
+   */
+  deleteQuestType: async (questId: string): Promise<void> => {
+    const client = getSupabaseClient();
+    
+    try {
+      const { error } = await client
+        .from('quest_types')
+        .update({
+          is_active: false,
+          updated_at: new Date().toISOString(),
+        })
+        .eq('id', questId);
+
+      if (error) {
+        console.error('Delete quest type error:', error);
+        throw error;
+      }
+    } catch (error) {
+      console.error('Delete quest type failed:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Permanently delete a quest type (hard delete)
+   */
+  permanentlyDeleteQuestType: async (questId: string): Promise<void> => {
+    const client = getSupabaseClient();
+    
+    try {
+      const { error } = await client
+        .from('quest_types')
+        .delete()
+        .eq('id', questId);
+
+      if (error) {
+        console.error('Permanently delete quest type error:', error);
+        throw error;
+      }
+    } catch (error) {
+      console.error('Permanently delete quest type failed:', error);
+      throw error;
+    }
+  },
+};
+
+/**
+ * Wallet helper functions
+ * Balance changes go through server-side RPCs that write the ledger row and
+ * update the profile atomically, so the client never computes balances itself
+ */
+export const walletHelpers = {
+  /**
+   * Pay the current user a quest's reward; the server takes the amount from the quest
+   * and pays each quest at most once a day
+   */
+  completeQuest: async (
+    questTypeId: string,
+    proofImageUrl: string,
+    options?: {
+      verifiedBy?: QuestVerification;
+      timestamp?: string;
+      clientTxnId?: string;
+    }
+  ): Promise<WalletOperationResult> => {
+    return callWalletRpc('wallet_complete_quest', {
+      p_quest_type_id: questTypeId,
+      p_proof_image_url: proofImageUrl,
+      p_verified_by: options?.verifiedBy ?? 'ai',
+      p_timestamp: options?.timestamp ?? null,
+      p_client_txn_id: options?.clientTxnId ?? null,
+    });
+  },
+
+  /**
+   * Pay the current user for a Learn & Earn session's running time so far
+   * The server pays the session's rate for time not already paid, so repeating a call is harmless
+   */
+  earnAppTime: async (
+    sessionId: string,
+    activeSeconds: number,
+    options?: {
+      timestamp?: string;
+      clientTxnId?: string;
+    }
+  ): Promise<AppTimeEarnResult> => {
+    return callWalletRpc<AppTimeEarnResult>('wallet_earn_app_time', {
+      p_client_session_id: sessionId,
+      p_active_seconds: activeSeconds,
+      p_timestamp: options?.timestamp ?? null,
+      p_client_txn_id: options?.clientTxnId ?? null,
+    });
+  },
+
+  /**
+   * Spend tokens for the current user
+   */
+  spend: async (
+    amount: number,
+    description: string,
+    options?: {
+      appName?: string;
+      usageSeconds?: number;
+      sessionId?: string;
+      timestamp?: string;
+      clientTxnId?: string;
+    }
+  ): Promise<WalletOperationResult> => {
+    return callWalletRpc('wallet_spend', {
+      p_amount: amount,
+      p_description: description,
+      p_app_name: options?.appName ?? null,
+      p_timestamp: options?.timestamp ?? null,
+      p_client_txn_id: options?.clientTxnId ?? null,
+      p_usage_seconds: options?.usageSeconds ?? null,
+      p_client_session_id: options?.sessionId ?? null,
+    });
+  },
+
+  /**
+   * Refund unused prepaid time to the current user
+   * The server refunds a prepaid session once, at most the unused share of its block by server time
+   */
+  refund: async (
+    amount: number,
+    description: string,
+    options?: {
+      appName?: string;
+      usageSeconds?: number;
+      sessionId?: string;
+      timestamp?: string;
+      clientTxnId?: string;
+    }
+  ): Promise<WalletOperationResult> => {
+    return callWalletRpc('wallet_refund', {
+      p_amount: amount,
+      p_description: description,
+      p_timestamp: options?.timestamp ?? null,
+      p_client_txn_id: options?.clientTxnId ?? null,
+      p_app_name: options?.appName ?? null,
+      p_usage_seconds: options?.usageSeconds ?? null,
+      p_client_session_id: options?.sessionId ?? null,
+    });
+  },
+
+  /**
+   * Grant the current user's allowance if a new period has started
+   * Returns the number of grants made (0 when already granted for this period)
+   */
+  claimAllowance: async (): Promise<number> => {
+    return callWalletRpc<number>('wallet_claim_allowance', {});
+  },
+
+  /**
+   * Reconcile an offline spend the server rejected for insufficient balance
+   * Charges the remaining balance and records the shortfall as a wallet exception
+   */
+  recordOverdraft: async (
+    amount: number,
+    description: string,
+    options?: {
+      appName?: string;
+      usageSeconds?: number;
+      sessionId?: string;
+      timestamp?: string;
+      clientTxnId?: string;
+      reason?: string;
+    }
+  ): Promise<OverdraftResult> => {
+    return callWalletRpc<OverdraftResult>('wallet_record_overdraft', {
+      p_amount: amount,
+      p_description: description,
+      p_app_name: options?.appName ?? null,
+      p_timestamp: options?.timestamp ?? null,
+      p_client_txn_id: options?.clientTxnId ?? null,
+      p_usage_seconds: options?.usageSeconds ?? null,
+      p_client_session_id: options?.sessionId ?? null,
+      ...(options?.reason ? { p_reason: options.reason } : {}),
+    });
+  },
+
+  /**
+   * Grant (positive amount) or deduct (negative amount) tokens for a linked child
+   * Recorded as an adjustment or penalty signed by the calling parent
+   */
+  adjustBalance: async (
+    childId: string,
+    amount: number,
+    reason: string
+  ): Promise<WalletOperationResult> => {
+    return callWalletRpc('wallet_adjust_balance', {
+      p_child_id: childId,
+      p_amount: amount,
+      p_reason: reason,
+    });
+  },
+
+  /**
+   * Start saving toward a reward from a linked parent's catalog
+   */
+  startGoal: async (rewardId: string): Promise<SavingsGoal> => {
+    return callWalletRpc<SavingsGoal>('start_savings_goal', { p_reward_id: rewardId });
+  },
+
+  /**
+   * Lock tokens from the current user's balance into a savings goal
+   */
+  depositToGoal: async (goalId: string, amount: number): Promise<GoalOperationResult> => {
+    return callWalletRpc<GoalOperationResult>('wallet_goal_deposit', {
+      p_goal_id: goalId,
+      p_amount: amount,
+    });
+  },
+
+  /**
+   * Return saved tokens from an active goal to the current user's balance
+   */
+  withdrawFromGoal: async (goalId: string, amount: number): Promise<GoalOperationResult> => {
+    return callWalletRpc<GoalOperationResult>('wallet_goal_withdraw', {
+      p_goal_id: goalId,
+      p_amount: amount,
+    });
+  },
+
+  /**
+   * Close an active goal and return everything saved in it
+   */
+  cancelGoal: async (goalId: string): Promise<GoalOperationResult> => {
+    return callWalletRpc<GoalOperationResult>('wallet_goal_withdraw', {
+      p_goal_id: goalId,
+      p_cancel: true,
+    });
+  },
+
+  /**
+   * Ask a parent to exchange a fully saved goal for its reward
+   */
+  requestRedemption: async (goalId: string): Promise<RewardRedemption> => {
+    return callWalletRpc<RewardRedemption>('request_reward_redemption', { p_goal_id: goalId });
+  },
+
+  /**
+   * Approve or reject a child's reward request (linked parent only)
+   * Approval spends the saved tokens; rejection reopens the goal
+   */
+  decideRedemption: async (redemptionId: string, approve: boolean, note?: string): Promise<RewardRedemption> => {
+    return callWalletRpc<RewardRedemption>('decide_reward_redemption', {
+      p_redemption_id: redemptionId,
+      p_approve: approve,
+      p_note: note ?? null,
+    });
+  },
+
+  /**
+   * Borrow tokens against the current user's future income, within their credit line
+   * The loan is repaid automatically out of the next allowance or quest earnings
+   */
+  borrow: async (amount: number): Promise<BorrowResult> => {
+    return callWalletRpc<BorrowResult>('wallet_borrow', { p_amount: amount });
+  },
+
+  /**
+   * List the family members the current user can send tokens to
+   */
+  getFamilyMembers: async (): Promise<FamilyMember[]> => {
+    const members = await callWalletRpc<FamilyMember[] | null>('get_family_members', {});
+    return members || [];
+  },
+
+  /**
+   * Send tokens to a sibling, parent or child in the same family
+   * Both ledger rows are written together; above the sender's approval threshold
+   * the transfer stays pending and no tokens move until a parent approves it
+   */
+  transfer: async (toUserId: string, amount: number, note?: string): Promise<TransferResult> => {
+    return callWalletRpc<TransferResult>('wallet_transfer', {
+      p_to_user_id: toUserId,
+      p_amount: amount,
+      p_note: note ?? null,
+    });
+  },
+
+  /**
+   * Approve or reject a child's pending transfer (parent linked to the sender only)
+   */
+  decideTransfer: async (transferId: string, approve: boolean): Promise<TokenTransfer> => {
+    return callWalletRpc<TokenTransfer>('decide_token_transfer', {
+      p_transfer_id: transferId,
+      p_approve: approve,
+    });
+  },
+
+  /**
+   * Record that the current user started an app session; safe to retry
+   * A prepaid session sends its block length, which is what the server later refunds against
+   */
+  openAppSession: async (session: UsageSession): Promise<AppSession> => {
+    return callWalletRpc<AppSession>('open_app_session', {
+      p_client_session_id: session.id,
+      p_app_name: session.appName,
+      p_category: session.category || null,
+      p_tokens_per_minute: session.tokensPerMinute,
+      p_started_at: new Date(session.startedAt).toISOString(),
+      p_classification: session.classification ?? 'entertainment',
+      p_prepaid_seconds: session.mode === 'prepaid' && session.prepaidMs ? Math.round(session.prepaidMs / 1000) : null,
+    });
+  },
+
+  /**
+   * Keep the current user's app session record open
+   */
+  heartbeatAppSession: async (clientSessionId: string, activeSeconds: number): Promise<AppSession> => {
+    return callWalletRpc<AppSession>('heartbeat_app_session', {
+      p_client_session_id: clientSessionId,
+      p_active_seconds: activeSeconds,
+    });
+  },
+
+  /**
+   * Close the current user's app session record with the reason it ended
+   */
+  closeAppSession: async (
+    clientSessionId: string,
+    endReason: UsageSessionStopReason,
+    activeSeconds: number
+  ): Promise<AppSession> => {
+    return callWalletRpc<AppSession>('close_app_session', {
+      p_client_session_id: clientSessionId,
+      p_end_reason: endReason,
+      p_active_seconds: activeSeconds,
+    });
+  },
+
+  /**
+   * Claim or renew the current user's session lease for this device
+   * Rejects with lock_not_available while another device holds a live lease, unless taking over
+   */
+  acquireSessionLease: async (
+    deviceId: string,
+    deviceLabel: string,
+    options?: { clientSessionId?: string; takeover?: boolean; leaseSeconds?: number }
+  ): Promise<SessionLease> => {
+    return callWalletRpc<SessionLease>('acquire_session_lease', {
+      p_device_id: deviceId,
+      p_device_label: deviceLabel,
+      p_client_session_id: options?.clientSessionId ?? null,
+      p_takeover: options?.takeover ?? false,
+      p_lease_seconds: options?.leaseSeconds ?? 120,
+    });
+  },
+
+  /**
+   * Give up the current user's session lease if this device still holds it
+   */
+  releaseSessionLease: async (deviceId: string): Promise<boolean> => {
+    return callWalletRpc<boolean>('release_session_lease', {
+      p_device_id: deviceId,
+    });
+  },
+
+  /**
+   * Read the database clock in epoch milliseconds
+   */
+  getServerTime: async (): Promise<number> => {
+    const serverTime = await callWalletRpc<string>('get_server_time', {});
+    const parsed = Date.parse(serverTime);
+
+    if (Number.isNaN(parsed)) {
+      throw new Error(`Invalid server time: ${serverTime}`);
+    }
+
+    return parsed;
+  },
+
+  /**
+   * Report a device clock problem to the current user's parents
+   */
+  reportClockEvent: async (
+    kind: ClockEventKind,
+    skewSeconds: number,
+    clientSessionId?: string
+  ): Promise<ClockEvent> => {
+    return callWalletRpc<ClockEvent>('report_clock_event', {
+      p_kind: kind,
+      p_skew_seconds: skewSeconds,
+      p_client_session_id: clientSessionId ?? null,
+    });
+  },
+};
+
+/**
+ * Real-time subscription helpers
+ */
+export const realtimeHelpers = {
+  /**
+   * Subscribe to profile changes
+   */
+  subscribeToProfile: (userId: string, callback: (profile: Profile) => void) => {
+    const client = getSupabaseClient();
+    
+    return client
+      .channel(`profile-${userId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: 'UPDATE',
+          schema: 'public',
+          table: 'profiles',
+          filter: `id=eq.${userId}`,
+        },
+        (payload) => {
+          callback(payload.new as Profile);
+        }
+      )
+      .subscribe();
+  },
+
+  /**
+   * Subscribe to changes of a child's session lease, e.g. another device taking it over
+   */
+  subscribeToSessionLease: (childId: string, callback: (lease: SessionLease) => void) => {
+    const client = getSupabaseClient();
+    
+    return client
+      .channel(`session-lease-${childId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: 'UPDATE',
+          schema: 'public',
+          table: 'session_leases',
+          filter: `child_id=eq.${childId}`,
+        },
+        (payload) => {
+          callback(payload.new as SessionLease);
+        }
+      )
+      .subscribe();
+  },
+
+  /**
+   * Subscribe to transaction changes
+   */
+  subscribeToTransactions: (userId: string, callback: (transaction: Transaction) => void) => {
+    const client = getSupabaseClient();
+    
+    return client
+      .channel(`transactions-${userId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: 'INSERT',
+          schema: 'public',
+          table: 'transactions',
+          filter: `user_id=eq.${userId}`,
+        },
+        (payload) => {
+          callback(payload.new as Transaction);
+        }
+      )
+      .subscribe();
+  },
+};
+
+/**
+ * Create user profile after signup
+ */
+const createUserProfile = async (userId: string, role: 'parent' | 'child'): Promise<Profile> => {
+  const client = getSupabaseClient();
+  
+  try {
+    const { data, error } = await client
+      .from('profiles')
+      .insert({
+        id: userId,
+        role,
+        balance: 0,
+        total_earned: 0,
+        total_spent: 0,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Create profile error:', error);
+      throw error;
+    }
+
+    return data;
+  } catch (error) {
+    console.error('Create profile failed:', error);
+    throw error;
+  }
+};
+
+/**
+ * Call a wallet RPC and return the created transaction with the updated profile
+ */
+const callWalletRpc = async <T = WalletOperationResult>(
+  functionName:
+    | 'wallet_complete_quest'
+    | 'wallet_earn_app_time'
+    | 'wallet_spend'
+    | 'wallet_refund'
+    | 'wallet_record_overdraft'
+    | 'wallet_claim_allowance'
+    | 'wallet_adjust_balance'
+    | 'start_savings_goal'
+    | 'wallet_goal_deposit'
+    | 'wallet_goal_withdraw'
+    | 'request_reward_redemption'
+    | 'decide_reward_redemption'
+    | 'wallet_borrow'
+    | 'get_family_members'
+    | 'wallet_transfer'
+    | 'decide_token_transfer'
+    | 'open_app_session'
+    | 'heartbeat_app_session'
+    | 'close_app_session'
+    | 'acquire_session_lease'
+    | 'release_session_lease'
+    | 'get_server_time'
+    | 'report_clock_event',
+  params: Record<string, unknown>
+): Promise<T> => {
+  const client = getSupabaseClient();
+
+  try {
+    const { data, error } = await client.rpc(functionName, params);
+
+    if (error) {
+      console.error(`${functionName} error:`, error);
+      throw error;
+    }
+
+    return data as T;
+  } catch (error) {
+    console.error(`${functionName} failed:`, error);
     throw error;
   }
 };
@@ -0,0 +1,43 @@
+/**
+ * Family token transfers for the Attention Wallet system
+ * Labels and approval rules for tokens sent between siblings, parents and children
+ */
+
+import { FamilyMember, Profile, TokenTransfer, TransferSettings } from './types';
+
+// Prefixes for family members; profiles have no display names yet
+const RELATION_LABELS: Record<FamilyMember['relation'], string> = {
+  parent: 'Parent',
+  child: 'Child',
+  sibling: 'Sibling',
+};
+
+/**
+ * Short name for a family member, e.g. "Sibling 1a2b3c4d"
+ */
+export const getFamilyMemberLabel = (member: FamilyMember): string =>
+  `${RELATION_LABELS[member.relation]} ${member.member_id.slice(0, 8)}`;
+
+/**
+ * Check whether a transfer will wait for a parent, mirroring wallet_transfer:
+ * only children's transfers above their approval threshold are held
+ */
+export const needsTransferApproval = (
+  amount: number,
+  senderRole: Profile['role'],
+  settings: Pick<TransferSettings, 'approval_threshold'> | null
+): boolean => senderRole === 'child' && !!settings && amount > settings.approval_threshold;
+
+/**
+ * Whether the user sent or received a transfer
+ */
+export const getTransferDirection = (transfer: TokenTransfer, userId: string): 'sent' | 'received' =>
+  transfer.from_user_id === userId ? 'sent' : 'received';
+
+/**
+ * Transfers the user sent that are still waiting for a parent, oldest first
+ */
+export const getPendingOutgoing = (transfers: TokenTransfer[], userId: string): TokenTransfer[] =>
+  transfers
+    .filter(transfer => transfer.status === 'pending' && transfer.from_user_id === userId)
+    .sort((a, b) => a.requested_at.localeCompare(b.requested_at));
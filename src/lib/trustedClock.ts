@@ -0,0 +1,186 @@
+/**
+ * Trusted clock for the Attention Wallet system
+ * Sessions are billed by elapsed time, so a child who sets the device clock back would play for
+ * free. Trusted time starts from the server clock (get_server_time) and advances on a monotonic
+ * timer that the device clock cannot move. Moving the device clock back is reported straight
+ * away; moving it forward, or waking from sleep, is checked against the server before the gap is
+ * billed. A device clock far from the server's is reported too.
+ */
+
+import { walletHelpers } from './supabase';
+import { ClockEventKind } from './types';
+
+// A device clock that falls this far behind the monotonic timer was set back
+export const CLOCK_SET_BACK_TOLERANCE_MS = 5000;
+
+// A device clock this far from the server's is reported; ordinary drift stays well inside it
+export const CLOCK_SKEW_TOLERANCE_MS = 2 * 60 * 1000;
+
+// How often a running session re-reads the server clock
+export const SERVER_TIME_SYNC_INTERVAL_MS = 5 * 60 * 1000;
+
+// Give up on a server time read after this long and keep the current anchor
+const SERVER_TIME_TIMEOUT_MS = 5000;
+
+export interface ClockTamperEvent {
+  kind: ClockEventKind;
+  skewMs: number; // Device clock minus trusted time; negative when the clock is behind
+}
+
+type ClockListener = (event: ClockTamperEvent) => void;
+
+export interface TrustedClockOptions {
+  wallClock?: () => number;
+  monotonic?: () => number;
+  fetchServerTime?: () => Promise<number>;
+}
+
+interface ClockAnchor {
+  trusted: number;
+  wall: number;
+  mono: number;
+}
+
+const defaultMonotonic = (): number =>
+  typeof performance !== 'undefined' && typeof performance.now === 'function' ? performance.now() : Date.now();
+
+export class TrustedClock {
+  private readonly wallClock: () => number;
+  private readonly monotonic: () => number;
+  private readonly fetchServerTime?: () => Promise<number>;
+  private anchor: ClockAnchor;
+  private lastIssued: number;
+  private synced = false;
+  private reportedSkewMs: number | null = null;
+  private syncing: Promise<boolean> | null = null;
+  private listeners = new Set<ClockListener>();
+
+  constructor(options: TrustedClockOptions = {}) {
+    this.wallClock = options.wallClock ?? Date.now;
+    this.monotonic = options.monotonic ?? defaultMonotonic;
+    this.fetchServerTime = options.fetchServerTime;
+
+    // Until the server answers the device clock is all there is
+    const wall = this.wallClock();
+    this.anchor = { trusted: wall, wall, mono: this.monotonic() };
+    this.lastIssued = wall;
+  }
+
+  /**
+   * Current trusted time in epoch milliseconds; never goes backwards
+   */
+  now(): number {
+    const wall = this.wallClock();
+    const mono = this.monotonic();
+    const monoElapsed = Math.max(0, mono - this.anchor.mono);
+    const drift = wall - this.anchor.wall - monoElapsed;
+
+    if (drift < -CLOCK_SET_BACK_TOLERANCE_MS) {
+      this.emit({ kind: 'clock_set_back', skewMs: drift });
+    } else if (drift > CLOCK_SET_BACK_TOLERANCE_MS) {
+      // Slept, or the clock moved forward: only the server can say which, so bill nothing extra until it does
+      this.sync().catch(() => undefined);
+    }
+
+    this.anchor = { trusted: this.anchor.trusted + monoElapsed, wall, mono };
+    this.lastIssued = Math.max(this.lastIssued, this.anchor.trusted);
+    return this.lastIssued;
+  }
+
+  /**
+   * Whether trusted time has been anchored to the server at least once
+   */
+  isSynced(): boolean {
+    return this.synced;
+  }
+
+  /**
+   * Re-anchor to the server clock, reporting a device clock far from it
+   * Resolves false when the server could not be reached; concurrent calls share one request
+   */
+  sync(): Promise<boolean> {
+    if (!this.fetchServerTime) return Promise.resolve(false);
+    if (this.syncing) return this.syncing;
+
+    this.syncing = this.readServerTime().finally(() => {
+      this.syncing = null;
+    });
+    return this.syncing;
+  }
+
+  /**
+   * Listen for clock tampering; returns an unsubscribe function
+   */
+  subscribe(listener: ClockListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private async readServerTime(): Promise<boolean> {
+    let timeout: ReturnType<typeof setTimeout> | undefined;
+
+    try {
+      const sentAt = this.monotonic();
+      const serverTime = await Promise.race([
+        this.fetchServerTime!(),
+        new Promise<never>((_, reject) => {
+          timeout = setTimeout(() => reject(new Error('Server time request timed out')), SERVER_TIME_TIMEOUT_MS);
+        }),
+      ]);
+      const receivedAt = this.monotonic();
+      const wall = this.wallClock();
+
+      // The server read its clock roughly halfway through the round trip
+      const trusted = serverTime + (receivedAt - sentAt) / 2;
+      this.anchor = { trusted, wall, mono: receivedAt };
+      this.synced = true;
+
+      const skewMs = wall - trusted;
+      if (Math.abs(skewMs) <= CLOCK_SKEW_TOLERANCE_MS) {
+        this.reportedSkewMs = null;
+      } else if (this.reportedSkewMs === null || Math.abs(skewMs - this.reportedSkewMs) > CLOCK_SKEW_TOLERANCE_MS) {
+        // Report a wrong clock once, and again only if it is moved further
+        this.reportedSkewMs = skewMs;
+        this.emit({ kind: 'clock_skew', skewMs });
+      }
+
+      return true;
+    } catch (error) {
+      console.error('Failed to read server time:', error);
+      return false;
+    } finally {
+      clearTimeout(timeout);
+    }
+  }
+
+  private emit(event: ClockTamperEvent): void {
+    this.listeners.forEach(listener => {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error('Clock listener failed:', error);
+      }
+    });
+  }
+}
+
+/**
+ * Message shown to parents for a reported clock event
+ */
+export const describeClockEvent = (kind: ClockEventKind, skewSeconds: number): string => {
+  const minutes = Math.max(1, Math.round(Math.abs(skewSeconds) / 60));
+  const amount = minutes >= 60
+    ? `${Math.floor(minutes / 60)}h${minutes % 60 ? ` ${minutes % 60}m` : ''}`
+    : `${minutes}m`;
+
+  if (kind === 'clock_set_back') {
+    return `Device clock was set back ${amount}`;
+  }
+  return `Device clock was ${amount} ${skewSeconds < 0 ? 'behind' : 'ahead of'} the real time`;
+};
+
+export const trustedClock = new TrustedClock({
+  fetchServerTime: () => walletHelpers.getServerTime(),
+});
@@ -13,15 +13,306 @@ export interface Profile {
   updated_at?: string;
 }
 
+// Profile columns clients may never write directly; balances only change via the wallet RPCs
+export type ProtectedProfileField = 'id' | 'role' | 'balance' | 'total_earned' | 'total_spent' | 'created_at' | 'updated_at';
+
+// Fields accepted by dbHelpers.updateProfile
+export type ProfileUpdate = Partial<Omit<Profile, ProtectedProfileField>>;
+
+// Ledger entry types
+// earn/allowance: income, spend: app usage, refund: gives back a spend,
+// adjustment/penalty: parent credit/debit that does not count toward the totals
+export type TransactionType =
+  | 'earn'
+  | 'spend'
+  | 'allowance'
+  | 'refund'
+  | 'adjustment'
+  | 'penalty'
+  | 'goal_deposit'
+  | 'goal_withdrawal'
+  | 'loan'
+  | 'loan_repayment'
+  | 'transfer_out'
+  | 'transfer_in';
+
+// Types the client can create offline; the others are only written server-side
+export type QueuedTransactionType = Extract<TransactionType, 'earn' | 'spend' | 'refund'>;
+
 export interface Transaction {
   id: string;
   user_id: string;
   amount: number;
-  type: 'earn' | 'spend';
+  type: TransactionType;
   description: string;
   proof_image_url?: string;
   app_name?: string;
   timestamp: string;
+  client_txn_id?: string;
+  created_by?: string | null; // Parent who made a manual adjustment or penalty
+  usage_seconds?: number | null; // App time a spend paid for, or an earning app paid out for
+  counterparty_id?: string | null; // Other family member on a transfer_out / transfer_in
+  session_id?: string | null; // App session a spend paid for, or an earn came from
+}
+
+// Result of a server-side wallet operation (wallet_spend / wallet_refund / wallet_complete_quest)
+export interface WalletOperationResult {
+  transaction: Transaction;
+  profile: Profile;
+  repayment?: Transaction | null; // Loan repayment taken out of income, if any was owed
+}
+
+// Result of wallet_earn_app_time; transaction is null when the session had nothing new to pay
+export interface AppTimeEarnResult extends Omit<WalletOperationResult, 'transaction'> {
+  transaction: Transaction | null;
+}
+
+// Offline spend the server could only partly apply, or charged past a daily spending cap (no
+// shortfall); shown to parents to review
+export interface WalletException {
+  id: string;
+  user_id: string;
+  client_txn_id?: string;
+  requested_amount: number;
+  charged_amount: number;
+  shortfall: number;
+  description: string;
+  app_name?: string;
+  reason: string;
+  occurred_at: string;
+  resolved_at?: string | null;
+  resolved_by?: string | null;
+  created_at?: string;
+}
+
+// Result of wallet_record_overdraft
+export interface OverdraftResult {
+  transaction: Transaction | null;
+  exception: WalletException | null;
+  profile: Profile;
+}
+
+// Result of moving tokens between the balance and a savings goal
+export interface GoalOperationResult {
+  transaction: Transaction | null; // null when cancelling an empty goal
+  profile: Profile;
+  goal: SavingsGoal;
+}
+
+// Result of borrowing tokens against future income
+export interface BorrowResult {
+  transaction: Transaction;
+  profile: Profile;
+  loan: Loan;
+}
+
+// Result of sending tokens to a family member; transaction is null while the transfer awaits approval
+export interface TransferResult {
+  transfer: TokenTransfer;
+  transaction: Transaction | null;
+  profile: Profile;
+}
+
+export type AllowanceCadence = 'daily' | 'weekly';
+
+// Recurring token allowance a parent configures for a child
+export interface Allowance {
+  id: string;
+  child_id: string;
+  amount: number;
+  cadence: AllowanceCadence;
+  day_of_week?: number | null; // 0 = Sunday, weekly only
+  time_of_day: string; // HH:MM[:SS] in the allowance timezone
+  timezone: string; // IANA name, e.g. America/New_York
+  is_active: boolean;
+  created_by?: string;
+  created_at?: string;
+  updated_at?: string;
+}
+
+// Apps are priced in the catalog (CatalogApp.tokens_per_minute), so pricing rules cover categories only
+export type AppPricingScope = 'category';
+
+// Per-family token rate for a whole category
+export interface AppPricingRule {
+  id: string;
+  parent_id: string;
+  scope: AppPricingScope;
+  target_name: string;
+  tokens_per_minute: number;
+  created_at?: string;
+  updated_at?: string;
+}
+
+// How an app's time is treated: entertainment costs tokens, free apps cost nothing and earning
+// apps (e.g. Duolingo) pay the child tokens while used
+export type AppClassification = 'entertainment' | 'free' | 'earning';
+
+// One app in a family's catalog, managed by a parent
+export interface CatalogApp {
+  id: string;
+  parent_id: string;
+  name: string;
+  icon?: string | null;
+  package_name?: string | null;
+  deep_link?: string | null;
+  web_url?: string | null;
+  category: string;
+  classification: AppClassification;
+  tokens_per_minute?: number | null; // Price, or earn rate for earning apps; null uses the default
+  daily_earn_limit?: number | null; // Earning apps only; null uses the default limit
+  timezone?: string; // The daily earn limit resets at midnight here
+  is_enabled: boolean;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export type ScheduleRuleAction = 'multiplier' | 'block';
+
+// Per-family time window that multiplies app rates or blocks entertainment entirely
+export interface ScheduleRule {
+  id: string;
+  parent_id: string;
+  name: string;
+  days_of_week: number[]; // Days the window starts on, 0 = Sunday
+  start_time: string; // HH:MM[:SS] in the rule timezone
+  end_time: string; // Before start_time when the window runs past midnight
+  action: ScheduleRuleAction;
+  multiplier?: number | null; // multiplier rules only
+  timezone: string; // IANA name, e.g. America/New_York
+  is_active: boolean;
+  created_at?: string;
+  updated_at?: string;
+}
+
+// Result of evaluating the family's schedule rules at one moment
+export interface ScheduleStatus {
+  blocked: boolean;
+  blockingRule: ScheduleRule | null;
+  multiplier: number;
+  activeRules: ScheduleRule[];
+}
+
+export type SpendingCapScope = 'total' | 'category';
+
+export type SpendingCapUnit = 'tokens' | 'minutes';
+
+export interface SpendingCap {
+  id: string;
+  child_id: string;
+  scope: SpendingCapScope;
+  category?: string | null; // Required when scope is 'category'
+  unit: SpendingCapUnit;
+  daily_limit: number;
+  timezone: string; // IANA name; the cap's day starts at local midnight
+  is_active: boolean;
+  created_by?: string | null;
+  created_at?: string;
+  updated_at?: string;
+}
+
+// Today's consumption against one cap
+export interface SpendingCapStatus {
+  cap: SpendingCap;
+  used: number; // In the cap's unit
+  remaining: number;
+  reached: boolean;
+}
+
+export interface Reward {
+  id: string;
+  parent_id: string;
+  name: string;
+  description?: string | null;
+  icon: string;
+  token_cost: number;
+  is_active: boolean;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export type SavingsGoalStatus = 'active' | 'requested' | 'redeemed' | 'cancelled';
+
+export interface SavingsGoal {
+  id: string;
+  child_id: string;
+  reward_id: string;
+  target_amount: number; // Reward cost when the goal was started
+  saved_amount: number;
+  status: SavingsGoalStatus;
+  created_at?: string;
+  updated_at?: string;
+  reward?: Reward;
+}
+
+export type RewardRedemptionStatus = 'pending' | 'approved' | 'rejected';
+
+export interface RewardRedemption {
+  id: string;
+  goal_id: string;
+  child_id: string;
+  reward_id: string;
+  token_cost: number;
+  status: RewardRedemptionStatus;
+  requested_at: string;
+  decided_at?: string | null;
+  decided_by?: string | null;
+  parent_note?: string | null;
+  reward?: Reward;
+}
+
+// Opt-in borrowing for one child, set by a parent
+export interface CreditLine {
+  id: string;
+  child_id: string;
+  credit_limit: number; // Most tokens the child may owe at once
+  is_active: boolean;
+  created_by?: string;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export interface Loan {
+  id: string;
+  child_id: string;
+  amount: number;
+  outstanding: number; // Still owed; repaid automatically out of allowance and quest earnings
+  transaction_id?: string | null;
+  borrowed_at: string;
+  repaid_at?: string | null;
+}
+
+// Optional rule: transfers this child sends above the threshold need a parent's approval
+export interface TransferSettings {
+  id: string;
+  child_id: string;
+  approval_threshold: number;
+  created_by?: string;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export type TokenTransferStatus = 'pending' | 'completed' | 'rejected';
+
+export interface TokenTransfer {
+  id: string;
+  from_user_id: string;
+  to_user_id: string;
+  amount: number;
+  note?: string | null;
+  status: TokenTransferStatus;
+  requested_at: string;
+  decided_at?: string | null;
+  decided_by?: string | null;
+  debit_transaction_id?: string | null;
+  credit_transaction_id?: string | null;
+}
+
+// Someone the signed-in user can send tokens to, from get_family_members()
+export interface FamilyMember {
+  member_id: string;
+  member_role: 'parent' | 'child';
+  relation: 'parent' | 'child' | 'sibling';
 }
 
 export interface QuestType {
@@ -34,11 +325,120 @@ export interface QuestType {
   created_by?: string;
 }
 
-export interface AppUsageSession {
+// Who checked the photo for a quest: the AI check, or a parent on the child's device
+export type QuestVerification = 'ai' | 'parent';
+
+export type UsageSessionStatus = 'running' | 'paused' | 'stopped';
+
+// Metered sessions are charged as they run; prepaid sessions buy a block of minutes up front
+export type UsageSessionMode = 'metered' | 'prepaid';
+
+// Why a session ended: the child stopped it, or the engine did ('time_up' when a prepaid block runs out,
+// 'taken_over' when the child started a session on another device)
+export type UsageSessionStopReason =
+  | 'user'
+  | 'insufficient_balance'
+  | 'schedule'
+  | 'cap'
+  | 'charge_failed'
+  | 'time_up'
+  | 'taken_over';
+
+// One app session billed by the session engine (lib/sessionEngine.ts) and persisted across restarts.
+// Times are epoch milliseconds; tokens accrue only while running.
+export interface UsageSession {
+  id: string;
   appName: string;
-  startTime: number;
-  isActive: boolean;
-  tokensSpent: number;
+  category: string;
+  classification?: AppClassification; // Missing on sessions persisted before app classes; treated as entertainment
+  tokensPerMinute: number; // Rate locked in at start, before schedule multipliers; earn rate for earning apps
+  mode?: UsageSessionMode; // Missing on sessions persisted before prepaid mode; treated as metered
+  prepaidMs?: number | null; // Running time bought up front in prepaid mode
+  status: UsageSessionStatus;
+  startedAt: number;
+  runningSince: number | null; // Start of the current running stretch; null while paused or stopped
+  activeMs: number; // Running time before runningSince
+  accruedTokens: number; // Fractional tokens owed so far, with multipliers applied
+  accruedAt: number; // Wall-clock time accruedTokens was last brought up to date
+  chargedTokens: number; // Whole tokens already billed; for earning apps, credited or past the daily earn limit
+  chargedMs: number; // Running time covered by chargedTokens, reported as usage_seconds
+  flushedAt?: number; // Wall-clock time owed tokens were last charged; startedAt if never
+  refundedTokens?: number; // Unused prepaid tokens given back when the session ended early
+  earnedTokens?: number; // Tokens an earning app credited to the wallet
+  pendingCharge?: UsageSessionPendingCharge | null; // Flush sent to the wallet but not yet counted in chargedTokens
+  stoppedAt?: number;
+  stopReason?: UsageSessionStopReason;
+}
+
+// A metered flush, saved before its spend is sent so a crash in between retries it under the
+// same client_txn_id instead of charging it twice
+export interface UsageSessionPendingCharge {
+  clientTxnId: string; // The session id and the chargedTokens the flush brings it to
+  amount: number;
+  usageSeconds: number;
+  description: string;
+  chargedMs: number; // Running time covered once the spend is recorded
+  flushedAt: number;
+}
+
+// The device currently allowed to run a child's app sessions (session_leases table)
+export interface SessionLease {
+  child_id: string;
+  device_id: string;
+  device_label?: string | null;
+  client_session_id?: string | null; // UsageSession.id the holder is running
+  acquired_at: string;
+  expires_at: string; // Renewed by the holder's heartbeats; anyone can take a lapsed lease
+}
+
+// A device clock problem reported to parents (clock_events table)
+export type ClockEventKind = 'clock_set_back' | 'clock_skew';
+
+export interface ClockEvent {
+  id: string;
+  child_id: string;
+  kind: ClockEventKind;
+  skew_seconds: number; // Device clock minus trusted time; negative when the clock is behind
+  session_id?: string | null; // App session running when it was noticed
+  detected_at: string;
+}
+
+// The child's choice of warnings before a session runs out, kept on the device
+export interface SessionWarningSettings {
+  enabled: boolean;
+  thresholdMinutes: number[]; // Minutes left at which to warn, largest first
+  notify: boolean; // Also send a notification, for when the child is in the launched app
+}
+
+// How a web session behaves when the child stops using the app window, kept on the device
+export interface WebIdleSettings {
+  pauseWhenAway: boolean; // Pause while the app window is in the background
+  stillWatchingMinutes: number; // Ask "Still watching?" after this many running minutes; 0 never asks
+}
+
+// Why a web session was paused for the child: away from the app window, or no answer to the prompt
+export type WebIdlePauseReason = 'away' | 'no_answer';
+
+// Why a server-side session record ended; 'stale' when its heartbeats stopped
+export type AppSessionEndReason = UsageSessionStopReason | 'stale';
+
+// Server-side record of one app session (app_sessions table), kept open by heartbeats
+export interface AppSession {
+  id: string;
+  child_id: string;
+  client_session_id: string; // UsageSession.id of the session engine that ran it
+  app_name: string;
+  category?: string | null;
+  classification?: AppClassification;
+  tokens_per_minute: number; // Price, or earn rate for earning apps
+  started_at: string;
+  last_heartbeat_at: string;
+  ended_at?: string | null;
+  active_seconds: number; // Running time excluding pauses
+  tokens_charged: number;
+  tokens_earned?: number; // Credited by an earning app
+  tokens_forfeited?: number; // Earned past the daily earn limit and never paid
+  end_reason?: AppSessionEndReason | null;
 }
 
 // Additional interfaces for context providers
@@ -48,9 +448,37 @@ export interface WalletContextType {
   totalSpent: number;
   transactions: Transaction[];
   isLoading: boolean;
-  earnTokens: (amount: number, description: string, proofUrl?: string) => Promise<void>;
-  spendTokens: (amount: number, description: string, appName?: string) => Promise<void>;
-  refundTokens: (amount: number, description: string) => Promise<void>;
+  isLoaded: boolean; // The signed-in profile's balance has been loaded; balance reads 0 until then
+  // Earnings go through paths where the server decides the amount: the quest's own reward,
+  // and a Learn & Earn session's rate for its running time
+  completeQuest: (
+    quest: Pick<QuestType, 'id' | 'name' | 'token_reward'>,
+    proofUrl: string,
+    verifiedBy: QuestVerification
+  ) => Promise<void>;
+  earnAppTime: (
+    amount: number, // Tokens the session expects, shown until the server says what it paid
+    description: string,
+    appName: string,
+    usageSeconds: number,
+    sessionId: string,
+    activeSeconds: number // Running time of the whole session so far
+  ) => Promise<void>;
+  spendTokens: (
+    amount: number,
+    description: string,
+    appName?: string,
+    usageSeconds?: number,
+    sessionId?: string, // UsageSession.id, linking the spend to its app session record
+    clientTxnId?: string // A spend already recorded under this id counts as charged rather than failing
+  ) => Promise<void>;
+  refundTokens: (
+    amount: number, // The server gives back at most the unused share of the session's prepaid block
+    description: string,
+    appName?: string,
+    usageSeconds?: number, // Unused app time being refunded, given back to minute caps
+    sessionId?: string // Required by the server: only a prepaid session's own block can be refunded
+  ) => Promise<number>; // Resolves the tokens given back
   refreshBalance: () => Promise<void>;
   // Offline queue status
   offlineStatus: {
@@ -58,8 +486,11 @@ export interface WalletContextType {
     unsyncedCount: number;
     isOnline: boolean;
     isSyncing: boolean;
+    // Offline transactions the server could not apply, with the reason
+    rejectedTransactions: DeadLetterTransaction[];
   };
-  syncOfflineTransactions: () => Promise<{ success: number; failed: number }>;
+  syncOfflineTransactions: () => Promise<SyncResult>;
+  dismissRejectedTransaction: (transactionId: string) => Promise<void>;
 }
 
 export interface AuthContextType {
@@ -91,16 +522,43 @@ export interface AppConfig {
   webUrl?: string;
   icon?: string;
   category: string;
+  classification?: AppClassification; // Missing means entertainment
+  tokensPerMinute?: number; // Price from the family's app catalog; tokens earned per minute for earning apps
+  dailyEarnLimit?: number; // Most tokens an earning app pays out per day
+  timezone?: string; // Where an earning app's day starts; UTC when missing
 }
 
 // Offline queue interfaces
 export interface QueuedTransaction {
   id: string;
-  type: 'earn' | 'spend';
+  type: QueuedTransactionType;
   amount: number;
   description: string;
   timestamp: string;
   proofImageUrl?: string;
   appName?: string;
+  usageSeconds?: number;
+  sessionId?: string;
+  // An earn is either a quest completion or Learn & Earn time; the server works out the amount
+  questTypeId?: string;
+  verifiedBy?: QuestVerification;
+  activeSeconds?: number;
   synced: boolean;
+}
+
+// Queued transaction the server refused to apply; kept so the child can see what happened
+export interface DeadLetterTransaction extends QueuedTransaction {
+  reason: string;
+  rejectedAt: string;
+  chargedAmount?: number;
+  shortfall?: number;
+  exceptionId?: string;
+}
+
+// Outcome of replaying the offline queue
+export interface SyncResult {
+  success: number;
+  failed: number;
+  // Permanently rejected by the server and moved to the dead-letter list
+  rejected: number;
 }
\ No newline at end of file
@@ -2,6 +2,42 @@
  * Utility functions for the Attention Wallet system
  */
 
+import { TransactionType } from './types';
+
+// Transaction types that add tokens to the balance; the rest remove them
+const CREDIT_TRANSACTION_TYPES: readonly TransactionType[] = [
+  'earn',
+  'allowance',
+  'refund',
+  'adjustment',
+  'goal_withdrawal',
+  'loan',
+  'transfer_in',
+];
+
+// Short labels for transaction lists
+export const TRANSACTION_TYPE_LABELS: Record<TransactionType, string> = {
+  earn: 'earned',
+  spend: 'spent',
+  allowance: 'allowance',
+  refund: 'refunded',
+  adjustment: 'adjusted',
+  penalty: 'penalty',
+  goal_deposit: 'saved',
+  goal_withdrawal: 'unsaved',
+  loan: 'borrowed',
+  loan_repayment: 'repaid',
+  transfer_out: 'sent',
+  transfer_in: 'received',
+};
+
+/**
+ * Check whether a transaction type adds tokens to the balance
+ */
+export const isCreditTransaction = (type: TransactionType): boolean => {
+  return CREDIT_TRANSACTION_TYPES.includes(type);
+};
+
 /**
  * Format timestamp to readable string
  */
@@ -0,0 +1,87 @@
+/**
+ * Idle handling for web sessions in the Attention Wallet system
+ * On web an app runs in a window managed by lib/windowManager.ts. A child can leave it playing in
+ * the background, so a session can pause while its window is out of focus and ask "Still
+ * watching?" after a while, pausing if nobody answers. Both are settings kept on the device.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { UsageSessionStatus, WebIdlePauseReason, WebIdleSettings } from './types';
+import { safeJsonParse } from './utils';
+import { WindowEventType } from './windowManager';
+
+const SETTINGS_KEY = '@attention_wallet:web_idle';
+
+const MINUTE_MS = 60000;
+
+// How long the child has to answer "Still watching?" before the session pauses
+export const STILL_WATCHING_GRACE_SECONDS = 60;
+
+// Choices offered in SettingsScreen; 0 turns the prompt off
+export const STILL_WATCHING_OPTIONS = [0, 15, 30, 60];
+
+export const DEFAULT_WEB_IDLE_SETTINGS: WebIdleSettings = {
+  pauseWhenAway: true,
+  stillWatchingMinutes: 30,
+};
+
+/**
+ * What a window event means for the session: pause when the child leaves the app window, and
+ * resume on their return only if leaving it was what paused the session
+ */
+export const getWindowIdleAction = (
+  eventType: WindowEventType,
+  settings: WebIdleSettings,
+  status: UsageSessionStatus | undefined,
+  pauseReason: WebIdlePauseReason | null
+): 'pause' | 'resume' | null => {
+  if (eventType === 'blurred') {
+    return settings.pauseWhenAway && status === 'running' ? 'pause' : null;
+  }
+  if (eventType === 'focused') {
+    return status === 'paused' && pauseReason === 'away' ? 'resume' : null;
+  }
+  return null;
+};
+
+/**
+ * Whether to ask "Still watching?", counting from the child's last sign of being there
+ */
+export const isStillWatchingDue = (confirmedAt: number, now: number, stillWatchingMinutes: number): boolean =>
+  stillWatchingMinutes > 0 && now - confirmedAt >= stillWatchingMinutes * MINUTE_MS;
+
+/**
+ * Note shown on the timer while the session is paused for the child
+ */
+export const describeIdlePause = (reason: WebIdlePauseReason, appName: string): string =>
+  reason === 'away'
+    ? `Paused while ${appName} is in the background. It resumes when you go back.`
+    : `Paused because nobody answered "Still watching?". Resume when you are back.`;
+
+export const webIdleSettingsHelpers = {
+  /**
+   * Get the saved idle settings, or the defaults
+   */
+  load: async (): Promise<WebIdleSettings> => {
+    try {
+      const stored = await AsyncStorage.getItem(SETTINGS_KEY);
+      const saved = stored ? safeJsonParse<Partial<WebIdleSettings>>(stored, {}) : {};
+      return { ...DEFAULT_WEB_IDLE_SETTINGS, ...saved };
+    } catch (error) {
+      console.error('Failed to load web idle settings:', error);
+      return DEFAULT_WEB_IDLE_SETTINGS;
+    }
+  },
+
+  /**
+   * Save idle settings on this device
+   */
+  save: async (settings: WebIdleSettings): Promise<void> => {
+    try {
+      await AsyncStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+    } catch (error) {
+      console.error('Failed to save web idle settings:', error);
+      throw error;
+    }
+  },
+};
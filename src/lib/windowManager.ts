@@ -1,9 +1,33 @@
 /**
  * Window Manager for Browser-based App Control
- * Handles automatic window closing and detection of user-closed windows
+ * Opens each app in its own managed window and reports what happens to it as events: opened,
+ * focused, blurred, closed by the user, closed by the system (this app) or blocked by the popup
+ * blocker. Listeners subscribe to one window, so apps open at the same time each hear only
+ * about their own window. Sites can also be blocked: managed windows showing them are closed,
+ * and a connected companion extension (lib/browserExtension.ts) blocks them in any tab.
  */
 
+import { getDomain, isDomainOf } from './extensionProtocol';
+
+export type WindowEventType =
+  | 'opened'
+  | 'focused'
+  | 'blurred'
+  | 'closed_by_user'
+  | 'closed_by_system'
+  | 'blocked';
+
+export interface WindowEvent {
+  type: WindowEventType;
+  windowId: string;
+  appName: string;
+  at: number;
+}
+
+export type WindowEventListener = (event: WindowEvent) => void;
+
 export interface ManagedWindow {
+  id: string;
   window: Window | null;
   appName: string;
   url: string;
@@ -11,205 +35,404 @@ export interface ManagedWindow {
   isActive: boolean;
 }
 
-class WindowManager {
+export interface OpenWindowOptions {
+  windowId?: string; // Defaults to a new id; AppLauncher uses the session id
+  onEvent?: WindowEventListener; // Subscribed before opening, so it hears 'blocked' too
+}
+
+// The parts of the browser window the manager uses; tests pass a fake
+export interface WindowHost {
+  open: (url: string, target: string, features: string) => Window | null;
+  addEventListener: (type: 'focus' | 'blur', listener: () => void) => void;
+  removeEventListener: (type: 'focus' | 'blur', listener: () => void) => void;
+}
+
+// Blocks sites in every tab; implemented by ExtensionBridge
+export interface DomainBlocker {
+  isConnected: () => boolean;
+  setBlockedDomains: (domains: string[]) => void;
+}
+
+// How often windows are checked for being closed; browsers send no event for another window closing
+const CHECK_INTERVAL_MS = 1000;
+
+const WINDOW_FEATURES = [
+  'width=1200',
+  'height=800',
+  'left=100',
+  'top=100',
+  'toolbar=yes',
+  'location=yes',
+  'directories=no',
+  'status=yes',
+  'menubar=yes',
+  'scrollbars=yes',
+  'copyhistory=no',
+  'resizable=yes'
+].join(',');
+
+let windowCounter = 0;
+
+export class WindowManager {
   private managedWindows: Map<string, ManagedWindow> = new Map();
-  private checkInterval: NodeJS.Timeout | null = null;
-  private onWindowClosed?: (appName: string) => void;
+  private windowListeners: Map<string, Set<WindowEventListener>> = new Map();
+  private listeners: Set<WindowEventListener> = new Set();
+  private checkInterval: ReturnType<typeof setInterval> | null = null;
+  private focusedWindowId: string | null = null;
+  private lastFocusedWindowId: string | null = null;
+  private host: WindowHost | null;
+  private domainBlocker: DomainBlocker | null = null;
+  private blockedDomains: string[] = [];
 
-  constructor() {
-    this.startWindowMonitoring();
+  constructor(host?: WindowHost) {
+    this.host = host ?? (typeof window !== 'undefined' && typeof window.open === 'function' ? window : null);
   }
 
   /**
    * Open a new managed window for an app
+   * Resolves with the window id, or null when the window could not be opened
    */
-  openWindow(appName: string, url: string, onClosed?: (appName: string) => void): Promise<boolean> {
+  openWindow(appName: string, url: string, options: OpenWindowOptions = {}): Promise<string | null> {
     return new Promise((resolve) => {
-      try {
-        // Close any existing window for this app
-        this.closeWindow(appName);
+      const windowId = options.windowId ?? `window_${Date.now()}_${++windowCounter}`;
+      if (options.onEvent) {
+        this.subscribe(windowId, options.onEvent);
+      }
 
-        // Set the callback for when window is closed
-        if (onClosed) {
-          this.onWindowClosed = onClosed;
+      try {
+        if (!this.host) {
+          throw new Error('No browser window available');
         }
 
-        // Open new window with specific features for better control
-        const windowFeatures = [
-          'width=1200',
-          'height=800',
-          'left=100',
-          'top=100',
-          'toolbar=yes',
-          'location=yes',
-          'directories=no',
-          'status=yes',
-          'menubar=yes',
-          'scrollbars=yes',
-          'copyhistory=no',
-          'resizable=yes'
-        ].join(',');
-
-        const newWindow = window.open(url, `aether_${appName}`, windowFeatures);
+        // Close any existing window for this app
+        this.getWindowIdsForApp(appName).forEach(id => this.closeWindow(id));
+
+        const newWindow = this.host.open(url, `aether_${appName}`, WINDOW_FEATURES);
 
         if (newWindow) {
-          const managedWindow: ManagedWindow = {
+          // Keep our handle but stop the opened page reaching back into this one
+          try {
+            newWindow.opener = null;
+          } catch {
+            // Some browsers do not allow this; the page is cross-origin anyway
+          }
+
+          this.managedWindows.set(windowId, {
+            id: windowId,
             window: newWindow,
             appName,
             url,
             startTime: Date.now(),
             isActive: true
-          };
-
-          this.managedWindows.set(appName, managedWindow);
+          });
+          this.startWindowMonitoring();
+          this.emit(windowId, 'opened');
 
           // Focus the new window
           newWindow.focus();
+          this.setFocused(windowId);
 
           console.log(`Opened managed window for ${appName}: ${url}`);
-          resolve(true);
+          resolve(windowId);
         } else {
           console.error(`Failed to open window for ${appName} - popup blocked?`);
-          resolve(false);
+          this.emit(windowId, 'blocked', appName);
+          this.windowListeners.delete(windowId);
+          resolve(null);
         }
       } catch (error) {
         console.error(`Error opening window for ${appName}:`, error);
-        resolve(false);
+        this.windowListeners.delete(windowId);
+        resolve(null);
       }
     });
   }
 
   /**
-   * Close a specific app's window
+   * Close a window this app opened; reported as closed by the system
    */
-  closeWindow(appName: string): boolean {
-    const managedWindow = this.managedWindows.get(appName);
-    
-    if (managedWindow && managedWindow.window && !managedWindow.window.closed) {
+  closeWindow(windowId: string): boolean {
+    const managedWindow = this.managedWindows.get(windowId);
+    if (!managedWindow) return false;
+
+    let closed = false;
+    if (managedWindow.window && !managedWindow.window.closed) {
       try {
         managedWindow.window.close();
-        managedWindow.isActive = false;
-        console.log(`Closed window for ${appName}`);
-        return true;
+        closed = true;
+        console.log(`Closed window for ${managedWindow.appName}`);
       } catch (error) {
-        console.error(`Error closing window for ${appName}:`, error);
+        console.error(`Error closing window for ${managedWindow.appName}:`, error);
       }
     }
 
-    // Remove from managed windows
-    this.managedWindows.delete(appName);
-    return false;
+    this.finishWindow(managedWindow, 'closed_by_system');
+    return closed;
   }
 
   /**
    * Close all managed windows
    */
   closeAllWindows(): void {
-    for (const [appName] of this.managedWindows) {
-      this.closeWindow(appName);
+    for (const [windowId] of this.managedWindows) {
+      this.closeWindow(windowId);
     }
   }
 
   /**
    * Check if a window is still open
    */
-  isWindowOpen(appName: string): boolean {
-    const managedWindow = this.managedWindows.get(appName);
+  isWindowOpen(windowId: string): boolean {
+    const managedWindow = this.managedWindows.get(windowId);
     return managedWindow?.window ? !managedWindow.window.closed : false;
   }
 
   /**
-   * Get all active windows
+   * Get the ids of all open windows
    */
   getActiveWindows(): string[] {
     const activeWindows: string[] = [];
-    
-    for (const [appName, managedWindow] of this.managedWindows) {
+
+    for (const [windowId, managedWindow] of this.managedWindows) {
       if (managedWindow.window && !managedWindow.window.closed) {
-        activeWindows.push(appName);
+        activeWindows.push(windowId);
       }
     }
-    
+
     return activeWindows;
   }
 
   /**
-   * Start monitoring windows for closure detection
+   * Get window information
    */
-  private startWindowMonitoring(): void {
-    if (this.checkInterval) {
-      clearInterval(this.checkInterval);
+  getWindowInfo(windowId: string): ManagedWindow | undefined {
+    return this.managedWindows.get(windowId);
+  }
+
+  /**
+   * Focus a specific window
+   */
+  focusWindow(windowId: string): boolean {
+    const managedWindow = this.managedWindows.get(windowId);
+
+    if (managedWindow && managedWindow.window && !managedWindow.window.closed) {
+      try {
+        managedWindow.window.focus();
+        this.setFocused(windowId);
+        return true;
+      } catch (error) {
+        console.error(`Error focusing window for ${managedWindow.appName}:`, error);
+      }
     }
 
-    this.checkInterval = setInterval(() => {
-      this.checkWindowStatus();
-    }, 1000); // Check every second
+    return false;
   }
 
   /**
-   * Check status of all managed windows
+   * Listen for one window's events; listeners are dropped once it closes
+   * Returns an unsubscribe function
    */
-  private checkWindowStatus(): void {
-    for (const [appName, managedWindow] of this.managedWindows) {
-      if (managedWindow.window && managedWindow.window.closed && managedWindow.isActive) {
-        // Window was closed by user
-        console.log(`Detected that ${appName} window was closed by user`);
-        managedWindow.isActive = false;
-        
-        // Notify callback
-        if (this.onWindowClosed) {
-          this.onWindowClosed(appName);
-        }
-        
-        // Remove from managed windows
-        this.managedWindows.delete(appName);
+  subscribe(windowId: string, listener: WindowEventListener): () => void {
+    const listeners = this.windowListeners.get(windowId) ?? new Set();
+    listeners.add(listener);
+    this.windowListeners.set(windowId, listeners);
+
+    return () => {
+      listeners.delete(listener);
+      if (listeners.size === 0 && this.windowListeners.get(windowId) === listeners) {
+        this.windowListeners.delete(windowId);
       }
-    }
+    };
   }
 
   /**
-   * Set callback for when windows are closed
+   * Listen for every window's events; returns an unsubscribe function
    */
-  setOnWindowClosed(callback: (appName: string) => void): void {
-    this.onWindowClosed = callback;
+  subscribeAll(listener: WindowEventListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
   }
 
   /**
-   * Get window information
+   * Use an extension to block sites outside the windows opened here
+   * The current blocklist is passed on straight away; returns a function to detach it
    */
-  getWindowInfo(appName: string): ManagedWindow | undefined {
-    return this.managedWindows.get(appName);
+  attachDomainBlocker(blocker: DomainBlocker): () => void {
+    this.domainBlocker = blocker;
+    blocker.setBlockedDomains(this.blockedDomains);
+
+    return () => {
+      if (this.domainBlocker === blocker) this.domainBlocker = null;
+    };
   }
 
   /**
-   * Focus a specific window
+   * Block sites: close managed windows showing them and have the extension block them everywhere
+   * Returns whether an extension is enforcing it; without one only managed windows are closed
    */
-  focusWindow(appName: string): boolean {
-    const managedWindow = this.managedWindows.get(appName);
-    
-    if (managedWindow && managedWindow.window && !managedWindow.window.closed) {
-      try {
-        managedWindow.window.focus();
-        return true;
-      } catch (error) {
-        console.error(`Error focusing window for ${appName}:`, error);
+  blockDomains(domains: string[]): boolean {
+    this.blockedDomains = [...domains];
+
+    for (const [windowId, managedWindow] of this.managedWindows) {
+      const domain = getDomain(managedWindow.url);
+      if (domain && domains.some(blocked => isDomainOf(domain, blocked))) {
+        this.closeWindow(windowId);
       }
     }
-    
-    return false;
+
+    this.domainBlocker?.setBlockedDomains(this.blockedDomains);
+    return this.domainBlocker?.isConnected() ?? false;
+  }
+
+  /**
+   * Lift every block
+   */
+  unblockDomains(): void {
+    if (this.blockedDomains.length === 0) return;
+
+    this.blockedDomains = [];
+    this.domainBlocker?.setBlockedDomains([]);
+  }
+
+  /**
+   * Sites currently blocked
+   */
+  getBlockedDomains(): string[] {
+    return [...this.blockedDomains];
   }
 
   /**
    * Cleanup - close all windows and stop monitoring
    */
   cleanup(): void {
+    this.closeAllWindows();
+    this.stopWindowMonitoring();
+    this.managedWindows.clear();
+    this.windowListeners.clear();
+  }
+
+  /**
+   * Check status of all managed windows
+   */
+  checkWindowStatus(): void {
+    for (const [, managedWindow] of this.managedWindows) {
+      if (managedWindow.window && managedWindow.window.closed && managedWindow.isActive) {
+        console.log(`Detected that ${managedWindow.appName} window was closed by user`);
+        this.finishWindow(managedWindow, 'closed_by_user');
+      }
+    }
+  }
+
+  /**
+   * Poll for closed windows and watch this window's focus while any window is open
+   * Another origin's window cannot be watched directly: this window losing focus is taken to
+   * mean the last focused app window gained it, and getting it back means that window lost it.
+   */
+  private startWindowMonitoring(): void {
+    if (this.checkInterval) return;
+
+    this.checkInterval = setInterval(() => {
+      this.checkWindowStatus();
+    }, CHECK_INTERVAL_MS);
+
+    this.host?.addEventListener('focus', this.handleHostFocus);
+    this.host?.addEventListener('blur', this.handleHostBlur);
+  }
+
+  /**
+   * Stop polling and watching focus once no windows are left
+   */
+  private stopWindowMonitoring(): void {
     if (this.checkInterval) {
       clearInterval(this.checkInterval);
       this.checkInterval = null;
     }
-    
-    this.closeAllWindows();
-    this.managedWindows.clear();
+
+    this.host?.removeEventListener('focus', this.handleHostFocus);
+    this.host?.removeEventListener('blur', this.handleHostBlur);
+  }
+
+  /**
+   * The child came back to this window, so the app window they were in lost focus
+   */
+  private handleHostFocus = (): void => {
+    if (this.focusedWindowId) {
+      const windowId = this.focusedWindowId;
+      this.focusedWindowId = null;
+      this.emit(windowId, 'blurred');
+    }
+  };
+
+  /**
+   * The child left this window, most likely for the app window they were last in
+   */
+  private handleHostBlur = (): void => {
+    if (!this.focusedWindowId && this.lastFocusedWindowId && this.isWindowOpen(this.lastFocusedWindowId)) {
+      this.setFocused(this.lastFocusedWindowId);
+    }
+  };
+
+  /**
+   * Move focus to a window, blurring the one that had it
+   */
+  private setFocused(windowId: string): void {
+    if (this.focusedWindowId === windowId) return;
+
+    if (this.focusedWindowId) {
+      this.emit(this.focusedWindowId, 'blurred');
+    }
+    this.focusedWindowId = windowId;
+    this.lastFocusedWindowId = windowId;
+    this.emit(windowId, 'focused');
+  }
+
+  /**
+   * Report a window's close, forget it and drop its listeners
+   */
+  private finishWindow(managedWindow: ManagedWindow, type: 'closed_by_user' | 'closed_by_system'): void {
+    managedWindow.isActive = false;
+    this.managedWindows.delete(managedWindow.id);
+
+    if (this.focusedWindowId === managedWindow.id) this.focusedWindowId = null;
+    if (this.lastFocusedWindowId === managedWindow.id) this.lastFocusedWindowId = null;
+
+    this.emit(managedWindow.id, type, managedWindow.appName);
+    this.windowListeners.delete(managedWindow.id);
+
+    if (this.managedWindows.size === 0) {
+      this.stopWindowMonitoring();
+    }
+  }
+
+  /**
+   * Ids of the open windows showing an app
+   */
+  private getWindowIdsForApp(appName: string): string[] {
+    return Array.from(this.managedWindows.values())
+      .filter(managedWindow => managedWindow.appName === appName)
+      .map(managedWindow => managedWindow.id);
+  }
+
+  /**
+   * Send an event to the window's listeners, then to those listening to every window
+   */
+  private emit(windowId: string, type: WindowEventType, appName?: string): void {
+    const event: WindowEvent = {
+      type,
+      windowId,
+      appName: appName ?? this.managedWindows.get(windowId)?.appName ?? '',
+      at: Date.now(),
+    };
+
+    [...(this.windowListeners.get(windowId) ?? []), ...this.listeners].forEach(listener => {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error(`Window ${type} listener failed:`, error);
+      }
+    });
   }
 }
 
@@ -217,8 +440,8 @@ class WindowManager {
 export const windowManager = new WindowManager();
 
 // Cleanup on page unload
-if (typeof window !== 'undefined') {
+if (typeof window !== 'undefined' && typeof window.addEventListener === 'function') {
   window.addEventListener('beforeunload', () => {
     windowManager.cleanup();
   });
-}
\ No newline at end of file
+}
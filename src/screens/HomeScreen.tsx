@@ -85,6 +85,10 @@ export const HomeScreen = ({
     navigation.navigate('Quest');
   };
 
+  const handleOutOfTokens = () => {
+    navigation.navigate('Lock');
+  };
+
   const handleNavigateToQuests = () => {
     navigation.navigate('Quest');
   };
@@ -194,9 +198,9 @@ export const HomeScreen = ({
             <div style={{ marginTop: '16px' }}>
               <AppLauncher
                 minTokensRequired={5}
-                tokensPerMinute={5}
                 onAppLaunch={handleAppLaunch}
                 onInsufficientBalance={handleInsufficientBalance}
+                onOutOfTokens={handleOutOfTokens}
                 style={styles.appLauncher}
               />
             </div>
@@ -225,9 +229,9 @@ export const HomeScreen = ({
             <View style={styles.launcherSection}>
               <AppLauncher
                 minTokensRequired={5}
-                tokensPerMinute={5}
                 onAppLaunch={handleAppLaunch}
                 onInsufficientBalance={handleInsufficientBalance}
+                onOutOfTokens={handleOutOfTokens}
                 style={styles.appLauncher}
               />
             </View>
@@ -10,12 +10,17 @@ import {
   Animated,
   StatusBar,
   BackHandler,
+  Alert,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { useAuth } from '../context/AuthContext';
 import { useWallet } from '../context/WalletContext';
 import { QuestType } from '../lib/types';
 import { dbHelpers } from '../lib/supabase';
+import { describeScheduleBlock, formatRuleTime } from '../lib/schedule';
+import { getBorrowOptions } from '../lib/credit';
+import useScheduleRules from '../hooks/useScheduleRules';
+import useCredit from '../hooks/useCredit';
 import { RealTimeClock } from '../components/RealTimeClock';
 
 const { width: screenWidth, height: screenHeight } = Dimensions.get('window');
@@ -71,11 +76,14 @@ export const LockScreen = ({
 }: LockScreenProps) => {
   const { hasRole, profile } = useAuth();
   const { balance, refreshBalance } = useWallet();
+  const { status: scheduleStatus } = useScheduleRules();
+  const { debt, availableCredit, borrow } = useCredit();
   
   // Component state
   const [currentMessage, setCurrentMessage] = useState(ENCOURAGING_MESSAGES[0]);
   const [suggestedQuests, setSuggestedQuests] = useState<QuestType[]>([]);
   const [timeSpentLocked, setTimeSpentLocked] = useState(0);
+  const [isBorrowing, setIsBorrowing] = useState(false);
   
   // Animation values
   const fadeAnim = useRef(new Animated.Value(0)).current;
@@ -169,6 +177,33 @@ export const LockScreen = ({
     }
   };
 
+  /**
+   * Borrow tokens after the child confirms how they will be repaid
+   */
+  const handleBorrow = (amount: number) => {
+    Alert.alert(
+      'Borrow Tokens',
+      `Borrow ${amount} tokens now? They will be paid back automatically from your next allowance or quest rewards.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Borrow',
+          onPress: async () => {
+            try {
+              setIsBorrowing(true);
+              await borrow(amount);
+            } catch (error) {
+              console.error('Failed to borrow tokens:', error);
+              Alert.alert('Could not borrow', error instanceof Error ? error.message : 'Please try again.');
+            } finally {
+              setIsBorrowing(false);
+            }
+          },
+        },
+      ]
+    );
+  };
+
   const startAnimations = () => {
     // Fade in animation
     Animated.timing(fadeAnim, {
@@ -239,6 +274,18 @@ export const LockScreen = ({
     return `${mins}:${secs.toString().padStart(2, '0')}`;
   };
 
+  // A curfew locks the screen regardless of balance, so explain that instead of asking for tokens
+  const curfewRule = scheduleStatus.blockingRule;
+  const lockMessage = curfewRule
+    ? {
+        title: `${curfewRule.name} 🌙`,
+        message: `${describeScheduleBlock(scheduleStatus)} Quests still earn tokens for later.`,
+      }
+    : currentMessage;
+
+  // Loans only help when tokens are short, not during a curfew
+  const borrowOptions = curfewRule ? [] : getBorrowOptions(minTokensRequired - balance, availableCredit);
+
   // Lock icon rotation interpolation
   const lockRotation = lockIconAnim.interpolate({
     inputRange: [0, 1],
@@ -279,12 +326,14 @@ export const LockScreen = ({
               },
             ]}
           >
-            <Text style={styles.lockIcon}>🔒</Text>
+            <Text style={styles.lockIcon}>{curfewRule ? '🌙' : '🔒'}</Text>
           </Animated.View>
           
-          <Text style={styles.lockTitle}>Screen Time Locked</Text>
+          <Text style={styles.lockTitle}>{curfewRule ? 'Curfew Active' : 'Screen Time Locked'}</Text>
           <Text style={styles.lockSubtitle}>
-            Balance: {balance} tokens (Need {minTokensRequired} to continue)
+            {curfewRule
+              ? `Apps unlock at ${formatRuleTime(curfewRule.end_time)} (Balance: ${balance} tokens)`
+              : `Balance: ${balance} tokens (Need ${minTokensRequired} to continue)`}
           </Text>
           
           {timeSpentLocked > 0 && (
@@ -303,8 +352,8 @@ export const LockScreen = ({
             },
           ]}
         >
-          <Text style={styles.messageTitle}>{currentMessage.title}</Text>
-          <Text style={styles.messageText}>{currentMessage.message}</Text>
+          <Text style={styles.messageTitle}>{lockMessage.title}</Text>
+          <Text style={styles.messageText}>{lockMessage.message}</Text>
         </Animated.View>
 
         {/* Suggested Quests */}
@@ -323,6 +372,30 @@ export const LockScreen = ({
           </View>
         )}
 
+        {/* Borrow against future earnings (only when a parent allows it) */}
+        {borrowOptions.length > 0 && (
+          <View style={styles.borrowSection}>
+            <Text style={styles.borrowTitle}>💳 Borrow Tokens</Text>
+            <Text style={styles.borrowText}>
+              You can borrow up to {availableCredit} tokens
+              {debt > 0 ? ` (you already owe ${debt})` : ''}. Loans are paid back from what you earn next.
+            </Text>
+            <View style={styles.borrowOptions}>
+              {borrowOptions.map(amount => (
+                <TouchableOpacity
+                  key={amount}
+                  style={[styles.borrowButton, isBorrowing && styles.borrowButtonDisabled]}
+                  onPress={() => handleBorrow(amount)}
+                  disabled={isBorrowing}
+                  activeOpacity={0.8}
+                >
+                  <Text style={styles.borrowButtonText}>+{amount}</Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          </View>
+        )}
+
         {/* Action Buttons */}
         <View style={styles.actionsSection}>
           <Animated.View style={{ transform: [{ scale: pulseAnim }] }}>
@@ -534,6 +607,53 @@ const styles = StyleSheet.create({
     lineHeight: 18,
   } as TextStyle,
 
+  borrowSection: {
+    backgroundColor: colors.cardBg,
+    padding: 16,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: colors.accent,
+    marginVertical: 10,
+  } as ViewStyle,
+
+  borrowTitle: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: colors.accent,
+    marginBottom: 6,
+  } as TextStyle,
+
+  borrowText: {
+    fontSize: 13,
+    color: colors.textSecondary,
+    lineHeight: 18,
+    marginBottom: 12,
+  } as TextStyle,
+
+  borrowOptions: {
+    flexDirection: 'row',
+    gap: 10,
+  } as ViewStyle,
+
+  borrowButton: {
+    flex: 1,
+    paddingVertical: 10,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: colors.accent,
+    alignItems: 'center',
+  } as ViewStyle,
+
+  borrowButtonDisabled: {
+    opacity: 0.5,
+  } as ViewStyle,
+
+  borrowButtonText: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: colors.accent,
+  } as TextStyle,
+
   actionsSection: {
     alignItems: 'center',
     marginVertical: 20,
@@ -13,9 +13,37 @@ import {
 import { LineChart, BarChart } from 'react-native-chart-kit';
 import { RealtimeChannel } from '@supabase/supabase-js';
 import { useAuth, useWallet } from '../context';
-import { Transaction, Profile } from '../lib/types';
-import { dbHelpers, realtimeHelpers, getSupabaseClient } from '../lib/supabase';
-import { QuestManagement, RealTimeClock } from '../components';
+import {
+  Transaction,
+  Profile,
+  WalletException,
+  Allowance,
+  RewardRedemption,
+  CreditLine,
+  Loan,
+  TokenTransfer,
+  TransferSettings,
+  AppSession,
+  ClockEvent,
+} from '../lib/types';
+import { dbHelpers, walletHelpers, realtimeHelpers, getSupabaseClient } from '../lib/supabase';
+import { isCreditTransaction, TRANSACTION_TYPE_LABELS } from '../lib/utils';
+import { getOutstandingDebt } from '../lib/credit';
+import { describeAppSession, isAppSessionLive } from '../lib/appSessions';
+import { describeClockEvent } from '../lib/trustedClock';
+import {
+  QuestManagement,
+  AllowanceEditor,
+  BalanceAdjustment,
+  CreditLimitEditor,
+  PricingEditor,
+  AppCatalogEditor,
+  ScheduleRuleEditor,
+  SpendingCapEditor,
+  RewardsCatalogEditor,
+  TransferSettingsEditor,
+  RealTimeClock,
+} from '../components';
 
 const { width: screenWidth } = Dimensions.get('window');
 
@@ -46,6 +74,15 @@ const ParentDashboard = () => {
   const [selectedChildId, setSelectedChildId] = useState<string | null>(null);
   const [selectedChild, setSelectedChild] = useState<ChildProfile | null>(null);
   const [childTransactions, setChildTransactions] = useState<Transaction[]>([]);
+  const [childExceptions, setChildExceptions] = useState<WalletException[]>([]);
+  const [childAllowance, setChildAllowance] = useState<Allowance | null>(null);
+  const [childRedemptions, setChildRedemptions] = useState<RewardRedemption[]>([]);
+  const [childCreditLine, setChildCreditLine] = useState<CreditLine | null>(null);
+  const [childLoans, setChildLoans] = useState<Loan[]>([]);
+  const [childTransfers, setChildTransfers] = useState<TokenTransfer[]>([]);
+  const [childTransferSettings, setChildTransferSettings] = useState<TransferSettings | null>(null);
+  const [childSessions, setChildSessions] = useState<AppSession[]>([]);
+  const [childClockEvents, setChildClockEvents] = useState<ClockEvent[]>([]);
   
   // Loading and refresh states
   const [isLoading, setIsLoading] = useState(true);
@@ -54,6 +91,15 @@ const ParentDashboard = () => {
   
   // Quest management modal state
   const [showQuestManagement, setShowQuestManagement] = useState(false);
+  const [showAllowanceEditor, setShowAllowanceEditor] = useState(false);
+  const [showBalanceAdjustment, setShowBalanceAdjustment] = useState(false);
+  const [showCreditEditor, setShowCreditEditor] = useState(false);
+  const [showPricingEditor, setShowPricingEditor] = useState(false);
+  const [showAppCatalog, setShowAppCatalog] = useState(false);
+  const [showScheduleEditor, setShowScheduleEditor] = useState(false);
+  const [showCapEditor, setShowCapEditor] = useState(false);
+  const [showRewardsCatalog, setShowRewardsCatalog] = useState(false);
+  const [showTransferSettings, setShowTransferSettings] = useState(false);
   
   // Chart data
   const [earningSpendingData, setEarningSpendingData] = useState<ChartData | null>(null);
@@ -153,6 +199,42 @@ const ParentDashboard = () => {
       const transactions = await dbHelpers.getTransactions(childId, 50);
       setChildTransactions(transactions);
       
+      // Get unresolved overdrafts from offline spends
+      const exceptions = await dbHelpers.getWalletExceptions(childId);
+      setChildExceptions(exceptions);
+      
+      // Get allowance configuration
+      const allowance = await dbHelpers.getAllowance(childId);
+      setChildAllowance(allowance);
+      
+      // Get credit line and loans still being repaid
+      const [creditLine, loans] = await Promise.all([
+        dbHelpers.getCreditLine(childId),
+        dbHelpers.getOutstandingLoans(childId),
+      ]);
+      setChildCreditLine(creditLine);
+      setChildLoans(loans);
+      
+      // Get reward requests waiting for a decision
+      const redemptions = await dbHelpers.getRewardRedemptions(childId, 'pending');
+      setChildRedemptions(redemptions);
+      
+      // Get the transfer approval rule and transfers the child sent that wait for a decision
+      const [transferSettings, pendingTransfers] = await Promise.all([
+        dbHelpers.getTransferSettings(childId),
+        dbHelpers.getTokenTransfers(childId, 'pending'),
+      ]);
+      setChildTransferSettings(transferSettings);
+      setChildTransfers(pendingTransfers.filter(transfer => transfer.from_user_id === childId));
+      
+      // Get recent app sessions with how long each lasted, and any device clock tampering
+      const [sessions, clockEvents] = await Promise.all([
+        dbHelpers.getAppSessions(childId, 10),
+        dbHelpers.getClockEvents(childId, 10),
+      ]);
+      setChildSessions(sessions);
+      setChildClockEvents(clockEvents);
+      
       // Generate chart data
       generateChartData(transactions, childProfile);
       
@@ -175,17 +257,18 @@ const ParentDashboard = () => {
       return date.toISOString().split('T')[0];
     });
     
-    const earningData = last7Days.map(date => {
-      return transactions
-        .filter(t => t.type === 'earn' && t.timestamp.startsWith(date))
-        .reduce((sum, t) => sum + t.amount, 0);
-    });
+    const sumForDay = (date: string, ...types: Transaction['type'][]) => transactions
+      .filter(t => types.includes(t.type) && t.timestamp.startsWith(date))
+      .reduce((sum, t) => sum + t.amount, 0);
     
-    const spendingData = last7Days.map(date => {
-      return transactions
-        .filter(t => t.type === 'spend' && t.timestamp.startsWith(date))
-        .reduce((sum, t) => sum + t.amount, 0);
-    });
+    // Income only: refunds and parent adjustments are not earnings
+    const earningData = last7Days.map(date => sumForDay(date, 'earn', 'allowance'));
+    
+    // App usage net of refunds for failed launches
+    const spendingData = last7Days.map(date => Math.max(sumForDay(date, 'spend') - sumForDay(date, 'refund'), 0));
+    
+    // Net parent adjustments (credits minus penalties)
+    const adjustmentData = last7Days.map(date => sumForDay(date, 'adjustment') - sumForDay(date, 'penalty'));
     
     setEarningSpendingData({
       labels: last7Days.map(date => new Date(date).toLocaleDateString('en', { weekday: 'short' })),
@@ -200,6 +283,11 @@ const ParentDashboard = () => {
           color: (opacity = 1) => `rgba(231, 76, 60, ${opacity})`, // Red for spending
           strokeWidth: 2,
         },
+        {
+          data: adjustmentData,
+          color: (opacity = 1) => `rgba(241, 196, 15, ${opacity})`, // Yellow for parent adjustments
+          strokeWidth: 2,
+        },
       ],
     });
     
@@ -423,12 +511,110 @@ const ParentDashboard = () => {
   );
 
   /**
-   * Render management section with quest configuration
+   * Summarize the selected child's allowance for the management button
+   */
+  const describeAllowance = (): string => {
+    if (!childAllowance) {
+      return 'Give tokens automatically every day or week';
+    }
+    
+    const weekdays = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+    const when = childAllowance.cadence === 'daily'
+      ? 'every day'
+      : `every ${weekdays[childAllowance.day_of_week ?? 0]}`;
+    const status = childAllowance.is_active ? '' : ' (paused)';
+    
+    return `${childAllowance.amount} tokens ${when} at ${childAllowance.time_of_day.slice(0, 5)} ${childAllowance.timezone}${status}`;
+  };
+
+  /**
+   * Describe the selected child's credit line and debt for the management button
+   */
+  const describeCredit = (): string => {
+    const debt = getOutstandingDebt(childLoans);
+    
+    if (!childCreditLine) {
+      return 'Let them borrow tokens against future earnings';
+    }
+    
+    const status = childCreditLine.is_active ? `Up to ${childCreditLine.credit_limit} tokens` : 'Borrowing off';
+    
+    return debt > 0 ? `${status} · ${debt} owed` : status;
+  };
+
+  /**
+   * Summarise the child's transfer approval rule for the management button
+   */
+  const describeTransferSettings = (): string => {
+    if (!childTransferSettings) {
+      return 'Transfers to family go through right away';
+    }
+    
+    return `Approve transfers over ${childTransferSettings.approval_threshold} tokens`;
+  };
+
+  /**
+   * Render management section with quest, allowance, limit, pricing and schedule configuration
    */
   const renderManagementSection = () => (
     <View style={styles.managementSection}>
       <Text style={styles.sectionTitle}>Management</Text>
       <View style={styles.managementButtons}>
+        {selectedChild && (
+          <TouchableOpacity
+            style={styles.managementButton}
+            onPress={() => setShowAllowanceEditor(true)}
+          >
+            <Text style={styles.managementButtonText}>💰 Set Allowance</Text>
+            <Text style={styles.managementButtonSubtext}>
+              {describeAllowance()}
+            </Text>
+          </TouchableOpacity>
+        )}
+        {selectedChild && (
+          <TouchableOpacity
+            style={styles.managementButton}
+            onPress={() => setShowBalanceAdjustment(true)}
+          >
+            <Text style={styles.managementButtonText}>⚖️ Adjust Balance</Text>
+            <Text style={styles.managementButtonSubtext}>
+              Grant a bonus or deduct a penalty, with a reason
+            </Text>
+          </TouchableOpacity>
+        )}
+        {selectedChild && (
+          <TouchableOpacity
+            style={styles.managementButton}
+            onPress={() => setShowCreditEditor(true)}
+          >
+            <Text style={styles.managementButtonText}>💳 Credit Limit</Text>
+            <Text style={styles.managementButtonSubtext}>
+              {describeCredit()}
+            </Text>
+          </TouchableOpacity>
+        )}
+        {selectedChild && (
+          <TouchableOpacity
+            style={styles.managementButton}
+            onPress={() => setShowTransferSettings(true)}
+          >
+            <Text style={styles.managementButtonText}>🤝 Transfer Approval</Text>
+            <Text style={styles.managementButtonSubtext}>
+              {describeTransferSettings()}
+            </Text>
+          </TouchableOpacity>
+        )}
+        {selectedChild && (
+          <TouchableOpacity
+            style={styles.managementButton}
+            onPress={() => setShowCapEditor(true)}
+          >
+            <Text style={styles.managementButtonText}>⏳ Daily Limits</Text>
+            <Text style={styles.managementButtonSubtext}>
+              Cap minutes or tokens per day, overall or per category
+            </Text>
+          </TouchableOpacity>
+        )}
         <TouchableOpacity
           style={styles.managementButton}
           onPress={() => setShowQuestManagement(true)}
@@ -438,6 +624,42 @@ const ParentDashboard = () => {
             Create, edit, and configure quest rewards
           </Text>
         </TouchableOpacity>
+        <TouchableOpacity
+          style={styles.managementButton}
+          onPress={() => setShowAppCatalog(true)}
+        >
+          <Text style={styles.managementButtonText}>📱 App Catalog</Text>
+          <Text style={styles.managementButtonSubtext}>
+            Choose which apps your children can launch and what each costs
+          </Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={styles.managementButton}
+          onPress={() => setShowPricingEditor(true)}
+        >
+          <Text style={styles.managementButtonText}>🏷️ App Pricing</Text>
+          <Text style={styles.managementButtonSubtext}>
+            Set how many tokens per minute each app or category costs
+          </Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={styles.managementButton}
+          onPress={() => setShowScheduleEditor(true)}
+        >
+          <Text style={styles.managementButtonText}>🌙 Schedule & Curfew</Text>
+          <Text style={styles.managementButtonSubtext}>
+            Raise rates at certain hours or block apps overnight
+          </Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={styles.managementButton}
+          onPress={() => setShowRewardsCatalog(true)}
+        >
+          <Text style={styles.managementButtonText}>🎁 Rewards Catalog</Text>
+          <Text style={styles.managementButtonSubtext}>
+            Offer real-world rewards that children save tokens toward
+          </Text>
+        </TouchableOpacity>
       </View>
     </View>
   );
@@ -472,6 +694,11 @@ const ParentDashboard = () => {
             <Text style={styles.balanceUnit}>tokens</Text>
           </View>
         </View>
+        {getOutstandingDebt(childLoans) > 0 && (
+          <Text style={styles.debtText}>
+            💳 Owes {getOutstandingDebt(childLoans)} borrowed tokens, repaid from the next allowance or quest earnings
+          </Text>
+        )}
       </View>
     );
   };
@@ -523,6 +750,10 @@ const ParentDashboard = () => {
               <View style={[styles.legendColor, { backgroundColor: '#e74c3c' }]} />
               <Text style={styles.legendText}>Spent</Text>
             </View>
+            <View style={styles.legendItem}>
+              <View style={[styles.legendColor, { backgroundColor: '#f1c40f' }]} />
+              <Text style={styles.legendText}>Adjusted</Text>
+            </View>
           </View>
         </View>
         
@@ -543,6 +774,268 @@ const ParentDashboard = () => {
     );
   };
 
+  /**
+   * Mark an overdraft as reviewed
+   */
+  const handleResolveException = async (exceptionId: string) => {
+    if (!user) return;
+    
+    try {
+      await dbHelpers.resolveWalletException(exceptionId, user.id);
+      setChildExceptions(prev => prev.filter(exception => exception.id !== exceptionId));
+    } catch (error) {
+      console.error('Failed to resolve wallet exception:', error);
+      Alert.alert('Error', 'Failed to mark overdraft as reviewed. Please try again.');
+    }
+  };
+
+  /**
+   * Render overdrafts from offline spends the server could not fully charge
+   */
+  const renderWalletExceptions = () => {
+    if (childExceptions.length === 0) return null;
+    
+    return (
+      <View style={styles.transactionHistory}>
+        <Text style={styles.sectionTitle}>Offline Spending to Review</Text>
+        {childExceptions.map((exception) => (
+          <View key={exception.id} style={[styles.transactionItem, styles.exceptionItem]}>
+            <View style={styles.transactionInfo}>
+              <Text style={styles.transactionDescription}>
+                {exception.description}
+              </Text>
+              <Text style={styles.transactionTime}>
+                {formatTimestamp(exception.occurred_at)} · {exception.reason}
+              </Text>
+              <Text style={styles.transactionApp}>
+                Used {exception.requested_amount}, charged {exception.charged_amount}
+              </Text>
+            </View>
+            <View style={styles.transactionAmount}>
+              {exception.shortfall > 0 && (
+                <Text style={[styles.transactionAmountText, styles.spentAmount]}>
+                  -{exception.shortfall}
+                </Text>
+              )}
+              <TouchableOpacity onPress={() => handleResolveException(exception.id)}>
+                <Text style={styles.resolveButtonText}>Mark reviewed</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        ))}
+      </View>
+    );
+  };
+
+  /**
+   * Approve or reject a child's reward request after confirmation
+   * Rejecting reopens the goal; the saved tokens stay in it
+   */
+  const handleDecideRedemption = (redemption: RewardRedemption, approve: boolean) => {
+    const rewardName = redemption.reward?.name ?? 'this reward';
+    
+    Alert.alert(
+      approve ? 'Approve Reward' : 'Reject Reward',
+      approve
+        ? `Approve "${rewardName}" for ${redemption.token_cost} saved tokens?`
+        : `Reject "${rewardName}"? The saved tokens stay in the child's goal.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: approve ? 'Approve' : 'Reject',
+          style: approve ? 'default' : 'destructive',
+          onPress: async () => {
+            try {
+              await walletHelpers.decideRedemption(redemption.id, approve);
+              setChildRedemptions(prev => prev.filter(r => r.id !== redemption.id));
+            } catch (error) {
+              console.error('Failed to decide reward redemption:', error);
+              Alert.alert('Error', 'Failed to update the reward request. Please try again.');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  /**
+   * Render reward requests from fully saved goals
+   */
+  const renderRewardRequests = () => {
+    if (childRedemptions.length === 0) return null;
+    
+    return (
+      <View style={styles.transactionHistory}>
+        <Text style={styles.sectionTitle}>Reward Requests</Text>
+        {childRedemptions.map((redemption) => (
+          <View key={redemption.id} style={[styles.transactionItem, styles.redemptionItem]}>
+            <View style={styles.transactionInfo}>
+              <Text style={styles.transactionDescription}>
+                {redemption.reward?.icon ?? '🎁'} {redemption.reward?.name ?? 'Reward'}
+              </Text>
+              <Text style={styles.transactionTime}>
+                Requested {formatTimestamp(redemption.requested_at)}
+              </Text>
+              <Text style={styles.transactionApp}>
+                {redemption.token_cost} tokens saved
+              </Text>
+            </View>
+            <View style={styles.transactionAmount}>
+              <TouchableOpacity onPress={() => handleDecideRedemption(redemption, true)}>
+                <Text style={styles.approveButtonText}>Approve</Text>
+              </TouchableOpacity>
+              <TouchableOpacity onPress={() => handleDecideRedemption(redemption, false)}>
+                <Text style={[styles.resolveButtonText, styles.spentAmount]}>Reject</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        ))}
+      </View>
+    );
+  };
+
+  /**
+   * Name a family member by id: you, one of your children, or a short id
+   */
+  const describeFamilyMember = (memberId: string): string => {
+    if (memberId === user?.id) return 'you';
+    
+    const child = childProfiles.find(c => c.id === memberId);
+    return child?.name ?? `family member ${memberId.slice(0, 8)}`;
+  };
+
+  /**
+   * Approve or reject a child's pending transfer after confirmation
+   * Approval moves the tokens now, so it fails if the child has since spent them
+   */
+  const handleDecideTransfer = (transfer: TokenTransfer, approve: boolean) => {
+    const recipient = describeFamilyMember(transfer.to_user_id);
+    
+    Alert.alert(
+      approve ? 'Approve Transfer' : 'Reject Transfer',
+      approve
+        ? `Send ${transfer.amount} tokens to ${recipient}?`
+        : `Reject sending ${transfer.amount} tokens to ${recipient}? The tokens stay with the child.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: approve ? 'Approve' : 'Reject',
+          style: approve ? 'default' : 'destructive',
+          onPress: async () => {
+            try {
+              await walletHelpers.decideTransfer(transfer.id, approve);
+              setChildTransfers(prev => prev.filter(t => t.id !== transfer.id));
+            } catch (error) {
+              console.error('Failed to decide token transfer:', error);
+              Alert.alert('Error', error instanceof Error ? error.message : 'Failed to update the transfer. Please try again.');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  /**
+   * Render transfers above the approval threshold waiting for a decision
+   */
+  const renderTransferRequests = () => {
+    if (childTransfers.length === 0) return null;
+    
+    return (
+      <View style={styles.transactionHistory}>
+        <Text style={styles.sectionTitle}>Transfer Requests</Text>
+        {childTransfers.map((transfer) => (
+          <View key={transfer.id} style={[styles.transactionItem, styles.redemptionItem]}>
+            <View style={styles.transactionInfo}>
+              <Text style={styles.transactionDescription}>
+                🤝 {transfer.amount} tokens to {describeFamilyMember(transfer.to_user_id)}
+              </Text>
+              <Text style={styles.transactionTime}>
+                Requested {formatTimestamp(transfer.requested_at)}
+              </Text>
+              {transfer.note && (
+                <Text style={styles.transactionApp}>"{transfer.note}"</Text>
+              )}
+            </View>
+            <View style={styles.transactionAmount}>
+              <TouchableOpacity onPress={() => handleDecideTransfer(transfer, true)}>
+                <Text style={styles.approveButtonText}>Approve</Text>
+              </TouchableOpacity>
+              <TouchableOpacity onPress={() => handleDecideTransfer(transfer, false)}>
+                <Text style={[styles.resolveButtonText, styles.spentAmount]}>Reject</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        ))}
+      </View>
+    );
+  };
+
+  /**
+   * Describe the other family member on a transfer
+   */
+  const describeCounterparty = (transaction: Transaction): string | null => {
+    if (!transaction.counterparty_id) return null;
+    
+    const name = describeFamilyMember(transaction.counterparty_id);
+    return transaction.type === 'transfer_out' ? `To ${name}` : `From ${name}`;
+  };
+
+  /**
+   * Describe who made a manual adjustment or penalty
+   */
+  const describeAdjustedBy = (transaction: Transaction): string | null => {
+    if (!transaction.created_by) return null;
+    
+    return transaction.created_by === user?.id ? 'By you' : 'By another parent';
+  };
+
+  /**
+   * Render recent app sessions, including the one in progress, and device clock warnings
+   */
+  const renderSessionHistory = () => (
+    <View style={styles.transactionHistory}>
+      <Text style={styles.sectionTitle}>Recent App Sessions</Text>
+      {childSessions.length === 0 ? (
+        <Text style={styles.emptyText}>No app sessions yet</Text>
+      ) : (
+        childSessions.map((session) => (
+          <View key={session.id} style={styles.transactionItem}>
+            <View style={styles.transactionInfo}>
+              <Text style={styles.transactionDescription}>
+                {isAppSessionLive(session) ? '▶️' : '⏹️'} {session.app_name}
+              </Text>
+              <Text style={styles.transactionTime}>
+                Started {formatTimestamp(session.started_at)}
+              </Text>
+              <Text style={styles.transactionApp}>{describeAppSession(session)}</Text>
+              {childClockEvents.some(event => event.session_id === session.id) && (
+                <Text style={styles.transactionApp}>⚠️ Device clock changed during this session</Text>
+              )}
+            </View>
+          </View>
+        ))
+      )}
+
+      {childClockEvents.length > 0 && (
+        <>
+          <Text style={styles.sectionTitle}>Clock Warnings</Text>
+          {childClockEvents.map((event) => (
+            <View key={event.id} style={styles.transactionItem}>
+              <View style={styles.transactionInfo}>
+                <Text style={styles.transactionDescription}>
+                  ⚠️ {describeClockEvent(event.kind, event.skew_seconds)}
+                </Text>
+                <Text style={styles.transactionTime}>{formatTimestamp(event.detected_at)}</Text>
+                <Text style={styles.transactionApp}>Sessions were billed on server time</Text>
+              </View>
+            </View>
+          ))}
+        </>
+      )}
+    </View>
+  );
+
   /**
    * Render transaction history
    */
@@ -564,18 +1057,24 @@ const ParentDashboard = () => {
               {transaction.app_name && (
                 <Text style={styles.transactionApp}>App: {transaction.app_name}</Text>
               )}
+              {describeAdjustedBy(transaction) && (
+                <Text style={styles.transactionApp}>{describeAdjustedBy(transaction)}</Text>
+              )}
+              {describeCounterparty(transaction) && (
+                <Text style={styles.transactionApp}>{describeCounterparty(transaction)}</Text>
+              )}
             </View>
             <View style={styles.transactionAmount}>
               <Text
                 style={[
                   styles.transactionAmountText,
-                  transaction.type === 'earn' ? styles.earnedAmount : styles.spentAmount,
+                  isCreditTransaction(transaction.type) ? styles.earnedAmount : styles.spentAmount,
                 ]}
               >
-                {transaction.type === 'earn' ? '+' : '-'}{transaction.amount}
+                {isCreditTransaction(transaction.type) ? '+' : '-'}{transaction.amount}
               </Text>
               <Text style={styles.transactionType}>
-                {transaction.type === 'earn' ? 'earned' : 'spent'}
+                {TRANSACTION_TYPE_LABELS[transaction.type]}
               </Text>
             </View>
           </View>
@@ -640,7 +1139,11 @@ const ParentDashboard = () => {
       {renderChildSelector()}
       {renderBalanceOverview()}
       {renderManagementSection()}
+      {renderRewardRequests()}
+      {renderTransferRequests()}
+      {renderWalletExceptions()}
       {renderAnalytics()}
+      {renderSessionHistory()}
       {renderTransactionHistory()}
       
       {/* Quest Management Modal */}
@@ -648,6 +1151,86 @@ const ParentDashboard = () => {
         visible={showQuestManagement}
         onClose={() => setShowQuestManagement(false)}
       />
+      
+      {/* App Catalog Modal */}
+      <AppCatalogEditor
+        visible={showAppCatalog}
+        onClose={() => setShowAppCatalog(false)}
+      />
+      
+      {/* App Pricing Modal */}
+      <PricingEditor
+        visible={showPricingEditor}
+        onClose={() => setShowPricingEditor(false)}
+      />
+      
+      {/* Schedule Rules Modal */}
+      <ScheduleRuleEditor
+        visible={showScheduleEditor}
+        onClose={() => setShowScheduleEditor(false)}
+      />
+      
+      {/* Rewards Catalog Modal */}
+      <RewardsCatalogEditor
+        visible={showRewardsCatalog}
+        onClose={() => setShowRewardsCatalog(false)}
+      />
+      
+      {/* Allowance Editor Modal */}
+      {selectedChild && (
+        <AllowanceEditor
+          visible={showAllowanceEditor}
+          childId={selectedChild.id}
+          childName={selectedChild.name}
+          onClose={() => setShowAllowanceEditor(false)}
+          onSaved={setChildAllowance}
+        />
+      )}
+      
+      {/* Balance Adjustment Modal */}
+      {selectedChild && (
+        <BalanceAdjustment
+          visible={showBalanceAdjustment}
+          childId={selectedChild.id}
+          childName={selectedChild.name}
+          currentBalance={selectedChild.balance}
+          onClose={() => setShowBalanceAdjustment(false)}
+          onAdjusted={() => loadChildData(selectedChild.id)}
+        />
+      )}
+      
+      {/* Credit Limit Modal */}
+      {selectedChild && (
+        <CreditLimitEditor
+          visible={showCreditEditor}
+          childId={selectedChild.id}
+          childName={selectedChild.name}
+          currentDebt={getOutstandingDebt(childLoans)}
+          onClose={() => setShowCreditEditor(false)}
+          onSaved={setChildCreditLine}
+        />
+      )}
+      
+      {/* Transfer Approval Modal */}
+      {selectedChild && (
+        <TransferSettingsEditor
+          visible={showTransferSettings}
+          childId={selectedChild.id}
+          childName={selectedChild.name}
+          onClose={() => setShowTransferSettings(false)}
+          onSaved={setChildTransferSettings}
+        />
+      )}
+      
+      {/* Daily Limits Modal */}
+      {selectedChild && (
+        <SpendingCapEditor
+          visible={showCapEditor}
+          childId={selectedChild.id}
+          childName={selectedChild.name}
+          onClose={() => setShowCapEditor(false)}
+        />
+      )}
     </ScrollView>
   );
 };
@@ -803,6 +1386,12 @@ const styles = StyleSheet.create({
   spentValue: {
     color: '#e74c3c',
   },
+  debtText: {
+    color: '#f39c12',
+    fontSize: 13,
+    marginTop: 10,
+    textAlign: 'center',
+  },
   balanceUnit: {
     color: '#8892b0',
     fontSize: 10,
@@ -927,6 +1516,23 @@ const styles = StyleSheet.create({
     fontSize: 10,
     marginTop: 2,
   },
+  exceptionItem: {
+    borderColor: '#e74c3c',
+  },
+  resolveButtonText: {
+    color: '#00d4ff',
+    fontSize: 11,
+    fontWeight: '600',
+    marginTop: 4,
+  },
+  redemptionItem: {
+    borderColor: '#2ecc71',
+  },
+  approveButtonText: {
+    color: '#2ecc71',
+    fontSize: 13,
+    fontWeight: '600',
+  },
   
   // State Styles
   loadingText: {
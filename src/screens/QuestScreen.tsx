@@ -45,7 +45,7 @@ export const QuestScreen = ({
   onQuestComplete,
 }: QuestScreenProps) => {
   const { hasRole } = useAuth();
-  const { balance, earnTokens } = useWallet();
+  const { balance, completeQuest } = useWallet();
   
   // Component state
   const [questTypes, setQuestTypes] = useState<QuestType[]>([]);
@@ -194,38 +194,23 @@ export const QuestScreen = ({
     setShowCamera(true);
   };
 
-  const handleQuestComplete = async (success: boolean, tokensEarned?: number) => {
-    setShowCamera(false);
-    const completedQuest = selectedQuest;
-    setSelectedQuest(null);
-
+  // QuestCam has already been paid the quest's reward by the time it reports success
+  const showQuestResult = (completedQuest: QuestType | null, success: boolean, tokensEarned?: number) => {
     if (success && tokensEarned && completedQuest) {
-      try {
-        // Award tokens to the user
-        await earnTokens(tokensEarned, `Quest completed: ${completedQuest.name}`, 'demo-completion');
-        
-        // Show success feedback
-        Alert.alert(
-          '🎉 Quest Complete!',
-          `Congratulations! You earned ${tokensEarned} tokens for completing "${completedQuest.name}".\n\nYour new balance will be updated shortly.`,
-          [
-            {
-              text: 'Continue',
-              onPress: () => {
-                onQuestComplete?.(tokensEarned);
-                console.log(`Quest completed: ${completedQuest.name}, tokens earned: ${tokensEarned}`);
-              },
+      // Show success feedback
+      Alert.alert(
+        '🎉 Quest Complete!',
+        `Congratulations! You earned ${tokensEarned} tokens for completing "${completedQuest.name}".\n\nYour new balance will be updated shortly.`,
+        [
+          {
+            text: 'Continue',
+            onPress: () => {
+              onQuestComplete?.(tokensEarned);
+              console.log(`Quest completed: ${completedQuest.name}, tokens earned: ${tokensEarned}`);
             },
-          ]
-        );
-      } catch (error) {
-        console.error('Error awarding tokens:', error);
-        Alert.alert(
-          'Error',
-          'Quest completed but there was an issue awarding tokens. Please try again.',
-          [{ text: 'OK' }]
-        );
-      }
+          },
+        ]
+      );
     } else {
       // Show failure feedback with encouragement
       Alert.alert(
@@ -239,6 +224,13 @@ export const QuestScreen = ({
     }
   };
 
+  const handleQuestComplete = (success: boolean, tokensEarned?: number) => {
+    setShowCamera(false);
+    const completedQuest = selectedQuest;
+    setSelectedQuest(null);
+    showQuestResult(completedQuest, success, tokensEarned);
+  };
+
   const handleCameraCancel = () => {
     setShowCamera(false);
     setSelectedQuest(null);
@@ -258,9 +250,19 @@ export const QuestScreen = ({
           {
             text: 'Mark as Complete',
             onPress: async () => {
-              // Simulate successful completion
-              setSelectedQuest(quest); // Set the selected quest for the completion handler
-              await handleQuestComplete(true, quest.token_reward);
+              // Simulate a parent approving the quest; the server pays it like any other completion
+              try {
+                await completeQuest(quest, 'web-simulated-completion', 'parent');
+              } catch (error) {
+                console.error('Error awarding tokens:', error);
+                Alert.alert(
+                  'Error',
+                  'Quest completed but there was an issue awarding tokens. Please try again.',
+                  [{ text: 'OK' }]
+                );
+                return;
+              }
+              showQuestResult(quest, true, quest.token_reward);
             },
           },
         ]
@@ -3,7 +3,7 @@
  * User settings and preferences interface
  */
 
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import {
   View,
   Text,
@@ -11,6 +11,7 @@ import {
   ScrollView,
   TouchableOpacity,
   Switch,
+  TextInput,
   Alert,
   ViewStyle,
   TextStyle,
@@ -19,6 +20,19 @@ import {
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { useAuth } from '../context/AuthContext';
 import { useWallet } from '../context/WalletContext';
+import {
+  DEFAULT_WARNING_SETTINGS,
+  WRAP_UP_SECONDS,
+  parseWarningThresholds,
+  warningSettingsHelpers,
+} from '../lib/sessionWarnings';
+import {
+  DEFAULT_WEB_IDLE_SETTINGS,
+  STILL_WATCHING_GRACE_SECONDS,
+  STILL_WATCHING_OPTIONS,
+  webIdleSettingsHelpers,
+} from '../lib/webIdle';
+import { SessionWarningSettings, WebIdleSettings } from '../lib/types';
 
 // Cyberpunk color scheme
 const colors = {
@@ -42,6 +56,60 @@ export const SettingsScreen = () => {
   const [soundEffects, setSoundEffects] = useState(true);
   const [animations, setAnimations] = useState(true);
   const [parentalControls, setParentalControls] = useState(true);
+  const [warningSettings, setWarningSettings] = useState<SessionWarningSettings>(DEFAULT_WARNING_SETTINGS);
+  const [thresholdText, setThresholdText] = useState(DEFAULT_WARNING_SETTINGS.thresholdMinutes.join(', '));
+  const [thresholdError, setThresholdError] = useState<string | null>(null);
+  const [webIdleSettings, setWebIdleSettings] = useState<WebIdleSettings>(DEFAULT_WEB_IDLE_SETTINGS);
+
+  // Load the session warning and web idle settings saved on this device
+  useEffect(() => {
+    warningSettingsHelpers.load().then(loaded => {
+      setWarningSettings(loaded);
+      setThresholdText(loaded.thresholdMinutes.join(', '));
+    });
+    webIdleSettingsHelpers.load().then(setWebIdleSettings);
+  }, []);
+
+  const saveWarningSettings = async (next: SessionWarningSettings) => {
+    setWarningSettings(next);
+    try {
+      await warningSettingsHelpers.save(next);
+    } catch (error) {
+      Alert.alert('Error', 'Failed to save warning settings. Please try again.');
+    }
+  };
+
+  const saveWebIdleSettings = async (next: WebIdleSettings) => {
+    setWebIdleSettings(next);
+    try {
+      await webIdleSettingsHelpers.save(next);
+    } catch (error) {
+      Alert.alert('Error', 'Failed to save playback settings. Please try again.');
+    }
+  };
+
+  const handleWarningNotificationsChange = async (notify: boolean) => {
+    if (notify && !(await warningSettingsHelpers.requestPermission())) {
+      Alert.alert(
+        'Notifications Blocked',
+        Platform.OS === 'web'
+          ? 'Allow notifications for this site to get warnings while in other apps.'
+          : 'Allow notifications for Aether in your device settings to get warnings while in other apps.'
+      );
+    }
+    await saveWarningSettings({ ...warningSettings, notify });
+  };
+
+  const handleThresholdsSubmit = async () => {
+    try {
+      const thresholdMinutes = parseWarningThresholds(thresholdText);
+      setThresholdError(null);
+      setThresholdText(thresholdMinutes.join(', '));
+      await saveWarningSettings({ ...warningSettings, thresholdMinutes });
+    } catch (error) {
+      setThresholdError(error instanceof Error ? error.message : 'Invalid warning times');
+    }
+  };
 
   const handleSignOut = () => {
     Alert.alert(
@@ -130,6 +198,78 @@ export const SettingsScreen = () => {
     </TouchableOpacity>
   );
 
+  const renderSessionWarningItems = () => (
+    <>
+      <SettingItem
+        title="Time Warnings"
+        subtitle="Warn before your tokens or prepaid time run out"
+        value={warningSettings.enabled}
+        onValueChange={(enabled) => saveWarningSettings({ ...warningSettings, enabled })}
+      />
+      <SettingItem
+        title="Warning Notifications"
+        subtitle="Also notify you while you are in another app"
+        value={warningSettings.notify}
+        onValueChange={handleWarningNotificationsChange}
+      />
+      <View style={styles.settingItem}>
+        <View style={styles.settingContent}>
+          <Text style={styles.settingTitle}>Warn At (minutes left)</Text>
+          <Text style={styles.settingSubtitle}>
+            Apps then get a {WRAP_UP_SECONDS}-second countdown before they lock
+          </Text>
+          {thresholdError && <Text style={styles.errorText}>{thresholdError}</Text>}
+        </View>
+        <TextInput
+          style={styles.thresholdInput}
+          value={thresholdText}
+          onChangeText={setThresholdText}
+          onBlur={handleThresholdsSubmit}
+          onSubmitEditing={handleThresholdsSubmit}
+          editable={warningSettings.enabled}
+          placeholder="5, 2, 1"
+          placeholderTextColor={colors.textSecondary}
+          keyboardType="numbers-and-punctuation"
+        />
+      </View>
+    </>
+  );
+
+  const renderWebIdleItems = () => (
+    <>
+      <SettingItem
+        title="Pause When Away"
+        subtitle="Stop using tokens while the app window is in the background"
+        value={webIdleSettings.pauseWhenAway}
+        onValueChange={(pauseWhenAway) => saveWebIdleSettings({ ...webIdleSettings, pauseWhenAway })}
+      />
+      <View style={styles.settingItem}>
+        <View style={styles.settingContent}>
+          <Text style={styles.settingTitle}>Ask "Still Watching?"</Text>
+          <Text style={styles.settingSubtitle}>
+            Pauses if nobody answers within {STILL_WATCHING_GRACE_SECONDS} seconds
+          </Text>
+          <View style={styles.optionRow}>
+            {STILL_WATCHING_OPTIONS.map((minutes) => {
+              const selected = webIdleSettings.stillWatchingMinutes === minutes;
+              return (
+                <TouchableOpacity
+                  key={minutes}
+                  style={[styles.optionChip, selected && styles.optionChipSelected]}
+                  onPress={() => saveWebIdleSettings({ ...webIdleSettings, stillWatchingMinutes: minutes })}
+                >
+                  <Text style={[styles.optionChipText, selected && styles.optionChipTextSelected]}>
+                    {minutes === 0 ? 'Never' : `${minutes} min`}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+        </View>
+      </View>
+    </>
+  );
+
   return (
     <SafeAreaView style={styles.container}>
       {/* Platform-specific scrolling solution */}
@@ -203,6 +343,32 @@ export const SettingsScreen = () => {
               </div>
             </div>
 
+            {/* Session Warnings */}
+            <div style={{ marginBottom: '24px' }}>
+              <Text style={styles.sectionTitle}>Session Warnings</Text>
+              <div style={{
+                backgroundColor: '#1a1a2e',
+                margin: '0 0 0 0',
+                borderRadius: '12px',
+                border: '1px solid #00ffff',
+              }}>
+                {renderSessionWarningItems()}
+              </div>
+            </div>
+
+            {/* Web Playback: apps open in browser windows only on web */}
+            <div style={{ marginBottom: '24px' }}>
+              <Text style={styles.sectionTitle}>Web Playback</Text>
+              <div style={{
+                backgroundColor: '#1a1a2e',
+                margin: '0 0 0 0',
+                borderRadius: '12px',
+                border: '1px solid #00ffff',
+              }}>
+                {renderWebIdleItems()}
+              </div>
+            </div>
+
             {/* Parental Controls */}
             <div style={{ marginBottom: '24px' }}>
               <Text style={styles.sectionTitle}>Parental Controls</Text>
@@ -355,6 +521,14 @@ export const SettingsScreen = () => {
             </View>
           </View>
 
+          {/* Session Warnings */}
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Session Warnings</Text>
+            <View style={styles.settingsCard}>
+              {renderSessionWarningItems()}
+            </View>
+          </View>
+
           {/* Parental Controls */}
           <View style={styles.section}>
             <Text style={styles.sectionTitle}>Parental Controls</Text>
@@ -548,6 +722,56 @@ const styles = StyleSheet.create({
     justifyContent: 'center',
   } as ViewStyle,
 
+  thresholdInput: {
+    minWidth: 90,
+    backgroundColor: colors.background,
+    borderWidth: 1,
+    borderColor: colors.primary,
+    borderRadius: 8,
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    marginLeft: 12,
+    color: colors.text,
+    fontSize: 14,
+    textAlign: 'center',
+  } as TextStyle,
+
+  errorText: {
+    fontSize: 12,
+    color: colors.error,
+    marginTop: 4,
+  } as TextStyle,
+
+  optionRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginTop: 8,
+  } as ViewStyle,
+
+  optionChip: {
+    borderWidth: 1,
+    borderColor: colors.textSecondary,
+    borderRadius: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 4,
+  } as ViewStyle,
+
+  optionChipSelected: {
+    borderColor: colors.primary,
+    backgroundColor: 'rgba(0, 255, 255, 0.15)',
+  } as ViewStyle,
+
+  optionChipText: {
+    fontSize: 13,
+    color: colors.textSecondary,
+  } as TextStyle,
+
+  optionChipTextSelected: {
+    color: colors.primary,
+    fontWeight: '600',
+  } as TextStyle,
+
   arrow: {
     fontSize: 24,
     color: colors.textSecondary,